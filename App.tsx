@@ -1,20 +1,39 @@
 
 import React, { useState, useCallback, useEffect, Suspense } from 'react';
-import type { RenderHistoryItem, SourceImage, EditHistoryItem, GeneratedPrompts, RenderTabState } from './types';
-import { generateImages, upscaleImage, convertToSketchyStyle, analyzeLayout3DPrompt, convertToStyle, updateGeminiApiKey, updatePreferredModel } from './services/geminiService';
+import type { RenderHistoryItem, SourceImage, EditHistoryItem, GeneratedPrompts, RenderTabState, HistoryPreview, GenerationManifest, PresetConfig, PromptSpec } from './types';
+import { generateImagesWithManifest, manifestToRerunInput, variationInput, MAX_SEED, RenderManifestInput, upscaleImage, convertToSketchyStyle, analyzeLayout3DPrompt, convertToStyle, updateGeminiApiKey, updatePreferredModel, isAbortError } from './services/geminiService';
+import { isLocalStandInEnabled } from './services/localStandIn';
+import { getProxyUrl } from './services/apiProxy';
+import { fetchCurrentAccount, isDirectoryAvailable } from './services/userDirectory';
+import { setUsageTab, useGeneratedImageCount } from './services/usageLedger';
+import { usePermissions, setCurrentRole } from './services/permissions';
+import { MODEL_CHOICES, AppTabId, isUserRole } from './services/rolePermissions';
+import { runJob, useJobs, isJobActive } from './services/jobQueue';
+import { useHistoryList, getRenderHistoryItem, getEditHistoryItem, getProjectSources, saveProjectSource, HistoryListState } from './services/historyStore';
+import { useProjects, updateProject } from './services/projectStore';
+import { readImageMetadata } from './services/imageMetadata';
+import { emptyPromptSpec, parseNegatives, promptSpecFromText, VariationStrength } from './services/promptBuilder';
 import { Icon } from './components/icons';
 import { ToastProvider, useToast } from './components/Toast';
-import { Section, ImageUpload, ReferenceImageUpload, ResultDisplay, ImageViewerModal, VisualAngleSelector, Footer, UserGuideModal, ApiKeyModal, selectCommonStyles, CreativitySlider, ImageCompareSlider } from './components/Shared';
+import { Section, ImageUpload, ReferenceImageUpload, ResultDisplay, ImageViewerModal, VisualAngleSelector, Footer, UserGuideModal, ApiKeyModal, selectCommonStyles, CreativitySlider, ImageCompareSlider, SettingsDropZone } from './components/Shared';
 import { useLanguage, Language } from './components/LanguageContext';
 import { HistoryPanel } from './components/HistoryPanel';
 import { EditHistoryPanel } from './components/EditHistoryPanel';
 import { MasterplanTo3D } from './components/MasterplanTo3D';
+import { JobsDrawer } from './components/JobsDrawer';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { BatchRender, BatchConfig } from './components/BatchRender';
+import { ParameterSweep, SweepAxis } from './components/ParameterSweep';
+import { PresetLibrary } from './components/PresetLibrary';
+import { NegativePromptField, PromptInspector } from './components/PromptInspector';
 import { Login } from './components/Login';
 
 // Lazy Load Heavy Components
 const ImageEditor = React.lazy(() => import('./components/ImageEditor').then(module => ({ default: module.ImageEditor })));
 const UtilitiesTab = React.lazy(() => import('./components/UtilitiesTab').then(module => ({ default: module.UtilitiesTab })));
 const VirtualTourTab = React.lazy(() => import('./components/VirtualTourTab'));
+const AdminConsole = React.lazy(() => import('./components/AdminConsole'));
+const UsageDashboard = React.lazy(() => import('./components/UsageDashboard'));
 
 type RenderTab = 'exterior' | 'interior' | 'masterplan' | 'floorplan';
 type AppTab = RenderTab | 'virtual_tour' | 'edit' | 'utilities';
@@ -28,8 +47,35 @@ const initialTabState: RenderTabState = {
   selectedImageIndex: 0,
   useSketchyStyle: true,
   creativityLevel: 3, // Default 60% creativity
+  negativePrompt: '',
+  manifest: null,
 };
 
+const createInitialTabStates = (): Record<RenderTab, RenderTabState> => ({
+  exterior: { ...initialTabState, useSketchyStyle: false },
+  interior: { ...initialTabState, useSketchyStyle: true },
+  masterplan: { ...initialTabState, useSketchyStyle: false },
+  floorplan: { ...initialTabState, useSketchyStyle: false },
+});
+
+// Exterior prompt: a fixed base plus whichever options are set. The parameter sweep reuses it per cell.
+type ExteriorPromptOptions = { custom: string; context: string; lighting: string; tone: string; weather: string };
+
+const buildExteriorPrompt = (options: ExteriorPromptOptions) =>
+  ['Ảnh chụp thực tế công trình', options.custom, options.context, options.lighting, options.tone, options.weather]
+    .filter(p => p && p.trim() !== '')
+    .join(', ');
+
+// The same form as a structured prompt, which is what generation uses (services/promptBuilder.ts)
+const buildExteriorPromptSpec = (options: ExteriorPromptOptions, negatives: string[]): PromptSpec => ({
+  ...emptyPromptSpec(),
+  subject: ['Ảnh chụp thực tế công trình', options.custom].filter(p => p && p.trim() !== '').join(', '),
+  context: options.context,
+  lighting: [options.lighting, options.weather].filter(Boolean).join(', '),
+  style: options.tone,
+  negatives
+});
+
 const LoadingFallback = () => (
   <div className="flex items-center justify-center min-h-[400px] w-full bg-[var(--bg-surface-1)] rounded-xl border border-[var(--border-1)]">
     <div className="flex flex-col items-center gap-4">
@@ -179,22 +225,26 @@ function AppContent() {
   const [editHistoryItemToRestore, setEditHistoryItemToRestore] = useState<EditHistoryItem | null>(null);
   const [theme, setTheme] = useState<Theme>('architecture');
   const [isThemeSelectorOpen, setIsThemeSelectorOpen] = useState(false);
-  const { addToast } = useToast();
-  const [imageCount, setImageCount] = useState(0);
+  const { addToast, addErrorToast } = useToast();
   const { t, language, setLanguage } = useLanguage();
   const [isUserGuideOpen, setIsUserGuideOpen] = useState(false);
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
   const [selectedModel, setSelectedModel] = useState(localStorage.getItem('cpgvn_preferred_model') || 'gemini-2.0-flash-exp');
 
   const handleModelChange = (modelId: string) => {
+    try {
+      updatePreferredModel(modelId);
+    } catch (error) {
+      addErrorToast(error);
+      return;
+    }
     setSelectedModel(modelId);
-    updatePreferredModel(modelId);
     addToast({ type: 'info', title: 'Model Updated', message: `Using ${modelId.includes('imagen') ? 'Imagen 3' : 'Gemini 2.0'}` });
   };
 
   useEffect(() => {
     const key = localStorage.getItem('cpgvn_gemini_api_key');
-    if (!key) {
+    if (!key && !getProxyUrl() && !isLocalStandInEnabled()) {
       setIsApiKeyModalOpen(true);
     }
   }, []);
@@ -205,15 +255,33 @@ function AppContent() {
     addToast({ type: 'success', title: 'Success', message: t('api_key_success') });
   };
 
-  const RENDER_HISTORY_LIMIT = 5;
-  const EDIT_HISTORY_LIMIT = 3;
 
-  const [tabStates, setTabStates] = useState<Record<RenderTab, RenderTabState>>({
-    exterior: { ...initialTabState, useSketchyStyle: false },
-    interior: { ...initialTabState, useSketchyStyle: true },
-    masterplan: { ...initialTabState, useSketchyStyle: false },
-    floorplan: { ...initialTabState, useSketchyStyle: false },
-  });
+  const [tabStates, setTabStates] = useState<Record<RenderTab, RenderTabState>>(createInitialTabStates);
+
+  // Everything below (sources, histories) belongs to the active project
+  const { activeProject } = useProjects();
+  const projectId = activeProject.id;
+
+  // Switching project starts from a clean slate and restores that project's uploaded sources
+  useEffect(() => {
+    let cancelled = false;
+    setTabStates(createInitialTabStates());
+    getProjectSources(projectId).then(sources => {
+      if (cancelled) return;
+      setTabStates(prev => {
+        const next = { ...prev };
+        (Object.keys(sources) as RenderTab[]).forEach(tab => {
+          if (next[tab]) next[tab] = { ...next[tab], sourceImage: sources[tab] };
+        });
+        return next;
+      });
+    }).catch(error => console.error("Failed to load project sources:", error));
+    return () => { cancelled = true; };
+  }, [projectId]);
+
+  const persistTabSource = useCallback((tab: RenderTab, image: SourceImage | null) => {
+    saveProjectSource(projectId, tab, image).catch(error => console.error("Failed to save project source:", error));
+  }, [projectId]);
 
   const [isSliceOn, setIsSliceOn] = useState(true);
   const [isExteriorSliceOn, setIsExteriorSliceOn] = useState(true);
@@ -240,6 +308,8 @@ function AppContent() {
 
   const [numImages, setNumImages] = useState(4);
   const [aspectRatio, setAspectRatio] = useState('Auto');
+  const [fixedSeed, setFixedSeed] = useState('');  // digits only; empty picks a random seed per render
+  const seed = fixedSeed === '' ? undefined : Number(fixedSeed) % MAX_SEED;
 
   // Exterior prompts state
   const [exteriorCustomPrompt, setExteriorCustomPrompt] = useState('');
@@ -270,16 +340,62 @@ function AppContent() {
   const [anglePrompt, setAnglePrompt] = useState("");
   const angleSectionRef = React.useRef<HTMLDivElement>(null);
 
-  const [exteriorHistory, setExteriorHistory] = useState<RenderHistoryItem[]>([]);
-  const [interiorHistory, setInteriorHistory] = useState<RenderHistoryItem[]>([]);
-  const [masterplanHistory, setMasterplanHistory] = useState<RenderHistoryItem[]>([]);
-  const [floorplanHistory, setFloorplanHistory] = useState<RenderHistoryItem[]>([]);
-  const [editHistory, setEditHistory] = useState<EditHistoryItem[]>([]);
-  const [utilitiesHistory, setUtilitiesHistory] = useState<RenderHistoryItem[]>([]);
-  const [presentationBoardHistory, setPresentationBoardHistory] = useState<RenderHistoryItem[]>([]);
-  const [diagramHistory, setDiagramHistory] = useState<RenderHistoryItem[]>([]);
+  // Histories live in IndexedDB (services/historyStore.ts); these hold the loaded pages of previews
+  const exteriorHistory = useHistoryList('exteriorRenderHistory', projectId);
+  const interiorHistory = useHistoryList('interiorRenderHistory', projectId);
+  const masterplanHistory = useHistoryList('masterplanHistory', projectId);
+  const floorplanHistory = useHistoryList('floorplanHistory', projectId);
+  const editHistory = useHistoryList('editHistory', projectId);
+  const utilitiesHistory = useHistoryList('utilitiesHistory', projectId);
+  const presentationBoardHistory = useHistoryList('presentationBoardHistory', projectId);
+  const diagramHistory = useHistoryList('diagramHistory', projectId);
+  const tourHistory = useHistoryList('tourHistory', projectId);
+  const renderHistories: Record<RenderTab, HistoryListState> = { exterior: exteriorHistory, interior: interiorHistory, masterplan: masterplanHistory, floorplan: floorplanHistory };
+
+  // Generation runs through the job queue, so each render tab has its own in-flight state
+  const jobs = useJobs();
+  const [isJobsDrawerOpen, setIsJobsDrawerOpen] = useState(false);
+  const generationAbortRefs = React.useRef<Partial<Record<RenderTab, AbortController>>>({});
+  const isTabGenerating = (tab: RenderTab) => jobs.some(job => job.source === tab && isJobActive(job) && generationAbortRefs.current[tab] !== undefined);
+  const activeJobCount = jobs.filter(isJobActive).length;
+
+  // Admin console lives at #/admin (the header button only shows for admins the proxy recognises),
+  // the usage dashboard at #/usage
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [hashRoute, setHashRoute] = useState(() => window.location.hash);
+  useEffect(() => {
+    const handleHashChange = () => setHashRoute(window.location.hash);
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+  useEffect(() => {
+    if (!isAuthenticated || !isDirectoryAvailable()) {
+      setIsAdmin(false);
+      return;
+    }
+    fetchCurrentAccount().then(account => {
+      setIsAdmin(account.isAdmin);
+      if (isUserRole(account.role)) setCurrentRole(account.role);
+    }).catch(() => setIsAdmin(false));
+  }, [isAuthenticated]);
+  // Tabs, utilities, models and the daily image allowance depend on the user's role
+  const { role, permissions, imagesToday } = usePermissions();
+  const canOpenTab = (tab: AppTabId) => permissions.tabs.includes(tab);
+  useEffect(() => {
+    if (!permissions.tabs.includes(activeTab)) setActiveTab(permissions.tabs[0]);
+  }, [permissions, activeTab]);
+  useEffect(() => {
+    const allowedModels = MODEL_CHOICES.filter(m => permissions.models.includes(m.id));
+    if (allowedModels.length > 0 && !allowedModels.some(m => m.id === selectedModel)) {
+      updatePreferredModel(allowedModels[0].id);
+      setSelectedModel(allowedModels[0].id);
+    }
+  }, [permissions, selectedModel]);
 
-  const [isLoading, setIsLoading] = useState(false);
+  const closeHashRoute = () => {
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    setHashRoute('');
+  };
   const [upscalingIndex, setUpscalingIndex] = useState<number | null>(null);
   const [upscaledImageForModal, setUpscaledImageForModal] = useState<string | null>(null);
   const [fullscreenState, setFullscreenState] = useState<{ images: string[]; startIndex: number } | null>(null);
@@ -307,26 +423,9 @@ function AppContent() {
     setShowApp(true);
   };
 
-  useEffect(() => {
-    const savedCount = localStorage.getItem('cpgvn_image_generation_count');
-    setImageCount(savedCount ? parseInt(savedCount, 10) : 0);
-  }, []);
-
-  const incrementImageCount = useCallback((amount: number) => {
-    setImageCount(prevCount => {
-      const newCount = prevCount + amount;
-      localStorage.setItem('cpgvn_image_generation_count', String(newCount));
-      return newCount;
-    });
-  }, []);
-
-  const resetImageCount = useCallback(() => {
-    if (window.confirm('Reset counter?')) {
-      setImageCount(0);
-      localStorage.setItem('cpgvn_image_generation_count', '0');
-      addToast({ type: 'info', title: 'Reset', message: 'Counter reset.' });
-    }
-  }, [addToast]);
+  // Every model call is metered in the usage ledger; the header shows its image total
+  const imageCount = useGeneratedImageCount();
+  useEffect(() => { setUsageTab(activeTab); }, [activeTab]);
 
   useEffect(() => {
     const savedTheme = localStorage.getItem('theme');
@@ -357,20 +456,7 @@ function AppContent() {
 
   useEffect(() => {
     if (activeTab === 'exterior') {
-      const base = 'Ảnh chụp thực tế công trình';
-      const additionalParts = [
-        exteriorCustomPrompt,
-        exteriorContext,
-        exteriorLighting,
-        exteriorTone,
-        exteriorWeather,
-      ].filter(p => p && p.trim() !== '');
-
-      let finalPrompt = base;
-      if (additionalParts.length > 0) {
-        finalPrompt += ', ' + additionalParts.join(', ');
-      }
-      setExteriorPrompt(finalPrompt);
+      setExteriorPrompt(buildExteriorPrompt({ custom: exteriorCustomPrompt, context: exteriorContext, lighting: exteriorLighting, tone: exteriorTone, weather: exteriorWeather }));
     }
   }, [exteriorCustomPrompt, exteriorContext, exteriorLighting, exteriorTone, exteriorWeather, activeTab]);
 
@@ -385,39 +471,23 @@ function AppContent() {
     }
   }, [activeTab, interiorFunction, interiorFunctionCustom, interiorStyle, interiorStyleCustom, interiorLighting, interiorLightingCustom]);
 
-  useEffect(() => {
-    const loadHistory = <T,>(key: string, setter: React.Dispatch<React.SetStateAction<T[]>>) => {
-      try {
-        const storedHistory = localStorage.getItem(key);
-        if (storedHistory) setter(JSON.parse(storedHistory).filter(Boolean));
-      } catch (error) { localStorage.removeItem(key); }
-    };
-    loadHistory('exteriorRenderHistory', setExteriorHistory);
-    loadHistory('interiorRenderHistory', setInteriorHistory);
-    loadHistory('masterplanHistory', setMasterplanHistory);
-    loadHistory('floorplanHistory', setFloorplanHistory);
-    loadHistory('editHistory', setEditHistory);
-    loadHistory('utilitiesHistory', setUtilitiesHistory);
-    loadHistory('presentationBoardHistory', setPresentationBoardHistory);
-    loadHistory('diagramHistory', setDiagramHistory);
-  }, []);
-
-  useEffect(() => { saveToLocalStorage('exteriorRenderHistory', exteriorHistory); }, [exteriorHistory]);
-  useEffect(() => { saveToLocalStorage('interiorRenderHistory', interiorHistory); }, [interiorHistory]);
-  useEffect(() => { saveToLocalStorage('masterplanHistory', masterplanHistory); }, [masterplanHistory]);
-  useEffect(() => { saveToLocalStorage('floorplanHistory', floorplanHistory); }, [floorplanHistory]);
-  useEffect(() => { saveToLocalStorage('editHistory', editHistory); }, [editHistory]);
-  useEffect(() => { saveToLocalStorage('utilitiesHistory', utilitiesHistory); }, [utilitiesHistory]);
-  useEffect(() => { saveToLocalStorage('presentationBoardHistory', presentationBoardHistory); }, [presentationBoardHistory]);
-  useEffect(() => { saveToLocalStorage('diagramHistory', diagramHistory); }, [diagramHistory]);
-
-  const saveToLocalStorage = (key: string, data: unknown) => {
-    try { localStorage.setItem(key, JSON.stringify(data)); } catch (e) { }
-  };
+  // Quota errors used to be swallowed silently; now the user is told the entry was not kept
+  const saveToHistory = useCallback((history: HistoryListState, item: RenderHistoryItem | EditHistoryItem) => {
+    history.add(item).then(preview => {
+      // The first render of a project becomes its cover
+      if (history.project === activeProject.id && !activeProject.coverImage && preview.thumbnails[0] && history.list !== 'editHistory') {
+        updateProject(history.project, { coverImage: preview.thumbnails[0] });
+      }
+    }).catch(error => {
+      console.error(`Failed to save ${history.list}:`, error);
+      addToast({ type: 'warning', title: t('error_generic_title'), message: t('hist_save_failed') });
+    });
+  }, [activeProject, addToast, t]);
 
 
   const handleInteriorImageUpload = (image: SourceImage | null) => {
     setTabStates(prev => ({ ...prev, interior: { ...initialTabState, sourceImage: image } }));
+    persistTabSource('interior', image);
   };
 
   const dataUrlToSourceImage = (dataUrl: string): SourceImage | null => {
@@ -433,7 +503,7 @@ function AppContent() {
     setTabStates(prev => ({ ...prev, interior: { ...prev.interior, generatedImages: [] } }));
 
     try {
-      const result = await convertToStyle(source, style);
+      const result = await runJob({ label: `Style · ${style}`, source: 'interior' }, signal => convertToStyle(source, style, { signal }));
       if (result) {
         setTabStates(prev => ({
           ...prev,
@@ -442,15 +512,14 @@ function AppContent() {
             sketchyImage: dataUrlToSourceImage(result)
           }
         }));
-        incrementImageCount(1);
         addToast({ type: 'success', title: 'Thành Công', message: 'Đã chuyển đổi phong cách thành công.' });
       }
     } catch (error) {
-      addToast({ type: 'error', title: 'Lỗi', message: 'Không thể chuyển đổi phong cách.' });
+      addErrorToast(error, 'Không thể chuyển đổi phong cách.');
     } finally {
       setIsConvertingToSketch(false);
     }
-  }, [tabStates.interior.sourceImage, addToast, incrementImageCount]);
+  }, [tabStates.interior.sourceImage, addToast]);
 
   const handleExteriorStyleConversion = useCallback(async (style: 'sketch' | 'pencil' | 'watercolor') => {
     const source = tabStates.exterior.sourceImage;
@@ -460,7 +529,7 @@ function AppContent() {
     setTabStates(prev => ({ ...prev, exterior: { ...prev.exterior, generatedImages: [] } }));
 
     try {
-      const result = await convertToStyle(source, style);
+      const result = await runJob({ label: `Style · ${style}`, source: 'exterior' }, signal => convertToStyle(source, style, { signal }));
       if (result) {
         setTabStates(prev => ({
           ...prev,
@@ -469,28 +538,85 @@ function AppContent() {
             sketchyImage: dataUrlToSourceImage(result)
           }
         }));
-        incrementImageCount(1);
         addToast({ type: 'success', title: 'Thành Công', message: 'Đã chuyển đổi phong cách thành công.' });
       }
     } catch (error) {
-      addToast({ type: 'error', title: 'Lỗi', message: 'Không thể chuyển đổi phong cách.' });
+      addErrorToast(error, 'Không thể chuyển đổi phong cách.');
     } finally {
       setIsConvertingToSketch(false);
     }
-  }, [tabStates.exterior.sourceImage, addToast, incrementImageCount]);
+  }, [tabStates.exterior.sourceImage, addToast]);
 
   const handleConvertToSketchyStyle = useCallback(async (tab: 'interior' | 'exterior') => {
     const source = tabStates[tab as 'interior' | 'exterior'].sourceImage;
     if (!source) return;
     setIsConvertingToSketch(true);
     try {
-      const sketchyImg = await convertToSketchyStyle(source, tab as 'interior' | 'exterior');
+      const sketchyImg = await runJob({ label: 'Sketch style', source: tab }, signal => convertToSketchyStyle(source, tab as 'interior' | 'exterior', 'pencil', { signal }));
       if (sketchyImg) {
         setTabStates(prev => ({ ...prev, [tab]: { ...prev[tab as 'interior' | 'exterior'], sketchyImage: dataUrlToSourceImage(sketchyImg) } }));
-        incrementImageCount(1);
       }
-    } catch (error) { addToast({ type: 'error', title: 'Error', message: 'Conversion failed.' }); } finally { setIsConvertingToSketch(false); }
-  }, [tabStates, addToast, incrementImageCount]);
+    } catch (error) { addErrorToast(error, 'Conversion failed.'); } finally { setIsConvertingToSketch(false); }
+  }, [tabStates, addToast, addErrorToast]);
+
+  // Each tab's form as a structured prompt. Angle requests fill the camera; free-text tabs fill the subject.
+  const promptSpecFor = (renderType: RenderTab, prompt: string, isAnglePrompt: boolean): PromptSpec => {
+    const negatives = parseNegatives(tabStates[renderType].negativePrompt);
+    if (isAnglePrompt) return { ...emptyPromptSpec(), camera: prompt, negatives };
+    if (renderType === 'exterior') {
+      return buildExteriorPromptSpec({ custom: exteriorCustomPrompt, context: exteriorContext, lighting: exteriorLighting, tone: exteriorTone, weather: exteriorWeather }, negatives);
+    }
+    if (renderType === 'interior') {
+      const choice = (value: string, custom: string) => value === 'Khác...' ? custom : value;
+      return {
+        ...emptyPromptSpec(),
+        subject: ['tạo ảnh chụp thực tế của căn phòng', choice(interiorFunction, interiorFunctionCustom)].filter(p => p && p.trim() !== '').join(', '),
+        lighting: choice(interiorLighting, interiorLightingCustom),
+        style: choice(interiorStyle, interiorStyleCustom),
+        negatives
+      };
+    }
+    return promptSpecFromText(prompt, negatives);
+  };
+
+  const setNegativePrompt = (renderType: RenderTab, negativePrompt: string) => {
+    setTabStates(prev => ({ ...prev, [renderType]: { ...prev[renderType], negativePrompt } }));
+  };
+
+  // Shared by the Generate buttons and history re-runs; the manifest is saved with the results
+  const runRender = useCallback(async (renderType: RenderTab, input: RenderManifestInput) => {
+    // Keep what was on screen so Cancel can put it back
+    const currentTabState = tabStates[renderType];
+    const previousResult = { generatedImages: currentTabState.generatedImages, selectedImageIndex: currentTabState.selectedImageIndex, manifest: currentTabState.manifest };
+    const controller = new AbortController();
+    generationAbortRefs.current[renderType] = controller;
+
+    setTabStates(prev => ({ ...prev, [renderType]: { ...prev[renderType], generatedImages: [], selectedImageIndex: 0, manifest: null } }));
+
+    try {
+      const { images, manifest } = await runJob(
+        { label: `${renderType} · ${input.prompt.slice(0, 60)}`, source: renderType, capability: 'i2i', signal: controller.signal },
+        signal => generateImagesWithManifest(input, { signal })
+      );
+      // Results land in the tab that started the job, even if the user has moved on
+      setTabStates(prev => ({ ...prev, [renderType]: { ...prev[renderType], generatedImages: images, manifest } }));
+
+      const newHistoryItem: RenderHistoryItem = { id: Date.now(), timestamp: new Date().toLocaleTimeString(), images, prompt: input.prompt, manifest };
+      saveToHistory(renderHistories[renderType], newHistoryItem);
+      addToast({ type: 'success', title: 'Success', message: `Generated ${images.length} images!` });
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        setTabStates(prev => ({ ...prev, [renderType]: { ...prev[renderType], ...previousResult } }));
+        const timedOut = error.name === 'TimeoutError';
+        addToast({ type: timedOut ? 'warning' : 'info', title: timedOut ? 'Timeout' : t('btn_cancel'), message: t(timedOut ? 'toast_timeout' : 'toast_cancelled') });
+      } else {
+        console.error(error);
+        addErrorToast(error, 'Generation failed. Please try again.');
+      }
+    } finally {
+      if (generationAbortRefs.current[renderType] === controller) delete generationAbortRefs.current[renderType];
+    }
+  }, [tabStates, renderHistories, saveToHistory, addToast, addErrorToast]);
 
   const handleGeneration = useCallback(async (prompt: string, renderType: RenderTab, isAnglePrompt: boolean) => {
     const currentTabState = tabStates[renderType];
@@ -511,36 +637,116 @@ function AppContent() {
       return;
     }
 
-    setIsLoading(true);
-    updateActiveTabState({ generatedImages: [], selectedImageIndex: 0 });
+    await runRender(renderType, {
+      renderType,
+      prompt,
+      promptSpec: promptSpecFor(renderType, prompt, isAnglePrompt),
+      sourceImage: imageToRender,
+      referenceImage: isAnglePrompt ? null : currentTabState.referenceImage,
+      isAnglePrompt,
+      creativityLevel: currentTabState.creativityLevel,
+      numberOfImages: numImages,
+      aspectRatio,
+      seed
+    });
+  }, [tabStates, numImages, aspectRatio, seed, addToast, runRender, promptSpecFor]);
+
+  // "More like this one": the image's seed with a varied prompt, reusing the cached analysis
+  const handleVary = useCallback((renderType: RenderTab, index: number, strength: VariationStrength) => {
+    const manifest = tabStates[renderType].manifest;
+    if (!manifest || generationAbortRefs.current[renderType]) return;
+    runRender(renderType, variationInput(manifest, index, strength));
+  }, [tabStates, runRender]);
+
+  // Batch mode renders many sources with the tab's current prompt, reference, creativity and ratio
+  const batchConfigFor = (renderType: 'exterior' | 'interior', prompt: string): BatchConfig | null => prompt ? {
+    renderType,
+    prompt,
+    promptSpec: promptSpecFor(renderType, prompt, false),
+    referenceImage: tabStates[renderType].referenceImage,
+    isAnglePrompt: false,
+    creativityLevel: tabStates[renderType].creativityLevel,
+    numberOfImages: numImages,
+    aspectRatio,
+    seed
+  } : null;
+
+  const handleBatchItemComplete = (renderType: 'exterior' | 'interior', prompt: string, images: string[], manifest: GenerationManifest) => {
+    saveToHistory(renderHistories[renderType], { id: Date.now(), timestamp: new Date().toLocaleTimeString(), images, prompt, manifest });
+  };
 
-    try {
-      const images = await generateImages(
-        imageToRender,
-        prompt,
-        renderType === 'masterplan' ? 'floorplan' : renderType,
-        numImages,
-        aspectRatio,
-        isAnglePrompt ? null : currentTabState.referenceImage,
-        isAnglePrompt,
-        currentTabState.creativityLevel
-      );
-      updateActiveTabState({ generatedImages: images });
-
-      incrementImageCount(images.length);
-      const newHistoryItem: RenderHistoryItem = { id: Date.now(), timestamp: new Date().toLocaleTimeString(), images, prompt };
-      if (renderType === 'exterior') setExteriorHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
-      else if (renderType === 'interior') setInteriorHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
-      else if (renderType === 'masterplan') setMasterplanHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
-      else if (renderType === 'floorplan') setFloorplanHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
-      addToast({ type: 'success', title: 'Success', message: `Generated ${images.length} images!` });
-    } catch (error) {
-      console.error(error);
-      addToast({ type: 'error', title: 'Failed', message: 'Generation failed. Please try again.' });
-    } finally {
-      setIsLoading(false);
-    }
-  }, [tabStates, numImages, aspectRatio, RENDER_HISTORY_LIMIT, addToast, incrementImageCount]);
+  // Sweep axes for the exterior tab: each dropdown, plus the creativity level
+  const toSweepValues = (options: string[]) => options.map(o => ({ value: o, label: o }));
+  const exteriorSweepAxes: SweepAxis[] = [
+    { id: 'context', label: t('ext_context'), values: toSweepValues(exteriorContextOptions) },
+    { id: 'lighting', label: t('ext_lighting'), values: toSweepValues(exteriorLightingOptions) },
+    { id: 'weather', label: t('ext_weather'), values: toSweepValues(exteriorWeatherOptions) },
+    { id: 'tone', label: t('ext_tone'), values: toSweepValues(exteriorToneOptions) },
+    { id: 'creativity', label: t('sweep_creativity'), values: [1, 2, 3, 4, 5].map(level => ({ value: String(level), label: `${level * 20}%` })) },
+  ];
+
+  const buildExteriorSweepInput = (overrides: Record<string, string>): RenderManifestInput | null => {
+    const state = tabStates.exterior;
+    const sourceImage = (state.useSketchyStyle && state.sketchyImage) || state.sourceImage;
+    if (!sourceImage) return null;
+    const options: ExteriorPromptOptions = {
+      custom: exteriorCustomPrompt,
+      context: overrides.context ?? exteriorContext,
+      lighting: overrides.lighting ?? exteriorLighting,
+      tone: overrides.tone ?? exteriorTone,
+      weather: overrides.weather ?? exteriorWeather
+    };
+    return {
+      renderType: 'exterior',
+      prompt: buildExteriorPrompt(options),
+      promptSpec: buildExteriorPromptSpec(options, parseNegatives(state.negativePrompt)),
+      sourceImage,
+      referenceImage: state.referenceImage,
+      isAnglePrompt: false,
+      creativityLevel: overrides.creativity ? Number(overrides.creativity) : state.creativityLevel,
+      numberOfImages: numImages,
+      aspectRatio,
+      seed
+    };
+  };
+
+  // Presets capture a tab's prompt fields plus its creativity, reference image and the shared aspect ratio
+  const presetConfigFor = (tab: 'exterior' | 'interior', fields: Record<string, string>): PresetConfig => ({
+    fields: { ...fields, negatives: tabStates[tab].negativePrompt },
+    creativityLevel: tabStates[tab].creativityLevel,
+    aspectRatio,
+    referenceImage: tabStates[tab].referenceImage
+  });
+
+  const applyPresetTo = (tab: 'exterior' | 'interior', config: PresetConfig) => {
+    setTabStates(prev => ({ ...prev, [tab]: { ...prev[tab], creativityLevel: config.creativityLevel, referenceImage: config.referenceImage, negativePrompt: config.fields.negatives || '' } }));
+    setAspectRatio(config.aspectRatio);
+  };
+
+  const applyExteriorPreset = (config: PresetConfig) => {
+    const { fields } = config;
+    setExteriorCustomPrompt(fields.custom || '');
+    setExteriorContext(fields.context || '');
+    setExteriorLighting(fields.lighting || '');
+    setExteriorWeather(fields.weather || '');
+    setExteriorTone(fields.tone || '');
+    applyPresetTo('exterior', config);
+  };
+
+  const applyInteriorPreset = (config: PresetConfig) => {
+    const { fields } = config;
+    setInteriorFunction(fields.function || '');
+    setInteriorFunctionCustom(fields.functionCustom || '');
+    setInteriorStyle(fields.style || '');
+    setInteriorStyleCustom(fields.styleCustom || '');
+    setInteriorLighting(fields.lighting || '');
+    setInteriorLightingCustom(fields.lightingCustom || '');
+    applyPresetTo('interior', config);
+  };
+
+  const handleCancelGeneration = useCallback((tab: RenderTab) => {
+    generationAbortRefs.current[tab]?.abort();
+  }, []);
 
   const handleAnalyzeLayout = async () => {
     if (!tabStates.floorplan.sourceImage) {
@@ -560,7 +766,7 @@ function AppContent() {
       setLayout3DGeneratedPrompt(prompt);
       addToast({ type: 'success', title: 'Thành Công', message: 'Đã phân tích mặt bằng và tạo prompt chuyên nghiệp.' });
     } catch (e) {
-      addToast({ type: 'error', title: 'Lỗi', message: 'Không thể phân tích mặt bằng.' });
+      addErrorToast(e, 'Không thể phân tích mặt bằng.');
     } finally {
       setIsAnalyzingLayout(false);
     }
@@ -576,7 +782,7 @@ function AppContent() {
 
     setUpscalingIndex(index);
     try {
-      const upscaledImage = await upscaleImage(imageToUpscale, target);
+      const upscaledImage = await runJob({ label: `Upscale · ${target}`, source: activeTab, capability: 'upscale' }, signal => upscaleImage(imageToUpscale, target, { signal }));
       if (upscaledImage) {
         if (isRenderTab(activeTab)) {
           setTabStates(prev => {
@@ -592,27 +798,94 @@ function AppContent() {
           });
         }
         setUpscaledImageForModal(upscaledImage);
-        incrementImageCount(1);
       }
-    } catch (error) { addToast({ type: 'error', title: 'Failed', message: 'Upscale failed.' }); } finally { setUpscalingIndex(null); }
-  }, [activeTab, activeTabState.generatedImages, addToast, incrementImageCount]);
+    } catch (error) { addErrorToast(error, 'Upscale failed.'); } finally { setUpscalingIndex(null); }
+  }, [activeTab, activeTabState.generatedImages, addToast, addErrorToast]);
 
   const clearRenderHistory = (type: RenderTab) => {
-    if (window.confirm(t('hist_clear') + '?')) {
-      if (type === 'exterior') setExteriorHistory([]);
-      else if (type === 'interior') setInteriorHistory([]);
-      else if (type === 'masterplan') setMasterplanHistory([]);
-      else if (type === 'floorplan') setFloorplanHistory([]);
-    }
+    if (window.confirm(t('hist_clear') + '?')) renderHistories[type].clear();
   }
 
-  const handleSelectRenderHistoryItem = useCallback((item: RenderHistoryItem, type: RenderTab) => {
+  const handleSelectRenderHistoryItem = useCallback(async (preview: HistoryPreview, type: RenderTab) => {
+    const item = await getRenderHistoryItem(renderHistories[type].project, renderHistories[type].list, preview.id);
+    if (!item) return;
     if (type === 'exterior') { setExteriorPrompt(item.prompt); setExteriorCustomPrompt(item.prompt); }
     else if (type === 'interior') setInteriorPrompt(item.prompt);
     else if (type === 'floorplan') setLayout3DGeneratedPrompt(item.prompt);
-    setTabStates(prev => ({ ...prev, [type]: { ...prev[type], generatedImages: item.images, selectedImageIndex: 0 } }));
+    setTabStates(prev => ({ ...prev, [type]: { ...prev[type], generatedImages: item.images, selectedImageIndex: 0, manifest: item.manifest || null } }));
     setActiveTab(type);
-  }, []);
+  }, [renderHistories]);
+
+  // Puts a structured prompt back into a tab's form, so the prompt rebuilt from it matches the original
+  const applyPromptSpecTo = (tab: RenderTab, spec: PromptSpec) => {
+    const withoutBase = (text: string, base: string) => text === base ? '' : text.startsWith(`${base}, `) ? text.slice(base.length + 2) : text;
+    if (tab === 'exterior') {
+      // lighting holds "lighting, weather"; the weather is whichever known option it ends with
+      const weather = exteriorLightingOptions.includes(spec.lighting) ? '' : exteriorWeatherOptions.find(w => spec.lighting === w || spec.lighting.endsWith(`, ${w}`)) || '';
+      setExteriorCustomPrompt(withoutBase(spec.subject, 'Ảnh chụp thực tế công trình'));
+      setExteriorContext(spec.context);
+      setExteriorLighting(weather ? spec.lighting.slice(0, -weather.length).replace(/, $/, '') : spec.lighting);
+      setExteriorWeather(weather);
+      setExteriorTone(spec.style);
+    } else if (tab === 'interior') {
+      // Values outside the dropdown go back into its "Khác..." field
+      const choice = (value: string, options: string[], setValue: (v: string) => void, setCustom: (v: string) => void) => {
+        const known = !value || options.includes(value);
+        setValue(known ? value : 'Khác...');
+        setCustom(known ? '' : value);
+      };
+      choice(withoutBase(spec.subject, 'tạo ảnh chụp thực tế của căn phòng'), interiorFunctionOptions, setInteriorFunction, setInteriorFunctionCustom);
+      choice(spec.style, interiorStyleOptions, setInteriorStyle, setInteriorStyleCustom);
+      choice(spec.lighting, interiorLightingOptions, setInteriorLighting, setInteriorLightingCustom);
+    } else if (tab === 'floorplan') {
+      setLayout3DGeneratedPrompt(spec.subject);
+    }
+  };
+
+  // Restores prompt and options from a file downloaded with embedded metadata (see imageMetadata.ts)
+  const handleLoadSettingsFromImage = useCallback(async (file: File) => {
+    const metadata = await readImageMetadata(file);
+    if (!metadata?.prompt && !metadata?.settings) {
+      addToast({ type: 'warning', title: t('meta_load_settings'), message: t('meta_none') });
+      return;
+    }
+    const settings = metadata.settings;
+    const tab: RenderTab = settings?.renderType || (isRenderTab(activeTab) ? activeTab : 'exterior');
+    const prompt = settings?.prompt || metadata.prompt;
+    if (settings?.isAnglePrompt) {
+      setAnglePrompt(settings.promptSpec?.camera || prompt);
+    } else {
+      // Files from before structured prompts carry only text: it becomes the free-text part of the form
+      applyPromptSpecTo(tab, settings?.promptSpec || promptSpecFromText(prompt));
+    }
+    if (settings) {
+      // The reference image is not embedded: clear it if the render had none, otherwise ask for it again
+      const hadReference = !!settings.styleContext;
+      setTabStates(prev => ({
+        ...prev,
+        [tab]: {
+          ...prev[tab],
+          creativityLevel: settings.creativityLevel,
+          negativePrompt: settings.promptSpec ? settings.promptSpec.negatives.join(', ') : prev[tab].negativePrompt,
+          referenceImage: hadReference ? prev[tab].referenceImage : null
+        }
+      }));
+      setNumImages(settings.numberOfImages);
+      setAspectRatio(settings.aspectRatio);
+      if (typeof settings.seed === 'number') setFixedSeed(String(settings.seed));
+      if (hadReference) addToast({ type: 'info', title: t('meta_load_settings'), message: t('meta_reference_missing') });
+    }
+    setActiveTab(tab);
+    addToast({ type: 'success', title: t('meta_load_settings'), message: t(settings ? 'meta_loaded' : 'meta_prompt_loaded') });
+  }, [activeTab, addToast, t]);
+
+  const handleRerunRenderHistoryItem = useCallback(async (preview: HistoryPreview, type: RenderTab, newSeed: boolean) => {
+    if (generationAbortRefs.current[type]) return;
+    const item = await getRenderHistoryItem(renderHistories[type].project, renderHistories[type].list, preview.id);
+    if (!item?.manifest) return;
+    setActiveTab(type);
+    runRender(type, manifestToRerunInput(item.manifest, newSeed));
+  }, [renderHistories, runRender]);
 
   const handleEditRequest = useCallback((imageUrl: string) => {
     const imageToEdit = dataUrlToSourceImage(imageUrl);
@@ -642,6 +915,7 @@ function AppContent() {
       ...prev,
       exterior: { ...initialTabState, sourceImage: image }
     }));
+    persistTabSource('exterior', image);
     if (prompt) {
       setExteriorCustomPrompt(prompt);
       setExteriorPrompt(prompt);
@@ -653,12 +927,14 @@ function AppContent() {
 
   const handleEditComplete = (details: Omit<EditHistoryItem, 'id' | 'timestamp'>) => {
     const newHistoryItem: EditHistoryItem = { id: Date.now(), timestamp: new Date().toLocaleTimeString(), ...details };
-    setEditHistory(prev => [newHistoryItem, ...prev].slice(0, EDIT_HISTORY_LIMIT));
+    saveToHistory(editHistory, newHistoryItem);
   };
 
-  const clearEditHistory = () => { if (window.confirm(t('hist_clear') + '?')) setEditHistory([]); };
+  const clearEditHistory = () => { if (window.confirm(t('hist_clear') + '?')) editHistory.clear(); };
 
-  const handleSelectEditHistoryItem = (item: EditHistoryItem) => {
+  const handleSelectEditHistoryItem = async (preview: HistoryPreview) => {
+    const item = await getEditHistoryItem(editHistory.project, preview.id);
+    if (!item) return;
     setEditHistoryItemToRestore(item);
     setActiveTab('edit');
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -666,58 +942,90 @@ function AppContent() {
 
   const handleUtilityGenerationComplete = useCallback((prompt: string, images: string[]) => {
     const newHistoryItem: RenderHistoryItem = { id: Date.now(), timestamp: new Date().toLocaleTimeString(), images, prompt, };
-    setUtilitiesHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
+    saveToHistory(utilitiesHistory, newHistoryItem);
     const isPresentationBoardPrompt = prompt.includes("presentation board") || prompt.includes("Dàn Trang");
     if (isPresentationBoardPrompt) {
-      setPresentationBoardHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
+      saveToHistory(presentationBoardHistory, newHistoryItem);
     }
     const isDiagramPrompt = ["axonometric", "diagram", "phân tích"].some(keyword => prompt.toLowerCase().includes(keyword));
     if (isDiagramPrompt) {
-      setDiagramHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
+      saveToHistory(diagramHistory, newHistoryItem);
     }
 
-    incrementImageCount(images.length);
-  }, [RENDER_HISTORY_LIMIT, incrementImageCount]);
+  }, [utilitiesHistory, presentationBoardHistory, diagramHistory, saveToHistory]);
 
-  const clearUtilitiesHistory = () => { if (window.confirm(t('hist_clear') + '?')) setUtilitiesHistory([]); };
-  const clearPresentationBoardHistory = () => { if (window.confirm(t('hist_clear') + '?')) setPresentationBoardHistory([]); };
-  const clearDiagramHistory = () => { if (window.confirm(t('hist_clear') + '?')) setDiagramHistory([]); };
+  const clearUtilitiesHistory = () => { if (window.confirm(t('hist_clear') + '?')) utilitiesHistory.clear(); };
+  const clearPresentationBoardHistory = () => { if (window.confirm(t('hist_clear') + '?')) presentationBoardHistory.clear(); };
+  const clearDiagramHistory = () => { if (window.confirm(t('hist_clear') + '?')) diagramHistory.clear(); };
 
 
   const handleVisualAngleSelect = (prompt: string) => { setAnglePrompt(prompt); };
 
-  const isBusy = isLoading || upscalingIndex !== null || isConvertingToSketch;
+  const isTabBusy = (tab: RenderTab) => isTabGenerating(tab) || upscalingIndex !== null || isConvertingToSketch;
 
   const renderOptionsUI = (
-    <div className="grid grid-cols-2 gap-4 my-4">
-      <div>
-        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">{t('opt_num_images')}</label>
-        <div className="flex items-center gap-2 bg-[var(--bg-surface-3)] rounded-md p-1">
-          {[1, 2, 4].map(n => (
-            <button key={n} onClick={() => setNumImages(n)} className={`w-full text-sm font-semibold py-1.5 rounded-md transition-colors ${numImages === n ? 'bg-[var(--bg-interactive)] text-[var(--text-interactive)] shadow' : 'bg-transparent text-[var(--text-primary)] hover:bg-[var(--bg-surface-2)]'}`}>{n}</button>
-          ))}
+    <>
+      <div className="grid grid-cols-2 gap-4 my-4">
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">{t('opt_num_images')}</label>
+          <div className="flex items-center gap-2 bg-[var(--bg-surface-3)] rounded-md p-1">
+            {[1, 2, 4].map(n => (
+              <button key={n} onClick={() => setNumImages(n)} className={`w-full text-sm font-semibold py-1.5 rounded-md transition-colors ${numImages === n ? 'bg-[var(--bg-interactive)] text-[var(--text-interactive)] shadow' : 'bg-transparent text-[var(--text-primary)] hover:bg-[var(--bg-surface-2)]'}`}>{n}</button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">{t('opt_aspect_ratio')}</label>
+          <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} className={selectCommonStyles} style={{ backgroundImage: 'var(--select-arrow-svg)', backgroundPosition: 'right 0.5rem center', backgroundRepeat: 'no-repeat', backgroundSize: '1.5em 1.5em', }}>
+            <option value="Auto">{t('opt_auto')}</option>
+            <option value="1:1">1:1</option>
+            <option value="16:9">16:9</option>
+            <option value="9:16">9:16</option>
+            <option value="4:3">4:3</option>
+            <option value="3:4">3:4</option>
+          </select>
         </div>
       </div>
-      <div>
-        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">{t('opt_aspect_ratio')}</label>
-        <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value)} className={selectCommonStyles} style={{ backgroundImage: 'var(--select-arrow-svg)', backgroundPosition: 'right 0.5rem center', backgroundRepeat: 'no-repeat', backgroundSize: '1.5em 1.5em', }}>
-          <option value="Auto">{t('opt_auto')}</option>
-          <option value="1:1">1:1</option>
-          <option value="16:9">16:9</option>
-          <option value="9:16">9:16</option>
-          <option value="4:3">4:3</option>
-          <option value="3:4">3:4</option>
-        </select>
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">{t('opt_seed')}</label>
+        <div className="flex items-center gap-2">
+          <input type="text" inputMode="numeric" value={fixedSeed} onChange={(e) => setFixedSeed(e.target.value.replace(/\D/g, '').slice(0, 10))} placeholder={t('opt_seed_random')} className="flex-grow bg-[var(--bg-surface-3)] p-2 rounded-md text-sm font-mono focus:ring-2 focus:ring-[var(--ring-focus)] focus:outline-none" />
+          {fixedSeed && (
+            <button onClick={() => setFixedSeed('')} className="p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]" title={t('opt_seed_clear')}>
+              <Icon name="x-mark" className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </div>
-    </div>
+      <SettingsDropZone onFile={handleLoadSettingsFromImage} />
+    </>
   );
 
   const onSelectImageIndex = useCallback((index: number) => {
     updateActiveTabState({ selectedImageIndex: index });
   }, [activeTab]);
 
+  // Stable, so the login screen's start-up revalidation runs once rather than on every render
+  const handleAuthenticated = useCallback(() => setIsAuthenticated(true), []);
+
   if (!isAuthenticated) {
-    return <Login onAuthenticated={() => setIsAuthenticated(true)} />;
+    return <Login onAuthenticated={handleAuthenticated} />;
+  }
+
+  if (hashRoute === '#/admin') {
+    return (
+      <Suspense fallback={<LoadingFallback />}>
+        <AdminConsole onClose={closeHashRoute} />
+      </Suspense>
+    );
+  }
+
+  if (hashRoute === '#/usage') {
+    return (
+      <Suspense fallback={<LoadingFallback />}>
+        <UsageDashboard onClose={closeHashRoute} />
+      </Suspense>
+    );
   }
 
   return (
@@ -726,9 +1034,12 @@ function AppContent() {
       {showApp &&
         <div className="min-h-screen p-8 fade-in-up flex flex-col">
           <header className="text-center mb-10 relative">
-            <button onClick={() => setShowApp(false)} className="absolute top-1/2 left-0 -translate-y-1/2 p-2 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-surface-1)] transition-all duration-200" aria-label="Back">
-              <Icon name="arrow-uturn-left" className="w-8 h-8" />
-            </button>
+            <div className="absolute top-1/2 left-0 -translate-y-1/2 flex items-center gap-3">
+              <button onClick={() => setShowApp(false)} className="p-2 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-surface-1)] transition-all duration-200" aria-label="Back">
+                <Icon name="arrow-uturn-left" className="w-8 h-8" />
+              </button>
+              <ProjectSwitcher />
+            </div>
             <h1 className="relative inline-block text-3xl md:text-4xl font-bold tracking-wider text-[var(--text-primary)] uppercase font-montserrat">
               {t('app_title')}
               {theme === 'christmas' && <SantaHat />}
@@ -753,11 +1064,35 @@ function AppContent() {
                 <Icon name="key" className="w-6 h-6" />
               </button>
 
+              {isAdmin && (
+                <button
+                  onClick={() => { window.location.hash = '#/admin'; }}
+                  className="bg-[var(--bg-surface-1)] border border-[var(--border-1)] rounded-full p-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-surface-2)] shadow-lg transition-colors"
+                  title={t('admin_title')}
+                >
+                  <Icon name="check-circle" className="w-6 h-6" />
+                </button>
+              )}
+
+              <button
+                onClick={() => setIsJobsDrawerOpen(true)}
+                className="relative bg-[var(--bg-surface-1)] border border-[var(--border-1)] rounded-full p-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-surface-2)] shadow-lg transition-colors"
+                title={t('jobs_title')}
+              >
+                <Icon name="rectangle-group" className="w-6 h-6" />
+                {activeJobCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-[var(--bg-interactive)] text-white text-[10px] font-bold flex items-center justify-center">{activeJobCount}</span>
+                )}
+              </button>
+
               <div className="hidden lg:flex items-center gap-2 bg-[var(--bg-surface-1)] border border-[var(--border-1)] rounded-full px-4 py-2 text-sm shadow-lg">
                 <Icon name="photo" className="w-5 h-5 text-[var(--text-accent)]" />
                 <span className="font-semibold text-[var(--text-secondary)] whitespace-nowrap">{t('generated_count')}</span>
                 <span className="font-bold text-lg text-[var(--text-primary)]">{imageCount}</span>
-                <button onClick={resetImageCount} title="Reset" className="ml-2 text-[var(--text-tertiary)] hover:text-[var(--text-danger)] transition-colors"><Icon name="arrow-path" className="w-4 h-4" /></button>
+                <button onClick={() => { window.location.hash = '#/usage'; }} title={t('usage_title')} className="ml-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"><Icon name="chart-bar" className="w-4 h-4" /></button>
+                <span className="ml-2 pl-3 border-l border-[var(--border-2)] text-xs text-[var(--text-tertiary)] whitespace-nowrap" title={t('role_today_allowance')}>
+                  {t(`role_${role}`)} · {imagesToday}/{permissions.dailyImageQuota}
+                </span>
               </div>
 
               <div className="flex items-center bg-[var(--bg-surface-1)] border border-[var(--border-1)] rounded-full px-4 py-1.5 shadow-lg gap-2">
@@ -767,8 +1102,9 @@ function AppContent() {
                   onChange={(e) => handleModelChange(e.target.value)}
                   className="bg-transparent text-xs font-bold text-[var(--text-primary)] outline-none cursor-pointer"
                 >
-                  <option value="gemini-2.0-flash-exp" className="bg-[var(--bg-surface-4)] text-[var(--text-primary)]">Gemini 2.0 Flash</option>
-                  <option value="imagen-3.0-generate-001" className="bg-[var(--bg-surface-4)] text-[var(--text-primary)]">Imagen 3 (AI Studio)</option>
+                  {MODEL_CHOICES.filter(m => permissions.models.includes(m.id)).map(m => (
+                    <option key={m.id} value={m.id} className="bg-[var(--bg-surface-4)] text-[var(--text-primary)]">{m.label}</option>
+                  ))}
                 </select>
               </div>
 
@@ -812,13 +1148,13 @@ function AppContent() {
 
           <div className="max-w-7xl mx-auto flex-grow w-full">
             <div className="flex justify-center border-b border-[var(--border-2)] mb-8 overflow-x-auto">
-              <TabButton label={t('tab_exterior')} icon="photo" isActive={activeTab === 'exterior'} onClick={() => setActiveTab('exterior')} />
-              <TabButton label={t('tab_interior')} icon="home" isActive={activeTab === 'interior'} onClick={() => setActiveTab('interior')} />
-              <TabButton label={t('tab_masterplan')} icon="rectangle-group" isActive={activeTab === 'masterplan'} onClick={() => setActiveTab('masterplan')} />
-              <TabButton label={t('tab_floorplan')} icon="cube" isActive={activeTab === 'floorplan'} onClick={() => setActiveTab('floorplan')} />
-              <TabButton label={t('tab_tour')} icon="cursor-arrow-rays" isActive={activeTab === 'virtual_tour'} onClick={() => setActiveTab('virtual_tour')} />
-              <TabButton label={t('tab_edit')} icon="brush" isActive={activeTab === 'edit'} onClick={() => setActiveTab('edit')} />
-              <TabButton label={t('tab_utils')} icon="bookmark" isActive={activeTab === 'utilities'} onClick={() => { setActiveTab('utilities'); setInitialUtility(null); }} />
+              {canOpenTab('exterior') && <TabButton label={t('tab_exterior')} icon="photo" isActive={activeTab === 'exterior'} onClick={() => setActiveTab('exterior')} />}
+              {canOpenTab('interior') && <TabButton label={t('tab_interior')} icon="home" isActive={activeTab === 'interior'} onClick={() => setActiveTab('interior')} />}
+              {canOpenTab('masterplan') && <TabButton label={t('tab_masterplan')} icon="rectangle-group" isActive={activeTab === 'masterplan'} onClick={() => setActiveTab('masterplan')} />}
+              {canOpenTab('floorplan') && <TabButton label={t('tab_floorplan')} icon="cube" isActive={activeTab === 'floorplan'} onClick={() => setActiveTab('floorplan')} />}
+              {canOpenTab('virtual_tour') && <TabButton label={t('tab_tour')} icon="cursor-arrow-rays" isActive={activeTab === 'virtual_tour'} onClick={() => setActiveTab('virtual_tour')} />}
+              {canOpenTab('edit') && <TabButton label={t('tab_edit')} icon="brush" isActive={activeTab === 'edit'} onClick={() => setActiveTab('edit')} />}
+              {canOpenTab('utilities') && <TabButton label={t('tab_utils')} icon="bookmark" isActive={activeTab === 'utilities'} onClick={() => { setActiveTab('utilities'); setInitialUtility(null); }} />}
             </div>
 
             <main>
@@ -827,13 +1163,13 @@ function AppContent() {
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                   <div className="lg:col-span-1 flex flex-col gap-8">
                     <Section title={t('step_1')}>
-                      <ImageUpload sourceImage={tabStates.exterior.sourceImage} onImageUpload={(img) => setTabStates(p => ({ ...p, exterior: { ...initialTabState, sourceImage: img, useSketchyStyle: false } }))} onRemove={() => setTabStates(p => ({ ...p, exterior: { ...initialTabState, useSketchyStyle: false } }))} />
+                      <ImageUpload sourceImage={tabStates.exterior.sourceImage} onImageUpload={(img) => { setTabStates(p => ({ ...p, exterior: { ...initialTabState, sourceImage: img, useSketchyStyle: false } })); persistTabSource('exterior', img); }} onRemove={() => { setTabStates(p => ({ ...p, exterior: { ...initialTabState, useSketchyStyle: false } })); persistTabSource('exterior', null); }} />
 
                       {/* Style Conversion Buttons */}
                       <div className="grid grid-cols-1 gap-2 mt-4">
                         <button
                           onClick={() => handleExteriorStyleConversion('sketch')}
-                          disabled={isBusy || !tabStates.exterior.sourceImage}
+                          disabled={isTabBusy('exterior') || !tabStates.exterior.sourceImage}
                           className="w-full bg-slate-700 hover:bg-slate-600 py-2 rounded text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                           <Icon name="brush" className="w-4 h-4" /> Chuyển sang Sketchy Style
@@ -841,7 +1177,7 @@ function AppContent() {
 
                         <button
                           onClick={() => handleExteriorStyleConversion('pencil')}
-                          disabled={isBusy || !tabStates.exterior.sourceImage}
+                          disabled={isTabBusy('exterior') || !tabStates.exterior.sourceImage}
                           className="w-full bg-slate-700 hover:bg-slate-600 py-2 rounded text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                           <Icon name="pencil" className="w-4 h-4" /> Chuyển sang Vẽ tay chì
@@ -849,7 +1185,7 @@ function AppContent() {
 
                         <button
                           onClick={() => handleExteriorStyleConversion('watercolor')}
-                          disabled={isBusy || !tabStates.exterior.sourceImage}
+                          disabled={isTabBusy('exterior') || !tabStates.exterior.sourceImage}
                           className="w-full bg-slate-700 hover:bg-slate-600 py-2 rounded text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                           <Icon name="beaker" className="w-4 h-4" /> Chuyển sang Màu nước
@@ -876,6 +1212,11 @@ function AppContent() {
                       <div className="fade-in-up space-y-8">
                         <Section title={t('step_2')}>
                           <div className="space-y-4">
+                            <PresetLibrary
+                              tab="exterior"
+                              getConfig={() => presetConfigFor('exterior', { custom: exteriorCustomPrompt, context: exteriorContext, lighting: exteriorLighting, weather: exteriorWeather, tone: exteriorTone })}
+                              onApply={applyExteriorPreset}
+                            />
                             <ReferenceImageUpload image={tabStates.exterior.referenceImage} onUpload={(img) => setTabStates(p => ({ ...p, exterior: { ...p.exterior, referenceImage: img } }))} onRemove={() => setTabStates(p => ({ ...p, exterior: { ...p.exterior, referenceImage: null } }))} />
                             <textarea value={exteriorCustomPrompt} onChange={(e) => { setExteriorCustomPrompt(e.target.value); setExteriorPrompt(e.target.value); }} placeholder={t('ext_custom_prompt')} className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md h-20 resize-none text-sm focus:ring-2 focus:ring-[var(--ring-focus)] focus:outline-none" />
                             <div className="space-y-4">
@@ -890,6 +1231,7 @@ function AppContent() {
                                   <select onChange={(e) => field.setter(e.target.value)} value={field.value} className={`${selectCommonStyles} pr-10`} style={{ backgroundImage: 'var(--select-arrow-svg)', backgroundPosition: 'right 0.5rem center', backgroundRepeat: 'no-repeat', backgroundSize: '1.5em 1.5em' }}>
                                     <option value="">{field.ph}</option>
                                     {field.opts.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                                    {field.value && !field.opts.includes(field.value) && <option value={field.value}>{field.value}</option>}
                                   </select>
                                 </div>
                               ))}
@@ -898,8 +1240,10 @@ function AppContent() {
                               value={tabStates.exterior.creativityLevel}
                               onChange={(val) => setTabStates(prev => ({ ...prev, exterior: { ...prev.exterior, creativityLevel: val } }))}
                             />
+                            <NegativePromptField value={tabStates.exterior.negativePrompt} onChange={(value) => setNegativePrompt('exterior', value)} />
+                            <PromptInspector spec={promptSpecFor('exterior', exteriorPrompt, false)} />
                             {renderOptionsUI}
-                            <button onClick={() => handleGeneration(exteriorPrompt, 'exterior', false)} disabled={isBusy} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
+                            <button onClick={() => handleGeneration(exteriorPrompt, 'exterior', false)} disabled={isTabBusy('exterior')} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
                               <Icon name="sparkles" className="w-5 h-5" /> {t('btn_generate')}
                             </button>
                           </div>
@@ -912,7 +1256,7 @@ function AppContent() {
                                 <textarea value={anglePrompt} onChange={(e) => setAnglePrompt(e.target.value)} placeholder={t('angle_desc_ph')} className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md h-20 resize-none text-sm focus:ring-2 focus:ring-[var(--ring-focus)] focus:outline-none pr-10" />
                                 <div className="absolute top-2 right-2"><Icon name="pencil" className="w-4 h-4 text-[var(--text-tertiary)]" /></div>
                               </div>
-                              <button onClick={() => handleGeneration(anglePrompt, 'exterior', true)} disabled={isBusy} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
+                              <button onClick={() => handleGeneration(anglePrompt, 'exterior', true)} disabled={isTabBusy('exterior')} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
                                 <Icon name="sparkles" className="w-5 h-5" /> {t('res_angle')}
                               </button>
                             </div>
@@ -922,8 +1266,8 @@ function AppContent() {
                     )}
                   </div>
                   <div className="lg:col-span-2 flex flex-col gap-8">
-                    {(isLoading || tabStates.exterior.generatedImages.length > 0) ? (
-                      <ResultDisplay sourceImage={tabStates.exterior.sketchyImage || tabStates.exterior.sourceImage} images={tabStates.exterior.generatedImages} isLoading={isLoading} onUpscale={handleUpscale} upscalingIndex={upscalingIndex} onEditRequest={handleEditRequest} selectedImageIndex={tabStates.exterior.selectedImageIndex} onSelectImageIndex={onSelectImageIndex} onChangeAngle={handleChangeAngle} onFullscreen={handleFullscreen} onCreateVideoRequest={handleCreateVideoRequest} showChangeAngleButton={true} />
+                    {(isTabGenerating('exterior') || tabStates.exterior.generatedImages.length > 0) ? (
+                      <ResultDisplay sourceImage={tabStates.exterior.sketchyImage || tabStates.exterior.sourceImage} images={tabStates.exterior.generatedImages} isLoading={isTabGenerating('exterior')} onCancel={() => handleCancelGeneration('exterior')} onUpscale={handleUpscale} upscalingIndex={upscalingIndex} onEditRequest={handleEditRequest} selectedImageIndex={tabStates.exterior.selectedImageIndex} manifest={tabStates.exterior.manifest} prompt={exteriorPrompt} onVary={(index, strength) => handleVary('exterior', index, strength)} onUseSeed={(value) => setFixedSeed(String(value))} onSelectImageIndex={onSelectImageIndex} onChangeAngle={handleChangeAngle} onFullscreen={handleFullscreen} onCreateVideoRequest={handleCreateVideoRequest} showChangeAngleButton={true} />
                     ) : (
                       <Section title={t('res_title')}>
                         <div className="relative z-10 flex-grow flex items-center justify-center bg-black/20 rounded-lg min-h-[300px] md:min-h-[400px]">
@@ -944,7 +1288,9 @@ function AppContent() {
                       </Section>
                     )
                     }
-                    <HistoryPanel title={t('hist_exterior')} history={exteriorHistory} onClear={() => clearRenderHistory('exterior')} onSelect={(item) => handleSelectRenderHistoryItem(item, 'exterior')} emptyText={t('hist_empty')} />
+                    <ParameterSweep label={t('tab_exterior')} axes={exteriorSweepAxes} buildInput={buildExteriorSweepInput} onCellComplete={(prompt, images, manifest) => handleBatchItemComplete('exterior', prompt, images, manifest)} onOpenImages={(images, startIndex) => setFullscreenState({ images, startIndex })} />
+                    <BatchRender label={t('tab_exterior')} getConfig={() => batchConfigFor('exterior', exteriorPrompt)} onItemComplete={(prompt, images, manifest) => handleBatchItemComplete('exterior', prompt, images, manifest)} onOpenImages={(images, startIndex) => setFullscreenState({ images, startIndex })} />
+                    <HistoryPanel title={t('hist_exterior')} history={exteriorHistory.items} hasMore={exteriorHistory.hasMore} onLoadMore={exteriorHistory.loadMore} onClear={() => clearRenderHistory('exterior')} onSelect={(item) => handleSelectRenderHistoryItem(item, 'exterior')} onRerun={(item, newSeed) => handleRerunRenderHistoryItem(item, 'exterior', newSeed)} emptyText={t('hist_empty')} />
                   </div>
                 </div>
               </div>
@@ -960,7 +1306,7 @@ function AppContent() {
                       <div className="grid grid-cols-1 gap-2 mt-4">
                         <button
                           onClick={() => handleStyleConversion('sketch')}
-                          disabled={isBusy || !tabStates.interior.sourceImage}
+                          disabled={isTabBusy('interior') || !tabStates.interior.sourceImage}
                           className="w-full bg-slate-700 hover:bg-slate-600 py-2 rounded text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                           <Icon name="brush" className="w-4 h-4" /> Chuyển sang Sketchy Style
@@ -968,7 +1314,7 @@ function AppContent() {
 
                         <button
                           onClick={() => handleStyleConversion('pencil')}
-                          disabled={isBusy || !tabStates.interior.sourceImage}
+                          disabled={isTabBusy('interior') || !tabStates.interior.sourceImage}
                           className="w-full bg-slate-700 hover:bg-slate-600 py-2 rounded text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                           <Icon name="pencil" className="w-4 h-4" /> Chuyển sang Vẽ tay chì
@@ -976,7 +1322,7 @@ function AppContent() {
 
                         <button
                           onClick={() => handleStyleConversion('watercolor')}
-                          disabled={isBusy || !tabStates.interior.sourceImage}
+                          disabled={isTabBusy('interior') || !tabStates.interior.sourceImage}
                           className="w-full bg-slate-700 hover:bg-slate-600 py-2 rounded text-xs font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
                         >
                           <Icon name="beaker" className="w-4 h-4" /> Chuyển sang Màu nước
@@ -1003,6 +1349,11 @@ function AppContent() {
                       <div className="fade-in-up space-y-8">
                         <Section title={t('step_2')}>
                           <div className="space-y-4">
+                            <PresetLibrary
+                              tab="interior"
+                              getConfig={() => presetConfigFor('interior', { function: interiorFunction, functionCustom: interiorFunctionCustom, style: interiorStyle, styleCustom: interiorStyleCustom, lighting: interiorLighting, lightingCustom: interiorLightingCustom })}
+                              onApply={applyInteriorPreset}
+                            />
                             <ReferenceImageUpload image={tabStates.interior.referenceImage} onUpload={(img) => setTabStates(p => ({ ...p, interior: { ...p.interior, referenceImage: img } }))} onRemove={() => setTabStates(p => ({ ...p, interior: { ...p.interior, referenceImage: null } }))} />
                             <div>
                               <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">{t('int_function')}</label>
@@ -1029,8 +1380,10 @@ function AppContent() {
                               value={tabStates.interior.creativityLevel}
                               onChange={(val) => setTabStates(prev => ({ ...prev, interior: { ...prev.interior, creativityLevel: val } }))}
                             />
+                            <NegativePromptField value={tabStates.interior.negativePrompt} onChange={(value) => setNegativePrompt('interior', value)} />
+                            <PromptInspector spec={promptSpecFor('interior', interiorPrompt, false)} />
                             {renderOptionsUI}
-                            <button onClick={() => handleGeneration(interiorPrompt, 'interior', false)} disabled={isBusy} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
+                            <button onClick={() => handleGeneration(interiorPrompt, 'interior', false)} disabled={isTabBusy('interior')} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
                               <Icon name="sparkles" className="w-5 h-5" /> {t('btn_generate')}
                             </button>
                           </div>
@@ -1044,7 +1397,7 @@ function AppContent() {
                                 <textarea value={anglePrompt} onChange={(e) => setAnglePrompt(e.target.value)} placeholder={t('angle_desc_ph')} className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md h-20 resize-none text-sm focus:ring-2 focus:ring-[var(--ring-focus)] focus:outline-none pr-10" />
                                 <div className="absolute top-2 right-2"><Icon name="pencil" className="w-4 h-4 text-[var(--text-tertiary)]" /></div>
                               </div>
-                              <button onClick={() => handleGeneration(anglePrompt, 'interior', true)} disabled={isBusy} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
+                              <button onClick={() => handleGeneration(anglePrompt, 'interior', true)} disabled={isTabBusy('interior')} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
                                 <Icon name="sparkles" className="w-5 h-5" /> {t('res_angle')}
                               </button>
                             </div>
@@ -1055,8 +1408,8 @@ function AppContent() {
                   </div>
 
                   <div className="lg:col-span-2 flex flex-col gap-8">
-                    {(isLoading || tabStates.interior.generatedImages.length > 0) ? (
-                      <ResultDisplay sourceImage={tabStates.interior.sketchyImage || tabStates.interior.sourceImage} images={tabStates.interior.generatedImages} isLoading={isLoading} onUpscale={handleUpscale} upscalingIndex={upscalingIndex} onEditRequest={handleEditRequest} selectedImageIndex={tabStates.interior.selectedImageIndex} onSelectImageIndex={onSelectImageIndex} onChangeAngle={handleChangeAngle} onFullscreen={handleFullscreen} onCreateVideoRequest={handleCreateVideoRequest} showChangeAngleButton={true} />
+                    {(isTabGenerating('interior') || tabStates.interior.generatedImages.length > 0) ? (
+                      <ResultDisplay sourceImage={tabStates.interior.sketchyImage || tabStates.interior.sourceImage} images={tabStates.interior.generatedImages} isLoading={isTabGenerating('interior')} onCancel={() => handleCancelGeneration('interior')} onUpscale={handleUpscale} upscalingIndex={upscalingIndex} onEditRequest={handleEditRequest} selectedImageIndex={tabStates.interior.selectedImageIndex} manifest={tabStates.interior.manifest} prompt={interiorPrompt} onVary={(index, strength) => handleVary('interior', index, strength)} onUseSeed={(value) => setFixedSeed(String(value))} onSelectImageIndex={onSelectImageIndex} onChangeAngle={handleChangeAngle} onFullscreen={handleFullscreen} onCreateVideoRequest={handleCreateVideoRequest} showChangeAngleButton={true} />
                     ) : (
                       <Section title={t('res_title')}>
                         <div className="relative z-10 flex-grow flex items-center justify-center bg-black/20 rounded-lg min-h-[300px] md:min-h-[400px]">
@@ -1077,7 +1430,8 @@ function AppContent() {
                       </Section>
                     )
                     }
-                    <HistoryPanel title={t('hist_interior')} history={interiorHistory} onClear={() => clearRenderHistory('interior')} onSelect={(item) => handleSelectRenderHistoryItem(item, 'interior')} emptyText={t('hist_empty')} />
+                    <BatchRender label={t('tab_interior')} getConfig={() => batchConfigFor('interior', interiorPrompt)} onItemComplete={(prompt, images, manifest) => handleBatchItemComplete('interior', prompt, images, manifest)} onOpenImages={(images, startIndex) => setFullscreenState({ images, startIndex })} />
+                    <HistoryPanel title={t('hist_interior')} history={interiorHistory.items} hasMore={interiorHistory.hasMore} onLoadMore={interiorHistory.loadMore} onClear={() => clearRenderHistory('interior')} onSelect={(item) => handleSelectRenderHistoryItem(item, 'interior')} onRerun={(item, newSeed) => handleRerunRenderHistoryItem(item, 'interior', newSeed)} emptyText={t('hist_empty')} />
                   </div>
                 </div>
               </div>
@@ -1086,15 +1440,15 @@ function AppContent() {
               <div className={activeTab === 'masterplan' ? 'fade-in-up' : 'hidden'}>
                 <MasterplanTo3D
                   history={masterplanHistory}
-                  onGenerationComplete={(prompt, images) => {
+                  onGenerationComplete={(prompt, images, manifest) => {
                     const newHistoryItem: RenderHistoryItem = {
                       id: Date.now(),
                       timestamp: new Date().toLocaleTimeString(),
                       images,
-                      prompt
+                      prompt,
+                      manifest
                     };
-                    setMasterplanHistory(prev => [newHistoryItem, ...prev].slice(0, RENDER_HISTORY_LIMIT));
-                    incrementImageCount(images.length);
+                    saveToHistory(masterplanHistory, newHistoryItem);
                   }}
                   onClearHistory={() => clearRenderHistory('masterplan')}
                   onEditRequest={handleEditRequest}
@@ -1106,7 +1460,7 @@ function AppContent() {
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
                   <div className="lg:col-span-1 flex flex-col gap-8">
                     <Section title="1. Tải Lên Floorplan (2D)">
-                      <ImageUpload sourceImage={tabStates.floorplan.sourceImage} onImageUpload={(img) => setTabStates(p => ({ ...p, floorplan: { ...p.floorplan, sourceImage: img } }))} onRemove={() => setTabStates(p => ({ ...p, floorplan: { ...p.floorplan, sourceImage: null, referenceImage: null, generatedImages: [] } }))} />
+                      <ImageUpload sourceImage={tabStates.floorplan.sourceImage} onImageUpload={(img) => { setTabStates(p => ({ ...p, floorplan: { ...p.floorplan, sourceImage: img } })); persistTabSource('floorplan', img); }} onRemove={() => { setTabStates(p => ({ ...p, floorplan: { ...p.floorplan, sourceImage: null, referenceImage: null, generatedImages: [] } })); persistTabSource('floorplan', null); }} />
                     </Section>
                     <Section title="2. Tùy Chọn & Phân Tích">
                       <div className="space-y-4">
@@ -1158,25 +1512,29 @@ function AppContent() {
                         </button>
 
                         <textarea value={layout3DGeneratedPrompt} onChange={(e) => setLayout3DGeneratedPrompt(e.target.value)} className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md h-32 resize-none text-sm focus:ring-2 focus:ring-[var(--ring-focus)] focus:outline-none" placeholder="Prompt chuyên nghiệp sẽ xuất hiện ở đây sau khi phân tích..." />
+                        <NegativePromptField value={tabStates.floorplan.negativePrompt} onChange={(value) => setNegativePrompt('floorplan', value)} />
+                        <PromptInspector spec={promptSpecFor('floorplan', layout3DGeneratedPrompt, false)} />
 
                         {renderOptionsUI}
 
-                        <button onClick={() => handleGeneration(layout3DGeneratedPrompt, 'floorplan', false)} disabled={isBusy || !tabStates.floorplan.sourceImage || !layout3DGeneratedPrompt} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
+                        <button onClick={() => handleGeneration(layout3DGeneratedPrompt, 'floorplan', false)} disabled={isTabBusy('floorplan') || !tabStates.floorplan.sourceImage || !layout3DGeneratedPrompt} className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] font-bold py-3 px-4 rounded transition-colors flex items-center justify-center gap-2 disabled:bg-[var(--bg-disabled)] disabled:cursor-not-allowed">
                           <Icon name="sparkles" className="w-5 h-5" /> Tạo Ảnh 3D
                         </button>
                       </div>
                     </Section>
                   </div>
                   <div className="lg:col-span-2 flex flex-col gap-8">
-                    <ResultDisplay sourceImage={tabStates.floorplan.sourceImage} images={tabStates.floorplan.generatedImages} isLoading={isLoading} onUpscale={handleUpscale} upscalingIndex={upscalingIndex} onEditRequest={handleEditRequest} selectedImageIndex={tabStates.floorplan.selectedImageIndex} onSelectImageIndex={onSelectImageIndex} onChangeAngle={handleChangeAngle} onFullscreen={handleFullscreen} onCreateVideoRequest={handleCreateVideoRequest} showChangeAngleButton={true} />
-                    <HistoryPanel title={t('hist_floorplan')} history={floorplanHistory} onClear={() => clearRenderHistory('floorplan')} onSelect={(item) => handleSelectRenderHistoryItem(item, 'floorplan')} emptyText={t('hist_empty')} />
+                    <ResultDisplay sourceImage={tabStates.floorplan.sourceImage} images={tabStates.floorplan.generatedImages} isLoading={isTabGenerating('floorplan')} onCancel={() => handleCancelGeneration('floorplan')} onUpscale={handleUpscale} upscalingIndex={upscalingIndex} onEditRequest={handleEditRequest} selectedImageIndex={tabStates.floorplan.selectedImageIndex} manifest={tabStates.floorplan.manifest} prompt={layout3DGeneratedPrompt} onVary={(index, strength) => handleVary('floorplan', index, strength)} onUseSeed={(value) => setFixedSeed(String(value))} onSelectImageIndex={onSelectImageIndex} onChangeAngle={handleChangeAngle} onFullscreen={handleFullscreen} onCreateVideoRequest={handleCreateVideoRequest} showChangeAngleButton={true} />
+                    <HistoryPanel title={t('hist_floorplan')} history={floorplanHistory.items} hasMore={floorplanHistory.hasMore} onLoadMore={floorplanHistory.loadMore} onClear={() => clearRenderHistory('floorplan')} onSelect={(item) => handleSelectRenderHistoryItem(item, 'floorplan')} onRerun={(item, newSeed) => handleRerunRenderHistoryItem(item, 'floorplan', newSeed)} emptyText={t('hist_empty')} />
                   </div>
                 </div>
               </div>
 
               <div className={activeTab === 'virtual_tour' ? 'fade-in-up' : 'hidden'}>
                 <Suspense fallback={<LoadingFallback />}>
-                  <VirtualTourTab setActiveTab={setActiveTab} setImageForEditing={setImageForEditing} onCreateVideoRequest={handleCreateVideoRequest} onImageGenerated={() => incrementImageCount(1)} />
+                  <VirtualTourTab setActiveTab={setActiveTab} setImageForEditing={setImageForEditing} onCreateVideoRequest={handleCreateVideoRequest} onImageGenerated={(image, label) => {
+                    saveToHistory(tourHistory, { id: Date.now(), timestamp: new Date().toLocaleTimeString(), images: [image], prompt: label });
+                  }} history={tourHistory} />
                 </Suspense>
               </div>
 
@@ -1190,7 +1548,6 @@ function AppContent() {
                       historyItemToRestore={editHistoryItemToRestore}
                       onHistoryRestored={() => setEditHistoryItemToRestore(null)}
                       onCreateVideoRequest={handleCreateVideoRequest}
-                      onImageGenerated={() => incrementImageCount(1)}
                     />
                   </Suspense>
                 </div>
@@ -1253,6 +1610,11 @@ function AppContent() {
           {isUserGuideOpen && (
             <UserGuideModal onClose={() => setIsUserGuideOpen(false)} />
           )}
+          <JobsDrawer
+            isOpen={isJobsDrawerOpen}
+            onClose={() => setIsJobsDrawerOpen(false)}
+            onOpenImage={setUpscaledImageForModal}
+          />
           <ApiKeyModal
             isOpen={isApiKeyModalOpen}
             onClose={() => setIsApiKeyModalOpen(false)}
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { useToast } from './Toast';
+import { AuditEntry, DirectoryUser, UserRole } from '../types';
+import { approveUser, deactivateUser, isDirectoryAvailable, listAuditLog, listDirectoryUsers, rejectUser, setUserRole } from '../services/userDirectory';
+import { DEFAULT_ROLE, ROLE_PERMISSIONS, USER_ROLES } from '../services/rolePermissions';
+
+type UserFilter = 'pending' | 'active' | 'all';
+
+const STATUS_STYLES: Record<DirectoryUser['status'], string> = {
+    pending: 'bg-yellow-500/20 text-yellow-300',
+    active: 'bg-green-500/20 text-green-300',
+    rejected: 'bg-red-500/20 text-red-300',
+    deactivated: 'bg-gray-500/20 text-gray-300',
+};
+
+const formatDate = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString() : '—';
+
+const UserRow: React.FC<{
+    user: DirectoryUser;
+    busy: boolean;
+    onAction: (action: 'approve' | 'reject' | 'deactivate', user: DirectoryUser) => void;
+    onRoleChange: (user: DirectoryUser, role: UserRole) => void;
+}> = ({ user, busy, onAction, onRoleChange }) => {
+    const { t } = useLanguage();
+    const buttonClass = "text-xs font-bold px-2.5 py-1 rounded-md transition-colors disabled:opacity-40";
+    return (
+        <tr className="border-t border-[var(--border-2)] align-top">
+            <td className="py-2.5 pr-3">
+                <p className="text-sm font-semibold text-[var(--text-primary)]">{user.name}</p>
+                <p className="text-xs text-[var(--text-secondary)]">{user.email}</p>
+                <p className="text-[10px] text-[var(--text-tertiary)]">{user.position}</p>
+            </td>
+            <td className="py-2.5 pr-3">
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[user.status]}`}>
+                    {t(`admin_status_${user.status}`)}
+                </span>
+                {user.decidedBy && <p className="text-[10px] text-[var(--text-tertiary)] mt-1">{user.decidedBy} · {formatDate(user.decidedAt)}</p>}
+                {user.tokenExpiresAt && <p className="text-[10px] text-[var(--text-tertiary)]">{t('admin_expires')} {new Date(user.tokenExpiresAt).toLocaleDateString()}</p>}
+            </td>
+            <td className="py-2.5 pr-3">
+                <select
+                    value={user.role || DEFAULT_ROLE}
+                    disabled={busy}
+                    onChange={(e) => onRoleChange(user, e.target.value as UserRole)}
+                    className="bg-[var(--bg-surface-3)] text-xs rounded border border-[var(--border-2)] px-1.5 py-1 outline-none"
+                >
+                    {USER_ROLES.map(role => <option key={role} value={role}>{t(`role_${role}`)}</option>)}
+                </select>
+                <p className="text-[10px] text-[var(--text-tertiary)] mt-1">{ROLE_PERMISSIONS[user.role || DEFAULT_ROLE].dailyImageQuota}/{t('admin_per_day')}</p>
+            </td>
+            <td className="py-2.5 pr-3 text-xs text-[var(--text-secondary)] whitespace-nowrap">{formatDate(user.requestedAt)}</td>
+            <td className="py-2.5 pr-3 text-right">
+                <p className="text-sm font-bold text-[var(--text-primary)]">{user.imagesGenerated}</p>
+                <p className="text-[10px] text-[var(--text-tertiary)]">{t('admin_today')} {user.imagesToday}</p>
+            </td>
+            <td className="py-2.5 text-right whitespace-nowrap space-x-1.5">
+                {user.status !== 'active' && (
+                    <button disabled={busy} onClick={() => onAction('approve', user)} className={`${buttonClass} bg-green-600/80 hover:bg-green-600 text-white`}>{t('admin_approve')}</button>
+                )}
+                {user.status === 'pending' && (
+                    <button disabled={busy} onClick={() => onAction('reject', user)} className={`${buttonClass} bg-[var(--bg-surface-3)] hover:bg-red-600 text-[var(--text-primary)] hover:text-white`}>{t('admin_reject')}</button>
+                )}
+                {user.status === 'active' && (
+                    <button disabled={busy} onClick={() => onAction('deactivate', user)} className={`${buttonClass} bg-[var(--bg-surface-3)] hover:bg-red-600 text-[var(--text-primary)] hover:text-white`}>{t('admin_deactivate')}</button>
+                )}
+            </td>
+        </tr>
+    );
+};
+
+export const AdminConsole: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { t } = useLanguage();
+    const { addToast, addErrorToast } = useToast();
+    const [users, setUsers] = useState<DirectoryUser[]>([]);
+    const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+    const [filter, setFilter] = useState<UserFilter>('pending');
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [busyEmail, setBusyEmail] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (!isDirectoryAvailable()) {
+            setLoadError(t('admin_no_proxy'));
+            return;
+        }
+        setIsLoading(true);
+        try {
+            const [userList, entries] = await Promise.all([listDirectoryUsers(), listAuditLog()]);
+            setUsers(userList);
+            setAuditLog(entries);
+            setLoadError(null);
+        } catch (error: any) {
+            console.error("Loading admin console failed:", error);
+            setLoadError(error?.message || String(error));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [t]);
+
+    useEffect(() => { refresh(); }, [refresh]);
+
+    const handleAction = async (action: 'approve' | 'reject' | 'deactivate', user: DirectoryUser) => {
+        let reason: string | undefined;
+        if (action === 'approve') {
+            if (!window.confirm(`${t('admin_approve')} ${user.email}?`)) return;
+        } else {
+            const answer = window.prompt(`${t(`admin_${action}`)} ${user.email} — ${t('admin_reason')}`, '');
+            if (answer === null) return;
+            reason = answer.trim() || undefined;
+        }
+
+        setBusyEmail(user.email);
+        try {
+            const updated = action === 'approve' ? await approveUser(user.email)
+                : action === 'reject' ? await rejectUser(user.email, reason)
+                : await deactivateUser(user.email, reason);
+            addToast({ type: 'success', title: t(`admin_${action}`), message: `${updated.name} · ${updated.email}` });
+            await refresh();
+        } catch (error) {
+            console.error(`Admin ${action} failed:`, error);
+            addErrorToast(error);
+        } finally {
+            setBusyEmail(null);
+        }
+    };
+
+    const handleRoleChange = async (user: DirectoryUser, role: UserRole) => {
+        setBusyEmail(user.email);
+        try {
+            await setUserRole(user.email, role);
+            addToast({ type: 'success', title: t('admin_col_role'), message: `${user.email} · ${t(`role_${role}`)}` });
+            await refresh();
+        } catch (error) {
+            console.error("Changing role failed:", error);
+            addErrorToast(error);
+        } finally {
+            setBusyEmail(null);
+        }
+    };
+
+    const visibleUsers = users.filter(u => filter === 'all' || u.status === filter);
+    const pendingCount = users.filter(u => u.status === 'pending').length;
+
+    return (
+        <div className="min-h-screen p-8 fade-in-up">
+            <header className="flex items-center gap-4 mb-8">
+                <button onClick={onClose} className="p-2 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-surface-1)] transition-all duration-200" aria-label="Back">
+                    <Icon name="arrow-uturn-left" className="w-7 h-7" />
+                </button>
+                <h1 className="text-2xl md:text-3xl font-bold tracking-wider text-[var(--text-primary)] uppercase font-montserrat flex-grow">{t('admin_title')}</h1>
+                <button onClick={refresh} disabled={isLoading} className="flex items-center gap-2 text-sm font-semibold text-[var(--text-secondary)] hover:text-[var(--text-primary)] disabled:opacity-50">
+                    <Icon name="arrow-path" className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+                    {t('admin_refresh')}
+                </button>
+            </header>
+
+            {loadError ? (
+                <div className="max-w-xl mx-auto bg-[var(--bg-surface-1)] border border-[var(--border-1)] rounded-xl p-6 text-center">
+                    <p className="text-[var(--text-danger)] font-semibold">{loadError}</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                    <section className="xl:col-span-2 bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] rounded-xl p-5">
+                        <div className="flex items-center gap-2 mb-4">
+                            {(['pending', 'active', 'all'] as UserFilter[]).map(f => (
+                                <button
+                                    key={f}
+                                    onClick={() => setFilter(f)}
+                                    className={`text-xs font-bold px-3 py-1.5 rounded-full transition-colors ${filter === f ? 'bg-[var(--bg-interactive)] text-white' : 'bg-[var(--bg-surface-2)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'}`}
+                                >
+                                    {t(`admin_filter_${f}`)}{f === 'pending' && pendingCount > 0 ? ` (${pendingCount})` : ''}
+                                </button>
+                            ))}
+                        </div>
+                        {visibleUsers.length === 0 ? (
+                            <p className="text-sm text-[var(--text-tertiary)] text-center py-10">{t('admin_no_users')}</p>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left">
+                                    <thead>
+                                        <tr className="text-[10px] uppercase tracking-widest text-[var(--text-tertiary)]">
+                                            <th className="pb-2 pr-3 font-bold">{t('admin_col_user')}</th>
+                                            <th className="pb-2 pr-3 font-bold">{t('admin_col_status')}</th>
+                                            <th className="pb-2 pr-3 font-bold">{t('admin_col_role')}</th>
+                                            <th className="pb-2 pr-3 font-bold">{t('admin_col_requested')}</th>
+                                            <th className="pb-2 pr-3 font-bold text-right">{t('admin_col_images')}</th>
+                                            <th className="pb-2"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {visibleUsers.map(user => <UserRow key={user.email} user={user} busy={busyEmail === user.email} onAction={handleAction} onRoleChange={handleRoleChange} />)}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </section>
+
+                    <section className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] rounded-xl p-5">
+                        <h2 className="text-sm font-bold text-[var(--text-primary)] mb-3 flex items-center gap-2">
+                            <Icon name="clock" className="w-4 h-4" />
+                            {t('admin_audit_log')}
+                        </h2>
+                        {auditLog.length === 0 ? (
+                            <p className="text-xs text-[var(--text-tertiary)]">{t('admin_no_audit')}</p>
+                        ) : (
+                            <ul className="space-y-2 max-h-[70vh] overflow-y-auto pr-1">
+                                {auditLog.map((entry, i) => (
+                                    <li key={`${entry.at}-${i}`} className="text-xs border-l-2 border-[var(--border-2)] pl-2.5">
+                                        <p className="text-[var(--text-primary)]">
+                                            <span className="font-semibold">{entry.actor}</span> {t(`admin_audit_${entry.action}`)} {entry.actor !== entry.target && <span className="font-semibold">{entry.target}</span>}
+                                        </p>
+                                        {entry.detail && <p className="text-[var(--text-tertiary)]">{entry.detail}</p>}
+                                        <p className="text-[10px] text-[var(--text-tertiary)]">{formatDate(entry.at)}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AdminConsole;
@@ -0,0 +1,213 @@
+import React, { useRef } from 'react';
+import { EditorAsset, ElementPlacement, SourceImage } from '../types';
+import { dataUrlToSourceImage } from '../services/geminiService';
+
+// --- Asset Layer ---
+// Cut-outs (furniture, trees, people, products) placed over the editor canvas. Geometry is kept in
+// canvas pixels; on generate the assets go to generateImageWithElements with their boxes as placement.
+
+const ASSET_MAX_SIZE = 1024;      // cut-outs are downscaled to this before they go in state
+const ASSET_INITIAL_FRACTION = 0.3; // a new asset fills this much of the canvas' longer side
+const MIN_ASSET_SIZE = 16;
+const ROTATION_SNAP = 15;
+
+type DragKind = 'move' | 'scale' | 'rotate';
+
+interface DragState {
+    kind: DragKind;
+    start: { x: number; y: number };
+    origin: EditorAsset;
+}
+
+const readFile = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load the asset image."));
+    img.src = src;
+});
+
+/** Reads an image file into a new asset centred on the canvas; the caller stacks it (zIndex) on top. */
+export const createAsset = async (file: File, canvasWidth: number, canvasHeight: number): Promise<EditorAsset> => {
+    const img = await loadImage(await readFile(file));
+    // PNG keeps the cut-out's transparency
+    const scale = Math.min(1, ASSET_MAX_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const fit = (Math.max(canvasWidth, canvasHeight) * ASSET_INITIAL_FRACTION) / Math.max(img.width, img.height);
+    const width = img.width * fit;
+    const height = img.height * fit;
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+        type: 'image',
+        src: canvas.toDataURL('image/png'),
+        x: (canvasWidth - width) / 2,
+        y: (canvasHeight - height) / 2,
+        width,
+        height,
+        rotation: 0,
+        zIndex: 0
+    };
+};
+
+export const sortByZIndex = (assets: EditorAsset[]): EditorAsset[] => [...assets].sort((a, b) => a.zIndex - b.zIndex);
+
+/** Moves an asset one step forward (1) or backward (-1); zIndex is renumbered 1..n. */
+export const reorderAsset = (assets: EditorAsset[], id: string, direction: 1 | -1): EditorAsset[] => {
+    const ordered = sortByZIndex(assets);
+    const index = ordered.findIndex(a => a.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= ordered.length) return assets;
+    [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+    return ordered.map((asset, i) => ({ ...asset, zIndex: i + 1 }));
+};
+
+/** Generator inputs for assets given back to front (see visibleAssets): one element image and one placement each. */
+export const assetsToElements = (assets: EditorAsset[], canvasWidth: number, canvasHeight: number): { elements: SourceImage[]; placements: ElementPlacement[] } => ({
+    elements: assets.map(asset => dataUrlToSourceImage(asset.src)!),
+    placements: assets.map(asset => ({
+        x: asset.x / canvasWidth,
+        y: asset.y / canvasHeight,
+        width: asset.width / canvasWidth,
+        height: asset.height / canvasHeight,
+        rotation: asset.rotation
+    }))
+});
+
+/**
+ * Paints each asset's rotated box white onto a B/W mask, so an inpainting pass may change those
+ * pixels; otherwise the strict composite would drop assets placed outside the painted area.
+ */
+export const addAssetFootprints = async (maskDataUrl: string, assets: EditorAsset[], canvasWidth: number, canvasHeight: number): Promise<string> => {
+    const mask = await loadImage(maskDataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(mask, 0, 0, canvasWidth, canvasHeight);
+    ctx.fillStyle = 'white';
+    assets.forEach(asset => {
+        ctx.save();
+        ctx.translate(asset.x + asset.width / 2, asset.y + asset.height / 2);
+        ctx.rotate((asset.rotation * Math.PI) / 180);
+        ctx.fillRect(-asset.width / 2, -asset.height / 2, asset.width, asset.height);
+        ctx.restore();
+    });
+    return canvas.toDataURL('image/png');
+};
+
+interface AssetLayerProps {
+    assets: EditorAsset[];
+    width: number;            // canvas size in pixels
+    height: number;
+    interactive: boolean;     // only in asset mode; otherwise strokes reach the mask canvas underneath
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    onChange: (id: string, patch: Partial<EditorAsset>) => void;
+}
+
+const AssetLayer: React.FC<AssetLayerProps> = ({ assets, width, height, interactive, selectedId, onSelect, onChange }) => {
+    const layerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<DragState | null>(null);
+
+    const toCanvas = (clientX: number, clientY: number) => {
+        const rect = layerRef.current!.getBoundingClientRect();
+        return {
+            x: (clientX - rect.left) * (width / rect.width),
+            y: (clientY - rect.top) * (height / rect.height)
+        };
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const { origin, start } = drag;
+        const point = toCanvas(e.clientX, e.clientY);
+        const cx = origin.x + origin.width / 2;
+        const cy = origin.y + origin.height / 2;
+
+        if (drag.kind === 'move') {
+            onChange(origin.id, { x: origin.x + point.x - start.x, y: origin.y + point.y - start.y });
+        } else if (drag.kind === 'scale') {
+            // Uniform scale about the centre, so a cut-out never gets distorted
+            const startDistance = Math.hypot(start.x - cx, start.y - cy) || 1;
+            const minScale = MIN_ASSET_SIZE / Math.min(origin.width, origin.height);
+            const scale = Math.max(minScale, Math.hypot(point.x - cx, point.y - cy) / startDistance);
+            const w = origin.width * scale;
+            const h = origin.height * scale;
+            onChange(origin.id, { x: cx - w / 2, y: cy - h / 2, width: w, height: h });
+        } else {
+            // The handle sits above the top edge, so pointing straight up is 0°
+            let rotation = (Math.atan2(point.y - cy, point.x - cx) * 180) / Math.PI + 90;
+            if (e.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+            onChange(origin.id, { rotation: ((rotation % 360) + 360) % 360 });
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+        window.removeEventListener('pointermove', handlePointerMove);
+        window.removeEventListener('pointerup', handlePointerUp);
+    };
+
+    const startDrag = (e: React.PointerEvent, asset: EditorAsset, kind: DragKind) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onSelect(asset.id);
+        dragRef.current = { kind, start: toCanvas(e.clientX, e.clientY), origin: asset };
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+    };
+
+    const handleClass = "absolute w-3 h-3 bg-white border-2 border-indigo-500 rounded-full";
+
+    return (
+        <div
+            ref={layerRef}
+            className={`absolute inset-0 ${interactive ? 'pointer-events-auto' : 'pointer-events-none'}`}
+            onPointerDown={() => onSelect(null)}
+        >
+            {sortByZIndex(assets).map(asset => {
+                const isSelected = interactive && asset.id === selectedId;
+                return (
+                    <div
+                        key={asset.id}
+                        onPointerDown={(e) => startDrag(e, asset, 'move')}
+                        className={`absolute touch-none ${interactive ? 'cursor-move' : ''} ${isSelected ? 'outline outline-2 outline-indigo-500' : ''}`}
+                        style={{
+                            left: `${(asset.x / width) * 100}%`,
+                            top: `${(asset.y / height) * 100}%`,
+                            width: `${(asset.width / width) * 100}%`,
+                            height: `${(asset.height / height) * 100}%`,
+                            transform: `rotate(${asset.rotation}deg)`,
+                            zIndex: asset.zIndex
+                        }}
+                    >
+                        <img src={asset.src} alt="" className="w-full h-full select-none pointer-events-none" draggable={false} />
+                        {isSelected && (
+                            <>
+                                <div onPointerDown={(e) => startDrag(e, asset, 'scale')} className={`${handleClass} -left-1.5 -top-1.5 cursor-nwse-resize`} />
+                                <div onPointerDown={(e) => startDrag(e, asset, 'scale')} className={`${handleClass} -right-1.5 -top-1.5 cursor-nesw-resize`} />
+                                <div onPointerDown={(e) => startDrag(e, asset, 'scale')} className={`${handleClass} -left-1.5 -bottom-1.5 cursor-nesw-resize`} />
+                                <div onPointerDown={(e) => startDrag(e, asset, 'scale')} className={`${handleClass} -right-1.5 -bottom-1.5 cursor-nwse-resize`} />
+                                <div className="absolute left-1/2 -top-6 w-px h-6 bg-indigo-500 pointer-events-none" />
+                                <div onPointerDown={(e) => startDrag(e, asset, 'rotate')} className={`${handleClass} left-1/2 -top-7 -translate-x-1/2 cursor-grab`} />
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default AssetLayer;
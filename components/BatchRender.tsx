@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { useToast } from './Toast';
+import { GenerationManifest, SourceImage } from '../types';
+import { RenderManifestInput, generateImagesWithManifest, isAbortError, sourceImageToDataUrl } from '../services/geminiService';
+import { runJob } from '../services/jobQueue';
+
+// --- Batch Rendering ---
+// Renders many sources (e.g. a folder of SketchUp exports) with one configuration. The prompt,
+// reference, creativity and aspect ratio are captured when the batch starts, so editing the form
+// afterwards does not change queued or retried items. Every source is its own job in the queue.
+
+export type BatchConfig = Omit<RenderManifestInput, 'sourceImage'>;
+
+type BatchStatus = 'waiting' | 'queued' | 'done' | 'failed' | 'cancelled';
+
+interface BatchItem {
+    id: string;
+    name: string;
+    source: SourceImage;
+    status: BatchStatus;
+    config?: BatchConfig;
+    images: string[];
+    error?: string;
+}
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+    waiting: 'bg-gray-500/20 text-gray-300',
+    queued: 'bg-blue-500/20 text-blue-300',
+    done: 'bg-green-500/20 text-green-300',
+    failed: 'bg-red-500/20 text-red-300',
+    cancelled: 'bg-yellow-500/20 text-yellow-300',
+};
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const readSource = (file: File): Promise<SourceImage> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ base64: (reader.result as string).split(',')[1], mimeType: file.type });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+});
+
+export const BatchRender: React.FC<{
+    label: string;                                  // job label prefix, e.g. the tab name
+    getConfig: () => BatchConfig | null;            // current form; null when something required is missing
+    onItemComplete: (prompt: string, images: string[], manifest: GenerationManifest) => void;
+    onOpenImages: (images: string[], startIndex: number) => void;
+}> = ({ label, getConfig, onItemComplete, onOpenImages }) => {
+    const { t } = useLanguage();
+    const { addToast, addErrorToast } = useToast();
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+    const controllers = useRef(new Map<string, AbortController>());
+
+    const updateItem = (id: string, update: Partial<BatchItem>) => {
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...update } : item));
+    };
+
+    const handleFiles = async (fileList: FileList | null) => {
+        const files = Array.from(fileList || []).filter(f => f.type.startsWith('image/')).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+        if (files.length === 0) return;
+        try {
+            const sources = await Promise.all(files.map(readSource));
+            setItems(prev => [...prev, ...sources.map((source, i) => ({
+                id: newId(),
+                name: files[i].name,
+                source,
+                status: 'waiting' as const,
+                images: []
+            }))]);
+        } catch (error) {
+            addErrorToast(error);
+        }
+    };
+
+    const runItem = async (item: BatchItem, config: BatchConfig) => {
+        const controller = new AbortController();
+        controllers.current.set(item.id, controller);
+        updateItem(item.id, { status: 'queued', config, images: [], error: undefined });
+        try {
+            const { images, manifest } = await runJob(
+                { label: `${label} · ${item.name}`, source: config.renderType, capability: 'i2i', signal: controller.signal },
+                signal => generateImagesWithManifest({ ...config, sourceImage: item.source }, { signal })
+            );
+            updateItem(item.id, { status: 'done', images });
+            onItemComplete(config.prompt, images, manifest);
+        } catch (error: any) {
+            const cancelled = isAbortError(error) && error.name !== 'TimeoutError';
+            updateItem(item.id, { status: cancelled ? 'cancelled' : 'failed', error: cancelled ? undefined : (error?.message || String(error)) });
+        } finally {
+            controllers.current.delete(item.id);
+        }
+    };
+
+    const handleRunAll = () => {
+        const config = getConfig();
+        if (!config) {
+            addToast({ type: 'warning', title: t('batch_title'), message: t('batch_missing_prompt') });
+            return;
+        }
+        items.filter(item => item.status !== 'queued' && item.status !== 'done').forEach(item => runItem(item, config));
+    };
+
+    // Retries reuse the configuration the batch ran with
+    const handleRetry = (item: BatchItem) => {
+        const config = item.config || getConfig();
+        if (config) runItem(item, config);
+    };
+
+    const handleCancelAll = () => controllers.current.forEach(controller => controller.abort());
+
+    const handleRemove = (id: string) => {
+        controllers.current.get(id)?.abort();
+        setItems(prev => prev.filter(item => item.id !== id));
+    };
+
+    const handleClear = () => {
+        handleCancelAll();
+        setItems([]);
+    };
+
+    const pendingCount = items.filter(item => item.status !== 'done' && item.status !== 'queued').length;
+    const queuedCount = items.filter(item => item.status === 'queued').length;
+    const doneCount = items.filter(item => item.status === 'done').length;
+    const allResults = items.flatMap(item => item.images);
+    const buttonClass = "flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-md transition-colors disabled:opacity-40";
+
+    return (
+        <div className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] shadow-2xl shadow-[var(--shadow-color)] p-6 rounded-xl">
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <h2 className="text-lg font-semibold text-[var(--text-primary)] flex-grow">
+                    {t('batch_title')}
+                    {items.length > 0 && <span className="ml-2 text-xs font-normal text-[var(--text-tertiary)]">{doneCount}/{items.length}</span>}
+                </h2>
+                <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+                {/* webkitdirectory is not in React's typings; set through a spread so folders can be picked */}
+                <input ref={folderInputRef} type="file" multiple className="hidden" {...{ webkitdirectory: '' }} onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }} />
+                <button onClick={() => fileInputRef.current?.click()} className={`${buttonClass} bg-[var(--bg-surface-3)] hover:bg-[var(--bg-surface-2)] text-[var(--text-primary)]`}>
+                    <Icon name="photo" className="w-4 h-4" /> {t('batch_add_images')}
+                </button>
+                <button onClick={() => folderInputRef.current?.click()} className={`${buttonClass} bg-[var(--bg-surface-3)] hover:bg-[var(--bg-surface-2)] text-[var(--text-primary)]`}>
+                    <Icon name="rectangle-group" className="w-4 h-4" /> {t('batch_add_folder')}
+                </button>
+                {queuedCount > 0 && (
+                    <button onClick={handleCancelAll} className={`${buttonClass} bg-[var(--bg-surface-3)] hover:bg-red-600 text-[var(--text-primary)] hover:text-white`}>
+                        <Icon name="x-circle" className="w-4 h-4" /> {t('btn_cancel')}
+                    </button>
+                )}
+                <button onClick={handleRunAll} disabled={pendingCount === 0} className={`${buttonClass} bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)]`}>
+                    <Icon name="sparkles" className="w-4 h-4" /> {t('batch_run')} {pendingCount > 0 && `(${pendingCount})`}
+                </button>
+            </div>
+
+            {items.length === 0 ? (
+                <p className="text-sm text-[var(--text-tertiary)]">{t('batch_desc')}</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3">
+                        {items.map(item => (
+                            <div key={item.id} className="bg-[var(--bg-surface-2)] border border-[var(--border-2)] rounded-lg overflow-hidden">
+                                <div className="relative aspect-video bg-black/20">
+                                    <img
+                                        src={item.images[0] || sourceImageToDataUrl(item.source)}
+                                        alt={item.name}
+                                        onClick={() => item.images.length > 0 && onOpenImages(allResults, allResults.indexOf(item.images[0]))}
+                                        className={`w-full h-full object-cover ${item.images.length > 0 ? 'cursor-pointer' : 'opacity-60'}`}
+                                    />
+                                    {item.status === 'queued' && (
+                                        <div className="absolute inset-0 flex items-center justify-center">
+                                            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-white"></div>
+                                        </div>
+                                    )}
+                                    {item.images.length > 1 && <span className="absolute bottom-1 right-1 text-[10px] font-bold bg-black/60 text-white px-1.5 rounded">+{item.images.length - 1}</span>}
+                                </div>
+                                <div className="p-2">
+                                    <div className="flex items-center gap-1.5">
+                                        <p className="text-xs font-semibold text-[var(--text-primary)] truncate flex-grow" title={item.name}>{item.name}</p>
+                                        <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[item.status]}`}>{t(`batch_status_${item.status}`)}</span>
+                                    </div>
+                                    {item.error && <p className="text-[10px] text-red-400 mt-1 line-clamp-2" title={item.error}>{item.error}</p>}
+                                    <div className="flex justify-end gap-1 mt-1.5">
+                                        {(item.status === 'failed' || item.status === 'cancelled' || item.status === 'done') && (
+                                            <button onClick={() => handleRetry(item)} className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)]" title={t('batch_retry')}>
+                                                <Icon name="arrow-path" className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        <button onClick={() => handleRemove(item.id)} className="p-1 text-[var(--text-tertiary)] hover:text-[var(--text-danger)]" title={t('batch_remove')}>
+                                            <Icon name="trash" className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={handleClear} className="mt-3 text-xs text-[var(--text-tertiary)] hover:text-[var(--text-danger)]">{t('batch_clear')}</button>
+                </>
+            )}
+        </div>
+    );
+};
@@ -2,15 +2,17 @@
 import React from 'react';
 import { Icon } from './icons';
 import { useLanguage } from './LanguageContext';
-import { EditHistoryItem, SourceImage } from '../types';
+import { HistoryPreview } from '../types';
 
 interface EditHistoryPanelProps {
-    history: EditHistoryItem[];
+    history: HistoryPreview[];
     onClear: () => void;
-    onSelect: (item: EditHistoryItem) => void;
+    onSelect: (item: HistoryPreview) => void;
+    hasMore?: boolean;
+    onLoadMore?: () => void;
 }
 
-export const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ history, onClear, onSelect }) => {
+export const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ history, onClear, onSelect, hasMore, onLoadMore }) => {
   const { t } = useLanguage();
   return (
     <div className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] shadow-2xl shadow-[var(--shadow-color)] p-6 rounded-xl">
@@ -43,7 +45,7 @@ export const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ history, onC
               <div className="flex gap-2">
                 <div className="w-1/2 relative">
                     <img 
-                        src={`data:${item.sourceImage.mimeType};base64,${item.sourceImage.base64}`} 
+                        src={item.thumbnails[0]} 
                         alt="Source" 
                         className="w-full aspect-square object-cover rounded" 
                     />
@@ -51,7 +53,7 @@ export const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ history, onC
                 </div>
                 <div className="w-1/2 relative">
                     <img 
-                        src={item.resultImage} 
+                        src={item.thumbnails[1]} 
                         alt="Result" 
                         className="w-full aspect-square object-cover rounded" 
                     />
@@ -60,6 +62,13 @@ export const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ history, onC
               </div>
             </li>
           ))}
+          {hasMore && onLoadMore && (
+            <li>
+              <button onClick={onLoadMore} className="w-full text-sm font-semibold text-[var(--text-accent)] hover:text-[var(--text-primary)] py-2 transition-colors">
+                {t('hist_load_more')}
+              </button>
+            </li>
+          )}
         </ul>
       ) : (
         <p className="text-sm text-[var(--text-tertiary)] text-center py-4">{t('hist_empty')}</p>
@@ -2,17 +2,20 @@
 import React from 'react';
 import { Icon } from './icons';
 import { useLanguage } from './LanguageContext';
-import { RenderHistoryItem } from '../types';
+import { HistoryPreview } from '../types';
 
 interface HistoryPanelProps {
-    history: RenderHistoryItem[];
+    history: HistoryPreview[];
     onClear: () => void;
-    onSelect: (item: RenderHistoryItem) => void;
+    onSelect: (item: HistoryPreview) => void;
     title: string;
     emptyText: string;
+    hasMore?: boolean;
+    onLoadMore?: () => void;
+    onRerun?: (item: HistoryPreview, newSeed: boolean) => void;  // offered on entries that carry a generation manifest
 }
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = React.memo(({ history, onClear, onSelect, title, emptyText }) => {
+export const HistoryPanel: React.FC<HistoryPanelProps> = React.memo(({ history, onClear, onSelect, title, emptyText, hasMore, onLoadMore, onRerun }) => {
   const { t } = useLanguage();
   return (
     <div className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] shadow-2xl shadow-[var(--shadow-color)] p-6 rounded-xl">
@@ -37,13 +40,13 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = React.memo(({ history,
             >
               <div className="flex justify-between items-start mb-2">
                 <div className="flex-grow min-w-0 mr-2">
-                  <p className="font-semibold text-sm">{item.images.length} ảnh</p>
+                  <p className="font-semibold text-sm">{item.imageCount} ảnh</p>
                   <p className="text-xs text-[var(--text-secondary)] truncate" title={item.prompt}>{item.prompt}</p>
                 </div>
                 <p className="text-xs text-[var(--text-tertiary)] self-start flex-shrink-0">{item.timestamp}</p>
               </div>
               <div className="flex overflow-x-auto gap-2 pb-1">
-                {item.images.map((image, index) => (
+                {item.thumbnails.map((image, index) => (
                     <img 
                         key={index} 
                         src={image} 
@@ -52,8 +55,27 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = React.memo(({ history,
                     />
                 ))}
               </div>
+              {onRerun && item.hasManifest && (
+                <div className="flex gap-2 mt-2" onClick={e => e.stopPropagation()}>
+                  <button onClick={() => onRerun(item, false)} className="flex items-center gap-1 text-xs font-semibold text-[var(--text-accent)] hover:text-[var(--text-primary)] transition-colors" title={t('hist_rerun_same_title')}>
+                    <Icon name="arrow-path" className="w-3.5 h-3.5" />
+                    {t('hist_rerun_same')}
+                  </button>
+                  <button onClick={() => onRerun(item, true)} className="flex items-center gap-1 text-xs font-semibold text-[var(--text-accent)] hover:text-[var(--text-primary)] transition-colors" title={t('hist_rerun_new_seed_title')}>
+                    <Icon name="sparkles" className="w-3.5 h-3.5" />
+                    {t('hist_rerun_new_seed')}
+                  </button>
+                </div>
+              )}
             </li>
           ))}
+          {hasMore && onLoadMore && (
+            <li>
+              <button onClick={onLoadMore} className="w-full text-sm font-semibold text-[var(--text-accent)] hover:text-[var(--text-primary)] py-2 transition-colors">
+                {t('hist_load_more')}
+              </button>
+            </li>
+          )}
         </ul>
       ) : (
         <p className="text-sm text-[var(--text-tertiary)] text-center py-4">{emptyText}</p>
@@ -0,0 +1,73 @@
+import React, { useEffect, useRef } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { EditHistoryNode, EditHistoryTree } from '../types';
+import { currentPath, historyRows } from '../services/editHistory';
+
+// --- History Tree ---
+// Every step of the edit session, branches indented under the step they forked from. Clicking a step
+// reopens its document; editing from there starts a new branch and keeps the others.
+
+interface HistoryTreeProps {
+    tree: EditHistoryTree;
+    onJump: (id: string) => void;
+    onCompare: (node: EditHistoryNode) => void; // generated steps: before/after view
+}
+
+export const HistoryTree: React.FC<HistoryTreeProps> = ({ tree, onJump, onCompare }) => {
+    const { t } = useLanguage();
+    const currentRef = useRef<HTMLLIElement>(null);
+    const path = currentPath(tree);
+
+    // Keep the current step in view as the history grows
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [tree.currentId]);
+
+    return (
+        <ul className="space-y-0.5">
+            {historyRows(tree).map(({ node, depth }) => {
+                const isCurrent = node.id === tree.currentId;
+                const onPath = path.has(node.id);
+                return (
+                    <li
+                        key={node.id}
+                        ref={isCurrent ? currentRef : undefined}
+                        onClick={() => onJump(node.id)}
+                        className={`flex items-center gap-2 pr-2 py-1 rounded-md cursor-pointer border ${isCurrent ? 'bg-indigo-600/20 border-indigo-500/50' : 'border-transparent hover:bg-gray-800'}`}
+                        style={{ paddingLeft: 8 + depth * 12 }}
+                    >
+                        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${isCurrent ? 'bg-indigo-400' : onPath ? 'bg-gray-400' : 'bg-gray-700'}`} />
+                        {node.result && (
+                            <img src={node.result} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0 border border-gray-700" />
+                        )}
+                        <div className="flex-grow min-w-0">
+                            <div className={`text-[11px] truncate ${onPath ? 'text-gray-200' : 'text-gray-500'}`}>{t(node.action)}</div>
+                            {node.detail && <div className="text-[10px] text-gray-500 truncate">{node.detail}</div>}
+                        </div>
+                        {node.result && node.original && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onCompare(node); }}
+                                className="p-1 rounded text-gray-500 hover:text-gray-200"
+                                title={t('res_zoom')}
+                            >
+                                <Icon name="arrows-right-left" className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        {node.result && (
+                            <a
+                                href={node.result}
+                                download={`cpg-edit-${node.timestamp}.png`}
+                                onClick={(e) => e.stopPropagation()}
+                                className="p-1 rounded text-gray-500 hover:text-gray-200"
+                                title={t('btn_download')}
+                            >
+                                <Icon name="download" className="w-3.5 h-3.5" />
+                            </a>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
@@ -1,15 +1,26 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { 
+    dataUrlToSourceImage,
+    editRegions,
     generateImageWithElements, 
-    optimizeEnhancePrompt,
-    strictComposite
+    inpaintImage,
+    optimizeEnhancePrompt
 } from '../services/geminiService';
-import InpaintingModal, { InpaintingModalRef } from './InpaintingModal';
+import { runJob } from '../services/jobQueue';
+import { createImageMetadata, downloadImage } from '../services/imageMetadata';
+import InpaintingModal, { InpaintingModalRef, MaskAction } from './InpaintingModal';
+import AssetLayer, { addAssetFootprints, assetsToElements, createAsset, reorderAsset } from './AssetLayer';
+import TextLayer from './TextLayer';
+import RegionLayer from './RegionLayer';
+import { LayersPanel } from './LayersPanel';
+import { HistoryTree } from './HistoryTree';
 import ImageComparison from './ImageComparison';
 import GuideModal from './GuideModal';
 import { Icon } from './icons';
-import { GenerationState, ToolMode, HistoryItem, SourceImage, EditHistoryItem } from '../types';
+import { GenerationState, ToolMode, SourceImage, EditHistoryItem, EditorAsset, EditorDocument, EditorLayer, EditorText, SelectionOp, AnnotationBox, RegionEditMode, EditHistoryNode, EditHistoryTree } from '../types';
+import { buildMask, createDocument, createLayer, fitToDocument, flattenDocument, insertAbove, maskBounds, moveLayer, visibleAssets } from '../services/editorDocument';
+import { commitHistory, createHistory, jumpToHistory, redoHistory, undoHistory } from '../services/editHistory';
 import { useLanguage } from './LanguageContext';
 
 // Helper for ID generation
@@ -28,6 +39,29 @@ const BRUSH_COLORS = [
     { id: 5, color: '#a855f7', label: 'Purple' }  // 5: Purple
 ];
 
+// How a layer shows on the canvas; index is its position in the stack
+const layerStyle = (layer: EditorLayer, index: number): React.CSSProperties => ({
+    zIndex: index,
+    opacity: layer.opacity,
+    mixBlendMode: layer.blendMode === 'normal' ? undefined : layer.blendMode,
+    visibility: layer.visible ? 'visible' : 'hidden'
+});
+
+// Layer kind each tool works on; regions belong to the document rather than a layer
+const TOOL_LAYER_KINDS: Record<ToolMode, 'mask' | 'asset' | 'text' | null> = {
+    brush: 'mask', eraser: 'mask', rect: 'mask', ellipse: 'mask', polygon: 'mask', lasso: 'mask', wand: 'mask', region: null, asset: 'asset', text: 'text'
+};
+
+// Selection tools, all writing into the mask layer
+const SELECTION_TOOLS: { mode: ToolMode; icon: string; label: string }[] = [
+    { mode: 'rect', icon: 'select-rect', label: 'select_tool_rect' },
+    { mode: 'ellipse', icon: 'select-ellipse', label: 'select_tool_ellipse' },
+    { mode: 'polygon', icon: 'select-polygon', label: 'select_tool_polygon' },
+    { mode: 'lasso', icon: 'select-lasso', label: 'select_tool_lasso' },
+    { mode: 'wand', icon: 'cursor-arrow-rays', label: 'select_tool_wand' }
+];
+const SELECTION_OPS: SelectionOp[] = ['add', 'subtract', 'intersect'];
+
 // Helper Sub-component for buttons
 const ToolButton = ({ icon, label, isActive, onClick }: { icon: string | React.ReactNode, label: string, isActive: boolean, onClick: () => void }) => (
     <div className="relative group">
@@ -52,11 +86,11 @@ interface ImageEditorProps {
         maskImage: SourceImage;
         prompt: string;
         resultImage: string;
+        document: EditorDocument;
     }) => void;
     historyItemToRestore: EditHistoryItem | null;
     onHistoryRestored: () => void;
     onCreateVideoRequest: (imageUrl: string) => void;
-    onImageGenerated: () => void;
 }
 
 export const ImageEditor: React.FC<ImageEditorProps> = ({
@@ -64,8 +98,7 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
     onClearInitialImage,
     onEditComplete,
     historyItemToRestore,
-    onHistoryRestored,
-    onImageGenerated
+    onHistoryRestored
 }) => {
     const { t, setLanguage, language } = useLanguage();
 
@@ -79,7 +112,6 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
         aspectRatio: 'original',
         creativity: 5,
         isProcessing: false,
-        history: [], 
         canvasWidth: 800,
         canvasHeight: 800
     });
@@ -87,16 +119,38 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
     const [activeMode, setActiveMode] = useState<ToolMode>('brush');
     const [brushSize, setBrushSize] = useState(20);
     const [brushOpacity, setBrushOpacity] = useState(0.4); 
+    const [featherRadius, setFeatherRadius] = useState(4);
     const [activeColorId, setActiveColorId] = useState<number>(1); 
     const [isDragging, setIsDragging] = useState(false);
+    const [layers, setLayers] = useState<EditorLayer[]>([]);
+    const [activeLayerId, setActiveLayerId] = useState('');
+    const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
+    const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
+    const [textSize, setTextSize] = useState(32);
+    const [selectionOp, setSelectionOp] = useState<SelectionOp>('add');
+    const [wandTolerance, setWandTolerance] = useState(32);
+    const [selectionRadius, setSelectionRadius] = useState(8); // for grow / shrink / feather
+    const [regions, setRegions] = useState<AnnotationBox[]>([]);
+    const [selectedRegionId, setSelectedRegionId] = useState<number | null>(null);
+    const [regionMode, setRegionMode] = useState<RegionEditMode>('combined');
+    const [historyTree, setHistoryTree] = useState<EditHistoryTree | null>(null);
     
     const [comparisonData, setComparisonData] = useState<{ before: string, after: string } | null>(null);
     const [showGuide, setShowGuide] = useState(false);
     
     const canvasRef = useRef<InpaintingModalRef>(null);
+    const assetInputRef = useRef<HTMLInputElement>(null);
+    const pendingDocumentRef = useRef<EditorDocument | null>(null); // restored from history, applied when its base image loads
+    const pendingCommandRef = useRef<Omit<EditHistoryNode, 'id' | 'parentId' | 'children' | 'document' | 'timestamp'> | null>(null); // names the next history step
+    const openedRef = useRef<{ layers: EditorLayer[]; regions: AnnotationBox[] } | null>(null); // a reopened document is not a new step
 
     const activeColor = BRUSH_COLORS.find(c => c.id === activeColorId)?.color || '#ef4444';
 
+    // Brush strokes go to the active layer when it is a mask, otherwise to the topmost mask
+    const activeLayer = layers.find(l => l.id === activeLayerId);
+    const baseLayer = layers[0];
+    const maskLayer = activeLayer?.kind === 'mask' ? activeLayer : [...layers].reverse().find(l => l.kind === 'mask');
+
     // Sync Props
     useEffect(() => {
         if (initialImage) {
@@ -134,7 +188,22 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
 
     // Restore History Logic from Props
     useEffect(() => {
-        if (historyItemToRestore) {
+        if (historyItemToRestore?.document) {
+            // Layered session: reopen it exactly as it was saved
+            const doc = historyItemToRestore.document;
+            pendingDocumentRef.current = doc;
+            openDocument(doc);
+            setHistoryTree(createHistory(doc));
+            setState(prev => ({
+                ...prev,
+                originalImage: doc.layers[0].image,
+                originalMimeType: 'image/png',
+                prompt: historyItemToRestore.prompt,
+                canvasWidth: doc.width,
+                canvasHeight: doc.height
+            }));
+            onHistoryRestored();
+        } else if (historyItemToRestore) {
             const img = new Image();
             const src = `data:${historyItemToRestore.sourceImage.mimeType};base64,${historyItemToRestore.sourceImage.base64}`;
             img.onload = () => {
@@ -152,6 +221,124 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
         }
     }, [historyItemToRestore, onHistoryRestored]);
 
+    // Every new base image starts a new layered document, unless it is the base of a restored one
+    useEffect(() => {
+        const pending = pendingDocumentRef.current;
+        pendingDocumentRef.current = null;
+        if (!state.originalImage) {
+            openDocument({ width: 0, height: 0, layers: [], activeLayerId: '' });
+            setHistoryTree(null);
+        } else {
+            const doc = pending && pending.layers[0]?.image === state.originalImage
+                ? pending
+                : createDocument(state.originalImage, state.canvasWidth, state.canvasHeight, { base: t('layer_kind_base'), mask: `${t('layer_kind_mask')} 1` });
+            openDocument(doc);
+            setHistoryTree(createHistory(doc));
+        }
+    }, [state.originalImage]);
+
+    const currentDocument = (): EditorDocument => ({ width: state.canvasWidth, height: state.canvasHeight, layers, activeLayerId, regions });
+
+    // --- History ---
+    // Shows a document without recording it as a step: a new image, or a step of the history tree
+    const openDocument = (doc: EditorDocument) => {
+        const opened = { layers: doc.layers, regions: doc.regions || [] };
+        openedRef.current = opened;
+        setLayers(opened.layers);
+        setActiveLayerId(doc.activeLayerId);
+        setRegions(opened.regions);
+        setSelectedAssetId(null);
+        setSelectedTextId(null);
+        setSelectedRegionId(null);
+    };
+
+    // Names the step the next document change records; the first description before a change wins,
+    // so a command can describe itself before calling the generic updates it is built from
+    const describeChange = (action: string, info: { detail?: string; result?: string; original?: string; mergeKey?: string } = {}) => {
+        if (!pendingCommandRef.current) pendingCommandRef.current = { action, ...info };
+    };
+
+    // Every change to the layers or regions becomes a step of the history tree
+    useEffect(() => {
+        const command = pendingCommandRef.current;
+        pendingCommandRef.current = null;
+        const opened = openedRef.current;
+        if (opened && opened.layers === layers && opened.regions === regions) return;
+        setHistoryTree(prev => prev && commitHistory(prev, currentDocument(), command || { action: 'cmd_edit' }));
+    }, [layers, regions]);
+
+    const moveInHistory = (step: (tree: EditHistoryTree) => EditHistoryTree) => {
+        if (!historyTree) return;
+        const next = step(historyTree);
+        if (next.currentId === historyTree.currentId) return;
+        setHistoryTree(next);
+        openDocument(next.nodes[next.currentId].document);
+    };
+
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes (text fields keep their own undo)
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const tag = (e.target as HTMLElement).tagName;
+            if (tag === 'TEXTAREA' || tag === 'INPUT') return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) moveInHistory(undoHistory);
+            else if (key === 'y' || key === 'z') moveInHistory(redoHistory);
+            else return;
+            e.preventDefault();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [historyTree]);
+
+    // --- Layers ---
+    const nextLayerName = (existing: EditorLayer[], kind: EditorLayer['kind']) =>
+        `${t(`layer_kind_${kind}`)} ${existing.filter(l => l.kind === kind).length + 1}`;
+
+    const updateLayer = useCallback((id: string, patch: Partial<EditorLayer>) => {
+        describeChange('cmd_layer_change', { mergeKey: `layer:${id}:${Object.keys(patch).join()}` });
+        setLayers(prev => prev.map(layer => layer.id === id ? { ...layer, ...patch } : layer));
+    }, []);
+
+    const addLayer = (kind: 'mask' | 'asset' | 'text') => {
+        const layer = createLayer(kind, nextLayerName(layers, kind));
+        describeChange('cmd_layer_add', { detail: layer.name });
+        setLayers(prev => [...prev, layer]);
+        setActiveLayerId(layer.id);
+    };
+
+    const handleDeleteLayer = (id: string) => {
+        const index = layers.findIndex(l => l.id === id);
+        describeChange('cmd_layer_delete', { detail: layers[index]?.name });
+        setLayers(prev => prev.filter(l => l.id !== id));
+        if (id === activeLayerId) setActiveLayerId(layers[index - 1]?.id || '');
+    };
+
+    // Tools work on a layer of their kind: the active one, else the topmost, else a new one
+    const selectTool = (mode: ToolMode) => {
+        setActiveMode(mode);
+        const kind = TOOL_LAYER_KINDS[mode];
+        if (!kind || activeLayer?.kind === kind) return;
+        const existing = [...layers].reverse().find(l => l.kind === kind);
+        if (existing) setActiveLayerId(existing.id);
+        else addLayer(kind);
+    };
+
+    const handleSelectLayer = (id: string) => {
+        setActiveLayerId(id);
+        const kind = layers.find(l => l.id === id)?.kind;
+        if (kind === 'mask' && TOOL_LAYER_KINDS[activeMode] !== 'mask') setActiveMode('brush');
+        if (kind === 'asset' || kind === 'text') setActiveMode(kind);
+    };
+
+    const handleMaskChange = (strokes: string, action: MaskAction) => {
+        if (!maskLayer) return;
+        if (action === 'brush' || action === 'eraser') describeChange(`cmd_${action}`);
+        else if (action === 'grow' || action === 'shrink' || action === 'feather' || action === 'clear') describeChange(`cmd_mask_${action}`);
+        else describeChange('cmd_select', { detail: t(`select_tool_${action}`) });
+        updateLayer(maskLayer.id, { image: strokes });
+    };
+
     // --- Actions ---
 
     const handleReset = (skipConfirm: boolean = false) => {
@@ -168,7 +355,6 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
             aspectRatio: 'original',
             creativity: 5,
             isProcessing: false,
-            history: [],
             canvasWidth: 800,
             canvasHeight: 800
         });
@@ -177,25 +363,11 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
         onClearInitialImage();
     };
 
-    const handleDownloadCurrent = () => {
-        if (canvasRef.current) {
-            const { composite } = canvasRef.current.snapshot();
-            const link = document.createElement('a');
-            // If there's a result available (in comparisonData or history), allow downloading that.
-            // Otherwise fallback to composite (which is just the background if no edit happened yet)
-            // But usually we want to download the RESULT of the edit.
-            
-            // Check if we have a recent result
-            let downloadUrl = composite;
-            if (state.history.length > 0) {
-                // If history exists, prefer the latest result
-                downloadUrl = state.history[0].result;
-            }
-
-            link.href = downloadUrl;
-            link.download = `cpg-edit-${Date.now()}.png`;
-            link.click();
-        }
+    // Exports what the canvas shows: every visible layer flattened, masks left out
+    const handleDownloadCurrent = async () => {
+        if (!state.originalImage) return;
+        const flattened = await flattenDocument(currentDocument());
+        downloadImage(flattened, `cpg-edit-${Date.now()}`, createImageMetadata(state.prompt));
     };
 
     const processFile = useCallback((file: File) => {
@@ -237,6 +409,124 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
         reader.readAsDataURL(file);
     }, [state.canvasWidth, state.canvasHeight]);
 
+    // New assets go on top of the active asset layer (or a new one), centred; the last one added is selected
+    const addAssetFiles = useCallback(async (files: File[]) => {
+        const images = files.filter(file => file.type.startsWith('image/'));
+        if (images.length === 0) return;
+        try {
+            const created = await Promise.all(images.map(file => createAsset(file, state.canvasWidth, state.canvasHeight)));
+            const targetId = activeLayer?.kind === 'asset' && !activeLayer.locked ? activeLayer.id : null;
+            const newLayer = targetId ? null : createLayer('asset', nextLayerName(layers, 'asset'));
+            describeChange('cmd_asset_add');
+            setLayers(prev => (newLayer ? [...prev, newLayer] : prev).map(layer => {
+                if (layer.id !== (targetId || newLayer.id)) return layer;
+                const top = (layer.assets || []).reduce((max, asset) => Math.max(max, asset.zIndex), 0);
+                return { ...layer, assets: [...(layer.assets || []), ...created.map((asset, i) => ({ ...asset, zIndex: top + i + 1 }))] };
+            }));
+            if (newLayer) setActiveLayerId(newLayer.id);
+            setSelectedAssetId(created[created.length - 1].id);
+            setActiveMode('asset');
+        } catch (error) {
+            console.error("Could not add asset", error);
+            alert("Could not read the asset image.");
+        }
+    }, [state.canvasWidth, state.canvasHeight, activeLayer, layers]);
+
+    const updateAssets = (layerId: string, update: (assets: EditorAsset[]) => EditorAsset[]) => {
+        describeChange('cmd_asset_order');
+        setLayers(prev => prev.map(layer => layer.id === layerId ? { ...layer, assets: update(layer.assets || []) } : layer));
+    };
+
+    const updateAsset = useCallback((id: string, patch: Partial<EditorAsset>) => {
+        describeChange('cmd_asset_move', { mergeKey: `asset:${id}` });
+        setLayers(prev => prev.map(layer => layer.assets?.some(asset => asset.id === id)
+            ? { ...layer, assets: layer.assets.map(asset => asset.id === id ? { ...asset, ...patch } : asset) }
+            : layer));
+    }, []);
+
+    const deleteSelectedAsset = () => {
+        describeChange('cmd_asset_delete');
+        setLayers(prev => prev.map(layer => layer.assets ? { ...layer, assets: layer.assets.filter(asset => asset.id !== selectedAssetId) } : layer));
+        setSelectedAssetId(null);
+    };
+
+    // --- Text ---
+    const updateText = useCallback((id: string, patch: Partial<EditorText>) => {
+        describeChange('cmd_text_change', { mergeKey: `text:${id}` });
+        setLayers(prev => prev.map(layer => layer.texts?.some(item => item.id === id)
+            ? { ...layer, texts: layer.texts.map(item => item.id === id ? { ...item, ...patch } : item) }
+            : layer));
+    }, []);
+
+    const deleteText = (id: string) => {
+        describeChange('cmd_text_delete');
+        setLayers(prev => prev.map(layer => layer.texts ? { ...layer, texts: layer.texts.filter(item => item.id !== id) } : layer));
+        if (id === selectedTextId) setSelectedTextId(null);
+    };
+
+    const addText = (x: number, y: number) => {
+        if (activeLayer?.kind !== 'text' || activeLayer.locked) return;
+        const text = window.prompt(t('edit_text_prompt'));
+        if (!text?.trim()) return;
+        const item: EditorText = { id: generateId(), text: text.trim(), x, y, fontSize: textSize, color: activeColor };
+        describeChange('cmd_text_add', { detail: item.text });
+        updateLayer(activeLayer.id, { texts: [...(activeLayer.texts || []), item] });
+        setSelectedTextId(item.id);
+    };
+
+    // Clearing the text deletes the note
+    const editText = (id: string) => {
+        const item = layers.flatMap(layer => layer.texts || []).find(i => i.id === id);
+        if (!item) return;
+        const text = window.prompt(t('edit_text_prompt'), item.text);
+        if (text === null) return;
+        if (text.trim()) updateText(id, { text: text.trim() });
+        else deleteText(id);
+    };
+
+    // --- Regions ---
+    const nextRegionId = () => regions.reduce((max, region) => Math.max(max, region.id), 0) + 1;
+
+    const updateRegion = (id: number, patch: Partial<AnnotationBox>) => {
+        describeChange('cmd_region_change', { detail: `#${id}`, mergeKey: `region:${id}:${Object.keys(patch).join()}` });
+        setRegions(prev => prev.map(region => region.id === id ? { ...region, ...patch } : region));
+    };
+
+    const deleteRegion = (id: number) => {
+        describeChange('cmd_region_delete', { detail: `#${id}` });
+        setRegions(prev => prev.filter(region => region.id !== id));
+        if (id === selectedRegionId) setSelectedRegionId(null);
+    };
+
+    const addRegion = (box: { x: number; y: number; width: number; height: number }) => {
+        const instruction = window.prompt(t('region_prompt'));
+        if (instruction === null) return;
+        const region: AnnotationBox = { id: nextRegionId(), ...box, prompt: instruction.trim() };
+        describeChange('cmd_region_add', { detail: `#${region.id}` });
+        setRegions(prev => [...prev, region]);
+        setSelectedRegionId(region.id);
+    };
+
+    // The current mask layer's strokes become a region of their own; the layer is cleared for the next one
+    const addRegionFromMask = async () => {
+        if (!maskLayer) return;
+        const { mask, hasMask } = await buildMask({ ...currentDocument(), layers: [{ ...maskLayer, visible: true }] });
+        const bounds = hasMask ? await maskBounds(mask, state.canvasWidth, state.canvasHeight) : null;
+        if (!bounds) {
+            alert(t('region_mask_empty'));
+            return;
+        }
+        const region: AnnotationBox = { id: nextRegionId(), ...bounds, prompt: '', mask };
+        describeChange('cmd_region_add', { detail: `#${region.id}` });
+        setRegions(prev => [...prev, region]);
+        setSelectedRegionId(region.id);
+        canvasRef.current?.clearMask();
+    };
+
+    // In asset mode, dropped and pasted images become assets instead of replacing the base image
+    const isPlacingAssets = activeMode === 'asset' && !!state.originalImage;
+    const isSelecting = SELECTION_TOOLS.some(tool => tool.mode === activeMode);
+
     // --- Event Listeners ---
     useEffect(() => {
         const handlePaste = (e: ClipboardEvent) => {
@@ -246,7 +536,10 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
                     const item = e.clipboardData.items[i];
                     if (item.type.indexOf("image") !== -1) {
                         const file = item.getAsFile();
-                        if (file) processFile(file);
+                        if (file) {
+                            if (isPlacingAssets) addAssetFiles([file]);
+                            else processFile(file);
+                        }
                         e.preventDefault();
                         break;
                     }
@@ -255,13 +548,31 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
         };
         window.addEventListener('paste', handlePaste);
         return () => window.removeEventListener('paste', handlePaste);
-    }, [processFile]);
+    }, [processFile, addAssetFiles, isPlacingAssets]);
+
+    // Delete removes the selected asset or text note
+    const selectedItemId = activeMode === 'asset' ? selectedAssetId : activeMode === 'text' ? selectedTextId : activeMode === 'region' ? selectedRegionId : null;
+    useEffect(() => {
+        if (selectedItemId === null) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.target as HTMLElement).tagName === 'TEXTAREA' || (e.target as HTMLElement).tagName === 'INPUT') return;
+            if (e.key === 'Delete' || e.key === 'Backspace') {
+                if (activeMode === 'asset') deleteSelectedAsset();
+                else if (activeMode === 'region') deleteRegion(selectedRegionId);
+                else deleteText(selectedTextId);
+                e.preventDefault();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectedItemId, activeMode]);
 
     const handleDragOver = (e: React.DragEvent) => { e.preventDefault(); setIsDragging(true); };
     const handleDragLeave = (e: React.DragEvent) => { e.preventDefault(); setIsDragging(false); };
     const handleDrop = (e: React.DragEvent) => {
         e.preventDefault(); setIsDragging(false);
-        if (e.dataTransfer.files?.[0]) processFile(e.dataTransfer.files[0]);
+        if (isPlacingAssets) addAssetFiles(Array.from(e.dataTransfer.files || []));
+        else if (e.dataTransfer.files?.[0]) processFile(e.dataTransfer.files[0]);
     };
 
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -270,73 +581,98 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
         e.target.value = '';
     };
 
+    // Shared tail of every generation: the new layers as a history step, the saved entry and the before/after view
+    const recordResult = (doc: EditorDocument, nextLayers: EditorLayer[], source: string, mainImage: SourceImage, maskImage: SourceImage | null, result: string, detail: string) => {
+        // The photo as sent is kept for comparison
+        describeChange('cmd_generate', { detail, result, original: source });
+        setLayers(nextLayers);
+
+        onEditComplete({
+            sourceImage: mainImage,
+            maskImage: maskImage || { base64: '', mimeType: 'image/png' },
+            prompt: state.prompt,
+            resultImage: result,
+            document: { ...doc, layers: nextLayers }
+        });
+
+        // Show comparison immediately
+        setComparisonData({ before: source, after: result });
+    };
+
+    // Per-region edit: every region's change lands on its own patch layer, named after the region
+    const generateRegionEdits = async (doc: EditorDocument, source: string, mainImage: SourceImage, promptedRegions: AnnotationBox[], styleGuide: string) => {
+        const result = await runJob(
+            { label: `Edit · ${promptedRegions.length} regions`, source: 'edit', capability: 'inpaint' },
+            signal => editRegions(mainImage, state.prompt, promptedRegions, { mode: regionMode, styleGuide, creativity: state.creativity, featherRadius, signal })
+        );
+        if (!result) return;
+
+        let nextLayers = doc.layers;
+        for (const patch of result.patches) {
+            const name = `#${patch.id} ${patch.prompt}`;
+            const layer = createLayer('patch', name.length > 32 ? `${name.slice(0, 32)}…` : name, { image: await fitToDocument(patch.image, doc.width, doc.height) });
+            nextLayers = insertAbove(nextLayers, layer, ['base', 'patch']);
+        }
+        const detail = state.prompt.trim() || promptedRegions.map(region => `#${region.id} ${region.prompt}`).join(', ');
+        recordResult(doc, nextLayers, source, mainImage, dataUrlToSourceImage(result.mask), result.image, detail);
+    };
+
     const handleGenerate = async () => {
-        if (!canvasRef.current || !state.originalImage) return;
+        if (!state.originalImage) return;
         setState(prev => ({ ...prev, isProcessing: true }));
 
         try {
-            // Snapshot gives us the background and the mask (B/W mask for AI)
-            // Note: mask string here is a data URL of the B/W mask
-            const { composite, mask } = canvasRef.current.snapshot();
+            // The generator sees the visible photo layers (base and patches) and the union of the visible masks
+            const doc = currentDocument();
+            const [source, { mask, hasMask }] = await Promise.all([flattenDocument(doc, { pixelsOnly: true }), buildMask(doc)]);
+            const mainImage: SourceImage = { base64: source.split(',')[1], mimeType: 'image/png' };
+            const styleGuide = "photorealistic, 8k, high detail, professional photography";
+
+            // Regions with instructions take over from the painted mask and the assets
+            const promptedRegions = regions.filter(region => region.prompt.trim());
+            if (promptedRegions.length > 0) {
+                await generateRegionEdits(doc, source, mainImage, promptedRegions, styleGuide);
+                return;
+            }
             
-            // Inpainting is true if there is a mask
-            // Simple check on mask data length or content
-            const isInpainting = !!(mask && mask.length > 1000); 
+            // Inpainting is true if anything was painted on a mask layer
+            const isInpainting = hasMask; 
             
-            const elements: SourceImage[] = [];
+            // Placed assets are blended in as extra elements, each with its box as placement context
+            const assets = visibleAssets(doc.layers);
+            const { elements, placements } = assetsToElements(assets, state.canvasWidth, state.canvasHeight);
             let maskImage: SourceImage | null = null;
 
             if (mask && isInpainting) {
-                const maskB64 = mask.split(',')[1];
+                const maskB64 = (assets.length > 0 ? await addAssetFootprints(mask, assets, state.canvasWidth, state.canvasHeight) : mask).split(',')[1];
                 if(maskB64) {
                     maskImage = { base64: maskB64, mimeType: 'image/png' };
                 }
             }
 
-            const mainImage: SourceImage = { base64: state.originalImage.split(',')[1], mimeType: 'image/png' };
-
             // 1. Generate via AI
-            const generatedResponse = await generateImageWithElements(
-                state.prompt,
-                mainImage, 
-                maskImage,
-                elements,
-                "photorealistic, 8k, high detail, professional photography",
-                state.creativity,
-                isInpainting
+            // Masked edits go through the inpainting pipeline, which always applies the strict composite
+            // (pixels outside the mask stay identical to the original, seam softened by featherRadius).
+            const generatedResponse = await runJob(
+                { label: `Edit · ${state.prompt.slice(0, 60)}`, source: 'edit', capability: isInpainting && maskImage ? 'inpaint' : 'i2i' },
+                signal => isInpainting && maskImage
+                    ? inpaintImage(mainImage, maskImage, state.prompt, { elements, placements, styleGuide, creativity: state.creativity, featherRadius, signal })
+                    : generateImageWithElements(state.prompt, mainImage, null, elements, styleGuide, state.creativity, false, { placements, signal })
             );
 
              if (generatedResponse) {
-                 // 2. Strict Compositing: Enforce strict masking
-                 // Even if AI hallucinates outside mask, this will fix it.
-                 let finalResult = generatedResponse;
-                 if (isInpainting && mask) {
-                     finalResult = await strictComposite(state.originalImage, generatedResponse, mask);
-                 }
+                 const finalResult = generatedResponse;
+
+                 // 2. The result becomes a patch layer above the photo layers; the assets it blended in are hidden
+                 const patch = createLayer('patch', nextLayerName(doc.layers, 'patch'), { image: await fitToDocument(finalResult, doc.width, doc.height) });
+                 const nextLayers = insertAbove(
+                     doc.layers.map(layer => layer.kind === 'asset' && layer.visible && layer.assets?.length ? { ...layer, visible: false } : layer),
+                     patch,
+                     ['base', 'patch']
+                 );
 
                  // 3. Update History
-                 const newItem: HistoryItem = {
-                     id: generateId(),
-                     result: finalResult,
-                     original: state.originalImage, // Keep original background as reference
-                     timestamp: Date.now()
-                 };
-
-                 setState(prev => ({
-                     ...prev,
-                     history: [newItem, ...prev.history]
-                 }));
-
-                 onEditComplete({
-                    sourceImage: mainImage,
-                    maskImage: maskImage || { base64: '', mimeType: 'image/png' },
-                    prompt: state.prompt,
-                    resultImage: finalResult
-                 });
-                 onImageGenerated();
-                 
-                 // Show comparison immediately
-                 setComparisonData({ before: state.originalImage, after: finalResult });
+                 recordResult(doc, nextLayers, source, mainImage, maskImage, finalResult, state.prompt);
              }
 
         } catch (error) {
@@ -403,66 +739,36 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
                 <GuideModal onClose={() => setShowGuide(false)} />
             )}
 
-            {/* --- LEFT PANEL: History --- */}
+            {/* --- LEFT PANEL: Layers & History --- */}
             <div className="w-64 border-r border-gray-800 bg-gray-900 flex flex-col z-10">
+                 {state.originalImage && layers.length > 0 && (
+                    <LayersPanel
+                        layers={layers}
+                        activeLayerId={activeLayerId}
+                        onSelect={handleSelectLayer}
+                        onChange={updateLayer}
+                        onMove={(id, direction) => { describeChange('cmd_layer_move'); setLayers(prev => moveLayer(prev, id, direction)); }}
+                        onDelete={handleDeleteLayer}
+                        onAdd={(kind) => { addLayer(kind); setActiveMode(kind === 'mask' ? 'brush' : kind); }}
+                    />
+                 )}
                  <div className="flex border-b border-gray-800 p-4 items-center gap-2">
                     <Icon name="clock" className="w-5 h-5 text-indigo-400" />
                     <span className="text-sm font-bold tracking-wide text-gray-200 uppercase">{t('hist_edit')}</span>
                  </div>
 
                  <div className="flex-1 overflow-y-auto custom-scrollbar p-3">
-                    <div className="space-y-3">
-                        {state.history.length === 0 && (
-                            <div className="text-center py-10 text-gray-600 text-xs whitespace-pre-line">
-                                {t('hist_empty')}
-                            </div>
-                        )}
-                        {state.history.map((item, i) => (
-                            <div key={item.id} className="bg-gray-800 rounded-lg overflow-hidden border border-gray-700 group">
-                                <div className="relative aspect-video bg-gray-900">
-                                    <img src={item.result} className="w-full h-full object-cover" alt="result" />
-                                    <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                                            <button 
-                                            onClick={() => setComparisonData({ before: item.original, after: item.result })}
-                                            className="p-2 bg-indigo-500 hover:bg-indigo-400 rounded-full text-white shadow-lg transform hover:scale-105 transition"
-                                            title={t('res_zoom')}
-                                        >
-                                            <Icon name="arrows-right-left" className="w-4 h-4" />
-                                        </button>
-                                        <a 
-                                            href={item.result} 
-                                            download={`cpg-edit-${i}.jpg`}
-                                            className="p-2 bg-gray-600 hover:bg-gray-500 rounded-full text-white shadow-lg transition"
-                                            title={t('btn_download')}
-                                        >
-                                            <Icon name="download" className="w-4 h-4" />
-                                        </a>
-                                    </div>
-                                </div>
-                                <div className="p-2 flex items-center justify-between">
-                                    <span className="text-[10px] text-gray-500">{new Date(item.timestamp).toLocaleTimeString()}</span>
-                                    <button 
-                                        onClick={() => {
-                                            const img = new Image();
-                                            img.onload = () => {
-                                                    setState(prev => ({ 
-                                                        ...prev, 
-                                                        originalImage: item.result, // Load result as new base for further editing
-                                                        maskedImage: null, 
-                                                        canvasWidth: img.width,
-                                                        canvasHeight: img.height
-                                                    }));
-                                            };
-                                            img.src = item.result;
-                                        }}
-                                        className="text-[10px] bg-gray-700 hover:bg-gray-600 text-gray-200 px-2 py-1 rounded transition"
-                                    >
-                                        {t('res_edit')}
-                                    </button>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
+                    {historyTree ? (
+                        <HistoryTree
+                            tree={historyTree}
+                            onJump={(id) => moveInHistory(tree => jumpToHistory(tree, id))}
+                            onCompare={(node) => setComparisonData({ before: node.original, after: node.result })}
+                        />
+                    ) : (
+                        <div className="text-center py-10 text-gray-600 text-xs whitespace-pre-line">
+                            {t('hist_empty')}
+                        </div>
+                    )}
                  </div>
             </div>
 
@@ -511,8 +817,9 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
                          </div>
                     ) : (
                         <div className="relative w-full h-full">
+                            {/* The canvas paints the current mask layer; every other layer is stacked around it */}
                             <InpaintingModal 
-                                key={state.originalImage} 
+                                key={`${maskLayer?.id || 'none'}:${state.originalImage}`} 
                                 ref={canvasRef}
                                 width={state.canvasWidth}
                                 height={state.canvasHeight}
@@ -521,7 +828,62 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
                                 brushSize={brushSize}
                                 brushOpacity={brushOpacity}
                                 activeColor={activeColor}
-                                onSnapshot={() => {}}
+                                initialMask={maskLayer?.image}
+                                locked={!maskLayer || maskLayer.locked || !maskLayer.visible}
+                                onMaskChange={handleMaskChange}
+                                backgroundStyle={baseLayer ? layerStyle(baseLayer, 0) : undefined}
+                                maskStyle={maskLayer ? layerStyle(maskLayer, layers.indexOf(maskLayer)) : { display: 'none' }}
+                                selectionOp={selectionOp}
+                                wandTolerance={wandTolerance}
+                                getSampleImage={() => flattenDocument(currentDocument(), { pixelsOnly: true })}
+                                overlay={[...layers.map((layer, index) => {
+                                    if (index === 0 || layer === maskLayer) return null;
+                                    const isEditable = layer.id === activeLayerId && !layer.locked;
+                                    if (layer.kind === 'asset') return (
+                                        <div key={layer.id} className="absolute inset-0 pointer-events-none" style={layerStyle(layer, index)}>
+                                            <AssetLayer
+                                                assets={layer.assets || []}
+                                                width={state.canvasWidth}
+                                                height={state.canvasHeight}
+                                                interactive={activeMode === 'asset' && isEditable}
+                                                selectedId={selectedAssetId}
+                                                onSelect={setSelectedAssetId}
+                                                onChange={updateAsset}
+                                            />
+                                        </div>
+                                    );
+                                    if (layer.kind === 'text') return (
+                                        <div key={layer.id} className="absolute inset-0 pointer-events-none" style={layerStyle(layer, index)}>
+                                            <TextLayer
+                                                texts={layer.texts || []}
+                                                width={state.canvasWidth}
+                                                height={state.canvasHeight}
+                                                interactive={activeMode === 'text' && isEditable}
+                                                selectedId={selectedTextId}
+                                                onSelect={setSelectedTextId}
+                                                onAdd={addText}
+                                                onEdit={editText}
+                                                onChange={updateText}
+                                            />
+                                        </div>
+                                    );
+                                    return layer.image ? (
+                                        <img key={layer.id} src={layer.image} alt="" className="absolute inset-0 w-full h-full pointer-events-none select-none" style={layerStyle(layer, index)} draggable={false} />
+                                    ) : null;
+                                }), (regions.length > 0 || activeMode === 'region') && (
+                                    <div key="regions" className="absolute inset-0 pointer-events-none" style={{ zIndex: layers.length + 1 }}>
+                                        <RegionLayer
+                                            regions={regions}
+                                            width={state.canvasWidth}
+                                            height={state.canvasHeight}
+                                            interactive={activeMode === 'region'}
+                                            selectedId={selectedRegionId}
+                                            onSelect={setSelectedRegionId}
+                                            onAdd={addRegion}
+                                            onChange={updateRegion}
+                                        />
+                                    </div>
+                                )]}
                             />
                         </div>
                     )}
@@ -529,19 +891,78 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
 
                 {/* --- FLOATING TOOLBAR --- */}
                 {state.originalImage && (
-                    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30">
+                    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-2">
+                        {/* Selection Options */}
+                        {isSelecting && (
+                            <div className="flex items-center gap-3 bg-gray-900/90 backdrop-blur-md border border-gray-700 px-3 py-1.5 rounded-xl shadow-2xl" title={t('select_hint')}>
+                                <div className="flex bg-gray-800 rounded-lg p-0.5">
+                                    {SELECTION_OPS.map(op => (
+                                        <button
+                                            key={op}
+                                            onClick={() => setSelectionOp(op)}
+                                            className={`px-2 py-1 rounded-md text-[10px] font-semibold transition ${selectionOp === op ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                        >
+                                            {t(`select_op_${op}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                                {activeMode === 'wand' && (
+                                    <div className="flex items-center gap-2" title={t('select_tolerance')}>
+                                        <span className="text-[10px] text-gray-400">{t('select_tolerance')}</span>
+                                        <input
+                                            type="range"
+                                            min="0" max="128"
+                                            value={wandTolerance}
+                                            onChange={(e) => setWandTolerance(Number(e.target.value))}
+                                            className="w-20 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                        />
+                                        <span className="text-[10px] text-gray-400 font-mono w-6">{wandTolerance}</span>
+                                    </div>
+                                )}
+                                <div className="w-px h-4 bg-gray-700" />
+                                <input
+                                    type="range"
+                                    min="1" max="64"
+                                    value={selectionRadius}
+                                    onChange={(e) => setSelectionRadius(Number(e.target.value))}
+                                    className="w-16 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                    title={t('select_radius')}
+                                />
+                                <span className="text-[10px] text-gray-400 font-mono w-8">{selectionRadius}px</span>
+                                {(['grow', 'shrink', 'feather'] as const).map(operation => (
+                                    <button
+                                        key={operation}
+                                        onClick={() => canvasRef.current?.adjustMask(operation, selectionRadius)}
+                                        className="px-2 py-1 rounded-md text-[10px] font-semibold text-gray-300 bg-gray-800 hover:bg-gray-700 transition"
+                                    >
+                                        {t(`select_${operation}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                         <div className="flex items-center gap-1 bg-gray-900/90 backdrop-blur-md border border-gray-700 p-1.5 rounded-2xl shadow-2xl">
                             
-                            <ToolButton icon={<Icon name="brush" />} label="Cọ Vẽ" isActive={activeMode === 'brush'} onClick={() => setActiveMode('brush')} />
-                            <ToolButton icon={<Icon name="x-mark" />} label="Tẩy" isActive={activeMode === 'eraser'} onClick={() => setActiveMode('eraser')} />
+                            <ToolButton icon={<Icon name="brush" />} label="Cọ Vẽ" isActive={activeMode === 'brush'} onClick={() => selectTool('brush')} />
+                            <ToolButton icon={<Icon name="x-mark" />} label="Tẩy" isActive={activeMode === 'eraser'} onClick={() => selectTool('eraser')} />
+                            {SELECTION_TOOLS.map(tool => (
+                                <React.Fragment key={tool.mode}>
+                                    <ToolButton icon={tool.icon} label={t(tool.label)} isActive={activeMode === tool.mode} onClick={() => selectTool(tool.mode)} />
+                                </React.Fragment>
+                            ))}
+                            <ToolButton icon="rectangle-group" label={t('region_tool')} isActive={activeMode === 'region'} onClick={() => selectTool('region')} />
+                            <ToolButton icon={<Icon name="cube" />} label={t('edit_tool_asset')} isActive={activeMode === 'asset'} onClick={() => selectTool('asset')} />
+                            <ToolButton icon={<Icon name="chat-bubble-bottom-center-text" />} label={t('edit_tool_text')} isActive={activeMode === 'text'} onClick={() => selectTool('text')} />
                             
-                            {/* Numbered Brush Palette */}
-                            {activeMode === 'brush' && (
+                            {/* Numbered Brush Palette (also the colour of selections and text notes) */}
+                            {(activeMode === 'brush' || activeMode === 'text' || isSelecting) && (
                                 <div className="flex items-center gap-1.5 px-3 py-1.5 bg-gray-800 rounded-xl ml-1 border border-gray-700 animate-in fade-in slide-in-from-left-2">
                                     {BRUSH_COLORS.map((item) => (
                                         <button
                                             key={item.id}
-                                            onClick={() => setActiveColorId(item.id)}
+                                            onClick={() => {
+                                                setActiveColorId(item.id);
+                                                if (activeMode === 'text' && selectedTextId) updateText(selectedTextId, { color: item.color });
+                                            }}
                                             className={`w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-bold transition-transform hover:scale-110 ${
                                                 activeColorId === item.id 
                                                 ? 'ring-2 ring-white scale-110 shadow-lg' 
@@ -556,38 +977,77 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
                                 </div>
                             )}
 
-                            {/* Brush Settings */}
-                            <div className="flex items-center gap-3 px-3 py-1 bg-gray-800 rounded-xl ml-1 border border-gray-700">
-                                {/* Size */}
-                                <div className="flex items-center gap-2" title="Brush Size">
-                                    <div className="w-4 h-4 rounded-full border border-gray-500 flex items-center justify-center bg-gray-700">
-                                        <div className="w-1.5 h-1.5 bg-white rounded-full" />
-                                    </div>
+                            {/* Asset Controls */}
+                            {activeMode === 'asset' && (
+                                <div className="flex items-center gap-1 px-2 py-1 bg-gray-800 rounded-xl ml-1 border border-gray-700" title={t('edit_asset_hint')}>
+                                    <input ref={assetInputRef} type="file" accept="image/*" multiple className="hidden" onChange={(e) => { addAssetFiles(Array.from(e.target.files || [])); e.target.value = ''; }} />
+                                    <ToolButton icon="photo" label={t('edit_asset_add')} isActive={false} onClick={() => assetInputRef.current?.click()} />
+                                    {selectedAssetId && (
+                                        <>
+                                            <ToolButton icon="arrow-up-circle" label={t('edit_asset_forward')} isActive={false} onClick={() => updateAssets(activeLayerId, assets => reorderAsset(assets, selectedAssetId, 1))} />
+                                            <ToolButton icon="arrow-down-circle" label={t('edit_asset_backward')} isActive={false} onClick={() => updateAssets(activeLayerId, assets => reorderAsset(assets, selectedAssetId, -1))} />
+                                            <ToolButton icon="trash" label={t('edit_asset_delete')} isActive={false} onClick={deleteSelectedAsset} />
+                                        </>
+                                    )}
+                                    <span className="text-[10px] text-gray-400 font-mono px-1">{activeLayer?.assets?.length || 0}</span>
+                                </div>
+                            )}
+
+                            {/* Text Controls */}
+                            {activeMode === 'text' && (
+                                <div className="flex items-center gap-2 px-3 py-1 bg-gray-800 rounded-xl ml-1 border border-gray-700" title={t('edit_text_hint')}>
+                                    <span className="text-[10px] text-gray-400 font-bold">A</span>
                                     <input 
                                         type="range" 
-                                        min="1" max="200" 
-                                        value={brushSize} 
-                                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                                        min="12" max="160" 
+                                        value={textSize} 
+                                        onChange={(e) => {
+                                            setTextSize(Number(e.target.value));
+                                            if (selectedTextId) updateText(selectedTextId, { fontSize: Number(e.target.value) });
+                                        }}
                                         className="w-20 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                                     />
+                                    {selectedTextId && (
+                                        <ToolButton icon="trash" label={t('edit_text_delete')} isActive={false} onClick={() => deleteText(selectedTextId)} />
+                                    )}
                                 </div>
-                                {/* Opacity */}
-                                <div className="flex items-center gap-2" title="Brush Opacity">
+                            )}
+
+                            {/* Brush Settings */}
+                            {(activeMode === 'brush' || activeMode === 'eraser') && (
+                                <div className="flex items-center gap-3 px-3 py-1 bg-gray-800 rounded-xl ml-1 border border-gray-700">
+                                    {/* Size */}
+                                    <div className="flex items-center gap-2" title="Brush Size">
                                         <div className="w-4 h-4 rounded-full border border-gray-500 flex items-center justify-center bg-gray-700">
-                                        <div className="w-3 h-3 bg-white/50 rounded-full" />
+                                            <div className="w-1.5 h-1.5 bg-white rounded-full" />
+                                        </div>
+                                        <input 
+                                            type="range" 
+                                            min="1" max="200" 
+                                            value={brushSize} 
+                                            onChange={(e) => setBrushSize(Number(e.target.value))}
+                                            className="w-20 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                        />
+                                    </div>
+                                    {/* Opacity */}
+                                    <div className="flex items-center gap-2" title="Brush Opacity">
+                                            <div className="w-4 h-4 rounded-full border border-gray-500 flex items-center justify-center bg-gray-700">
+                                            <div className="w-3 h-3 bg-white/50 rounded-full" />
+                                        </div>
+                                        <input 
+                                            type="range" 
+                                            min="1" max="100" 
+                                            value={brushOpacity * 100} 
+                                            onChange={(e) => setBrushOpacity(Number(e.target.value) / 100)}
+                                            className="w-20 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                        />
                                     </div>
-                                    <input 
-                                        type="range" 
-                                        min="1" max="100" 
-                                        value={brushOpacity * 100} 
-                                        onChange={(e) => setBrushOpacity(Number(e.target.value) / 100)}
-                                        className="w-20 h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500"
-                                    />
                                 </div>
-                            </div>
+                            )}
 
                             <div className="w-px h-6 bg-gray-700 mx-1" />
-                            <ToolButton icon={<Icon name="arrow-uturn-left" />} label="Undo" isActive={false} onClick={() => canvasRef.current?.undo()} />
+                            <ToolButton icon={<Icon name="arrow-uturn-left" />} label="Undo" isActive={false} onClick={() => moveInHistory(undoHistory)} />
+                            <ToolButton icon={<Icon name="arrow-uturn-right" />} label="Redo" isActive={false} onClick={() => moveInHistory(redoHistory)} />
                             <button 
                                 onClick={() => canvasRef.current?.clearMask()}
                                 className="p-3 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-xl transition-colors"
@@ -623,6 +1083,52 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
                            {t('promptHint')}
                         </p>
                     </div>
+
+                    {/* Regions: numbered boxes or mask areas, each with its own instruction */}
+                    <div className="mb-6">
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="text-xs font-semibold text-gray-400">{t('region_title')}</label>
+                            <button onClick={addRegionFromMask} disabled={!maskLayer} className="text-[10px] text-indigo-400 hover:text-indigo-300 transition uppercase font-medium tracking-wide disabled:opacity-40">
+                                {t('region_from_mask')}
+                            </button>
+                        </div>
+                        {regions.length === 0 ? (
+                            <p className="text-[10px] text-gray-500">{t('region_hint')}</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {regions.map(region => (
+                                    <div
+                                        key={region.id}
+                                        onClick={() => setSelectedRegionId(region.id)}
+                                        className={`flex items-start gap-2 p-2 rounded-lg border ${selectedRegionId === region.id ? 'border-amber-500/60 bg-amber-500/10' : 'border-gray-800 bg-gray-950'}`}
+                                    >
+                                        <span className="w-5 h-5 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center flex-shrink-0 mt-0.5">{region.id}</span>
+                                        <textarea
+                                            value={region.prompt}
+                                            onChange={(e) => updateRegion(region.id, { prompt: e.target.value })}
+                                            placeholder={t('region_placeholder')}
+                                            rows={2}
+                                            className="flex-grow bg-transparent text-xs text-gray-200 placeholder-gray-600 outline-none resize-none"
+                                        />
+                                        <button onClick={(e) => { e.stopPropagation(); deleteRegion(region.id); }} className="p-1 text-gray-500 hover:text-red-400" title={t('region_delete')}>
+                                            <Icon name="trash" className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <div className="flex bg-gray-800 rounded-lg p-0.5" title={t(`region_mode_${regionMode}_hint`)}>
+                                    {(['combined', 'sequential'] as RegionEditMode[]).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setRegionMode(mode)}
+                                            className={`flex-1 px-2 py-1 rounded-md text-[10px] font-semibold transition ${regionMode === mode ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                                        >
+                                            {t(`region_mode_${mode}`)}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
                     
                     {/* Aspect Ratio */}
                     <div className="mb-6">
@@ -657,6 +1163,21 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({
                             className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" 
                         />
                     </div>
+
+                    {/* Mask Feather */}
+                    <div className="mb-8">
+                         <div className="flex justify-between mb-2">
+                            <label className="text-xs font-semibold text-gray-400">{t('edit_feather')}</label>
+                            <span className="text-xs text-indigo-400 font-mono">{featherRadius}px</span>
+                        </div>
+                        <input 
+                            type="range" min="0" max="40" 
+                            value={featherRadius}
+                            onChange={(e) => setFeatherRadius(Number(e.target.value))}
+                            className="w-full h-1.5 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" 
+                        />
+                        <p className="text-[10px] text-gray-500 mt-1.5">{t('edit_feather_hint')}</p>
+                    </div>
                 </div>
 
                 {/* Generate Action - Sticky Bottom */}
@@ -1,91 +1,179 @@
 
 import React, { useRef, useEffect, useImperativeHandle, forwardRef, useState } from 'react';
+import { SelectionOp, ToolMode } from '../types';
+import { applySelection, extractAlpha, featherAlpha, floodSelect, growAlpha, hexToRgb, replaceAlpha } from '../services/maskOps';
 
 export interface InpaintingModalRef {
-    snapshot: () => { composite: string; mask: string };
-    undo: () => void;
     clearMask: () => void;
+    adjustMask: (operation: 'grow' | 'shrink' | 'feather', radius: number) => void;
 }
 
+// What changed the strokes: the tool used, a grow / shrink / feather, or a clear
+export type MaskAction = ToolMode | 'grow' | 'shrink' | 'feather' | 'clear';
+
+type Point = { x: number; y: number };
+
+// Shape being drawn by a selection tool, in canvas pixels
+interface SelectionDraft {
+    points: Point[];
+    op: SelectionOp;
+}
+
+// A polygon closes when clicking this close (in screen pixels) to its first point
+const CLOSE_DISTANCE = 10;
+
 interface InpaintingModalProps {
     width: number;
     height: number;
     backgroundImage: string;
-    mode: 'brush' | 'eraser';
+    mode: ToolMode;
     brushSize: number;
     brushOpacity: number;
     activeColor: string;
-    onSnapshot: (data: { composite: string; mask: string }) => void;
+    initialMask?: string;              // strokes of the mask layer being painted; reloaded when undo / redo changes them
+    locked?: boolean;                  // the mask layer is locked: no painting
+    onMaskChange: (strokes: string, action: MaskAction) => void; // transparent PNG of the strokes after each change
+    backgroundStyle?: React.CSSProperties;  // base layer visibility, opacity and blending
+    maskStyle?: React.CSSProperties;        // mask layer stacking position, visibility and opacity
+    overlay?: React.ReactNode; // the other layers, in the same image coordinates
+    selectionOp: SelectionOp;          // for selection tools; Shift adds, Alt subtracts, both intersect
+    wandTolerance: number;             // 0-255 per colour channel
+    getSampleImage: () => Promise<string>; // what the magic wand samples (the visible photo layers)
 }
 
 const InpaintingModal = forwardRef<InpaintingModalRef, InpaintingModalProps>(({
-    width, height, backgroundImage, mode, brushSize, brushOpacity, activeColor, onSnapshot
+    width, height, backgroundImage, mode, brushSize, brushOpacity, activeColor, initialMask, locked, onMaskChange, backgroundStyle, maskStyle, overlay,
+    selectionOp, wandTolerance, getSampleImage
 }, ref) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const [history, setHistory] = useState<ImageData[]>([]);
+    const shownMask = useRef<{ mask?: string; width: number; height: number } | null>(null); // what the canvas holds
     const isDrawing = useRef(false);
     const lastPos = useRef<{ x: number, y: number } | null>(null);
+    const [draft, setDraft] = useState<SelectionDraft | null>(null);
+    const [hover, setHover] = useState<Point | null>(null); // polygon rubber band
+    const isBrush = mode === 'brush' || mode === 'eraser';
+    const isSelection = mode === 'rect' || mode === 'ellipse' || mode === 'polygon' || mode === 'lasso' || mode === 'wand';
 
-    // Initial load
+    // Loads the layer's strokes, unless they are the ones just drawn here (history is kept by the editor)
     useEffect(() => {
         const canvas = canvasRef.current;
         if (!canvas) return;
         const ctx = canvas.getContext('2d', { willReadFrequently: true });
         if (!ctx) return;
+        const shown = shownMask.current;
+        if (shown && shown.mask === initialMask && shown.width === width && shown.height === height) return;
+        shownMask.current = { mask: initialMask, width, height };
 
         // Clear and setup
         ctx.clearRect(0, 0, width, height);
         ctx.lineCap = 'round';
         ctx.lineJoin = 'round';
-        
-        // Save initial blank state
-        setHistory([ctx.getImageData(0, 0, width, height)]);
-    }, [width, height]);
 
-    useImperativeHandle(ref, () => ({
-        snapshot: () => {
-            const canvas = canvasRef.current;
-            if (!canvas) return { composite: '', mask: '' };
-
-            // Mask Base64 (Transparent with color strokes)
-            // const maskBase64 = canvas.toDataURL('image/png'); // unused
-
-            // To create B/W mask for AI:
-            const bwCanvas = document.createElement('canvas');
-            bwCanvas.width = width;
-            bwCanvas.height = height;
-            const bwCtx = bwCanvas.getContext('2d');
-            if (bwCtx) {
-                bwCtx.fillStyle = 'black';
-                bwCtx.fillRect(0, 0, width, height);
-                bwCtx.drawImage(canvas, 0, 0);
-                bwCtx.globalCompositeOperation = 'source-in';
-                bwCtx.fillStyle = 'white';
-                bwCtx.fillRect(0, 0, width, height);
-            }
-            const bwMaskBase64 = bwCanvas.toDataURL('image/png');
+        if (initialMask) {
+            const img = new Image();
+            img.onload = () => {
+                ctx.globalCompositeOperation = 'source-over';
+                ctx.globalAlpha = 1;
+                ctx.drawImage(img, 0, 0, width, height);
+            };
+            img.src = initialMask;
+        }
+    }, [width, height, initialMask]);
 
-            return { composite: backgroundImage, mask: bwMaskBase64 };
-        },
-        undo: () => {
-            if (history.length > 1) {
-                const newHistory = [...history];
-                newHistory.pop(); // Remove current
-                const previousState = newHistory[newHistory.length - 1];
-                setHistory(newHistory);
-                
-                const ctx = canvasRef.current?.getContext('2d');
-                if (ctx && previousState) {
-                    ctx.putImageData(previousState, 0, 0);
-                }
-            }
+    const emitMask = (action: MaskAction) => {
+        if (!canvasRef.current) return;
+        const strokes = canvasRef.current.toDataURL('image/png');
+        shownMask.current = { mask: strokes, width, height };
+        onMaskChange(strokes, action);
+    };
+
+    // Rewrites the strokes pixel by pixel
+    const editStrokes = (action: MaskAction, edit: (pixels: Uint8ClampedArray) => void) => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx || locked) return;
+        const image = ctx.getImageData(0, 0, width, height);
+        edit(image.data);
+        ctx.putImageData(image, 0, 0);
+        emitMask(action);
+    };
+
+    const mergeSelection = (selection: Uint8ClampedArray, op: SelectionOp) => {
+        editStrokes(mode, pixels => applySelection(pixels, selection, op, hexToRgb(activeColor), brushOpacity));
+    };
+
+    // Rasterises a finished shape into a selection
+    const commitShape = (shape: ToolMode, points: Point[], op: SelectionOp) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = 'white';
+        ctx.beginPath();
+        if (shape === 'rect' || shape === 'ellipse') {
+            const [a, b] = [points[0], points[points.length - 1]];
+            if (Math.abs(b.x - a.x) < 1 || Math.abs(b.y - a.y) < 1) return;
+            if (shape === 'rect') ctx.rect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+            else ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, Math.PI * 2);
+        } else {
+            if (points.length < 3) return;
+            points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            ctx.closePath();
+        }
+        ctx.fill();
+        mergeSelection(extractAlpha(ctx.getImageData(0, 0, width, height).data), op);
+    };
+
+    const runWand = async (point: Point, op: SelectionOp) => {
+        const img = new Image();
+        img.src = await getSampleImage();
+        await img.decode();
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+        ctx.drawImage(img, 0, 0, width, height);
+        mergeSelection(floodSelect(ctx.getImageData(0, 0, width, height).data, width, height, point.x, point.y, wandTolerance), op);
+    };
+
+    const finishDraft = () => {
+        if (draft) commitShape(mode, draft.points, draft.op);
+        setDraft(null);
+        setHover(null);
+    };
+
+    // Escape drops an unfinished shape, Enter closes a polygon
+    useEffect(() => {
+        if (!draft) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') { setDraft(null); setHover(null); }
+            if (e.key === 'Enter' && mode === 'polygon') finishDraft();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [draft, mode]);
+
+    // A tool change abandons the shape in progress
+    useEffect(() => {
+        setDraft(null);
+        setHover(null);
+    }, [mode]);
+
+    useImperativeHandle(ref, () => ({
+        adjustMask: (operation, radius) => {
+            editStrokes(operation, pixels => {
+                const alpha = extractAlpha(pixels);
+                const adjusted = operation === 'feather'
+                    ? featherAlpha(alpha, width, height, radius)
+                    : growAlpha(alpha, width, height, operation === 'grow' ? radius : -radius);
+                replaceAlpha(pixels, adjusted, hexToRgb(activeColor));
+            });
         },
         clearMask: () => {
             const canvas = canvasRef.current;
             const ctx = canvas?.getContext('2d');
-            if (canvas && ctx) {
+            if (canvas && ctx && !locked) {
                 ctx.clearRect(0, 0, canvas.width, canvas.height);
-                setHistory(prev => [...prev, ctx.getImageData(0, 0, canvas.width, canvas.height)]);
+                emitMask('clear');
             }
         }
     }));
@@ -106,7 +194,47 @@ const InpaintingModal = forwardRef<InpaintingModalRef, InpaintingModalProps>(({
         };
     };
 
+    // Modifier keys override the toolbar's selection mode for one gesture
+    const selectionOpFor = (e: React.MouseEvent | React.TouchEvent): SelectionOp =>
+        e.shiftKey && e.altKey ? 'intersect' : e.shiftKey ? 'add' : e.altKey ? 'subtract' : selectionOp;
+
+    const startSelection = (e: React.MouseEvent | React.TouchEvent) => {
+        const point = getCoords(e);
+        if (mode === 'wand') {
+            runWand(point, selectionOpFor(e)).catch(error => console.error("Magic wand failed:", error));
+        } else if (mode === 'polygon') {
+            if (!draft) {
+                setDraft({ points: [point], op: selectionOpFor(e) });
+                return;
+            }
+            const rect = canvasRef.current!.getBoundingClientRect();
+            const first = draft.points[0];
+            const screenDistance = Math.hypot((point.x - first.x) * rect.width / width, (point.y - first.y) * rect.height / height);
+            if (draft.points.length >= 3 && screenDistance < CLOSE_DISTANCE) finishDraft();
+            else setDraft({ ...draft, points: [...draft.points, point] });
+        } else {
+            setDraft({ points: [point], op: selectionOpFor(e) });
+        }
+    };
+
+    const moveSelection = (e: React.MouseEvent | React.TouchEvent) => {
+        if (!draft) return;
+        const point = getCoords(e);
+        if (mode === 'polygon') {
+            setHover(point);
+        } else if (mode === 'lasso') {
+            setDraft({ ...draft, points: [...draft.points, point] });
+        } else {
+            setDraft({ ...draft, points: [draft.points[0], point] });
+        }
+    };
+
     const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
+        if (locked || (!isBrush && !isSelection)) return;
+        if (isSelection) {
+            startSelection(e);
+            return;
+        }
         isDrawing.current = true;
         const { x, y } = getCoords(e);
         lastPos.current = { x, y };
@@ -121,6 +249,10 @@ const InpaintingModal = forwardRef<InpaintingModalRef, InpaintingModalProps>(({
     };
 
     const draw = (e: React.MouseEvent | React.TouchEvent) => {
+        if (isSelection && !locked) {
+            moveSelection(e);
+            return;
+        }
         if (!isDrawing.current || !canvasRef.current) return;
         const ctx = canvasRef.current.getContext('2d');
         if (!ctx) return;
@@ -143,21 +275,19 @@ const InpaintingModal = forwardRef<InpaintingModalRef, InpaintingModalProps>(({
     };
 
     const stopDrawing = () => {
+        // Drag shapes finish on release; polygons wait for their closing click
+        if (draft && mode !== 'polygon') finishDraft();
         if (isDrawing.current) {
             isDrawing.current = false;
             lastPos.current = null;
-            // Save state
-            const ctx = canvasRef.current?.getContext('2d');
-            if (ctx) {
-                setHistory(prev => [...prev, ctx.getImageData(0, 0, width, height)]);
-            }
+            emitMask(mode);
         }
     };
 
     return (
         <div className="flex items-center justify-center w-full h-full bg-[#1a1a1a] overflow-hidden p-4">
             <div 
-                className="relative shadow-2xl"
+                className="relative shadow-2xl isolate"
                 style={{ 
                     aspectRatio: `${width} / ${height}`,
                     maxWidth: '100%',
@@ -169,6 +299,7 @@ const InpaintingModal = forwardRef<InpaintingModalRef, InpaintingModalProps>(({
                     src={backgroundImage} 
                     alt="Background" 
                     className="block w-full h-full object-contain select-none"
+                    style={backgroundStyle}
                     draggable={false}
                 />
                 
@@ -184,11 +315,29 @@ const InpaintingModal = forwardRef<InpaintingModalRef, InpaintingModalProps>(({
                     onTouchStart={startDrawing}
                     onTouchMove={draw}
                     onTouchEnd={stopDrawing}
+                    onDoubleClick={() => mode === 'polygon' && finishDraft()}
                     className="absolute inset-0 w-full h-full touch-none"
                     style={{
-                        cursor: mode === 'eraser' ? 'crosshair' : 'default',
+                        cursor: isBrush && mode !== 'eraser' ? 'default' : 'crosshair',
+                        ...maskStyle
                     }}
                 />
+
+                {overlay}
+
+                {/* Outline of the selection being drawn */}
+                {draft && (
+                    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none" style={{ zIndex: 1000 }}>
+                        {(() => {
+                            const [a, b] = [draft.points[0], draft.points[draft.points.length - 1]];
+                            const outline = { fill: 'none', vectorEffect: 'non-scaling-stroke' } as const;
+                            if (mode === 'rect') return <rect x={Math.min(a.x, b.x)} y={Math.min(a.y, b.y)} width={Math.abs(b.x - a.x)} height={Math.abs(b.y - a.y)} {...outline} stroke="white" strokeDasharray="6 4" />;
+                            if (mode === 'ellipse') return <ellipse cx={(a.x + b.x) / 2} cy={(a.y + b.y) / 2} rx={Math.abs(b.x - a.x) / 2} ry={Math.abs(b.y - a.y) / 2} {...outline} stroke="white" strokeDasharray="6 4" />;
+                            const points = [...draft.points, ...(mode === 'polygon' && hover ? [hover] : [])].map(p => `${p.x},${p.y}`).join(' ');
+                            return <polyline points={points} {...outline} stroke="white" strokeDasharray="6 4" />;
+                        })()}
+                    </svg>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { useJobs, cancelJob, clearFinishedJobs, isJobActive, Job, JobStatus } from '../services/jobQueue';
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+    queued: 'bg-gray-500/20 text-gray-300',
+    running: 'bg-blue-500/20 text-blue-300',
+    succeeded: 'bg-green-500/20 text-green-300',
+    failed: 'bg-red-500/20 text-red-300',
+    cancelled: 'bg-yellow-500/20 text-yellow-300',
+};
+
+const formatElapsed = (job: Job, now: number) => {
+    const from = job.startedAt || job.createdAt;
+    const seconds = Math.max(0, Math.round(((job.finishedAt || now) - from) / 1000));
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const JobRow: React.FC<{ job: Job; now: number; onOpenImage?: (image: string) => void }> = ({ job, now, onOpenImage }) => {
+    const { t } = useLanguage();
+    return (
+        <li className="bg-[var(--bg-surface-2)] border border-[var(--border-2)] rounded-lg p-3">
+            <div className="flex items-start gap-2">
+                <div className="flex-grow min-w-0">
+                    <p className="text-sm font-semibold text-[var(--text-primary)] truncate" title={job.label}>{job.label}</p>
+                    <p className="text-[10px] text-[var(--text-tertiary)] mt-0.5">{job.source} · {job.lane} · {formatElapsed(job, now)}</p>
+                </div>
+                <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[job.status]}`}>
+                    {t(`job_status_${job.status}`)}
+                </span>
+                {isJobActive(job) && (
+                    <button onClick={() => cancelJob(job.id)} className="text-[var(--text-tertiary)] hover:text-red-400 transition-colors" title={t('btn_cancel')}>
+                        <Icon name="x-circle" className="w-5 h-5" />
+                    </button>
+                )}
+            </div>
+            {job.status === 'running' && (
+                <div className="h-1 mt-2 bg-[var(--bg-surface-3)] rounded-full overflow-hidden">
+                    <div className="h-full w-1/3 bg-[var(--bg-interactive)] rounded-full animate-pulse"></div>
+                </div>
+            )}
+            {job.error && <p className="text-xs text-red-400 mt-2 break-words">{job.error}</p>}
+            {job.results && job.results.length > 0 && (
+                <div className="grid grid-cols-4 gap-1.5 mt-2">
+                    {job.results.slice(0, 4).map((image, i) => (
+                        <img
+                            key={i}
+                            src={image}
+                            alt={`${job.label} ${i + 1}`}
+                            onClick={() => onOpenImage?.(image)}
+                            className="aspect-square w-full object-cover rounded cursor-pointer hover:opacity-80"
+                        />
+                    ))}
+                </div>
+            )}
+        </li>
+    );
+};
+
+export const JobsDrawer: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    onOpenImage?: (image: string) => void;
+}> = ({ isOpen, onClose, onOpenImage }) => {
+    const { t } = useLanguage();
+    const jobs = useJobs();
+    const [now, setNow] = useState(Date.now());
+    const hasActive = jobs.some(isJobActive);
+
+    // Tick elapsed times while something is running
+    useEffect(() => {
+        if (!isOpen || !hasActive) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isOpen, hasActive]);
+
+    return (
+        <div className={`fixed top-0 right-0 h-full w-full max-w-sm z-[90] transform transition-transform duration-300 ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}>
+            <div className="h-full bg-[var(--bg-surface-4)]/95 backdrop-blur-xl border-l border-[var(--border-1)] shadow-2xl flex flex-col">
+                <div className="flex items-center justify-between p-4 border-b border-[var(--border-1)]">
+                    <h2 className="text-lg font-bold text-[var(--text-primary)] flex items-center gap-2">
+                        <Icon name="rectangle-group" className="w-5 h-5" />
+                        {t('jobs_title')}
+                    </h2>
+                    <div className="flex items-center gap-2">
+                        <button onClick={clearFinishedJobs} className="text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors">
+                            {t('jobs_clear_finished')}
+                        </button>
+                        <button onClick={onClose} className="text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors">
+                            <Icon name="x-mark" className="w-6 h-6" />
+                        </button>
+                    </div>
+                </div>
+                <div className="flex-grow overflow-y-auto p-4">
+                    {jobs.length === 0 ? (
+                        <p className="text-sm text-[var(--text-tertiary)] text-center mt-10">{t('jobs_empty')}</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {jobs.map(job => <JobRow key={job.id} job={job} now={now} onOpenImage={onOpenImage} />)}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default JobsDrawer;
@@ -41,6 +41,33 @@ const translations: Record<Language, Record<string, string>> = {
     res_upscale_4k: "Upscale 4K",
     btn_download: "Tải Xuống",
     btn_generate: "Tạo Hình Ảnh",
+    btn_cancel: "Hủy",
+    jobs_title: "Hàng Đợi Tác Vụ",
+    jobs_empty: "Chưa có tác vụ nào.",
+    jobs_clear_finished: "Xóa đã xong",
+    job_status_queued: "Đang chờ",
+    job_status_running: "Đang chạy",
+    job_status_succeeded: "Hoàn tất",
+    job_status_failed: "Lỗi",
+    job_status_cancelled: "Đã hủy",
+    provider_concurrency: "Số tác vụ song song",
+    toast_cancelled: "Đã hủy yêu cầu tạo ảnh.",
+    toast_timeout: "Yêu cầu quá thời gian chờ. Vui lòng thử lại.",
+    error_generic_title: "Lỗi",
+    error_quota_title: "Hết hạn mức",
+    error_quota_hint: "Dịch vụ tạo ảnh đang giới hạn tốc độ hoặc đã hết hạn mức trong ngày. Hãy đợi một lát rồi thử lại, hoặc bật thêm nhà cung cấp khác trong cài đặt API Key.",
+    error_invalid_key_title: "API Key không hợp lệ",
+    error_invalid_key_hint: "API Key bị thiếu, sai hoặc đã bị thu hồi. Mở cài đặt API Key (biểu tượng chìa khóa) và dán lại key từ Google AI Studio.",
+    error_safety_title: "Bị chặn bởi bộ lọc an toàn",
+    error_safety_hint: "Nội dung yêu cầu hoặc hình ảnh bị bộ lọc an toàn từ chối. Hãy chỉnh lại mô tả hoặc dùng ảnh khác.",
+    error_unavailable_title: "Dịch vụ không khả dụng",
+    error_unavailable_hint: "Không kết nối được tới dịch vụ tạo ảnh. Kiểm tra kết nối mạng hoặc địa chỉ máy chủ tự host, sau đó thử lại.",
+    error_bad_input_title: "Dữ liệu không hợp lệ",
+    error_bad_input_hint: "Dịch vụ không chấp nhận yêu cầu này. Thử ảnh nhỏ hơn, định dạng JPG/PNG, hoặc rút gọn mô tả.",
+    error_permission_title: "Không có quyền",
+    error_permission_hint: "Vai trò của bạn không cho phép thao tác hoặc mô hình này, hoặc đã dùng hết số ảnh trong ngày. Liên hệ quản trị viên nếu cần thêm quyền.",
+    edit_feather: "Làm mềm viền mask",
+    edit_feather_hint: "Vùng ngoài mask luôn giữ nguyên ảnh gốc; tăng giá trị để chuyển tiếp mượt hơn.",
     btn_upload: "Tải Ảnh Lên",
     btn_change_image: "Đổi Ảnh",
     btn_converting: "Đang Chuyển Đổi...",
@@ -72,6 +99,34 @@ const translations: Record<Language, Record<string, string>> = {
     hist_edit: "Lịch Sử Chỉnh Sửa",
     hist_diagram: "Lịch Sử Diagram",
     hist_empty: "Chưa có lịch sử.",
+    hist_load_more: "Tải thêm",
+    meta_load_settings: "Tải cài đặt từ ảnh",
+    meta_load_hint: "Thả ảnh đã tải xuống từ ứng dụng để khôi phục prompt và tùy chọn",
+    meta_loaded: "Đã khôi phục cài đặt từ ảnh.",
+    meta_prompt_loaded: "Ảnh chỉ có prompt; đã khôi phục prompt.",
+    meta_none: "Ảnh này không chứa cài đặt nào.",
+    meta_reference_missing: "Ảnh tham chiếu không được lưu trong tệp; hãy tải lại ảnh tham chiếu đã dùng.",
+    hist_rerun_same: "Chạy lại",
+    hist_rerun_same_title: "Chạy lại với cùng cài đặt và seed",
+    hist_rerun_new_seed: "Seed mới",
+    hist_rerun_new_seed_title: "Chạy lại với cùng cài đặt, seed mới",
+    project_title: "Dự án",
+    project_switch: "Chuyển dự án",
+    project_new: "Dự án mới",
+    project_edit: "Sửa dự án",
+    project_name: "Tên dự án",
+    project_client: "Khách hàng",
+    project_job_number: "Mã công việc",
+    project_save: "Lưu dự án",
+    project_duplicate: "Nhân bản",
+    project_archive: "Lưu trữ",
+    project_unarchive: "Bỏ lưu trữ",
+    project_delete: "Xóa dự án",
+    project_delete_confirm: "Xóa vĩnh viễn dự án và toàn bộ ảnh, lịch sử của",
+    project_show_archived: "Hiện dự án đã lưu trữ",
+    project_copy_suffix: "(bản sao)",
+    hist_tour: "Lịch Sử Tham Quan",
+    hist_save_failed: "Không thể lưu vào lịch sử (bộ nhớ trình duyệt có thể đã đầy).",
     hist_clear: "Xóa toàn bộ lịch sử",
     guide_title: "Hướng Dẫn Sử Dụng",
     guide_tab_general: "Chung",
@@ -164,6 +219,217 @@ const translations: Record<Language, Record<string, string>> = {
     api_key_save: "Lưu Cấu Hình",
     api_key_success: "Đã cập nhật API Key thành công!",
     api_key_missing: "Vui lòng nhập API Key để bắt đầu.",
+    provider_title: "Dịch Vụ Tạo Ảnh",
+    provider_desc: "Mỗi tác vụ dùng dịch vụ đầu tiên (đang bật) hỗ trợ tính năng cần thiết. Dùng mũi tên để sắp xếp thứ tự ưu tiên.",
+    provider_move_up: "Ưu tiên cao hơn",
+    provider_move_down: "Ưu tiên thấp hơn",
+    provider_selfhosted_ph: "URL máy chủ riêng (VD: http://192.168.1.10:7860)",
+    provider_local_stand_in: "Chế độ Offline (Demo)",
+    provider_local_stand_in_desc: "Không cần API Key hay mạng: ảnh được mô phỏng cục bộ và phân tích trả về văn bản mẫu. Dùng cho demo, đào tạo và kiểm thử.",
+    proxy_title: "Máy chủ proxy API (khuyến nghị cho công ty)",
+    proxy_desc: "Khi có URL proxy, API Key được giữ trên máy chủ và không bao giờ đến trình duyệt. Để trống ô API Key ở trên.",
+    proxy_url_ph: "URL proxy (VD: https://ai.cpgvietnam.com.vn)",
+    admin_title: "Quản trị người dùng",
+    admin_refresh: "Làm mới",
+    admin_no_proxy: "Cần cấu hình máy chủ proxy API để dùng bảng quản trị.",
+    admin_filter_pending: "Chờ duyệt",
+    admin_filter_active: "Đang hoạt động",
+    admin_filter_all: "Tất cả",
+    admin_no_users: "Không có người dùng nào.",
+    admin_col_user: "Người dùng",
+    admin_col_status: "Trạng thái",
+    admin_col_requested: "Ngày yêu cầu",
+    admin_col_images: "Ảnh đã tạo",
+    admin_status_pending: "Chờ duyệt",
+    admin_status_active: "Hoạt động",
+    admin_status_rejected: "Đã từ chối",
+    admin_status_deactivated: "Đã vô hiệu",
+    admin_expires: "Hết hạn",
+    admin_today: "Hôm nay:",
+    admin_approve: "Phê duyệt",
+    admin_reject: "Từ chối",
+    admin_deactivate: "Vô hiệu hóa",
+    admin_reason: "lý do (không bắt buộc):",
+    admin_audit_log: "Nhật ký kiểm duyệt",
+    admin_no_audit: "Chưa có hoạt động nào.",
+    admin_audit_request: "đã gửi yêu cầu truy cập",
+    admin_audit_approve: "đã phê duyệt",
+    admin_audit_reject: "đã từ chối",
+    admin_audit_deactivate: "đã vô hiệu hóa",
+    admin_audit_role: "đã đổi vai trò của",
+    admin_col_role: "Vai trò",
+    admin_per_day: "ngày",
+    role_viewer: "Người xem",
+    role_designer: "Thiết kế",
+    role_lead: "Trưởng nhóm",
+    role_admin: "Quản trị",
+    role_today_allowance: "Vai trò · ảnh đã tạo hôm nay / hạn mức",
+    usage_title: "Thống kê sử dụng",
+    usage_export_csv: "Xuất CSV",
+    usage_period_30: "30 ngày",
+    usage_period_90: "90 ngày",
+    usage_period_365: "12 tháng",
+    usage_period_all: "Toàn bộ",
+    usage_all_projects: "Tất cả dự án",
+    usage_all_users: "Tất cả người dùng",
+    usage_images: "Ảnh",
+    usage_calls: "Lượt gọi",
+    usage_tokens: "Token",
+    usage_failures: "Lỗi",
+    usage_avg_latency: "Thời gian TB",
+    usage_cost: "Chi phí",
+    usage_cost_note: "Ước tính theo bảng giá công bố (USD)",
+    usage_by_week: "Ảnh theo tuần",
+    usage_by_project: "Chi phí theo dự án",
+    usage_by_tab: "Theo tab / tiện ích",
+    usage_by_model: "Theo dịch vụ / mô hình",
+    usage_empty: "Chưa có lượt sử dụng nào trong khoảng thời gian này.",
+    batch_title: "Render hàng loạt",
+    batch_desc: "Thêm nhiều ảnh nguồn (hoặc cả thư mục xuất từ SketchUp) để render tất cả với cùng prompt, ảnh tham chiếu, độ sáng tạo và tỉ lệ khung hình ở trên.",
+    batch_add_images: "Thêm ảnh",
+    batch_add_folder: "Thêm thư mục",
+    batch_run: "Render tất cả",
+    batch_missing_prompt: "Hãy nhập prompt trước khi render hàng loạt.",
+    batch_retry: "Render lại",
+    batch_remove: "Bỏ ảnh này",
+    batch_clear: "Xóa danh sách",
+    batch_status_waiting: "Chờ",
+    batch_status_queued: "Đang xử lý",
+    batch_status_done: "Xong",
+    batch_status_failed: "Lỗi",
+    batch_status_cancelled: "Đã hủy",
+    sweep_title: "So sánh phương án",
+    sweep_desc: "Chọn một hoặc hai thông số và các giá trị cần so sánh; app render toàn bộ ma trận với cùng seed và xuất thành một bảng ảnh cho khách hàng.",
+    sweep_columns: "Cột",
+    sweep_rows: "Hàng",
+    sweep_no_rows: "(Không có)",
+    sweep_renders: "ảnh sẽ được render",
+    sweep_too_many: "tối đa",
+    sweep_export: "Xuất bảng ảnh",
+    sweep_run: "Render ma trận",
+    sweep_retry: "Thử lại",
+    sweep_missing_source: "Hãy tải ảnh nguồn lên trước.",
+    sweep_creativity: "Mức độ sáng tạo",
+    preset_title: "Preset",
+    preset_choose: "Áp dụng preset...",
+    preset_empty: "Chưa có preset nào",
+    preset_tags: "Tiêu chuẩn studio",
+    preset_all_tags: "Mọi tiêu chuẩn",
+    preset_save: "Lưu preset",
+    preset_saved: "Đã lưu preset",
+    preset_delete: "Xoá preset",
+    preset_delete_confirm: "Xoá preset",
+    preset_overwrite_confirm: "Ghi đè preset",
+    preset_import: "Nhập preset (JSON)",
+    preset_export: "Xuất preset (JSON)",
+    preset_imported: "preset đã được thêm hoặc cập nhật",
+    preset_name_ph: "Tên preset",
+    preset_tags_ph: "Tiêu chuẩn studio, phân cách bằng dấu phẩy",
+    prompt_negatives: "Không được xuất hiện",
+    prompt_negatives_ph: "VD: người, xe cộ, chữ (phân cách bằng dấu phẩy)",
+    prompt_inspector: "Xem prompt sẽ gửi",
+    prompt_inspector_sent: "Prompt đã gửi",
+    prompt_final: "Prompt hoàn chỉnh",
+    prompt_negative_sent: "Negative prompt",
+    prompt_negatives_folded: "Dịch vụ này không nhận negative prompt riêng, nên các mục loại trừ đã được ghép vào prompt.",
+    prompt_preview_note: "Bản xem trước. Phần phân tích ảnh nguồn và ảnh tham khảo sẽ được thêm khi tạo ảnh. Mục loại trừ được gửi dưới dạng negative prompt nếu dịch vụ hỗ trợ, nếu không sẽ được ghép vào prompt.",
+    prompt_field_subject: "Chủ thể",
+    prompt_field_context: "Bối cảnh",
+    prompt_field_lighting: "Ánh sáng",
+    prompt_field_camera: "Góc máy",
+    prompt_field_materials: "Vật liệu",
+    prompt_field_style: "Phong cách",
+    opt_seed: "Seed",
+    opt_seed_random: "Ngẫu nhiên mỗi lần tạo",
+    opt_seed_clear: "Bỏ seed cố định",
+    res_seed_use: "Dùng seed này cho lần tạo tiếp theo",
+    res_seed_unsupported: "Dịch vụ đã tạo ảnh này không hỗ trợ seed, nên không thể tái tạo chính xác",
+    res_vary_subtle: "Biến thể nhẹ",
+    res_vary_strong: "Biến thể mạnh",
+    res_vary_subtle_hint: "Tạo lại với cùng seed và prompt thay đổi nhẹ",
+    res_vary_strong_hint: "Tạo lại với cùng seed, prompt thay đổi rõ và độ sáng tạo cao hơn",
+    edit_tool_asset: "Đặt vật thể",
+    edit_asset_add: "Thêm ảnh cắt nền",
+    edit_asset_forward: "Đưa lên trên",
+    edit_asset_backward: "Đưa xuống dưới",
+    edit_asset_delete: "Xóa vật thể",
+    edit_asset_hint: "Kéo thả hoặc dán ảnh cắt nền (nội thất, cây, người, sản phẩm). Kéo để di chuyển, góc để phóng to/thu nhỏ, tay cầm phía trên để xoay (giữ Shift để xoay theo bước 15°).",
+    edit_tool_text: "Ghi chú chữ",
+    edit_text_prompt: "Nội dung ghi chú (để trống để xóa):",
+    edit_text_delete: "Xóa ghi chú",
+    edit_text_hint: "Nhấp vào ảnh để thêm ghi chú, kéo để di chuyển, nhấp đúp để sửa.",
+    layer_title: "Lớp",
+    layer_add_mask: "Thêm lớp mask",
+    layer_add_asset: "Thêm lớp vật thể",
+    layer_add_text: "Thêm lớp chữ",
+    layer_visible: "Ẩn/hiện",
+    layer_lock: "Khóa/mở khóa",
+    layer_up: "Lên trên",
+    layer_down: "Xuống dưới",
+    layer_delete: "Xóa lớp",
+    layer_opacity: "Độ mờ",
+    layer_blend: "Chế độ hòa trộn",
+    layer_kind_base: "Ảnh gốc",
+    layer_kind_patch: "Kết quả",
+    layer_kind_mask: "Mask",
+    layer_kind_asset: "Vật thể",
+    layer_kind_text: "Chữ",
+    layer_blend_normal: "Bình thường",
+    layer_blend_multiply: "Nhân",
+    layer_blend_screen: "Màn hình",
+    layer_blend_overlay: "Phủ",
+    layer_blend_darken: "Làm tối",
+    layer_blend_lighten: "Làm sáng",
+    select_tool_rect: "Chọn hình chữ nhật",
+    select_tool_ellipse: "Chọn hình elip",
+    select_tool_polygon: "Lasso đa giác",
+    select_tool_lasso: "Lasso tự do",
+    select_tool_wand: "Đũa thần",
+    select_op_add: "Thêm",
+    select_op_subtract: "Bớt",
+    select_op_intersect: "Giao",
+    select_tolerance: "Dung sai",
+    select_radius: "Bán kính",
+    select_grow: "Mở rộng",
+    select_shrink: "Thu hẹp",
+    select_feather: "Làm mềm",
+    select_hint: "Shift: thêm, Alt: bớt, Shift+Alt: giao. Đa giác: nhấp lại điểm đầu, nhấp đúp hoặc Enter để đóng, Esc để huỷ.",
+    region_tool: "Vùng chỉnh sửa",
+    region_title: "Vùng",
+    region_from_mask: "Từ mặt nạ",
+    region_hint: "Dùng công cụ Vùng để kéo khung đánh số, hoặc tô mặt nạ rồi bấm \"Từ mặt nạ\". Mỗi vùng có chỉ dẫn riêng.",
+    region_prompt: "Chỉ dẫn cho vùng này (vd. \"thay bằng ốp gỗ\"):",
+    region_placeholder: "Chỉ dẫn cho vùng...",
+    region_delete: "Xoá vùng",
+    region_mask_empty: "Mặt nạ hiện tại đang trống.",
+    region_mode_combined: "Một lần",
+    region_mode_sequential: "Lần lượt",
+    region_mode_combined_hint: "Gửi tất cả vùng trong một yêu cầu",
+    region_mode_sequential_hint: "Mỗi vùng một lượt có mặt nạ, nối tiếp nhau",
+    cmd_open: "Mở ảnh",
+    cmd_edit: "Chỉnh sửa",
+    cmd_brush: "Nét cọ",
+    cmd_eraser: "Tẩy",
+    cmd_select: "Vùng chọn",
+    cmd_mask_grow: "Mở rộng mặt nạ",
+    cmd_mask_shrink: "Thu hẹp mặt nạ",
+    cmd_mask_feather: "Làm mềm mặt nạ",
+    cmd_mask_clear: "Xoá mặt nạ",
+    cmd_layer_add: "Thêm lớp",
+    cmd_layer_change: "Đổi thuộc tính lớp",
+    cmd_layer_delete: "Xoá lớp",
+    cmd_layer_move: "Đổi thứ tự lớp",
+    cmd_asset_add: "Thêm vật thể",
+    cmd_asset_order: "Đổi thứ tự vật thể",
+    cmd_asset_move: "Di chuyển vật thể",
+    cmd_asset_delete: "Xoá vật thể",
+    cmd_text_add: "Thêm chữ",
+    cmd_text_change: "Sửa chữ",
+    cmd_text_delete: "Xoá chữ",
+    cmd_region_add: "Thêm vùng",
+    cmd_region_change: "Sửa vùng",
+    cmd_region_delete: "Xoá vùng",
+    cmd_generate: "Tạo ảnh",
     login_title: "Đăng Nhập CPGVN",
     login_desc: "Vui lòng cung cấp thông tin của bạn để yêu cầu quyền truy cập hệ thống.",
     login_name: "Họ và tên",
@@ -176,6 +442,21 @@ const translations: Record<Language, Record<string, string>> = {
     login_success: "Thông tin đã được ghi nhận thành công!",
     login_enter_code: "Enter Activation Code / Nhập mã kích hoạt:",
     login_invalid_code: "Invalid code / Mã không hợp lệ",
+    login_expired_title: "Kích hoạt đã hết hạn / Activation expired",
+    login_expired_desc: "Mã kích hoạt của bạn đã hết hạn hoặc bị thu hồi. Nhập mã mới hoặc gửi yêu cầu gia hạn cho quản trị viên.",
+    login_renew_btn: "Gửi yêu cầu gia hạn",
+    login_check_status: "Kiểm tra trạng thái phê duyệt",
+    login_request_sent: "Đã gửi yêu cầu. Quản trị viên sẽ phê duyệt trong bảng quản trị.",
+    login_still_pending: "Yêu cầu của bạn vẫn đang chờ phê duyệt.",
+    login_request_rejected: "Yêu cầu của bạn đã bị từ chối. Vui lòng liên hệ quản trị viên.",
+    login_status_unavailable: "Không thể kết nối máy chủ để kiểm tra trạng thái.",
+    login_activated: "Tài khoản đã được kích hoạt thành công!",
+    login_token_unconfigured: "bản triển khai này chưa được cấu hình khóa kích hoạt",
+    login_token_malformed: "mã không đúng định dạng",
+    login_token_signature: "chữ ký không hợp lệ",
+    login_token_expired: "mã đã hết hạn",
+    login_token_email: "mã được cấp cho email khác",
+    login_token_revoked: "mã đã bị thu hồi",
   },
   en: {
     app_title: "CPGVN",
@@ -207,6 +488,33 @@ const translations: Record<Language, Record<string, string>> = {
     res_upscale_4k: "Upscale 4K",
     btn_download: "Download",
     btn_generate: "Generate",
+    btn_cancel: "Cancel",
+    jobs_title: "Jobs",
+    jobs_empty: "No jobs yet.",
+    jobs_clear_finished: "Clear finished",
+    job_status_queued: "Queued",
+    job_status_running: "Running",
+    job_status_succeeded: "Done",
+    job_status_failed: "Failed",
+    job_status_cancelled: "Cancelled",
+    provider_concurrency: "Parallel jobs",
+    toast_cancelled: "Generation cancelled.",
+    toast_timeout: "The request timed out. Please try again.",
+    error_generic_title: "Error",
+    error_quota_title: "Quota exceeded",
+    error_quota_hint: "The image service is rate limiting you or the daily quota is used up. Wait a moment and try again, or enable another provider in the API Key settings.",
+    error_invalid_key_title: "Invalid API key",
+    error_invalid_key_hint: "The API key is missing, wrong or revoked. Open the API Key settings (key icon) and paste a key from Google AI Studio again.",
+    error_safety_title: "Blocked by safety filter",
+    error_safety_hint: "The prompt or image was rejected by the safety filter. Rephrase the description or use a different image.",
+    error_unavailable_title: "Service unavailable",
+    error_unavailable_hint: "Could not reach the image service. Check your network connection or the self-hosted server URL, then try again.",
+    error_bad_input_title: "Invalid input",
+    error_bad_input_hint: "The service rejected this request. Try a smaller JPG/PNG image or a shorter description.",
+    error_permission_title: "Not permitted",
+    error_permission_hint: "Your role does not allow this action or model, or today's image allowance is used up. Ask an administrator if you need more access.",
+    edit_feather: "Mask Feather",
+    edit_feather_hint: "Pixels outside the mask always stay unchanged; raise this for a smoother transition.",
     btn_upload: "Upload Image",
     btn_change_image: "Change Image",
     btn_converting: "Converting...",
@@ -238,6 +546,34 @@ const translations: Record<Language, Record<string, string>> = {
     hist_edit: "Edit History",
     hist_diagram: "Diagram History",
     hist_empty: "No history yet.",
+    hist_load_more: "Load more",
+    meta_load_settings: "Load settings from image",
+    meta_load_hint: "Drop an image downloaded from the app to restore its prompt and options",
+    meta_loaded: "Settings restored from image.",
+    meta_prompt_loaded: "The image only carries a prompt; prompt restored.",
+    meta_none: "This image carries no settings.",
+    meta_reference_missing: "The reference image is not stored in the file; upload the one used again.",
+    hist_rerun_same: "Re-run",
+    hist_rerun_same_title: "Re-run with same settings and seed",
+    hist_rerun_new_seed: "New seed",
+    hist_rerun_new_seed_title: "Re-run with same settings, new seed",
+    project_title: "Projects",
+    project_switch: "Switch project",
+    project_new: "New project",
+    project_edit: "Edit project",
+    project_name: "Project name",
+    project_client: "Client",
+    project_job_number: "Job number",
+    project_save: "Save project",
+    project_duplicate: "Duplicate",
+    project_archive: "Archive",
+    project_unarchive: "Unarchive",
+    project_delete: "Delete project",
+    project_delete_confirm: "Permanently delete the project with all images and history of",
+    project_show_archived: "Show archived",
+    project_copy_suffix: "(copy)",
+    hist_tour: "Tour History",
+    hist_save_failed: "Could not save to history (browser storage may be full).",
     hist_clear: "Clear All History",
     guide_title: "User Guide",
     guide_tab_general: "General",
@@ -328,6 +664,217 @@ const translations: Record<Language, Record<string, string>> = {
     api_key_save: "Save Key",
     api_key_success: "API Key updated successfully!",
     api_key_missing: "Please enter an API Key to proceed.",
+    provider_title: "Image Providers",
+    provider_desc: "Each task uses the first enabled provider that supports what it needs. Use the arrows to change the priority order.",
+    provider_move_up: "Move up",
+    provider_move_down: "Move down",
+    provider_selfhosted_ph: "Self-hosted endpoint URL (e.g. http://192.168.1.10:7860)",
+    provider_local_stand_in: "Offline Mode (Demo)",
+    provider_local_stand_in_desc: "No API key or network needed: images are synthesized locally and analysis returns sample text. For demos, training and testing.",
+    proxy_title: "API proxy server (recommended for company use)",
+    proxy_desc: "With a proxy URL the API key stays on the server and never reaches the browser. Leave the API key field above empty.",
+    proxy_url_ph: "Proxy URL (e.g. https://ai.cpgvietnam.com.vn)",
+    admin_title: "User Administration",
+    admin_refresh: "Refresh",
+    admin_no_proxy: "The admin console needs an API proxy server to be configured.",
+    admin_filter_pending: "Pending",
+    admin_filter_active: "Active",
+    admin_filter_all: "All",
+    admin_no_users: "No users.",
+    admin_col_user: "User",
+    admin_col_status: "Status",
+    admin_col_requested: "Requested",
+    admin_col_images: "Images",
+    admin_status_pending: "Pending",
+    admin_status_active: "Active",
+    admin_status_rejected: "Rejected",
+    admin_status_deactivated: "Deactivated",
+    admin_expires: "Expires",
+    admin_today: "Today:",
+    admin_approve: "Approve",
+    admin_reject: "Reject",
+    admin_deactivate: "Deactivate",
+    admin_reason: "reason (optional):",
+    admin_audit_log: "Audit log",
+    admin_no_audit: "No activity yet.",
+    admin_audit_request: "requested access",
+    admin_audit_approve: "approved",
+    admin_audit_reject: "rejected",
+    admin_audit_deactivate: "deactivated",
+    admin_audit_role: "changed the role of",
+    admin_col_role: "Role",
+    admin_per_day: "day",
+    role_viewer: "Viewer",
+    role_designer: "Designer",
+    role_lead: "Lead",
+    role_admin: "Admin",
+    role_today_allowance: "Role · images generated today / daily allowance",
+    usage_title: "Usage",
+    usage_export_csv: "Export CSV",
+    usage_period_30: "30 days",
+    usage_period_90: "90 days",
+    usage_period_365: "12 months",
+    usage_period_all: "All time",
+    usage_all_projects: "All projects",
+    usage_all_users: "All users",
+    usage_images: "Images",
+    usage_calls: "Calls",
+    usage_tokens: "Tokens",
+    usage_failures: "Failures",
+    usage_avg_latency: "Avg. latency",
+    usage_cost: "Cost",
+    usage_cost_note: "Estimated from list prices (USD)",
+    usage_by_week: "Images by week",
+    usage_by_project: "Cost by project",
+    usage_by_tab: "By tab / utility",
+    usage_by_model: "By provider / model",
+    usage_empty: "No usage recorded in this period.",
+    batch_title: "Batch render",
+    batch_desc: "Add several sources (or a whole folder of SketchUp exports) to render them all with the prompt, reference, creativity and aspect ratio set above.",
+    batch_add_images: "Add images",
+    batch_add_folder: "Add folder",
+    batch_run: "Render all",
+    batch_missing_prompt: "Enter a prompt before running the batch.",
+    batch_retry: "Render again",
+    batch_remove: "Remove",
+    batch_clear: "Clear list",
+    batch_status_waiting: "Waiting",
+    batch_status_queued: "Running",
+    batch_status_done: "Done",
+    batch_status_failed: "Failed",
+    batch_status_cancelled: "Cancelled",
+    sweep_title: "Option sweep",
+    sweep_desc: "Pick one or two parameters and the values to compare; the app renders the full matrix with one seed and exports it as a single contact sheet for client reviews.",
+    sweep_columns: "Columns",
+    sweep_rows: "Rows",
+    sweep_no_rows: "(None)",
+    sweep_renders: "renders",
+    sweep_too_many: "maximum",
+    sweep_export: "Export contact sheet",
+    sweep_run: "Render matrix",
+    sweep_retry: "Retry",
+    sweep_missing_source: "Upload a source image first.",
+    sweep_creativity: "Creativity level",
+    preset_title: "Preset",
+    preset_choose: "Apply a preset...",
+    preset_empty: "No presets yet",
+    preset_tags: "Studio standard",
+    preset_all_tags: "All standards",
+    preset_save: "Save preset",
+    preset_saved: "Preset saved",
+    preset_delete: "Delete preset",
+    preset_delete_confirm: "Delete preset",
+    preset_overwrite_confirm: "Overwrite preset",
+    preset_import: "Import presets (JSON)",
+    preset_export: "Export presets (JSON)",
+    preset_imported: "presets added or updated",
+    preset_name_ph: "Preset name",
+    preset_tags_ph: "Studio standards, comma separated",
+    prompt_negatives: "Must not appear",
+    prompt_negatives_ph: "e.g. people, cars, text (comma separated)",
+    prompt_inspector: "Inspect the prompt",
+    prompt_inspector_sent: "Prompt as sent",
+    prompt_final: "Assembled prompt",
+    prompt_negative_sent: "Negative prompt",
+    prompt_negatives_folded: "This provider has no separate negative prompt, so the exclusions were folded into the prompt.",
+    prompt_preview_note: "Preview. The source and reference analysis is added at generation time. Exclusions go as a negative prompt where the provider supports one, otherwise into the prompt text.",
+    prompt_field_subject: "Subject",
+    prompt_field_context: "Context",
+    prompt_field_lighting: "Lighting",
+    prompt_field_camera: "Camera",
+    prompt_field_materials: "Materials",
+    prompt_field_style: "Style",
+    opt_seed: "Seed",
+    opt_seed_random: "Random for every render",
+    opt_seed_clear: "Clear fixed seed",
+    res_seed_use: "Use this seed for the next render",
+    res_seed_unsupported: "The provider that made this image ignores seeds, so it cannot be reproduced exactly",
+    res_vary_subtle: "Vary subtle",
+    res_vary_strong: "Vary strong",
+    res_vary_subtle_hint: "Re-run with the same seed and a slightly varied prompt",
+    res_vary_strong_hint: "Re-run with the same seed, a clearly varied prompt and more creativity",
+    edit_tool_asset: "Place assets",
+    edit_asset_add: "Add cut-out",
+    edit_asset_forward: "Bring forward",
+    edit_asset_backward: "Send backward",
+    edit_asset_delete: "Delete asset",
+    edit_asset_hint: "Drop or paste cut-outs (furniture, trees, people, products). Drag to move, corners to scale, the top handle to rotate (hold Shift for 15° steps).",
+    edit_tool_text: "Text notes",
+    edit_text_prompt: "Note text (leave empty to delete):",
+    edit_text_delete: "Delete note",
+    edit_text_hint: "Click the image to add a note, drag to move, double-click to edit.",
+    layer_title: "Layers",
+    layer_add_mask: "Add mask layer",
+    layer_add_asset: "Add asset layer",
+    layer_add_text: "Add text layer",
+    layer_visible: "Show/hide",
+    layer_lock: "Lock/unlock",
+    layer_up: "Move up",
+    layer_down: "Move down",
+    layer_delete: "Delete layer",
+    layer_opacity: "Opacity",
+    layer_blend: "Blend mode",
+    layer_kind_base: "Base photo",
+    layer_kind_patch: "Result",
+    layer_kind_mask: "Mask",
+    layer_kind_asset: "Assets",
+    layer_kind_text: "Text",
+    layer_blend_normal: "Normal",
+    layer_blend_multiply: "Multiply",
+    layer_blend_screen: "Screen",
+    layer_blend_overlay: "Overlay",
+    layer_blend_darken: "Darken",
+    layer_blend_lighten: "Lighten",
+    select_tool_rect: "Rectangle select",
+    select_tool_ellipse: "Ellipse select",
+    select_tool_polygon: "Polygonal lasso",
+    select_tool_lasso: "Freehand lasso",
+    select_tool_wand: "Magic wand",
+    select_op_add: "Add",
+    select_op_subtract: "Subtract",
+    select_op_intersect: "Intersect",
+    select_tolerance: "Tolerance",
+    select_radius: "Radius",
+    select_grow: "Grow",
+    select_shrink: "Shrink",
+    select_feather: "Feather",
+    select_hint: "Shift: add, Alt: subtract, Shift+Alt: intersect. Polygon: click the first point, double-click or press Enter to close, Esc to cancel.",
+    region_tool: "Edit regions",
+    region_title: "Regions",
+    region_from_mask: "From mask",
+    region_hint: "Use the Regions tool to drag numbered boxes, or paint a mask and press \"From mask\". Each region gets its own instruction.",
+    region_prompt: "Instruction for this region (e.g. \"replace with timber cladding\"):",
+    region_placeholder: "Instruction for this region...",
+    region_delete: "Delete region",
+    region_mask_empty: "The current mask is empty.",
+    region_mode_combined: "One request",
+    region_mode_sequential: "One by one",
+    region_mode_combined_hint: "Send all regions in a single request",
+    region_mode_sequential_hint: "One masked pass per region, each on the previous result",
+    cmd_open: "Open image",
+    cmd_edit: "Edit",
+    cmd_brush: "Brush stroke",
+    cmd_eraser: "Erase",
+    cmd_select: "Selection",
+    cmd_mask_grow: "Grow mask",
+    cmd_mask_shrink: "Shrink mask",
+    cmd_mask_feather: "Feather mask",
+    cmd_mask_clear: "Clear mask",
+    cmd_layer_add: "Add layer",
+    cmd_layer_change: "Change layer",
+    cmd_layer_delete: "Delete layer",
+    cmd_layer_move: "Reorder layers",
+    cmd_asset_add: "Add asset",
+    cmd_asset_order: "Reorder assets",
+    cmd_asset_move: "Move asset",
+    cmd_asset_delete: "Delete asset",
+    cmd_text_add: "Add text",
+    cmd_text_change: "Edit text",
+    cmd_text_delete: "Delete text",
+    cmd_region_add: "Add region",
+    cmd_region_change: "Edit region",
+    cmd_region_delete: "Delete region",
+    cmd_generate: "Generate",
     login_title: "CPGVN Login",
     login_desc: "Please provide your information to request access to the system.",
     login_name: "Full Name",
@@ -340,6 +887,21 @@ const translations: Record<Language, Record<string, string>> = {
     login_success: "Information has been recorded successfully!",
     login_enter_code: "Enter Activation Code",
     login_invalid_code: "Invalid code",
+    login_expired_title: "Activation expired",
+    login_expired_desc: "Your activation code has expired or was revoked. Enter a new code or send a renewal request to the administrator.",
+    login_renew_btn: "Request renewal",
+    login_check_status: "Check approval status",
+    login_request_sent: "Request sent. An administrator will review it in the admin console.",
+    login_still_pending: "Your request is still waiting for approval.",
+    login_request_rejected: "Your request was declined. Please contact the administrator.",
+    login_status_unavailable: "Could not reach the server to check your status.",
+    login_activated: "Your account has been activated.",
+    login_token_unconfigured: "this deployment has no activation key configured",
+    login_token_malformed: "the code is not in the expected format",
+    login_token_signature: "the signature is invalid",
+    login_token_expired: "the code has expired",
+    login_token_email: "the code was issued for a different e-mail",
+    login_token_revoked: "the code has been revoked",
   },
   zh: {
     app_title: "CPGVN",
@@ -368,6 +930,33 @@ const translations: Record<Language, Record<string, string>> = {
     res_upscale_4k: "放大 4K",
     btn_download: "下载",
     btn_generate: "生成",
+    btn_cancel: "取消",
+    jobs_title: "任务队列",
+    jobs_empty: "暂无任务。",
+    jobs_clear_finished: "清除已完成",
+    job_status_queued: "排队中",
+    job_status_running: "运行中",
+    job_status_succeeded: "已完成",
+    job_status_failed: "失败",
+    job_status_cancelled: "已取消",
+    provider_concurrency: "并行任务数",
+    toast_cancelled: "已取消生成。",
+    toast_timeout: "请求超时，请重试。",
+    error_generic_title: "错误",
+    error_quota_title: "配额已用尽",
+    error_quota_hint: "图像服务正在限流或当日配额已用完。请稍候再试，或在 API Key 设置中启用其他服务商。",
+    error_invalid_key_title: "API Key 无效",
+    error_invalid_key_hint: "API Key 缺失、错误或已被撤销。请打开 API Key 设置（钥匙图标），重新粘贴 Google AI Studio 的密钥。",
+    error_safety_title: "被安全过滤器拦截",
+    error_safety_hint: "提示词或图像被安全过滤器拒绝。请修改描述或更换图片。",
+    error_unavailable_title: "服务不可用",
+    error_unavailable_hint: "无法连接图像服务。请检查网络连接或自托管服务器地址，然后重试。",
+    error_bad_input_title: "输入无效",
+    error_bad_input_hint: "服务拒绝了此请求。请尝试更小的 JPG/PNG 图片或更短的描述。",
+    error_permission_title: "无权限",
+    error_permission_hint: "您的角色不允许此操作或模型，或今日图像额度已用完。如需更多权限，请联系管理员。",
+    edit_feather: "蒙版羽化",
+    edit_feather_hint: "蒙版外的像素始终保持不变；增大数值可使过渡更平滑。",
     btn_upload: "上传图像",
     btn_change_image: "更改图像",
     btn_converting: "转换中...",
@@ -399,6 +988,34 @@ const translations: Record<Language, Record<string, string>> = {
     hist_edit: "编辑历史",
     hist_diagram: "图表历史",
     hist_empty: "暂无历史记录。",
+    hist_load_more: "加载更多",
+    meta_load_settings: "从图片加载设置",
+    meta_load_hint: "拖入从应用下载的图片以恢复提示词和选项",
+    meta_loaded: "已从图片恢复设置。",
+    meta_prompt_loaded: "图片仅包含提示词；已恢复提示词。",
+    meta_none: "此图片不包含任何设置。",
+    meta_reference_missing: "文件中未保存参考图；请重新上传当时使用的参考图。",
+    hist_rerun_same: "重新生成",
+    hist_rerun_same_title: "使用相同设置和种子重新生成",
+    hist_rerun_new_seed: "新种子",
+    hist_rerun_new_seed_title: "使用相同设置和新种子重新生成",
+    project_title: "项目",
+    project_switch: "切换项目",
+    project_new: "新建项目",
+    project_edit: "编辑项目",
+    project_name: "项目名称",
+    project_client: "客户",
+    project_job_number: "工作编号",
+    project_save: "保存项目",
+    project_duplicate: "复制",
+    project_archive: "归档",
+    project_unarchive: "取消归档",
+    project_delete: "删除项目",
+    project_delete_confirm: "永久删除该项目及其所有图片和历史记录：",
+    project_show_archived: "显示已归档",
+    project_copy_suffix: "(副本)",
+    hist_tour: "漫游历史",
+    hist_save_failed: "无法保存到历史记录（浏览器存储空间可能已满）。",
     hist_clear: "清除所有历史",
     guide_title: "用户指南",
     guide_tab_general: "常规",
@@ -489,6 +1106,232 @@ const translations: Record<Language, Record<string, string>> = {
     api_key_save: "保存密钥",
     api_key_success: "API 密钥更新成功！",
     api_key_missing: "请输入 API 密钥以继续。",
+    provider_title: "图像生成服务",
+    provider_desc: "每个任务使用第一个已启用且支持所需功能的服务。使用箭头调整优先顺序。",
+    provider_move_up: "上移",
+    provider_move_down: "下移",
+    provider_selfhosted_ph: "自托管服务地址（例如 http://192.168.1.10:7860）",
+    provider_local_stand_in: "离线模式（演示）",
+    provider_local_stand_in_desc: "无需 API 密钥或网络：图像在本地模拟生成，分析返回示例文本。用于演示、培训和测试。",
+    proxy_title: "API 代理服务器（推荐公司使用）",
+    proxy_desc: "设置代理地址后，API 密钥保存在服务器上，不会进入浏览器。上方的 API 密钥可留空。",
+    proxy_url_ph: "代理地址（例如 https://ai.cpgvietnam.com.vn）",
+    admin_title: "用户管理",
+    admin_refresh: "刷新",
+    admin_no_proxy: "需要先配置 API 代理服务器才能使用管理控制台。",
+    admin_filter_pending: "待审批",
+    admin_filter_active: "已激活",
+    admin_filter_all: "全部",
+    admin_no_users: "暂无用户。",
+    admin_col_user: "用户",
+    admin_col_status: "状态",
+    admin_col_requested: "申请时间",
+    admin_col_images: "已生成图像",
+    admin_status_pending: "待审批",
+    admin_status_active: "已激活",
+    admin_status_rejected: "已拒绝",
+    admin_status_deactivated: "已停用",
+    admin_expires: "到期",
+    admin_today: "今日：",
+    admin_approve: "批准",
+    admin_reject: "拒绝",
+    admin_deactivate: "停用",
+    admin_reason: "原因（可选）：",
+    admin_audit_log: "审计日志",
+    admin_no_audit: "暂无记录。",
+    admin_audit_request: "申请了访问权限",
+    admin_audit_approve: "批准了",
+    admin_audit_reject: "拒绝了",
+    admin_audit_deactivate: "停用了",
+    admin_audit_role: "更改了角色：",
+    admin_col_role: "角色",
+    admin_per_day: "天",
+    role_viewer: "查看者",
+    role_designer: "设计师",
+    role_lead: "组长",
+    role_admin: "管理员",
+    role_today_allowance: "角色 · 今日已生成 / 每日额度",
+    usage_title: "使用统计",
+    usage_export_csv: "导出 CSV",
+    usage_period_30: "30 天",
+    usage_period_90: "90 天",
+    usage_period_365: "12 个月",
+    usage_period_all: "全部",
+    usage_all_projects: "所有项目",
+    usage_all_users: "所有用户",
+    usage_images: "图像",
+    usage_calls: "调用",
+    usage_tokens: "Token",
+    usage_failures: "失败",
+    usage_avg_latency: "平均耗时",
+    usage_cost: "费用",
+    usage_cost_note: "按公开价格估算（美元）",
+    usage_by_week: "每周图像",
+    usage_by_project: "按项目费用",
+    usage_by_tab: "按标签 / 工具",
+    usage_by_model: "按服务 / 模型",
+    usage_empty: "此期间没有使用记录。",
+    batch_title: "批量渲染",
+    batch_desc: "添加多张源图（或整个 SketchUp 导出文件夹），使用上方相同的提示词、参考图、创意度和画幅比例全部渲染。",
+    batch_add_images: "添加图像",
+    batch_add_folder: "添加文件夹",
+    batch_run: "全部渲染",
+    batch_missing_prompt: "请先输入提示词再批量渲染。",
+    batch_retry: "重新渲染",
+    batch_remove: "移除",
+    batch_clear: "清空列表",
+    batch_status_waiting: "等待",
+    batch_status_queued: "处理中",
+    batch_status_done: "完成",
+    batch_status_failed: "失败",
+    batch_status_cancelled: "已取消",
+    sweep_title: "方案对比",
+    sweep_desc: "选择一到两个参数及要对比的值；应用以同一种子渲染整个矩阵，并导出为一张联系表供客户评审。",
+    sweep_columns: "列",
+    sweep_rows: "行",
+    sweep_no_rows: "（无）",
+    sweep_renders: "张待渲染",
+    sweep_too_many: "最多",
+    sweep_export: "导出联系表",
+    sweep_run: "渲染矩阵",
+    sweep_retry: "重试",
+    sweep_missing_source: "请先上传源图。",
+    sweep_creativity: "创意程度",
+    preset_title: "预设",
+    preset_choose: "应用预设...",
+    preset_empty: "暂无预设",
+    preset_tags: "工作室标准",
+    preset_all_tags: "全部标准",
+    preset_save: "保存预设",
+    preset_saved: "预设已保存",
+    preset_delete: "删除预设",
+    preset_delete_confirm: "删除预设",
+    preset_overwrite_confirm: "覆盖预设",
+    preset_import: "导入预设 (JSON)",
+    preset_export: "导出预设 (JSON)",
+    preset_imported: "个预设已添加或更新",
+    preset_name_ph: "预设名称",
+    preset_tags_ph: "工作室标准，用逗号分隔",
+    prompt_negatives: "不应出现",
+    prompt_negatives_ph: "例如：人物、车辆、文字（用逗号分隔）",
+    prompt_inspector: "查看将发送的提示词",
+    prompt_inspector_sent: "已发送的提示词",
+    prompt_final: "完整提示词",
+    prompt_negative_sent: "反向提示词",
+    prompt_negatives_folded: "该服务不支持单独的反向提示词，排除项已并入提示词。",
+    prompt_preview_note: "预览。源图与参考图的分析将在生成时加入。服务支持时排除项作为反向提示词发送，否则并入提示词文本。",
+    prompt_field_subject: "主体",
+    prompt_field_context: "环境",
+    prompt_field_lighting: "光照",
+    prompt_field_camera: "机位",
+    prompt_field_materials: "材质",
+    prompt_field_style: "风格",
+    opt_seed: "种子",
+    opt_seed_random: "每次生成随机",
+    opt_seed_clear: "清除固定种子",
+    res_seed_use: "下次生成使用此种子",
+    res_seed_unsupported: "生成此图的服务不支持种子，无法精确复现",
+    res_vary_subtle: "轻微变体",
+    res_vary_strong: "强烈变体",
+    res_vary_subtle_hint: "使用相同种子和轻微变化的提示词重新生成",
+    res_vary_strong_hint: "使用相同种子、明显变化的提示词和更高创意度重新生成",
+    edit_tool_asset: "放置素材",
+    edit_asset_add: "添加抠图",
+    edit_asset_forward: "上移一层",
+    edit_asset_backward: "下移一层",
+    edit_asset_delete: "删除素材",
+    edit_asset_hint: "拖放或粘贴抠图（家具、树木、人物、产品）。拖动移动，拖动角点缩放，拖动顶部手柄旋转（按住 Shift 以 15° 步进）。",
+    edit_tool_text: "文字注释",
+    edit_text_prompt: "注释文字（留空则删除）：",
+    edit_text_delete: "删除注释",
+    edit_text_hint: "点击图像添加注释，拖动移动，双击编辑。",
+    layer_title: "图层",
+    layer_add_mask: "添加蒙版图层",
+    layer_add_asset: "添加素材图层",
+    layer_add_text: "添加文字图层",
+    layer_visible: "显示/隐藏",
+    layer_lock: "锁定/解锁",
+    layer_up: "上移",
+    layer_down: "下移",
+    layer_delete: "删除图层",
+    layer_opacity: "不透明度",
+    layer_blend: "混合模式",
+    layer_kind_base: "原图",
+    layer_kind_patch: "结果",
+    layer_kind_mask: "蒙版",
+    layer_kind_asset: "素材",
+    layer_kind_text: "文字",
+    layer_blend_normal: "正常",
+    layer_blend_multiply: "正片叠底",
+    layer_blend_screen: "滤色",
+    layer_blend_overlay: "叠加",
+    layer_blend_darken: "变暗",
+    layer_blend_lighten: "变亮",
+    select_tool_rect: "矩形选择",
+    select_tool_ellipse: "椭圆选择",
+    select_tool_polygon: "多边形套索",
+    select_tool_lasso: "自由套索",
+    select_tool_wand: "魔棒",
+    select_op_add: "添加",
+    select_op_subtract: "减去",
+    select_op_intersect: "交集",
+    select_tolerance: "容差",
+    select_radius: "半径",
+    select_grow: "扩展",
+    select_shrink: "收缩",
+    select_feather: "羽化",
+    select_hint: "Shift：添加，Alt：减去，Shift+Alt：交集。多边形：点击起点、双击或按 Enter 闭合，Esc 取消。",
+    region_tool: "编辑区域",
+    region_title: "区域",
+    region_from_mask: "来自蒙版",
+    region_hint: "使用区域工具拖出编号框，或绘制蒙版后点击“来自蒙版”。每个区域有自己的指令。",
+    region_prompt: "此区域的指令（如“替换为木饰面”）：",
+    region_placeholder: "此区域的指令...",
+    region_delete: "删除区域",
+    region_mask_empty: "当前蒙版为空。",
+    region_mode_combined: "一次请求",
+    region_mode_sequential: "逐个处理",
+    region_mode_combined_hint: "在一次请求中发送所有区域",
+    region_mode_sequential_hint: "每个区域一次蒙版处理，依次基于上一次结果",
+    cmd_open: "打开图片",
+    cmd_edit: "编辑",
+    cmd_brush: "画笔",
+    cmd_eraser: "擦除",
+    cmd_select: "选区",
+    cmd_mask_grow: "扩展蒙版",
+    cmd_mask_shrink: "收缩蒙版",
+    cmd_mask_feather: "羽化蒙版",
+    cmd_mask_clear: "清除蒙版",
+    cmd_layer_add: "添加图层",
+    cmd_layer_change: "修改图层",
+    cmd_layer_delete: "删除图层",
+    cmd_layer_move: "调整图层顺序",
+    cmd_asset_add: "添加素材",
+    cmd_asset_order: "调整素材顺序",
+    cmd_asset_move: "移动素材",
+    cmd_asset_delete: "删除素材",
+    cmd_text_add: "添加文字",
+    cmd_text_change: "编辑文字",
+    cmd_text_delete: "删除文字",
+    cmd_region_add: "添加区域",
+    cmd_region_change: "编辑区域",
+    cmd_region_delete: "删除区域",
+    cmd_generate: "生成",
+    login_expired_title: "激活已过期",
+    login_expired_desc: "您的激活码已过期或被撤销。请输入新激活码，或向管理员发送续期请求。",
+    login_renew_btn: "申请续期",
+    login_check_status: "查看审批状态",
+    login_request_sent: "申请已提交，管理员将在管理控制台中审核。",
+    login_still_pending: "您的申请仍在等待审批。",
+    login_request_rejected: "您的申请已被拒绝，请联系管理员。",
+    login_status_unavailable: "无法连接服务器查询状态。",
+    login_activated: "账户已成功激活！",
+    login_token_unconfigured: "此部署未配置激活密钥",
+    login_token_malformed: "激活码格式不正确",
+    login_token_signature: "签名无效",
+    login_token_expired: "激活码已过期",
+    login_token_email: "激活码属于其他邮箱",
+    login_token_revoked: "激活码已被撤销",
   }
 };
 
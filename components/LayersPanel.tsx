@@ -0,0 +1,104 @@
+import React from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { EditorLayer, EditorLayerKind } from '../types';
+import { BLEND_MODES } from '../services/editorDocument';
+
+// --- Layers Panel ---
+// The edit document's stack, top layer first like in other image editors. The active layer takes
+// brush strokes, new assets or new text; its opacity and blend mode are edited below the list.
+
+const KIND_ICONS: Record<EditorLayerKind, string> = {
+    base: 'photo',
+    patch: 'sparkles',
+    mask: 'brush',
+    asset: 'cube',
+    text: 'chat-bubble-bottom-center-text'
+};
+
+interface LayersPanelProps {
+    layers: EditorLayer[];    // bottom to top
+    activeLayerId: string;
+    onSelect: (id: string) => void;
+    onChange: (id: string, patch: Partial<EditorLayer>) => void;
+    onMove: (id: string, direction: 1 | -1) => void;
+    onDelete: (id: string) => void;
+    onAdd: (kind: 'mask' | 'asset' | 'text') => void;
+}
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({ layers, activeLayerId, onSelect, onChange, onMove, onDelete, onAdd }) => {
+    const { t } = useLanguage();
+    const active = layers.find(l => l.id === activeLayerId);
+    const iconButtonClass = "p-1 rounded text-gray-500 hover:text-gray-200 disabled:opacity-30 disabled:hover:text-gray-500";
+
+    return (
+        <div className="border-b border-gray-800 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+                <Icon name="square-2-stack" className="w-4 h-4 text-indigo-400" />
+                <span className="text-xs font-bold tracking-wide text-gray-200 uppercase flex-grow">{t('layer_title')}</span>
+                <button onClick={() => onAdd('mask')} className={iconButtonClass} title={t('layer_add_mask')}><Icon name="brush" className="w-4 h-4" /></button>
+                <button onClick={() => onAdd('asset')} className={iconButtonClass} title={t('layer_add_asset')}><Icon name="cube" className="w-4 h-4" /></button>
+                <button onClick={() => onAdd('text')} className={iconButtonClass} title={t('layer_add_text')}><Icon name="chat-bubble-bottom-center-text" className="w-4 h-4" /></button>
+            </div>
+
+            <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                {[...layers].reverse().map(layer => {
+                    const index = layers.indexOf(layer);
+                    const isActive = layer.id === activeLayerId;
+                    return (
+                        <li
+                            key={layer.id}
+                            onClick={() => onSelect(layer.id)}
+                            className={`flex items-center gap-1 px-2 py-1 rounded-md cursor-pointer border ${isActive ? 'bg-indigo-600/20 border-indigo-500/50' : 'border-transparent hover:bg-gray-800'}`}
+                        >
+                            <button onClick={(e) => { e.stopPropagation(); onChange(layer.id, { visible: !layer.visible }); }} className={iconButtonClass} title={t('layer_visible')}>
+                                <Icon name={layer.visible ? 'eye' : 'eye-slash'} className="w-3.5 h-3.5" />
+                            </button>
+                            <Icon name={KIND_ICONS[layer.kind]} className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+                            <span className={`text-[11px] truncate flex-grow ${layer.visible ? 'text-gray-200' : 'text-gray-500'}`}>{layer.name}</span>
+                            <button onClick={(e) => { e.stopPropagation(); onChange(layer.id, { locked: !layer.locked }); }} className={iconButtonClass} title={t('layer_lock')}>
+                                <Icon name={layer.locked ? 'lock-closed' : 'lock-open'} className="w-3.5 h-3.5" />
+                            </button>
+                            {isActive && (
+                                <>
+                                    <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, 1); }} disabled={index < 1 || index === layers.length - 1} className={iconButtonClass} title={t('layer_up')}>
+                                        <Icon name="arrow-up-circle" className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={(e) => { e.stopPropagation(); onMove(layer.id, -1); }} disabled={index <= 1} className={iconButtonClass} title={t('layer_down')}>
+                                        <Icon name="arrow-down-circle" className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={(e) => { e.stopPropagation(); onDelete(layer.id); }} disabled={layer.kind === 'base' || layer.locked} className={iconButtonClass} title={t('layer_delete')}>
+                                        <Icon name="trash" className="w-3.5 h-3.5" />
+                                    </button>
+                                </>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {active && (
+                <div className="flex items-center gap-2">
+                    <input
+                        type="range" min="0" max="100"
+                        value={Math.round(active.opacity * 100)}
+                        onChange={(e) => onChange(active.id, { opacity: Number(e.target.value) / 100 })}
+                        disabled={active.locked}
+                        className="flex-grow h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:opacity-40"
+                        title={t('layer_opacity')}
+                    />
+                    <span className="text-[10px] text-gray-400 font-mono w-8 text-right">{Math.round(active.opacity * 100)}%</span>
+                    <select
+                        value={active.blendMode}
+                        onChange={(e) => onChange(active.id, { blendMode: e.target.value as EditorLayer['blendMode'] })}
+                        disabled={active.locked || active.kind === 'mask'}
+                        className="bg-gray-800 border border-gray-700 rounded text-[10px] text-gray-300 px-1 py-0.5 outline-none disabled:opacity-40"
+                        title={t('layer_blend')}
+                    >
+                        {BLEND_MODES.map(mode => <option key={mode} value={mode}>{t(`layer_blend_${mode}`)}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+};
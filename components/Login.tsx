@@ -2,14 +2,23 @@
 import React, { useState, useEffect } from 'react';
 import { useLanguage } from './LanguageContext';
 import { Icon } from './icons';
-import { getActivationCode } from '../services/geminiService';
+import { UserInfo } from '../types';
+import { activateWithToken, getStoredUser, isCompanyEmail, revalidateStoredUser, saveStoredUser } from '../services/activation';
+import { checkAccessStatus, isDirectoryAvailable, requestAccess } from '../services/userDirectory';
 
-interface UserInfo {
-    name: string;
-    email: string;
-    position: string;
-    status: 'pending' | 'active';
-}
+// Opens a pre-filled activation (or renewal) request to the admin; used when no proxy is configured
+const sendActivationEmail = (user: UserInfo, renewal: boolean) => {
+    const subject = `${renewal ? 'Yêu cầu gia hạn' : 'Yêu cầu kích hoạt'} tài khoản CPGVN: ${user.name}`;
+    const body = `Họ và tên: ${user.name}\nEmail: ${user.email}\nChức danh: ${user.position}\n\n(Admin: npm run activation -- issue ${user.email})`;
+    const mailtoUrl = `mailto:nghiavu2011@gmail.com?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+
+    try {
+        // Attempt to open mail client
+        window.location.href = mailtoUrl;
+    } catch (e) {
+        console.error("Failed to open mail client automatically");
+    }
+};
 
 export const Login: React.FC<{ onAuthenticated: () => void }> = ({ onAuthenticated }) => {
     const { t } = useLanguage();
@@ -17,17 +26,75 @@ export const Login: React.FC<{ onAuthenticated: () => void }> = ({ onAuthenticat
     const [formData, setFormData] = useState({ name: '', email: '', position: '' });
     const [isSubmitting, setIsSubmitting] = useState(false);
 
+    const activate = async (user: UserInfo, token: string) => {
+        setIsSubmitting(true);
+        const result = await activateWithToken(user, token);
+        setIsSubmitting(false);
+        if (result.valid && result.user) {
+            setUserInfo(result.user);
+            alert(t('login_activated'));
+            onAuthenticated();
+        } else if ('reason' in result) {
+            alert(`${t('login_invalid_code')}: ${t(`login_token_${result.reason}`)}`);
+        }
+    };
+
+    // Collects the token once an admin approved the request in the admin console
+    const checkStatus = async (user: UserInfo, silent: boolean) => {
+        if (!isDirectoryAvailable() || !user.requestSecret) return;
+        try {
+            const { status, token } = await checkAccessStatus(user);
+            if (token) {
+                await activate(user, token);
+            } else if (!silent) {
+                alert(t(status === 'rejected' || status === 'deactivated' ? 'login_request_rejected' : 'login_still_pending'));
+            }
+        } catch (error) {
+            console.warn("Access status check failed:", error);
+            if (!silent) alert(t('login_status_unavailable'));
+        }
+    };
+
+    // Expired or revoked tokens come back as 'expired' and land on the re-activation screen
     useEffect(() => {
-        const savedUser = localStorage.getItem('cpgvn_user');
-        if (savedUser) {
-            const user = JSON.parse(savedUser) as UserInfo;
+        let cancelled = false;
+        revalidateStoredUser().then(user => {
+            if (cancelled || !user) return;
             setUserInfo(user);
             if (user.status === 'active') {
                 onAuthenticated();
+            } else if (user.status === 'pending') {
+                checkStatus(user, true);
             }
-        }
+        });
+        return () => { cancelled = true; };
     }, [onAuthenticated]);
 
+    // Files the request with the proxy's user directory, or by e-mail when there is none
+    const submitAccessRequest = async (user: UserInfo, renewal: boolean) => {
+        const pendingUser: UserInfo = { ...user, status: 'pending' };
+        if (!isDirectoryAvailable()) {
+            saveStoredUser(pendingUser);
+            setUserInfo(pendingUser);
+            sendActivationEmail(pendingUser, renewal);
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            const registered = await requestAccess(pendingUser);
+            saveStoredUser(registered.user);
+            setUserInfo(registered.user);
+            alert(t('login_request_sent'));
+        } catch (error) {
+            console.warn("Access request failed, falling back to e-mail:", error);
+            saveStoredUser(pendingUser);
+            setUserInfo(pendingUser);
+            sendActivationEmail(pendingUser, renewal);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!formData.name || !formData.email || !formData.position) {
@@ -35,111 +102,57 @@ export const Login: React.FC<{ onAuthenticated: () => void }> = ({ onAuthenticat
             return;
         }
 
-        const isCpgEmail = formData.email.toLowerCase().endsWith('@cpgcorp.com.sg') ||
-            formData.email.toLowerCase().endsWith('@cpgvietnam.com.vn');
-
-        if (isCpgEmail) {
+        // Without a proxy there is no key to protect; with one, company e-mails need an approved token too
+        if (isCompanyEmail(formData.email) && !isDirectoryAvailable()) {
             const activeUser: UserInfo = { ...formData, status: 'active' };
-            localStorage.setItem('cpgvn_user', JSON.stringify(activeUser));
+            saveStoredUser(activeUser);
             setUserInfo(activeUser);
             onAuthenticated();
             return;
         }
 
-        setIsSubmitting(true);
-
-        const newUser: UserInfo = {
-            ...formData,
-            status: 'pending'
-        };
-
-        localStorage.setItem('cpgvn_user', JSON.stringify(newUser));
-        setUserInfo(newUser);
-
-        // Construct mailto link
-        const subject = `Yêu cầu kích hoạt tài khoản CPGVN: ${formData.name}`;
-        const activationUrl = `https://cpgvn.vercel.app/?activate=${btoa(formData.email)}`;
-        const body = `Họ và tên: ${formData.name}\nEmail: ${formData.email}\nChức danh: ${formData.position}\n\nLink kích hoạt (dành cho Admin): ${activationUrl}`;
-        const mailtoUrl = `mailto:nghiavu2011@gmail.com?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-
-        try {
-            // Attempt to open mail client
-            window.location.href = mailtoUrl;
-        } catch (e) {
-            console.error("Failed to open mail client automatically");
-        }
-
-        setIsSubmitting(false);
+        submitAccessRequest({ ...formData, status: 'pending' }, false);
     };
 
-    const handleMasterKeyEntry = () => {
-        const email = userInfo?.email || formData.email;
-        if (!email) {
+    const handleTokenEntry = () => {
+        const user = userInfo || getStoredUser();
+        if (!user) {
             alert("Please enter your information first / Vui lòng điền thông tin trước.");
             return;
         }
 
-        const inputCode = prompt(t('login_enter_code'));
-        const correctCode = getActivationCode(email);
-
-        if (inputCode && (inputCode === correctCode || inputCode === '251127')) { // 251127 is a backup master key
-            const savedUser = localStorage.getItem('cpgvn_user');
-            let baseData = formData.email ? formData : (savedUser ? JSON.parse(savedUser) : { name: 'CPG User', email: email, position: 'Staff' });
-
-            const activeUser: UserInfo = { ...baseData, status: 'active' };
-            localStorage.setItem('cpgvn_user', JSON.stringify(activeUser));
-            setUserInfo(activeUser);
-            onAuthenticated();
-        } else if (inputCode) {
-            alert(t('login_invalid_code'));
-        }
-    };
-
-    const handleAdminTool = () => {
-        const secret = prompt("Admin Auth:");
-        if (secret === 'nghiavu') {
-            const targetEmail = prompt("Enter User Email to generate code:");
-            if (targetEmail) {
-                const code = getActivationCode(targetEmail);
-                alert(`Mã kích hoạt cho ${targetEmail} là: ${code}\nActivation Code for ${targetEmail} is: ${code}`);
-            }
-        }
+        const token = prompt(t('login_enter_code'));
+        if (token) activate(user, token);
     };
 
-    // Admin secret activation link handling
+    // Activation link from the admin: ?activate=<token>
     useEffect(() => {
         const urlParams = new URLSearchParams(window.location.search);
-        const activateEmail = urlParams.get('activate');
-        if (activateEmail) {
-            try {
-                const email = atob(activateEmail);
-                const savedUser = localStorage.getItem('cpgvn_user');
-                if (savedUser) {
-                    const user = JSON.parse(savedUser) as UserInfo;
-                    if (user.email === email) {
-                        user.status = 'active';
-                        localStorage.setItem('cpgvn_user', JSON.stringify(user));
-                        setUserInfo(user);
-                        alert('Tài khoản đã được kích hoạt thành công!');
-                        onAuthenticated();
-                    }
-                }
-            } catch (e) {
-                console.error("Link kích hoạt không hợp lệ");
-            }
+        const token = urlParams.get('activate');
+        if (!token) return;
+        // Keep the token out of the address bar and browser history
+        urlParams.delete('activate');
+        window.history.replaceState(null, '', `${window.location.pathname}${urlParams.toString() ? `?${urlParams}` : ''}${window.location.hash}`);
+
+        const user = getStoredUser();
+        if (user && user.status !== 'active') {
+            activate(user, token);
+        } else if (!user) {
+            alert("Please enter your information first / Vui lòng điền thông tin trước.");
         }
-    }, [onAuthenticated]);
+    }, []);
 
-    if (userInfo && userInfo.status === 'pending') {
+    if (userInfo && userInfo.status !== 'active') {
+        const isExpired = userInfo.status === 'expired';
         return (
             <div className="min-h-screen flex items-center justify-center bg-[var(--bg-surface-4)] p-6">
                 <div className="max-w-md w-full bg-[var(--bg-surface-1)] backdrop-blur-xl border border-[var(--border-1)] rounded-2xl p-8 text-center shadow-2xl">
                     <div className="w-20 h-20 bg-[var(--bg-interactive)]/20 rounded-full flex items-center justify-center mx-auto mb-6">
                         <Icon name="clock" className="w-10 h-10 text-[var(--bg-interactive)]" />
                     </div>
-                    <h2 className="text-2xl font-bold text-[var(--text-primary)] mb-4">{t('login_waiting_title')}</h2>
+                    <h2 className="text-2xl font-bold text-[var(--text-primary)] mb-4">{t(isExpired ? 'login_expired_title' : 'login_waiting_title')}</h2>
                     <p className="text-[var(--text-secondary)] leading-relaxed mb-8">
-                        {t('login_waiting_desc')}
+                        {t(isExpired ? 'login_expired_desc' : 'login_waiting_desc')}
                     </p>
                     <div className="bg-[var(--bg-surface-2)] p-4 rounded-xl border border-[var(--border-2)] text-left mb-6">
                         <div className="text-xs text-[var(--text-tertiary)] uppercase font-bold mb-1">{t('login_name')}</div>
@@ -150,15 +163,36 @@ export const Login: React.FC<{ onAuthenticated: () => void }> = ({ onAuthenticat
 
                     <div className="space-y-3">
                         <button
-                            onClick={handleMasterKeyEntry}
-                            className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-white font-bold py-3 rounded-xl shadow-lg transition-all flex items-center justify-center gap-2"
+                            onClick={handleTokenEntry}
+                            disabled={isSubmitting}
+                            className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-white font-bold py-3 rounded-xl shadow-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50"
                         >
                             <Icon name="key" className="w-5 h-5" />
                             <span>Enter Activation Code / Nhập Mã Kích Hoạt</span>
                         </button>
 
+                        {!isExpired && isDirectoryAvailable() && userInfo.requestSecret && (
+                            <button
+                                onClick={() => checkStatus(userInfo, false)}
+                                disabled={isSubmitting}
+                                className="w-full bg-[var(--bg-surface-2)] hover:bg-[var(--bg-surface-3)] border border-[var(--border-2)] text-[var(--text-primary)] font-bold py-3 rounded-xl transition-all disabled:opacity-50"
+                            >
+                                {t('login_check_status')}
+                            </button>
+                        )}
+
+                        {isExpired && (
+                            <button
+                                onClick={() => submitAccessRequest(userInfo, true)}
+                                disabled={isSubmitting}
+                                className="w-full bg-[var(--bg-surface-2)] hover:bg-[var(--bg-surface-3)] border border-[var(--border-2)] text-[var(--text-primary)] font-bold py-3 rounded-xl transition-all disabled:opacity-50"
+                            >
+                                {t('login_renew_btn')}
+                            </button>
+                        )}
+
                         <button
-                            onClick={() => { localStorage.removeItem('cpgvn_user'); setUserInfo(null); }}
+                            onClick={() => { saveStoredUser(null); setUserInfo(null); }}
                             className="text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors mt-4"
                         >
                             Edit Information / Sửa lại thông tin
@@ -232,7 +266,6 @@ export const Login: React.FC<{ onAuthenticated: () => void }> = ({ onAuthenticat
 
                 <div className="mt-10 pt-8 border-t border-[var(--border-1)] text-center">
                     <p
-                        onDoubleClick={handleAdminTool}
                         className="text-xs text-[var(--text-tertiary)] font-bold tracking-widest uppercase cursor-default select-none"
                     >
                         CPGVN
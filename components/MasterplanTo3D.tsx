@@ -1,15 +1,20 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Icon } from './icons';
 import { Section, ImageUpload, ReferenceImageUpload, ResultDisplay } from './Shared';
 import { HistoryPanel } from './HistoryPanel';
-import { generateImages, analyzeFloorplanPrompt } from '../services/geminiService';
+import { PresetLibrary } from './PresetLibrary';
+import { NegativePromptField, PromptInspector } from './PromptInspector';
+import { generateImagesWithManifest, manifestToRerunInput, variationInput, RenderManifestInput, analyzeFloorplanPrompt } from '../services/geminiService';
+import { runJob } from '../services/jobQueue';
+import { parseNegatives, promptSpecFromText } from '../services/promptBuilder';
+import { getRenderHistoryItem, HistoryListState } from '../services/historyStore';
 import { useToast } from './Toast';
-import type { SourceImage, RenderHistoryItem } from '../types';
+import type { SourceImage, GenerationManifest, HistoryPreview, PresetConfig } from '../types';
 
 export const MasterplanTo3D: React.FC<{
-    history: RenderHistoryItem[];
-    onGenerationComplete: (prompt: string, images: string[]) => void;
+    history: HistoryListState;
+    onGenerationComplete: (prompt: string, images: string[], manifest: GenerationManifest) => void;
     onClearHistory: () => void;
     onEditRequest: (imageUrl: string) => void;
 }> = ({ history, onGenerationComplete, onClearHistory, onEditRequest }) => {
@@ -24,12 +29,16 @@ export const MasterplanTo3D: React.FC<{
     const [masterplanLighting, setMasterplanLighting] = useState('');
     const [masterplanTone, setMasterplanTone] = useState('');
     const [masterplanPrompt, setMasterplanPrompt] = useState('');
+    const [negativePrompt, setNegativePrompt] = useState('');
+    const [manifest, setManifest] = useState<GenerationManifest | null>(null);
     
     const [isLoading, setIsLoading] = useState(false);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [numImages, setNumImages] = useState(2);
     const [aspectRatio, setAspectRatio] = useState('Auto');
-    const { addToast } = useToast();
+    const { addToast, addErrorToast } = useToast();
+    // Prompt from an applied preset; wins over the one composed from the options it also sets
+    const presetPromptRef = useRef<string | null>(null);
 
     // --- Options Data ---
     const styleOptions = ["Ảnh chụp thực tế công trình", "Ảnh render Vray", "Mô hình kiến trúc", "Ảnh vẽ tay nghệ thuật"];
@@ -39,6 +48,10 @@ export const MasterplanTo3D: React.FC<{
 
     // --- Logic: Tự động cập nhật Prompt khi đổi Option ---
     useEffect(() => {
+        if (presetPromptRef.current !== null) {
+            setMasterplanPrompt(presetPromptRef.current);
+            return;
+        }
         const parts = [
             masterplanStyle,
             "Biến bản vẽ mặt bằng tổng thể này thành ảnh phối cảnh 3D thực tế từ trên cao.",
@@ -49,6 +62,32 @@ export const MasterplanTo3D: React.FC<{
         setMasterplanPrompt(parts.join('. '));
     }, [masterplanStyle, masterplanContext, masterplanLighting, masterplanTone]);
 
+    // Cleared after every render, so only the render that applied the preset keeps its prompt
+    useEffect(() => {
+        presetPromptRef.current = null;
+    });
+
+    // --- Presets ---
+    const getPresetConfig = (): PresetConfig => ({
+        fields: { style: masterplanStyle, context: masterplanContext, lighting: masterplanLighting, tone: masterplanTone, prompt: masterplanPrompt, negatives: negativePrompt },
+        creativityLevel: 3,
+        aspectRatio,
+        referenceImage
+    });
+
+    const applyPreset = (config: PresetConfig) => {
+        const { fields } = config;
+        presetPromptRef.current = fields.prompt || '';
+        setMasterplanStyle(fields.style || styleOptions[0]);
+        setMasterplanContext(fields.context || '');
+        setMasterplanLighting(fields.lighting || '');
+        setMasterplanTone(fields.tone || '');
+        setMasterplanPrompt(fields.prompt || '');
+        setNegativePrompt(fields.negatives || '');
+        setAspectRatio(config.aspectRatio);
+        setReferenceImage(config.referenceImage);
+    };
+
     // --- Action: Phân tích Prompt bằng AI ---
     const handleAnalyze = async () => {
         if (!sourceImage) {
@@ -60,23 +99,48 @@ export const MasterplanTo3D: React.FC<{
             const result = await analyzeFloorplanPrompt(sourceImage, "Mặt bằng tổng thể", masterplanStyle);
             if (result) setMasterplanPrompt(result + ". Phối cảnh chim bay từ trên cao.");
         } catch (e) {
-            addToast({ type: 'error', title: 'Lỗi', message: 'Không thể phân tích ảnh.' });
+            addErrorToast(e, 'Không thể phân tích ảnh.');
         } finally { setIsAnalyzing(false); }
     };
 
     // --- Action: Tạo ảnh chính ---
     const handleGenerate = async () => {
         if (!sourceImage) return;
+        await runGeneration({
+            renderType: 'masterplan',
+            prompt: masterplanPrompt,
+            // The masterplan prompt is composed and then edited as free text, so it is the subject
+            promptSpec: promptSpecFromText(masterplanPrompt, parseNegatives(negativePrompt)),
+            sourceImage,
+            referenceImage,
+            isAnglePrompt: false,
+            creativityLevel: 3,
+            numberOfImages: numImages,
+            aspectRatio
+        });
+    };
+
+    const runGeneration = async (input: RenderManifestInput) => {
         setIsLoading(true);
         try {
-            const images = await generateImages(sourceImage, masterplanPrompt, 'floorplan', numImages, aspectRatio, referenceImage, false);
+            const { images, manifest } = await runJob(
+                { label: `Masterplan · ${input.prompt.slice(0, 60)}`, source: 'masterplan' },
+                signal => generateImagesWithManifest(input, { signal })
+            );
             setGeneratedImages(images);
-            onGenerationComplete(masterplanPrompt, images);
+            setManifest(manifest);
+            onGenerationComplete(input.prompt, images, manifest);
         } catch (e) {
-            addToast({ type: 'error', title: 'Thất Bại', message: 'Lỗi khi tạo ảnh 3D.' });
+            addErrorToast(e, 'Lỗi khi tạo ảnh 3D.');
         } finally { setIsLoading(false); }
     };
 
+    const handleRerun = async (preview: HistoryPreview, newSeed: boolean) => {
+        if (isLoading) return;
+        const item = await getRenderHistoryItem(history.project, history.list, preview.id);
+        if (item?.manifest) await runGeneration(manifestToRerunInput(item.manifest, newSeed));
+    };
+
     const selectClass = "w-full bg-[var(--bg-surface-3)] p-3 rounded-md text-sm text-[var(--text-primary)] border border-[var(--border-2)] appearance-none focus:outline-none focus:ring-2 focus:ring-yellow-500";
 
     return (
@@ -84,11 +148,12 @@ export const MasterplanTo3D: React.FC<{
             {/* CỘT TRÁI - INPUT */}
             <div className="lg:col-span-1 space-y-6">
                 <Section title="1. Tải Lên Masterplan">
-                    <ImageUpload sourceImage={sourceImage} onImageUpload={setSourceImage} onRemove={() => {setSourceImage(null); setGeneratedImages([]);}} />
+                    <ImageUpload sourceImage={sourceImage} onImageUpload={setSourceImage} onRemove={() => {setSourceImage(null); setGeneratedImages([]); setManifest(null);}} />
                 </Section>
 
                 <Section title="2. Mô Tả & Tùy Chọn">
                     <div className="space-y-4">
+                        <PresetLibrary tab="masterplan" getConfig={getPresetConfig} onApply={applyPreset} />
                         <label className="text-sm text-gray-400">Ảnh tham khảo (Tùy chọn)</label>
                         <ReferenceImageUpload image={referenceImage} onUpload={setReferenceImage} onRemove={() => setReferenceImage(null)} />
 
@@ -135,6 +200,9 @@ export const MasterplanTo3D: React.FC<{
                             </div>
                         </div>
 
+                        <NegativePromptField value={negativePrompt} onChange={setNegativePrompt} />
+                        <PromptInspector spec={promptSpecFromText(masterplanPrompt, parseNegatives(negativePrompt))} />
+
                         <div className="grid grid-cols-2 gap-4">
                             <div>
                                 <label className="block text-sm mb-2 text-[var(--text-secondary)]">Số lượng</label>
@@ -181,12 +249,21 @@ export const MasterplanTo3D: React.FC<{
                     onSelectImageIndex={setSelectedImageIndex}
                     onEditRequest={onEditRequest}
                     showChangeAngleButton={false}
+                    manifest={manifest}
+                    prompt={masterplanPrompt}
+                    onVary={(index, strength) => { if (manifest && !isLoading) runGeneration(variationInput(manifest, index, strength)); }}
                 />
                 <HistoryPanel 
                     title="Lịch Sử Masterplan 3D" 
-                    history={history} 
+                    history={history.items} 
+                    hasMore={history.hasMore}
+                    onLoadMore={history.loadMore}
                     onClear={onClearHistory}
-                    onSelect={(item) => {setGeneratedImages(item.images); setSelectedImageIndex(0);}}
+                    onSelect={async (preview) => {
+                        const item = await getRenderHistoryItem(history.project, history.list, preview.id);
+                        if (item) { setGeneratedImages(item.images); setSelectedImageIndex(0); setManifest(item.manifest || null); }
+                    }}
+                    onRerun={handleRerun}
                     emptyText="Chưa có lịch sử masterplan."
                 />
             </div>
@@ -0,0 +1,239 @@
+import React, { useRef, useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { useToast } from './Toast';
+import { GenerationManifest } from '../types';
+import { MAX_SEED, RenderManifestInput, generateImagesWithManifest, isAbortError } from '../services/geminiService';
+import { runJob } from '../services/jobQueue';
+import { renderContactSheet } from '../services/contactSheet';
+import { downloadImage } from '../services/imageMetadata';
+
+// --- Parameter Sweep ---
+// Renders every combination of up to two prompt options (e.g. lighting × creativity) so clients can
+// compare them side by side. All cells share one seed, so the differences come from the parameters.
+
+export interface SweepAxis {
+    id: string;
+    label: string;
+    values: { value: string; label: string }[];
+}
+
+type CellStatus = 'queued' | 'done' | 'failed' | 'cancelled';
+
+interface SweepCell {
+    status: CellStatus;
+    image?: string;
+    error?: string;
+}
+
+interface SweepRun {
+    rows: { value: string; label: string }[];       // a single unlabeled row when only one axis is swept
+    columns: { value: string; label: string }[];
+    rowAxis: SweepAxis | null;
+    columnAxis: SweepAxis;
+    inputs: RenderManifestInput[][];                 // [row][column], captured when the sweep starts
+}
+
+const MAX_CELLS = 24;
+
+const cellKey = (row: number, column: number) => `${row}:${column}`;
+
+export const ParameterSweep: React.FC<{
+    label: string;
+    axes: SweepAxis[];
+    // Render input with the given axis values applied over the current form; null when the tab has no source
+    buildInput: (overrides: Record<string, string>) => RenderManifestInput | null;
+    onCellComplete: (prompt: string, images: string[], manifest: GenerationManifest) => void;
+    onOpenImages: (images: string[], startIndex: number) => void;
+}> = ({ label, axes, buildInput, onCellComplete, onOpenImages }) => {
+    const { t } = useLanguage();
+    const { addToast, addErrorToast } = useToast();
+    const [columnAxisId, setColumnAxisId] = useState(axes[0].id);
+    const [rowAxisId, setRowAxisId] = useState('');
+    const [selected, setSelected] = useState<Record<string, string[]>>({});
+    const [run, setRun] = useState<SweepRun | null>(null);
+    const [cells, setCells] = useState<Record<string, SweepCell>>({});
+    const [isExporting, setIsExporting] = useState(false);
+    const controllers = useRef(new Map<string, AbortController>());
+
+    const columnAxis = axes.find(a => a.id === columnAxisId)!;
+    const rowAxis = axes.find(a => a.id === rowAxisId) || null;
+    const valuesFor = (axis: SweepAxis) => axis.values.filter(v => (selected[axis.id] || []).includes(v.value));
+    const cellCount = valuesFor(columnAxis).length * (rowAxis ? valuesFor(rowAxis).length : 1);
+    const isRunning = Object.keys(cells).some(key => cells[key].status === 'queued');
+
+    const toggleValue = (axisId: string, value: string) => {
+        setSelected(prev => {
+            const current = prev[axisId] || [];
+            return { ...prev, [axisId]: current.includes(value) ? current.filter(v => v !== value) : [...current, value] };
+        });
+    };
+
+    const updateCell = (key: string, cell: SweepCell) => setCells(prev => ({ ...prev, [key]: cell }));
+
+    const runCell = async (sweep: SweepRun, row: number, column: number) => {
+        const input = sweep.inputs[row][column];
+        const key = cellKey(row, column);
+        const controller = new AbortController();
+        controllers.current.set(key, controller);
+        updateCell(key, { status: 'queued' });
+        const cellLabel = [sweep.rows[row].label, sweep.columns[column].label].filter(Boolean).join(' × ');
+        try {
+            const { images, manifest } = await runJob(
+                { label: `${label} · ${cellLabel}`, source: input.renderType, capability: 'i2i', signal: controller.signal },
+                signal => generateImagesWithManifest(input, { signal })
+            );
+            updateCell(key, { status: 'done', image: images[0] });
+            onCellComplete(input.prompt, images, manifest);
+        } catch (error: any) {
+            const cancelled = isAbortError(error) && error.name !== 'TimeoutError';
+            updateCell(key, { status: cancelled ? 'cancelled' : 'failed', error: cancelled ? undefined : (error?.message || String(error)) });
+        } finally {
+            controllers.current.delete(key);
+        }
+    };
+
+    const handleRun = () => {
+        const base = buildInput({});
+        if (!base) {
+            addToast({ type: 'warning', title: t('sweep_title'), message: t('sweep_missing_source') });
+            return;
+        }
+        const columns = valuesFor(columnAxis);
+        const rows = rowAxis ? valuesFor(rowAxis) : [{ value: '', label: '' }];
+        // A seed fixed in the form wins; otherwise one random seed is shared by every cell
+        const seed = base.seed ?? Math.floor(Math.random() * MAX_SEED);
+        const inputs = rows.map(row => columns.map(column => ({
+            ...buildInput({ [columnAxis.id]: column.value, ...(rowAxis ? { [rowAxis.id]: row.value } : {}) }),
+            numberOfImages: 1,
+            seed
+        })));
+        const sweep: SweepRun = { rows, columns, rowAxis, columnAxis, inputs };
+        setRun(sweep);
+        setCells({});
+        rows.forEach((_, r) => columns.forEach((_, c) => runCell(sweep, r, c)));
+    };
+
+    const handleCancel = () => controllers.current.forEach(controller => controller.abort());
+
+    const handleExport = async () => {
+        if (!run) return;
+        setIsExporting(true);
+        try {
+            const sheet = await renderContactSheet({
+                title: label,
+                subtitle: [run.rowAxis?.label, run.columnAxis.label].filter(Boolean).join(' × '),
+                rowLabels: run.rows.map(r => r.label),
+                columnLabels: run.columns.map(c => c.label),
+                cells: run.rows.map((_, r) => run.columns.map((_, c) => cells[cellKey(r, c)]?.image || null))
+            });
+            await downloadImage(sheet, `CPGVN_ContactSheet_${Date.now()}`);
+        } catch (error) {
+            addErrorToast(error);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const doneImages = run ? run.rows.flatMap((_, r) => run.columns.map((_, c) => cells[cellKey(r, c)]?.image)).filter(Boolean) as string[] : [];
+    const selectClass = "bg-[var(--bg-surface-3)] text-xs font-semibold text-[var(--text-primary)] rounded-md border border-[var(--border-2)] px-2 py-1.5 outline-none cursor-pointer";
+    const buttonClass = "flex items-center gap-1.5 text-xs font-bold px-3 py-1.5 rounded-md transition-colors disabled:opacity-40";
+
+    const renderChips = (axis: SweepAxis) => (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+            {axis.values.map(v => {
+                const isOn = (selected[axis.id] || []).includes(v.value);
+                return (
+                    <button key={v.value} onClick={() => toggleValue(axis.id, v.value)} className={`text-[11px] px-2 py-1 rounded-full border transition-colors ${isOn ? 'bg-[var(--bg-interactive)] text-white border-transparent' : 'bg-[var(--bg-surface-2)] text-[var(--text-secondary)] border-[var(--border-2)] hover:text-[var(--text-primary)]'}`}>
+                        {v.label}
+                    </button>
+                );
+            })}
+        </div>
+    );
+
+    return (
+        <div className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] shadow-2xl shadow-[var(--shadow-color)] p-6 rounded-xl">
+            <h2 className="text-lg font-semibold text-[var(--text-primary)] mb-1">{t('sweep_title')}</h2>
+            <p className="text-xs text-[var(--text-tertiary)] mb-4">{t('sweep_desc')}</p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-xs font-bold text-[var(--text-secondary)] mb-1">{t('sweep_columns')}</label>
+                    <select value={columnAxisId} onChange={(e) => { setColumnAxisId(e.target.value); if (e.target.value === rowAxisId) setRowAxisId(''); }} className={selectClass}>
+                        {axes.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                    </select>
+                    {renderChips(columnAxis)}
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-[var(--text-secondary)] mb-1">{t('sweep_rows')}</label>
+                    <select value={rowAxisId} onChange={(e) => setRowAxisId(e.target.value)} className={selectClass}>
+                        <option value="">{t('sweep_no_rows')}</option>
+                        {axes.filter(a => a.id !== columnAxisId).map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+                    </select>
+                    {rowAxis && renderChips(rowAxis)}
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+                <span className={`text-xs flex-grow ${cellCount > MAX_CELLS ? 'text-[var(--text-danger)]' : 'text-[var(--text-tertiary)]'}`}>
+                    {cellCount} {t('sweep_renders')}{cellCount > MAX_CELLS ? ` — ${t('sweep_too_many')} ${MAX_CELLS}` : ''}
+                </span>
+                {isRunning && (
+                    <button onClick={handleCancel} className={`${buttonClass} bg-[var(--bg-surface-3)] hover:bg-red-600 text-[var(--text-primary)] hover:text-white`}>
+                        <Icon name="x-circle" className="w-4 h-4" /> {t('btn_cancel')}
+                    </button>
+                )}
+                {doneImages.length > 0 && (
+                    <button onClick={handleExport} disabled={isRunning || isExporting} className={`${buttonClass} bg-[var(--bg-surface-3)] hover:bg-[var(--bg-surface-2)] text-[var(--text-primary)]`}>
+                        <Icon name="download" className="w-4 h-4" /> {t('sweep_export')}
+                    </button>
+                )}
+                <button onClick={handleRun} disabled={isRunning || cellCount === 0 || cellCount > MAX_CELLS} className={`${buttonClass} bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)]`}>
+                    <Icon name="sparkles" className="w-4 h-4" /> {t('sweep_run')}
+                </button>
+            </div>
+
+            {run && (
+                <div className="overflow-x-auto mt-4">
+                    <table className="border-separate border-spacing-2">
+                        <thead>
+                            <tr>
+                                {run.rowAxis && <th></th>}
+                                {run.columns.map(c => <th key={c.value} className="text-[11px] font-bold text-[var(--text-secondary)] text-center px-1">{c.label}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {run.rows.map((row, r) => (
+                                <tr key={row.value || r}>
+                                    {run.rowAxis && <th className="text-[11px] font-bold text-[var(--text-secondary)] text-right pr-1 max-w-[8rem]">{row.label}</th>}
+                                    {run.columns.map((column, c) => {
+                                        const cell = cells[cellKey(r, c)];
+                                        return (
+                                            <td key={column.value} className="align-top">
+                                                <div className="relative w-40 aspect-video bg-black/20 rounded overflow-hidden">
+                                                    {cell?.image && <img src={cell.image} alt={`${row.label} ${column.label}`} onClick={() => onOpenImages(doneImages, doneImages.indexOf(cell.image!))} className="w-full h-full object-cover cursor-pointer" />}
+                                                    {cell?.status === 'queued' && (
+                                                        <div className="absolute inset-0 flex items-center justify-center">
+                                                            <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-white"></div>
+                                                        </div>
+                                                    )}
+                                                    {(cell?.status === 'failed' || cell?.status === 'cancelled') && (
+                                                        <button onClick={() => runCell(run, r, c)} className="absolute inset-0 flex flex-col items-center justify-center text-[10px] text-red-300 hover:text-white" title={cell.error}>
+                                                            <Icon name="arrow-path" className="w-5 h-5" />
+                                                            {t('sweep_retry')}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
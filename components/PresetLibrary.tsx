@@ -0,0 +1,120 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { useToast } from './Toast';
+import { PresetConfig, PresetTab } from '../types';
+import { deletePreset, exportPresets, findPresetByName, importPresets, presetToConfig, savePreset, usePresets } from '../services/presetStore';
+
+// --- Preset Library ---
+// Sits at the top of a render tab's options: apply a saved configuration, save the current one,
+// filter by studio-standard tag, and move presets between workstations as JSON.
+
+export const PresetLibrary: React.FC<{
+    tab: PresetTab;
+    getConfig: () => PresetConfig;            // the tab's current form
+    onApply: (config: PresetConfig) => void;
+}> = ({ tab, getConfig, onApply }) => {
+    const { t } = useLanguage();
+    const { addToast, addErrorToast } = useToast();
+    const allPresets = usePresets();
+    const [tagFilter, setTagFilter] = useState('');
+    const [selectedId, setSelectedId] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [name, setName] = useState('');
+    const [tags, setTags] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const tabPresets = useMemo(() => allPresets.filter(p => p.tab === tab), [allPresets, tab]);
+    const tabTags = useMemo(() => [...new Set(tabPresets.flatMap(p => p.tags))].sort(), [tabPresets]);
+    const visible = tagFilter ? tabPresets.filter(p => p.tags.includes(tagFilter)) : tabPresets;
+    const selected = tabPresets.find(p => p.id === selectedId);
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        const preset = tabPresets.find(p => p.id === id);
+        if (!preset) return;
+        onApply(presetToConfig(preset));
+        setName(preset.name);
+        setTags(preset.tags.join(', '));
+    };
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        const existing = findPresetByName(tab, name);
+        if (existing && !window.confirm(`${t('preset_overwrite_confirm')} "${existing.name}"?`)) return;
+        try {
+            const preset = await savePreset(tab, name, tags.split(','), getConfig());
+            setSelectedId(preset.id);
+            setIsSaving(false);
+            addToast({ type: 'success', title: t('preset_saved'), message: preset.name });
+        } catch (error) {
+            addErrorToast(error);
+        }
+    };
+
+    const handleDelete = () => {
+        if (!selected || !window.confirm(`${t('preset_delete_confirm')} "${selected.name}"?`)) return;
+        deletePreset(selected.id);
+        setSelectedId('');
+    };
+
+    const handleExport = () => {
+        const suffix = tagFilter ? `_${tagFilter.replace(/[^\w-]+/g, '_')}` : '';
+        exportPresets(visible, `CPGVN_Presets_${tab}${suffix}_${new Date().toLocaleDateString('sv')}.json`);
+    };
+
+    const handleImport = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            const count = importPresets(await file.text());
+            addToast({ type: count > 0 ? 'success' : 'info', title: t('preset_import'), message: `${count} ${t('preset_imported')}` });
+        } catch (error) {
+            addErrorToast(error);
+        }
+    };
+
+    const selectClass = "bg-[var(--bg-surface-3)] text-xs font-semibold text-[var(--text-primary)] rounded-md border border-[var(--border-2)] px-2 py-1.5 outline-none cursor-pointer";
+    const iconButtonClass = "p-1.5 rounded-md text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-surface-3)] transition-colors disabled:opacity-40";
+    const inputClass = "bg-[var(--bg-surface-4)] text-xs p-2 rounded-md focus:ring-2 focus:ring-[var(--ring-focus)] focus:outline-none";
+
+    return (
+        <div className="bg-[var(--bg-surface-2)] border border-[var(--border-2)] rounded-lg p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs font-bold text-[var(--text-secondary)]">{t('preset_title')}</span>
+                <select value={selected ? selectedId : ''} onChange={(e) => handleSelect(e.target.value)} className={`${selectClass} flex-grow min-w-0`}>
+                    <option value="">{tabPresets.length > 0 ? t('preset_choose') : t('preset_empty')}</option>
+                    {visible.map(p => <option key={p.id} value={p.id}>{p.name}{p.tags.length > 0 ? ` · ${p.tags.join(', ')}` : ''}</option>)}
+                </select>
+                {tabTags.length > 0 && (
+                    <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className={selectClass} title={t('preset_tags')}>
+                        <option value="">{t('preset_all_tags')}</option>
+                        {tabTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                    </select>
+                )}
+                <button onClick={() => setIsSaving(v => !v)} className={iconButtonClass} title={t('preset_save')}>
+                    <Icon name="bookmark" className="w-4 h-4" />
+                </button>
+                <button onClick={handleDelete} disabled={!selected} className={iconButtonClass} title={t('preset_delete')}>
+                    <Icon name="trash" className="w-4 h-4" />
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+                <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title={t('preset_import')}>
+                    <Icon name="arrow-up-circle" className="w-4 h-4" />
+                </button>
+                <button onClick={handleExport} disabled={visible.length === 0} className={iconButtonClass} title={t('preset_export')}>
+                    <Icon name="download" className="w-4 h-4" />
+                </button>
+            </div>
+            {selected && selected.author && <p className="text-[10px] text-[var(--text-tertiary)]">{selected.author} · {new Date(selected.updatedAt).toLocaleDateString()}</p>}
+            {isSaving && (
+                <div className="flex flex-wrap items-center gap-2">
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSave()} placeholder={t('preset_name_ph')} className={`${inputClass} flex-grow min-w-[8rem]`} autoFocus />
+                    <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSave()} placeholder={t('preset_tags_ph')} className={`${inputClass} flex-grow min-w-[8rem]`} />
+                    <button onClick={handleSave} disabled={!name.trim()} className="text-xs font-bold px-3 py-1.5 rounded-md bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-[var(--text-interactive)] disabled:opacity-40">
+                        {t('preset_save')}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
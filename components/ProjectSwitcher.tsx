@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { useToast } from './Toast';
+import { Project } from '../types';
+import {
+    useProjects,
+    setActiveProject,
+    createProject,
+    updateProject,
+    setProjectArchived,
+    duplicateProject,
+    deleteProject
+} from '../services/projectStore';
+
+type ProjectDetails = Pick<Project, 'name' | 'client' | 'jobNumber'>;
+
+const ProjectFormModal: React.FC<{
+    project: Project | null;    // null creates a new project
+    onClose: () => void;
+}> = ({ project, onClose }) => {
+    const { t } = useLanguage();
+    const [details, setDetails] = useState<ProjectDetails>({
+        name: project?.name || '',
+        client: project?.client || '',
+        jobNumber: project?.jobNumber || ''
+    });
+
+    const handleSave = () => {
+        const trimmed = { name: details.name.trim(), client: details.client.trim(), jobNumber: details.jobNumber.trim() };
+        if (!trimmed.name) return;
+        if (project) {
+            updateProject(project.id, trimmed);
+        } else {
+            setActiveProject(createProject(trimmed).id);
+        }
+        onClose();
+    };
+
+    const field = (key: keyof ProjectDetails, label: string) => (
+        <label className="block">
+            <span className="text-xs font-semibold text-[var(--text-secondary)]">{label}</span>
+            <input
+                type="text"
+                value={details[key]}
+                onChange={(e) => setDetails(prev => ({ ...prev, [key]: e.target.value }))}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                className="w-full mt-1 bg-[var(--bg-surface-3)] p-2.5 rounded-md text-sm border border-[var(--border-2)] focus:ring-2 focus:ring-[var(--ring-focus)] outline-none"
+            />
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[100] p-4" onClick={onClose}>
+            <div className="bg-[var(--bg-surface-4)]/95 border border-[var(--border-1)] rounded-xl shadow-2xl max-w-sm w-full p-6 relative" onClick={e => e.stopPropagation()}>
+                <button onClick={onClose} className="absolute top-4 right-4 text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors">
+                    <Icon name="x-mark" className="w-6 h-6" />
+                </button>
+                <h2 className="text-xl font-bold text-[var(--text-primary)] mb-4 flex items-center gap-2">
+                    <Icon name="home" className="w-5 h-5" />
+                    {project ? t('project_edit') : t('project_new')}
+                </h2>
+                <div className="space-y-3">
+                    {field('name', t('project_name'))}
+                    {field('client', t('project_client'))}
+                    {field('jobNumber', t('project_job_number'))}
+                </div>
+                <button
+                    onClick={handleSave}
+                    disabled={!details.name.trim()}
+                    className="w-full mt-6 bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-white font-bold py-2.5 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {t('project_save')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const ProjectCover: React.FC<{ project: Project; className: string }> = ({ project, className }) => (
+    project.coverImage
+        ? <img src={project.coverImage} alt={project.name} className={`${className} object-cover rounded`} />
+        : <div className={`${className} rounded bg-[var(--bg-surface-3)] flex items-center justify-center text-[var(--text-tertiary)]`}><Icon name="home" className="w-4 h-4" /></div>
+);
+
+export const ProjectSwitcher: React.FC = () => {
+    const { t } = useLanguage();
+    const { addErrorToast } = useToast();
+    const { projects, activeProject } = useProjects();
+    const [isOpen, setIsOpen] = useState(false);
+    const [showArchived, setShowArchived] = useState(false);
+    const [editing, setEditing] = useState<Project | null | undefined>(undefined); // undefined = form closed
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close the dropdown on outside click
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    const visibleProjects = projects.filter(p => showArchived || !p.archived);
+
+    const handleDuplicate = async (project: Project) => {
+        try {
+            await duplicateProject(project.id, t('project_copy_suffix'));
+        } catch (error) {
+            console.error("Duplicate project failed:", error);
+            addErrorToast(error);
+        }
+    };
+
+    const handleDelete = async (project: Project) => {
+        if (!window.confirm(`${t('project_delete_confirm')} "${project.name}"?`)) return;
+        try {
+            await deleteProject(project.id);
+        } catch (error) {
+            console.error("Delete project failed:", error);
+            addErrorToast(error);
+        }
+    };
+
+    const actionClass = "p-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors";
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(o => !o)}
+                className="flex items-center gap-2 bg-[var(--bg-surface-1)] border border-[var(--border-1)] rounded-full pl-1.5 pr-3 py-1.5 shadow-lg hover:bg-[var(--bg-surface-2)] transition-colors max-w-[16rem]"
+                title={t('project_switch')}
+            >
+                <ProjectCover project={activeProject} className="w-7 h-7 flex-shrink-0 !rounded-full" />
+                <span className="text-left min-w-0">
+                    <span className="block text-xs font-bold text-[var(--text-primary)] truncate">{activeProject.name}</span>
+                    {(activeProject.client || activeProject.jobNumber) && (
+                        <span className="block text-[10px] text-[var(--text-tertiary)] truncate">{[activeProject.jobNumber, activeProject.client].filter(Boolean).join(' · ')}</span>
+                    )}
+                </span>
+                <Icon name="chevron-right" className={`w-4 h-4 flex-shrink-0 text-[var(--text-secondary)] transition-transform ${isOpen ? '-rotate-90' : 'rotate-90'}`} />
+            </button>
+
+            {isOpen && (
+                <div className="absolute left-0 top-full mt-2 w-80 bg-[var(--bg-surface-4)]/95 backdrop-blur-xl border border-[var(--border-1)] rounded-xl shadow-2xl z-[80] p-3">
+                    <div className="flex items-center justify-between mb-2">
+                        <h3 className="text-sm font-bold text-[var(--text-primary)]">{t('project_title')}</h3>
+                        <label className="flex items-center gap-1.5 text-[10px] text-[var(--text-tertiary)] cursor-pointer">
+                            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="accent-[var(--bg-interactive)]" />
+                            {t('project_show_archived')}
+                        </label>
+                    </div>
+                    <ul className="space-y-1 max-h-80 overflow-y-auto pr-1">
+                        {visibleProjects.map(project => (
+                            <li
+                                key={project.id}
+                                className={`flex items-center gap-2 p-1.5 rounded-lg cursor-pointer transition-colors ${project.id === activeProject.id ? 'bg-[var(--bg-surface-3)]' : 'hover:bg-[var(--bg-surface-2)]'} ${project.archived ? 'opacity-60' : ''}`}
+                                onClick={() => { setActiveProject(project.id); setIsOpen(false); }}
+                            >
+                                <ProjectCover project={project} className="w-9 h-9 flex-shrink-0" />
+                                <div className="flex-grow min-w-0">
+                                    <p className="text-xs font-semibold text-[var(--text-primary)] truncate">{project.name}</p>
+                                    <p className="text-[10px] text-[var(--text-tertiary)] truncate">{[project.jobNumber, project.client].filter(Boolean).join(' · ') || '—'}</p>
+                                </div>
+                                <div className="flex items-center flex-shrink-0" onClick={e => e.stopPropagation()}>
+                                    <button onClick={() => setEditing(project)} className={actionClass} title={t('project_edit')}>
+                                        <Icon name="pencil" className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => handleDuplicate(project)} className={actionClass} title={t('project_duplicate')}>
+                                        <Icon name="rectangle-group" className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => setProjectArchived(project.id, !project.archived)} className={actionClass} title={t(project.archived ? 'project_unarchive' : 'project_archive')}>
+                                        <Icon name="bookmark" className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button onClick={() => handleDelete(project)} className={`${actionClass} hover:!text-[var(--text-danger)]`} title={t('project_delete')}>
+                                        <Icon name="trash" className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                    <button
+                        onClick={() => setEditing(null)}
+                        className="w-full mt-2 flex items-center justify-center gap-2 text-xs font-bold text-[var(--text-accent)] hover:text-[var(--text-primary)] border border-dashed border-[var(--border-2)] rounded-lg py-2 transition-colors"
+                    >
+                        + {t('project_new')}
+                    </button>
+                </div>
+            )}
+
+            {editing !== undefined && <ProjectFormModal project={editing} onClose={() => setEditing(undefined)} />}
+        </div>
+    );
+};
+
+export default ProjectSwitcher;
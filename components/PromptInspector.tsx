@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { PromptSpec } from '../types';
+import { PROMPT_SPEC_FIELDS, assemblePrompt, parseNegatives } from '../services/promptBuilder';
+
+// Common things clients ask to keep out of a render; clicking one appends it to the field
+const COMMON_NEGATIVES = ['people', 'cars', 'text', 'watermark', 'distorted geometry', 'blurry', 'extra floors'];
+
+export const NegativePromptField: React.FC<{
+    value: string;
+    onChange: (value: string) => void;
+}> = ({ value, onChange }) => {
+    const { t } = useLanguage();
+    const current = parseNegatives(value);
+
+    const handleAdd = (item: string) => onChange([...current, item].join(', '));
+
+    return (
+        <div>
+            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-2">{t('prompt_negatives')}</label>
+            <input type="text" value={value} onChange={(e) => onChange(e.target.value)} placeholder={t('prompt_negatives_ph')} className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md text-sm focus:ring-2 focus:ring-[var(--ring-focus)] focus:outline-none" />
+            <div className="flex flex-wrap gap-1.5 mt-2">
+                {COMMON_NEGATIVES.filter(item => !current.includes(item)).map(item => (
+                    <button key={item} onClick={() => handleAdd(item)} className="text-[11px] px-2 py-0.5 rounded-full border border-[var(--border-2)] bg-[var(--bg-surface-2)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors">
+                        + {item}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Read-only view of a structured prompt. With finalPrompt (from a manifest) it shows exactly what was
+ * sent; without, it previews the assembly before the source analysis is added at generation time.
+ */
+export const PromptInspector: React.FC<{
+    spec: PromptSpec;
+    finalPrompt?: string;
+    negativePrompt?: string;   // '' when the provider took the negatives folded into finalPrompt
+}> = ({ spec, finalPrompt, negativePrompt }) => {
+    const { t } = useLanguage();
+    const [isOpen, setIsOpen] = useState(false);
+    const isSent = finalPrompt !== undefined;
+    const negatives = spec.negatives || [];
+
+    return (
+        <div className="border border-[var(--border-2)] rounded-lg">
+            <button onClick={() => setIsOpen(v => !v)} className="w-full flex items-center gap-2 px-3 py-2 text-xs font-bold text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+                <Icon name={isOpen ? 'magnifying-glass-minus' : 'magnifying-glass-plus'} className="w-4 h-4" />
+                <span className="flex-grow text-left">{t(isSent ? 'prompt_inspector_sent' : 'prompt_inspector')}</span>
+                {negatives.length > 0 && <span className="text-[10px] font-normal text-[var(--text-tertiary)]">−{negatives.length}</span>}
+            </button>
+            {isOpen && (
+                <div className="px-3 pb-3 space-y-3">
+                    <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+                        {PROMPT_SPEC_FIELDS.map(field => (
+                            <React.Fragment key={field}>
+                                <dt className="font-semibold text-[var(--text-tertiary)]">{t(`prompt_field_${field}`)}</dt>
+                                <dd className="text-[var(--text-primary)] break-words">{spec[field] || '—'}</dd>
+                            </React.Fragment>
+                        ))}
+                        <dt className="font-semibold text-[var(--text-tertiary)]">{t('prompt_negatives')}</dt>
+                        <dd className="text-[var(--text-danger)] break-words">{negatives.join(', ') || '—'}</dd>
+                    </dl>
+                    <div>
+                        <p className="text-[10px] uppercase tracking-widest font-bold text-[var(--text-tertiary)] mb-1">{t('prompt_final')}</p>
+                        <textarea readOnly value={isSent ? finalPrompt : assemblePrompt(spec)} className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md h-28 resize-none text-xs text-[var(--text-secondary)] focus:outline-none" />
+                        {isSent && negativePrompt && (
+                            <>
+                                <p className="text-[10px] uppercase tracking-widest font-bold text-[var(--text-tertiary)] mt-2 mb-1">{t('prompt_negative_sent')}</p>
+                                <textarea readOnly value={negativePrompt} className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md h-12 resize-none text-xs text-[var(--text-secondary)] focus:outline-none" />
+                            </>
+                        )}
+                        <p className="text-[10px] text-[var(--text-tertiary)] mt-1">
+                            {isSent
+                                ? (negatives.length > 0 && !negativePrompt ? t('prompt_negatives_folded') : '')
+                                : t('prompt_preview_note')}
+                        </p>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
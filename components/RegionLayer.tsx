@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { AnnotationBox } from '../types';
+
+// --- Region Layer ---
+// Numbered edit regions over the editor canvas, each labelled with its instruction. In region mode a
+// drag on empty canvas draws a new box and a drag on a box moves it; otherwise they are only shown.
+
+const MIN_REGION_SIZE = 8;
+const REGION_COLOR = '#f59e0b';
+
+interface RegionLayerProps {
+    regions: AnnotationBox[];
+    width: number;            // canvas size in pixels
+    height: number;
+    interactive: boolean;     // only in region mode
+    selectedId: number | null;
+    onSelect: (id: number | null) => void;
+    onAdd: (box: { x: number; y: number; width: number; height: number }) => void;
+    onChange: (id: number, patch: Partial<AnnotationBox>) => void;
+}
+
+type Point = { x: number; y: number };
+
+const RegionLayer: React.FC<RegionLayerProps> = ({ regions, width, height, interactive, selectedId, onSelect, onAdd, onChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragRef = useRef<{ start: Point; origin: AnnotationBox } | null>(null);
+    const [draft, setDraft] = useState<{ start: Point; end: Point } | null>(null);
+    const badge = Math.max(width, height) * 0.018; // badge radius, in image pixels like everything else
+
+    const toCanvas = (clientX: number, clientY: number): Point => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            x: Math.min(width, Math.max(0, (clientX - rect.left) * (width / rect.width))),
+            y: Math.min(height, Math.max(0, (clientY - rect.top) * (height / rect.height)))
+        };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const point = toCanvas(e.clientX, e.clientY);
+        const drag = dragRef.current;
+        if (drag) {
+            onChange(drag.origin.id, { x: drag.origin.x + point.x - drag.start.x, y: drag.origin.y + point.y - drag.start.y });
+        } else if (draft) {
+            setDraft({ ...draft, end: point });
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+        if (!draft) return;
+        const box = {
+            x: Math.min(draft.start.x, draft.end.x),
+            y: Math.min(draft.start.y, draft.end.y),
+            width: Math.abs(draft.end.x - draft.start.x),
+            height: Math.abs(draft.end.y - draft.start.y)
+        };
+        setDraft(null);
+        if (box.width >= MIN_REGION_SIZE && box.height >= MIN_REGION_SIZE) onAdd(box);
+    };
+
+    const startMove = (e: React.PointerEvent, region: AnnotationBox) => {
+        e.stopPropagation();
+        onSelect(region.id);
+        // Mask regions are defined by their pixels, so only plain boxes can be moved
+        if (region.mask) return;
+        (e.target as Element).closest('svg')?.setPointerCapture(e.pointerId);
+        dragRef.current = { start: toCanvas(e.clientX, e.clientY), origin: region };
+    };
+
+    const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+        onSelect(null);
+        svgRef.current?.setPointerCapture(e.pointerId);
+        const point = toCanvas(e.clientX, e.clientY);
+        setDraft({ start: point, end: point });
+    };
+
+    return (
+        <svg
+            ref={svgRef}
+            viewBox={`0 0 ${width} ${height}`}
+            preserveAspectRatio="none"
+            className={`absolute inset-0 w-full h-full touch-none ${interactive ? 'pointer-events-auto cursor-crosshair' : 'pointer-events-none opacity-60'}`}
+            onPointerDown={handleBackgroundPointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+        >
+            {regions.map(region => {
+                const isSelected = interactive && region.id === selectedId;
+                return (
+                    <g key={region.id} onPointerDown={(e) => startMove(e, region)} className={interactive ? (region.mask ? 'cursor-pointer' : 'cursor-move') : ''}>
+                        <rect
+                            x={region.x} y={region.y} width={region.width} height={region.height}
+                            fill={isSelected ? 'rgba(245,158,11,0.15)' : 'rgba(245,158,11,0.05)'}
+                            stroke={REGION_COLOR}
+                            strokeWidth={isSelected ? 3 : 2}
+                            strokeDasharray={region.mask ? '2 4' : '8 4'}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                        <circle cx={region.x} cy={region.y} r={badge} fill={REGION_COLOR} stroke="white" strokeWidth={badge * 0.12} />
+                        <text x={region.x} y={region.y} fontSize={badge * 1.2} fontWeight="bold" fontFamily="sans-serif" fill="white" textAnchor="middle" dominantBaseline="central" className="select-none">
+                            {region.id}
+                        </text>
+                        {region.prompt && (
+                            <text
+                                x={region.x + badge * 1.4} y={region.y}
+                                fontSize={badge * 1.1} fontFamily="sans-serif" fill="white" dominantBaseline="central"
+                                stroke="rgba(0,0,0,0.7)" strokeWidth={badge * 0.25} strokeLinejoin="round" paintOrder="stroke"
+                                className="select-none"
+                            >
+                                {region.prompt.length > 40 ? `${region.prompt.slice(0, 40)}…` : region.prompt}
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+            {draft && (
+                <rect
+                    x={Math.min(draft.start.x, draft.end.x)} y={Math.min(draft.start.y, draft.end.y)}
+                    width={Math.abs(draft.end.x - draft.start.x)} height={Math.abs(draft.end.y - draft.start.y)}
+                    fill="none" stroke={REGION_COLOR} strokeWidth={2} strokeDasharray="8 4" vectorEffect="non-scaling-stroke"
+                />
+            )}
+        </svg>
+    );
+};
+
+export default RegionLayer;
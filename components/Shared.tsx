@@ -1,7 +1,15 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Icon } from './icons';
-import type { SourceImage } from '../types';
+import type { SourceImage, GenerationManifest } from '../types';
 import { useLanguage } from './LanguageContext';
+import { getImageProviders, getProviderSettings, saveProviderSettings, getSelfHostedUrl, updateSelfHostedUrl, ImageProviderSettings } from '../services/imageProviders';
+import { isLocalStandInEnabled, setLocalStandInEnabled } from '../services/localStandIn';
+import { getProxyUrl, updateProxyUrl } from '../services/apiProxy';
+import { DEFAULT_LANE_CONCURRENCY } from '../services/jobQueue';
+import { createImageMetadata, downloadImage } from '../services/imageMetadata';
+import { VariationStrength, promptSpecFromText } from '../services/promptBuilder';
+import { imageSeedAt } from '../services/geminiService';
+import { PromptInspector } from './PromptInspector';
 
 export const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
   <div className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] shadow-2xl shadow-[var(--shadow-color)] p-6 rounded-xl">
@@ -110,6 +118,38 @@ export const ImageUpload: React.FC<{
   );
 };
 
+// Accepts a file exported by the app (or any PNG/JPEG with a prompt) and hands it over to restore settings
+export const SettingsDropZone: React.FC<{ onFile: (file: File) => void; }> = ({ onFile }) => {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const { t } = useLanguage();
+
+  const handleFile = (file: File | undefined) => {
+    if (file && file.type.startsWith('image/')) onFile(file);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setIsDraggingOver(true); }}
+      onDragLeave={(e) => { e.preventDefault(); e.stopPropagation(); setIsDraggingOver(false); }}
+      onDrop={(e) => { e.preventDefault(); e.stopPropagation(); setIsDraggingOver(false); handleFile(e.dataTransfer.files?.[0]); }}
+      onClick={() => fileInputRef.current?.click()}
+      className={`border border-dashed rounded-md px-3 py-2 mb-4 flex items-center gap-2 text-xs cursor-pointer transition-colors hover:border-[var(--border-interactive)] ${isDraggingOver ? 'border-[var(--border-interactive)] bg-[var(--bg-surface-2)]' : 'border-[var(--border-2)] text-[var(--text-tertiary)]'}`}
+      title={t('meta_load_hint')}
+    >
+      <Icon name="arrow-up-circle" className="w-4 h-4 flex-shrink-0" />
+      <span>{t('meta_load_settings')}</span>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+        accept="image/png, image/jpeg"
+        className="hidden"
+      />
+    </div>
+  );
+};
+
 export const ReferenceImageUpload: React.FC<{
   image: SourceImage | null;
   onUpload: (image: SourceImage) => void;
@@ -478,12 +518,48 @@ export const ApiKeyModal: React.FC<{
 }> = ({ isOpen, onClose, onSave, initialKey = '' }) => {
   const { t } = useLanguage();
   const [key, setKey] = useState(initialKey);
+  const [providerSettings, setProviderSettings] = useState<ImageProviderSettings>(getProviderSettings);
+  const [selfHostedUrl, setSelfHostedUrl] = useState(getSelfHostedUrl);
+  const [proxyUrl, setProxyUrl] = useState(getProxyUrl);
+  const [useLocalStandIn, setUseLocalStandIn] = useState(isLocalStandInEnabled);
 
   if (!isOpen) return null;
 
+  // Providers are listed in their current priority order; the saved order always covers every provider.
+  const providers = getImageProviders();
+  const providerIds = providerSettings.order.length ? providerSettings.order.filter(id => providers.some(p => p.id === id)).concat(providers.filter(p => !providerSettings.order.includes(p.id)).map(p => p.id)) : providers.map(p => p.id);
+
+  const moveProvider = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= providerIds.length) return;
+    const order = [...providerIds];
+    [order[index], order[target]] = [order[target], order[index]];
+    setProviderSettings({ ...providerSettings, order });
+  };
+
+  const toggleProvider = (id: string) => {
+    const disabled = providerSettings.disabled.includes(id)
+      ? providerSettings.disabled.filter(d => d !== id)
+      : [...providerSettings.disabled, id];
+    setProviderSettings({ ...providerSettings, disabled });
+  };
+
+  const setConcurrency = (id: string, value: number) => {
+    const concurrency = { ...providerSettings.concurrency, [id]: Math.max(1, Math.min(8, value || 1)) };
+    setProviderSettings({ ...providerSettings, concurrency });
+  };
+
+  const handleSave = () => {
+    saveProviderSettings({ ...providerSettings, order: providerIds });
+    updateSelfHostedUrl(selfHostedUrl);
+    updateProxyUrl(proxyUrl);
+    setLocalStandInEnabled(useLocalStandIn);
+    onSave(key);
+  };
+
   return (
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-[100] p-4" onClick={onClose}>
-      <div className="bg-[var(--bg-surface-4)]/95 border border-[var(--border-1)] rounded-xl shadow-2xl max-w-md w-full p-6 relative" onClick={e => e.stopPropagation()}>
+      <div className="bg-[var(--bg-surface-4)]/95 border border-[var(--border-1)] rounded-xl shadow-2xl max-w-md w-full p-6 relative max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
         <button onClick={onClose} className="absolute top-4 right-4 text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors">
           <Icon name="x-mark" className="w-6 h-6" />
         </button>
@@ -516,8 +592,65 @@ export const ApiKeyModal: React.FC<{
             placeholder="Dán API Key của bạn vào đây (AIza...)"
             className="w-full bg-[var(--bg-surface-3)] p-3 rounded-md text-sm border border-[var(--border-2)] focus:ring-2 focus:ring-[var(--ring-focus)] outline-none font-mono"
           />
+          <div className="bg-[var(--bg-surface-2)] p-4 rounded-lg border border-[var(--border-2)]">
+            <h3 className="text-sm font-bold text-[var(--text-primary)] mb-1">{t('proxy_title')}</h3>
+            <p className="text-[10px] text-[var(--text-tertiary)] mb-3">{t('proxy_desc')}</p>
+            <input
+              type="url"
+              value={proxyUrl}
+              onChange={(e) => setProxyUrl(e.target.value)}
+              placeholder={t('proxy_url_ph')}
+              className="w-full bg-[var(--bg-surface-3)] p-2 rounded-md text-xs border border-[var(--border-2)] focus:ring-2 focus:ring-[var(--ring-focus)] outline-none font-mono"
+            />
+          </div>
+          <div>
+            <ToggleSwitch label={t('provider_local_stand_in')} enabled={useLocalStandIn} onChange={setUseLocalStandIn} />
+            {useLocalStandIn && <p className="text-[10px] text-[var(--text-accent)] mt-1.5 px-1">{t('provider_local_stand_in_desc')}</p>}
+          </div>
+          <div className={`bg-[var(--bg-surface-2)] p-4 rounded-lg border border-[var(--border-2)] ${useLocalStandIn ? 'opacity-50 pointer-events-none' : ''}`}>
+            <h3 className="text-sm font-bold text-[var(--text-primary)] mb-1">{t('provider_title')}</h3>
+            <p className="text-[10px] text-[var(--text-tertiary)] mb-3">{t('provider_desc')}</p>
+            <ul className="space-y-1.5">
+              {providerIds.map((id, index) => {
+                const provider = providers.find(p => p.id === id)!;
+                const enabled = !providerSettings.disabled.includes(id);
+                const caps = (['t2i', 'i2i', 'inpaint', 'outpaint', 'upscale'] as const).filter(c => provider.capabilities[c]);
+                return (
+                  <li key={id} className={`flex items-center gap-2 bg-[var(--bg-surface-3)] px-2 py-1.5 rounded-md ${enabled ? '' : 'opacity-50'}`}>
+                    <input type="checkbox" checked={enabled} onChange={() => toggleProvider(id)} className="accent-[var(--bg-interactive)]" />
+                    <div className="flex-grow min-w-0">
+                      <div className="text-xs font-semibold text-[var(--text-primary)] truncate">{provider.label}</div>
+                      <div className="text-[10px] text-[var(--text-tertiary)] truncate">{caps.join(' · ')}</div>
+                    </div>
+                    <input
+                      type="number"
+                      min={1}
+                      max={8}
+                      value={providerSettings.concurrency?.[id] ?? DEFAULT_LANE_CONCURRENCY}
+                      onChange={(e) => setConcurrency(id, parseInt(e.target.value, 10))}
+                      title={t('provider_concurrency')}
+                      className="w-10 bg-[var(--bg-surface-2)] text-xs text-center rounded border border-[var(--border-2)] outline-none"
+                    />
+                    <button onClick={() => moveProvider(index, -1)} disabled={index === 0} className="text-[var(--text-secondary)] hover:text-[var(--text-primary)] disabled:opacity-30" title={t('provider_move_up')}>
+                      <Icon name="arrow-up-circle" className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveProvider(index, 1)} disabled={index === providerIds.length - 1} className="text-[var(--text-secondary)] hover:text-[var(--text-primary)] disabled:opacity-30" title={t('provider_move_down')}>
+                      <Icon name="arrow-down-circle" className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <input
+              type="url"
+              value={selfHostedUrl}
+              onChange={(e) => setSelfHostedUrl(e.target.value)}
+              placeholder={t('provider_selfhosted_ph')}
+              className="w-full mt-3 bg-[var(--bg-surface-3)] p-2 rounded-md text-xs border border-[var(--border-2)] focus:ring-2 focus:ring-[var(--ring-focus)] outline-none font-mono"
+            />
+          </div>
           <button
-            onClick={() => onSave(key)}
+            onClick={handleSave}
             className="w-full bg-[var(--bg-interactive)] hover:bg-[var(--bg-interactive-hover)] text-white font-bold py-3 px-4 rounded-lg transition-colors shadow-lg hover:shadow-xl hover:scale-[1.02] transform duration-200"
           >
             {t('api_key_save')}
@@ -816,6 +949,20 @@ export const ToggleSwitch: React.FC<{
   </div>
 );
 
+// --- Cancel Button (shown next to loading spinners) ---
+export const CancelButton: React.FC<{ onClick: () => void; className?: string }> = ({ onClick, className = '' }) => {
+  const { t } = useLanguage();
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-center gap-2 bg-[var(--bg-surface-3)] hover:bg-red-600 text-[var(--text-primary)] hover:text-white text-sm font-semibold px-4 py-2 rounded-lg border border-[var(--border-2)] transition-colors ${className}`}
+    >
+      <Icon name="x-circle" className="w-4 h-4" />
+      {t('btn_cancel')}
+    </button>
+  );
+};
+
 export const ResultDisplay: React.FC<{
   sourceImage: SourceImage | null;
   images: string[];
@@ -829,7 +976,12 @@ export const ResultDisplay: React.FC<{
   onFullscreen?: (index: number) => void;
   onCreateVideoRequest?: (image: string) => void;
   showChangeAngleButton: boolean;
-}> = React.memo(({ sourceImage, images, isLoading, onUpscale, upscalingIndex, onEditRequest, selectedImageIndex, onSelectImageIndex, onChangeAngle, onFullscreen, onCreateVideoRequest, showChangeAngleButton }) => {
+  onCancel?: () => void;
+  manifest?: GenerationManifest | null;  // embedded into downloaded files
+  prompt?: string;                       // written into downloads that have no manifest
+  onVary?: (index: number, strength: VariationStrength) => void;  // re-run one image's seed with a varied prompt
+  onUseSeed?: (seed: number) => void;
+}> = React.memo(({ sourceImage, images, isLoading, onUpscale, upscalingIndex, onEditRequest, selectedImageIndex, onSelectImageIndex, onChangeAngle, onFullscreen, onCreateVideoRequest, showChangeAngleButton, onCancel, manifest, prompt = '', onVary, onUseSeed }) => {
   const selectedImage = images[selectedImageIndex];
   const sourceImageUrl = sourceImage ? `data:${sourceImage.mimeType};base64,${sourceImage.base64}` : null;
   const { t } = useLanguage();
@@ -848,7 +1000,15 @@ export const ResultDisplay: React.FC<{
       {/* Main Preview */}
       <div className="relative z-10 flex-grow flex items-center justify-center bg-black/20 rounded-lg mb-4 min-h-[300px] md:min-h-[400px]">
         {isLoading ? (
-          <div className="w-full h-full bg-[var(--bg-surface-2)] rounded-lg animate-pulse"></div>
+          <div className="relative w-full h-full min-h-[300px] md:min-h-[400px]">
+            <div className="absolute inset-0 bg-[var(--bg-surface-2)] rounded-lg animate-pulse"></div>
+            {onCancel && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-4">
+                <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-[var(--text-primary)]"></div>
+                <CancelButton onClick={onCancel} />
+              </div>
+            )}
+          </div>
         ) : selectedImage ? (
           <div className="relative group w-full h-full flex items-center justify-center">
             <ImageCompareSlider beforeImage={sourceImageUrl} afterImage={selectedImage} />
@@ -922,16 +1082,26 @@ export const ResultDisplay: React.FC<{
                     <span>{t('res_angle')}</span>
                   </button>
                 )}
-                <a
-                  href={selectedImage}
-                  download={`CPGVN_${Date.now()}.png`}
+                <button
+                  onClick={() => downloadImage(selectedImage, `CPGVN_${Date.now()}`, { ...createImageMetadata(prompt, manifest), seed: manifest ? imageSeedAt(manifest, selectedImageIndex) ?? undefined : undefined })}
                   className="bg-[var(--bg-surface-3)]/80 backdrop-blur-sm border border-[var(--border-2)] hover:bg-[var(--bg-interactive)] text-[var(--text-primary)] hover:text-[var(--text-interactive)] font-bold text-xs px-3 py-2 rounded-md transition-colors flex items-center gap-1.5"
                   aria-label="Download"
                   title={t('btn_download')}
                 >
                   <Icon name="download" className="w-4 h-4" />
                   <span>{t('btn_download')}</span>
-                </a>
+                </button>
+                {onVary && manifest && (['subtle', 'strong'] as VariationStrength[]).map(strength => (
+                  <button
+                    key={strength}
+                    onClick={() => onVary(selectedImageIndex, strength)}
+                    className="bg-[var(--bg-surface-3)]/80 backdrop-blur-sm border border-[var(--border-2)] hover:bg-[var(--bg-interactive)] text-[var(--text-primary)] hover:text-[var(--text-interactive)] font-bold text-xs px-3 py-2 rounded-md transition-colors flex items-center gap-1.5"
+                    title={t(`res_vary_${strength}_hint`)}
+                  >
+                    <Icon name={strength === 'subtle' ? 'sparkles' : 'arrow-path'} className="w-4 h-4" />
+                    <span>{t(`res_vary_${strength}`)}</span>
+                  </button>
+                ))}
               </div>
             )}
 
@@ -968,17 +1138,41 @@ export const ResultDisplay: React.FC<{
             <div key={index} className="aspect-square bg-[var(--bg-surface-2)] rounded-lg animate-pulse"></div>
           ))
         ) : (
-          images.map((image, index) => (
-            <div
-              key={index}
-              className={`relative group aspect-square bg-[var(--bg-surface-2)] rounded-lg overflow-hidden cursor-pointer transition-all duration-200 ${selectedImageIndex === index ? 'ring-2 ring-offset-2 ring-offset-[var(--bg-surface-1)] ring-[var(--ring-active)]' : 'opacity-70 hover:opacity-100'}`}
-              onClick={() => handleSelectIndex(index)}
-            >
-              <img src={image} alt={`Thumbnail ${index + 1}`} className="w-full h-full object-cover" />
-            </div>
-          ))
+          images.map((image, index) => {
+            const seed = manifest ? imageSeedAt(manifest, index) : null;
+            return (
+              <div key={index}>
+                <div
+                  className={`relative group aspect-square bg-[var(--bg-surface-2)] rounded-lg overflow-hidden cursor-pointer transition-all duration-200 ${selectedImageIndex === index ? 'ring-2 ring-offset-2 ring-offset-[var(--bg-surface-1)] ring-[var(--ring-active)]' : 'opacity-70 hover:opacity-100'}`}
+                  onClick={() => handleSelectIndex(index)}
+                >
+                  <img src={image} alt={`Thumbnail ${index + 1}`} className="w-full h-full object-cover" />
+                </div>
+                {manifest && (
+                  seed !== null ? (
+                    <button
+                      onClick={() => onUseSeed?.(seed)}
+                      disabled={!onUseSeed}
+                      className={`block w-full mt-1 text-[10px] font-mono text-center text-[var(--text-tertiary)] truncate ${onUseSeed ? 'hover:text-[var(--text-primary)]' : 'cursor-default'}`}
+                      title={onUseSeed ? t('res_seed_use') : undefined}
+                    >
+                      seed {seed}
+                    </button>
+                  ) : (
+                    <p className="mt-1 text-[10px] text-center text-[var(--text-tertiary)] truncate" title={t('res_seed_unsupported')}>seed —</p>
+                  )
+                )}
+              </div>
+            );
+          })
         )}
       </div>
+
+      {manifest && !isLoading && (
+        <div className="relative z-10 mt-4">
+          <PromptInspector spec={manifest.promptSpec || promptSpecFromText(manifest.prompt)} finalPrompt={manifest.finalPrompt} negativePrompt={manifest.negativePrompt || ''} />
+        </div>
+      )}
     </div>
   );
 });
\ No newline at end of file
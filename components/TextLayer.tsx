@@ -0,0 +1,97 @@
+import React, { useRef } from 'react';
+import { EditorText } from '../types';
+
+// --- Text Layer ---
+// Text notes on the edit canvas. An SVG in canvas coordinates keeps font sizes in image pixels at any
+// zoom; flattenDocument draws them the same way (drawText) on export.
+
+interface TextLayerProps {
+    texts: EditorText[];
+    width: number;            // canvas size in pixels
+    height: number;
+    interactive: boolean;     // only in text mode on the active layer
+    selectedId: string | null;
+    onSelect: (id: string | null) => void;
+    onAdd: (x: number, y: number) => void;   // click on empty canvas
+    onEdit: (id: string) => void;            // double click on a note
+    onChange: (id: string, patch: Partial<EditorText>) => void;
+}
+
+const TextLayer: React.FC<TextLayerProps> = ({ texts, width, height, interactive, selectedId, onSelect, onAdd, onEdit, onChange }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const dragRef = useRef<{ start: { x: number; y: number }; origin: EditorText } | null>(null);
+
+    const toCanvas = (clientX: number, clientY: number) => {
+        const rect = svgRef.current!.getBoundingClientRect();
+        return {
+            x: (clientX - rect.left) * (width / rect.width),
+            y: (clientY - rect.top) * (height / rect.height)
+        };
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const point = toCanvas(e.clientX, e.clientY);
+        onChange(drag.origin.id, { x: drag.origin.x + point.x - drag.start.x, y: drag.origin.y + point.y - drag.start.y });
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+        window.removeEventListener('pointermove', handlePointerMove);
+        window.removeEventListener('pointerup', handlePointerUp);
+    };
+
+    const startDrag = (e: React.PointerEvent, item: EditorText) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onSelect(item.id);
+        dragRef.current = { start: toCanvas(e.clientX, e.clientY), origin: item };
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+    };
+
+    const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+        if (selectedId) {
+            onSelect(null);
+            return;
+        }
+        const point = toCanvas(e.clientX, e.clientY);
+        onAdd(point.x, point.y);
+    };
+
+    return (
+        <svg
+            ref={svgRef}
+            viewBox={`0 0 ${width} ${height}`}
+            preserveAspectRatio="none"
+            className={`absolute inset-0 w-full h-full touch-none ${interactive ? 'pointer-events-auto cursor-text' : 'pointer-events-none'}`}
+            onPointerDown={handleBackgroundPointerDown}
+        >
+            {texts.map(item => (
+                <text
+                    key={item.id}
+                    x={item.x}
+                    y={item.y}
+                    fontSize={item.fontSize}
+                    fontWeight="bold"
+                    fontFamily="sans-serif"
+                    dominantBaseline="hanging"
+                    fill={item.color}
+                    stroke="rgba(0,0,0,0.6)"
+                    strokeWidth={item.fontSize * 0.12}
+                    strokeLinejoin="round"
+                    paintOrder="stroke"
+                    className={interactive ? 'cursor-move select-none' : 'select-none'}
+                    textDecoration={interactive && item.id === selectedId ? 'underline' : undefined}
+                    onPointerDown={(e) => startDrag(e, item)}
+                    onDoubleClick={() => onEdit(item.id)}
+                >
+                    {item.text}
+                </text>
+            ))}
+        </svg>
+    );
+};
+
+export default TextLayer;
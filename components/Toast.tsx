@@ -1,5 +1,7 @@
 import React, { useState, useCallback, useContext, createContext, ReactNode, useEffect } from 'react';
 import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { isProviderError, ProviderErrorKind } from '../services/errors';
 
 interface ToastMessage {
   id: number;
@@ -10,8 +12,19 @@ interface ToastMessage {
 
 interface ToastContextType {
   addToast: (toast: Omit<ToastMessage, 'id'>) => void;
+  // Shows a localized "what happened / what to do" toast for typed provider errors, else `fallbackMessage`
+  addErrorToast: (error: unknown, fallbackMessage?: string) => void;
 }
 
+const ERROR_KEYS: Record<ProviderErrorKind, string> = {
+  QuotaExceeded: 'error_quota',
+  InvalidKey: 'error_invalid_key',
+  SafetyBlocked: 'error_safety',
+  ProviderUnavailable: 'error_unavailable',
+  BadInput: 'error_bad_input',
+  PermissionDenied: 'error_permission',
+};
+
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
 
 export const useToast = () => {
@@ -78,6 +91,7 @@ const ToastContainer: React.FC<{ toasts: ToastMessage[]; onDismiss: (id: number)
 
 
 export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { t } = useLanguage();
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
 
   const addToast = useCallback((toast: Omit<ToastMessage, 'id'>) => {
@@ -87,12 +101,23 @@ export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     ]);
   }, []);
 
+  const addErrorToast = useCallback((error: unknown, fallbackMessage?: string) => {
+    if (isProviderError(error)) {
+      const key = ERROR_KEYS[error.kind];
+      // Quota is usually transient, so it gets a warning rather than an error
+      addToast({ type: error.kind === 'QuotaExceeded' ? 'warning' : 'error', title: t(`${key}_title`), message: t(`${key}_hint`) });
+      return;
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    addToast({ type: 'error', title: t('error_generic_title'), message: fallbackMessage || detail });
+  }, [addToast, t]);
+
   const dismissToast = useCallback((id: number) => {
     setToasts((currentToasts) => currentToasts.filter((toast) => toast.id !== id));
   }, []);
 
   return (
-    <ToastContext.Provider value={{ addToast }}>
+    <ToastContext.Provider value={{ addToast, addErrorToast }}>
       {children}
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
     </ToastContext.Provider>
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { Icon } from './icons';
+import { useLanguage } from './LanguageContext';
+import { UsageEntry } from '../types';
+import { downloadUsageCsv, useUsageLedger } from '../services/usageLedger';
+
+type Period = '30' | '90' | '365' | 'all';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKS_SHOWN = 12;
+
+interface Totals {
+    calls: number;
+    images: number;
+    tokens: number;
+    cost: number;
+    failures: number;
+    latencyMs: number;
+}
+
+const summarize = (list: UsageEntry[]): Totals => list.reduce((acc, e) => ({
+    calls: acc.calls + 1,
+    images: acc.images + (e.success ? e.images : 0),
+    tokens: acc.tokens + e.inputTokens + e.outputTokens,
+    cost: acc.cost + e.cost,
+    failures: acc.failures + (e.success ? 0 : 1),
+    latencyMs: acc.latencyMs + e.latencyMs
+}), { calls: 0, images: 0, tokens: 0, cost: 0, failures: 0, latencyMs: 0 });
+
+const groupBy = (list: UsageEntry[], key: (e: UsageEntry) => string): [string, Totals][] => {
+    const groups = new Map<string, UsageEntry[]>();
+    list.forEach(e => groups.set(key(e), [...(groups.get(key(e)) || []), e]));
+    return [...groups.entries()].map(([name, entries]) => [name, summarize(entries)] as [string, Totals]).sort((a, b) => b[1].cost - a[1].cost || b[1].images - a[1].images);
+};
+
+// Weeks start on Monday
+const weekStart = (timestamp: number): number => {
+    const date = new Date(timestamp);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+    return date.getTime();
+};
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 10 ? 3 : 2)}`;
+
+const StatCard: React.FC<{ label: string; value: string; note?: string }> = ({ label, value, note }) => (
+    <div className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] rounded-xl p-4">
+        <p className="text-[10px] uppercase tracking-widest font-bold text-[var(--text-tertiary)]">{label}</p>
+        <p className="text-2xl font-bold text-[var(--text-primary)] mt-1">{value}</p>
+        {note && <p className="text-[10px] text-[var(--text-tertiary)] mt-0.5">{note}</p>}
+    </div>
+);
+
+const BreakdownTable: React.FC<{ title: string; rows: [string, Totals][] }> = ({ title, rows }) => {
+    const { t } = useLanguage();
+    return (
+        <section className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] rounded-xl p-5">
+            <h2 className="text-sm font-bold text-[var(--text-primary)] mb-3">{title}</h2>
+            <table className="w-full text-left text-xs">
+                <thead>
+                    <tr className="text-[10px] uppercase tracking-widest text-[var(--text-tertiary)]">
+                        <th className="pb-2 pr-2 font-bold"></th>
+                        <th className="pb-2 pr-2 font-bold text-right">{t('usage_calls')}</th>
+                        <th className="pb-2 pr-2 font-bold text-right">{t('usage_images')}</th>
+                        <th className="pb-2 pr-2 font-bold text-right">{t('usage_tokens')}</th>
+                        <th className="pb-2 pr-2 font-bold text-right">{t('usage_failures')}</th>
+                        <th className="pb-2 font-bold text-right">{t('usage_cost')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(([name, totals]) => (
+                        <tr key={name} className="border-t border-[var(--border-2)] text-[var(--text-secondary)]">
+                            <td className="py-1.5 pr-2 font-semibold text-[var(--text-primary)] truncate max-w-[12rem]" title={name}>{name}</td>
+                            <td className="py-1.5 pr-2 text-right">{totals.calls}</td>
+                            <td className="py-1.5 pr-2 text-right">{totals.images}</td>
+                            <td className="py-1.5 pr-2 text-right">{totals.tokens.toLocaleString()}</td>
+                            <td className="py-1.5 pr-2 text-right">{totals.failures}</td>
+                            <td className="py-1.5 text-right font-semibold text-[var(--text-primary)]">{formatCost(totals.cost)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </section>
+    );
+};
+
+export const UsageDashboard: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { t } = useLanguage();
+    const ledger = useUsageLedger();
+    const [period, setPeriod] = useState<Period>('90');
+    const [projectFilter, setProjectFilter] = useState('all');
+    const [userFilter, setUserFilter] = useState('all');
+
+    // Latest entry per project, so renamed projects show their current name
+    const projects = useMemo(() => [...new Map(ledger.map(e => [e.projectId, e])).values()], [ledger]);
+    const users = useMemo(() => [...new Set(ledger.map(e => e.user))], [ledger]);
+
+    const filtered = useMemo(() => {
+        const since = period === 'all' ? 0 : Date.now() - Number(period) * DAY_MS;
+        return ledger.filter(e => e.at >= since
+            && (projectFilter === 'all' || e.projectId === projectFilter)
+            && (userFilter === 'all' || e.user === userFilter));
+    }, [ledger, period, projectFilter, userFilter]);
+
+    const totals = summarize(filtered);
+
+    const weeks = useMemo(() => {
+        const current = weekStart(Date.now());
+        return Array.from({ length: WEEKS_SHOWN }, (_, i) => {
+            const start = new Date(current);
+            start.setDate(start.getDate() - (WEEKS_SHOWN - 1 - i) * 7);
+            const from = start.getTime();
+            return { from, totals: summarize(filtered.filter(e => weekStart(e.at) === from)) };
+        });
+    }, [filtered]);
+    const maxWeekImages = Math.max(1, ...weeks.map(w => w.totals.images));
+
+    const byProject = groupBy(filtered, e => e.projectName || e.projectId);
+    const maxProjectCost = Math.max(0.001, ...byProject.map(([, p]) => p.cost));
+
+    const handleExport = () => {
+        const project = projects.find(p => p.projectId === projectFilter);
+        const suffix = project ? `_${(project.jobNumber || project.projectName).replace(/[^\w-]+/g, '_')}` : '';
+        downloadUsageCsv(filtered, `CPGVN_Usage${suffix}_${new Date().toLocaleDateString('sv')}.csv`);
+    };
+
+    const selectClass = "bg-[var(--bg-surface-2)] text-xs font-semibold text-[var(--text-primary)] rounded-full border border-[var(--border-2)] px-3 py-1.5 outline-none cursor-pointer";
+
+    return (
+        <div className="min-h-screen p-8 fade-in-up">
+            <header className="flex flex-wrap items-center gap-4 mb-8">
+                <button onClick={onClose} className="p-2 rounded-full text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-surface-1)] transition-all duration-200" aria-label="Back">
+                    <Icon name="arrow-uturn-left" className="w-7 h-7" />
+                </button>
+                <h1 className="text-2xl md:text-3xl font-bold tracking-wider text-[var(--text-primary)] uppercase font-montserrat flex-grow">{t('usage_title')}</h1>
+                <select value={period} onChange={(e) => setPeriod(e.target.value as Period)} className={selectClass}>
+                    {(['30', '90', '365', 'all'] as Period[]).map(p => <option key={p} value={p}>{t(`usage_period_${p}`)}</option>)}
+                </select>
+                <select value={projectFilter} onChange={(e) => setProjectFilter(e.target.value)} className={selectClass}>
+                    <option value="all">{t('usage_all_projects')}</option>
+                    {projects.map(p => <option key={p.projectId} value={p.projectId}>{p.projectName}{p.jobNumber ? ` · ${p.jobNumber}` : ''}</option>)}
+                </select>
+                {users.length > 1 && (
+                    <select value={userFilter} onChange={(e) => setUserFilter(e.target.value)} className={selectClass}>
+                        <option value="all">{t('usage_all_users')}</option>
+                        {users.map(u => <option key={u} value={u}>{u || '—'}</option>)}
+                    </select>
+                )}
+                <button onClick={handleExport} disabled={filtered.length === 0} className="flex items-center gap-2 text-sm font-bold px-4 py-2 rounded-full bg-[var(--bg-interactive)] text-white hover:opacity-90 disabled:opacity-40 transition-opacity">
+                    <Icon name="download" className="w-4 h-4" />
+                    {t('usage_export_csv')}
+                </button>
+            </header>
+
+            {filtered.length === 0 ? (
+                <p className="text-sm text-[var(--text-tertiary)] text-center py-20">{t('usage_empty')}</p>
+            ) : (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                        <StatCard label={t('usage_images')} value={String(totals.images)} />
+                        <StatCard label={t('usage_calls')} value={String(totals.calls)} note={`${totals.failures} ${t('usage_failures').toLowerCase()}`} />
+                        <StatCard label={t('usage_tokens')} value={totals.tokens.toLocaleString()} />
+                        <StatCard label={t('usage_avg_latency')} value={`${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s`} />
+                        <StatCard label={t('usage_cost')} value={formatCost(totals.cost)} note={t('usage_cost_note')} />
+                    </div>
+
+                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                        <section className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] rounded-xl p-5">
+                            <h2 className="text-sm font-bold text-[var(--text-primary)] mb-4">{t('usage_by_week')}</h2>
+                            <div className="flex items-end gap-2 h-48">
+                                {weeks.map(({ from, totals: week }) => (
+                                    <div key={from} className="flex-1 flex flex-col items-center justify-end h-full gap-1" title={`${new Date(from).toLocaleDateString()} · ${week.images} · ${formatCost(week.cost)}`}>
+                                        <span className="text-[10px] font-bold text-[var(--text-secondary)]">{week.images || ''}</span>
+                                        <div className="w-full rounded-t bg-[var(--bg-interactive)]" style={{ height: `${(week.images / maxWeekImages) * 100}%`, minHeight: week.calls > 0 ? 2 : 0 }}></div>
+                                        <span className="text-[9px] text-[var(--text-tertiary)] whitespace-nowrap">{new Date(from).toLocaleDateString(undefined, { day: '2-digit', month: '2-digit' })}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </section>
+
+                        <section className="bg-[var(--bg-surface-1)] backdrop-blur-lg border border-[var(--border-1)] rounded-xl p-5">
+                            <h2 className="text-sm font-bold text-[var(--text-primary)] mb-4">{t('usage_by_project')}</h2>
+                            <ul className="space-y-2.5">
+                                {byProject.map(([name, project]) => (
+                                    <li key={name}>
+                                        <div className="flex justify-between text-xs mb-1">
+                                            <span className="font-semibold text-[var(--text-primary)] truncate" title={name}>{name}</span>
+                                            <span className="text-[var(--text-secondary)] whitespace-nowrap ml-2">{project.images} · {formatCost(project.cost)}</span>
+                                        </div>
+                                        <div className="h-2 bg-[var(--bg-surface-3)] rounded-full overflow-hidden">
+                                            <div className="h-full bg-[var(--bg-interactive)] rounded-full" style={{ width: `${(project.cost / maxProjectCost) * 100}%` }}></div>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    </div>
+
+                    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                        <BreakdownTable title={t('usage_by_tab')} rows={groupBy(filtered, e => e.tab)} />
+                        <BreakdownTable title={t('usage_by_model')} rows={groupBy(filtered, e => `${e.provider} · ${e.model}`)} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsageDashboard;
@@ -1,9 +1,10 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Icon } from './icons';
-import { Section, ImageUpload, ReferenceImageUpload, selectCommonStyles, ImageViewerModal, ImageCompareSlider } from './Shared';
+import { Section, ImageUpload, ReferenceImageUpload, selectCommonStyles, ImageViewerModal, ImageCompareSlider, CancelButton } from './Shared';
 import { HistoryPanel } from './HistoryPanel';
 import { useLanguage } from './LanguageContext';
+import { usePermissions } from '../services/permissions';
 import { useToast } from './Toast';
 import { RenderHistoryItem, SourceImage, GeneratedPrompts } from '../types';
 import { 
@@ -15,8 +16,11 @@ import {
     padImageToAspectRatioWithColor,
     generateOutpaintingPrompt,
     generateArchitecturalPrompts,
-    convertImageToArchitecturalStyle
+    convertImageToArchitecturalStyle,
+    isAbortError
 } from '../services/geminiService';
+import { runJob } from '../services/jobQueue';
+import { getRenderHistoryItem, toHistoryPreview, HistoryListState } from '../services/historyStore';
 
 // --- Prompt Display Component ---
 interface PromptDisplayProps {
@@ -84,7 +88,7 @@ const StyleTransferUtility: React.FC<StyleTransferUtilityProps> = ({ onBack }) =
     const [moodImage, setMoodImage] = useState<SourceImage | null>(null);
     const [resultImage, setResultImage] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const { addToast } = useToast();
+    const { addToast, addErrorToast } = useToast();
 
     const styles = [
         { id: 'maker', label: 'Mô Hình Maker', desc: 'Concept model, foam/bìa carton' },
@@ -117,7 +121,7 @@ const StyleTransferUtility: React.FC<StyleTransferUtilityProps> = ({ onBack }) =
             }
         } catch (error) {
             console.error(error);
-            addToast({ type: 'error', title: 'Lỗi', message: 'Quá trình chuyển đổi thất bại.' });
+            addErrorToast(error, 'Quá trình chuyển đổi thất bại.');
         } finally {
             setIsLoading(false);
         }
@@ -242,7 +246,7 @@ const PromptUpgradeUtility: React.FC<PromptUpgradeUtilityProps> = ({
     onBack, sourceImage, setSourceImage, generatedPrompts, setGeneratedPrompts, onStartNewRenderFlow 
 }) => {
     const [isLoading, setIsLoading] = useState(false);
-    const { addToast } = useToast();
+    const { addToast, addErrorToast } = useToast();
 
     const handleProcess = async () => {
         if (!sourceImage) {
@@ -256,7 +260,7 @@ const PromptUpgradeUtility: React.FC<PromptUpgradeUtilityProps> = ({
             setGeneratedPrompts(result);
             addToast({ type: 'success', title: 'Hoàn Tất', message: 'Đã tạo 20 gợi ý prompt chuyên nghiệp.' });
         } catch (error) {
-            addToast({ type: 'error', title: 'Lỗi', message: 'Không thể phân tích ảnh lúc này.' });
+            addErrorToast(error, 'Không thể phân tích ảnh lúc này.');
         } finally {
             setIsLoading(false);
         }
@@ -343,8 +347,9 @@ const ExpandUtility: React.FC<ExpandUtilityProps> = ({ onBack, onGenerationCompl
     const [resultImage, setResultImage] = useState<string | null>(null);
     const [previewImage, setPreviewImage] = useState<string | null>(null);
     const [expandHistory, setExpandHistory] = useState<RenderHistoryItem[]>([]);
+    const abortRef = useRef<AbortController | null>(null);
     
-    const { addToast } = useToast();
+    const { addToast, addErrorToast } = useToast();
     const { t } = useLanguage();
 
     const ratios = [
@@ -391,7 +396,7 @@ const ExpandUtility: React.FC<ExpandUtilityProps> = ({ onBack, onGenerationCompl
             addToast({ type: 'success', title: 'Đã Tạo Gợi Ý', message: 'Đã tự động tạo mô tả cho phần mở rộng.' });
         } catch (error) {
             console.error(error);
-            addToast({ type: 'error', title: 'Lỗi', message: 'Không thể tạo gợi ý.' });
+            addErrorToast(error, 'Không thể tạo gợi ý.');
         } finally {
             setIsGeneratingPrompt(false);
         }
@@ -403,12 +408,18 @@ const ExpandUtility: React.FC<ExpandUtilityProps> = ({ onBack, onGenerationCompl
             return;
         }
         
+        const previousResult = resultImage;
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsLoading(true);
         setResultImage(null);
 
         try {
             const prompt = customPrompt || "Extend the scenery naturally.";
-            const result = await outpaintImage(sourceImage, aspectRatio, prompt);
+            const result = await runJob(
+                { label: `Outpaint · ${aspectRatio}`, source: 'expand_image', capability: 'outpaint', signal: controller.signal },
+                signal => outpaintImage(sourceImage, aspectRatio, prompt, { signal })
+            );
             
             if (result) {
                 setResultImage(result);
@@ -424,13 +435,24 @@ const ExpandUtility: React.FC<ExpandUtilityProps> = ({ onBack, onGenerationCompl
                 throw new Error("AI did not return an image.");
             }
         } catch (error) {
+            if (isAbortError(error)) {
+                setResultImage(previousResult);
+                const timedOut = (error as Error).name === 'TimeoutError';
+                addToast({ type: timedOut ? 'warning' : 'info', title: timedOut ? 'Timeout' : t('btn_cancel'), message: t(timedOut ? 'toast_timeout' : 'toast_cancelled') });
+                return;
+            }
             console.error("Failed to expand image:", error);
-            addToast({ type: 'error', title: 'Lỗi', message: `Không thể mở rộng ảnh: ${error instanceof Error ? error.message : String(error)}` });
+            addErrorToast(error, `Không thể mở rộng ảnh: ${error instanceof Error ? error.message : String(error)}`);
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setIsLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        abortRef.current?.abort();
+    };
+
     return (
         <div>
              <div className="flex justify-between items-center mb-6">
@@ -513,6 +535,7 @@ const ExpandUtility: React.FC<ExpandUtilityProps> = ({ onBack, onGenerationCompl
                                 <div className="flex flex-col items-center justify-center text-center">
                                     <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-slate-100"></div>
                                     <p className="mt-3 font-semibold text-sm text-[var(--text-primary)]">{t('util_expand_generating')}</p>
+                                    <CancelButton onClick={handleCancel} className="mt-4" />
                                 </div>
                             ) : resultImage ? (
                                 <div className="relative w-full h-full flex items-center justify-center p-4">
@@ -542,9 +565,9 @@ const ExpandUtility: React.FC<ExpandUtilityProps> = ({ onBack, onGenerationCompl
                     
                     <HistoryPanel 
                         title="Lịch Sử Mở Rộng" 
-                        history={expandHistory} 
+                        history={expandHistory.map(toHistoryPreview)} 
                         onClear={() => setExpandHistory([])} 
-                        onSelect={(item) => setResultImage(item.images[0])} 
+                        onSelect={(item) => setResultImage(expandHistory.find(h => h.id === item.id)?.images[0] || null)} 
                         emptyText={t('hist_empty')} 
                     />
                 </div>
@@ -563,7 +586,7 @@ interface DiagramUtilityProps {
     diagramResults: string[];
     setDiagramResults: (images: string[]) => void;
     onGenerationComplete: (prompt: string, images: string[]) => void;
-    diagramHistory: RenderHistoryItem[];
+    diagramHistory: HistoryListState;
     onClearDiagramHistory: () => void;
 }
 
@@ -579,7 +602,7 @@ const DiagramUtility: React.FC<DiagramUtilityProps> = ({
     const [selectedImageIndex, setSelectedImageIndex] = useState(0);
     const [fullscreenImage, setFullscreenImage] = useState<string | null>(null);
 
-    const { addToast } = useToast();
+    const { addToast, addErrorToast } = useToast();
     const { t } = useLanguage();
 
     // Reset index when results change
@@ -621,7 +644,7 @@ const DiagramUtility: React.FC<DiagramUtilityProps> = ({
             addToast({ type: 'success', title: 'Thành Công', message: 'Đã tạo prompt từ ảnh tham khảo. Bạn có thể nhấn Tạo Diagram ngay.' });
         } catch (error) {
             console.error("Failed to auto-generate prompt:", error);
-            addToast({ type: 'error', title: 'Lỗi', message: 'Không thể tạo prompt tự động.' });
+            addErrorToast(error, 'Không thể tạo prompt tự động.');
         } finally {
             setIsLoadingAutoPrompt(false);
         }
@@ -670,7 +693,7 @@ const DiagramUtility: React.FC<DiagramUtilityProps> = ({
             }
         } catch (error) {
             console.error("Failed to generate diagram:", error);
-            addToast({ type: 'error', title: 'Lỗi', message: `Đã xảy ra lỗi: ${error instanceof Error ? error.message : String(error)}` });
+            addErrorToast(error, `Đã xảy ra lỗi: ${error instanceof Error ? error.message : String(error)}`);
         } finally {
             setIsLoading(false);
         }
@@ -814,7 +837,18 @@ const DiagramUtility: React.FC<DiagramUtilityProps> = ({
                             </div>
                         )}
                     </Section>
-                    <HistoryPanel title={t('hist_diagram')} history={diagramHistory} onClear={onClearDiagramHistory} onSelect={() => {}} emptyText={t('hist_empty')} />
+                    <HistoryPanel
+                        title={t('hist_diagram')}
+                        history={diagramHistory.items}
+                        hasMore={diagramHistory.hasMore}
+                        onLoadMore={diagramHistory.loadMore}
+                        onClear={onClearDiagramHistory}
+                        onSelect={async (preview) => {
+                            const item = await getRenderHistoryItem(diagramHistory.project, diagramHistory.list, preview.id);
+                            if (item) { setDiagramResults(item.images); setSelectedImageIndex(0); }
+                        }}
+                        emptyText={t('hist_empty')}
+                    />
                 </div>
             </div>
             {fullscreenImage && (
@@ -847,7 +881,7 @@ interface UtilitiesTabProps {
     setPresentationBoardImage: (img: SourceImage | null) => void;
     presentationBoardResults: string[];
     setPresentationBoardResults: (imgs: string[]) => void;
-    presentationBoardHistory: RenderHistoryItem[];
+    presentationBoardHistory: HistoryListState;
     onClearPresentationBoardHistory: () => void;
     diagramImage: SourceImage | null;
     setDiagramImage: (img: SourceImage | null) => void;
@@ -855,9 +889,9 @@ interface UtilitiesTabProps {
     setDiagramReferenceImage: (img: SourceImage | null) => void;
     diagramResults: string[];
     setDiagramResults: (imgs: string[]) => void;
-    diagramHistory: RenderHistoryItem[];
+    diagramHistory: HistoryListState;
     onClearDiagramHistory: () => void;
-    history: RenderHistoryItem[];
+    history: HistoryListState;
     onClearHistory: () => void;
     onGenerationComplete: (prompt: string, images: string[]) => void;
     initialUtility: string | null;
@@ -867,9 +901,13 @@ interface UtilitiesTabProps {
 }
 
 export const UtilitiesTab: React.FC<UtilitiesTabProps> = (props) => {
-    const [activeUtility, setActiveUtility] = useState<string | null>(props.initialUtility);
+    const [requestedUtility, setActiveUtility] = useState<string | null>(props.initialUtility);
     const { t } = useLanguage();
     const { addToast } = useToast();
+    const { permissions } = usePermissions();
+    const canOpen = (id: string) => (permissions.utilities as string[]).includes(id);
+    // Utilities outside the user's role fall back to the menu, even when opened by a redirect
+    const activeUtility = requestedUtility && canOpen(requestedUtility) ? requestedUtility : null;
 
     // Effect to sync initial utility if it changes (e.g. from redirect)
     useEffect(() => {
@@ -947,54 +985,54 @@ export const UtilitiesTab: React.FC<UtilitiesTabProps> = (props) => {
     // Menu View
     return (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-fade-in-up">
-             <UtilityCard 
+            {canOpen('prompt_upgrade') && <UtilityCard 
                 id="prompt_upgrade" 
                 title="Nâng Cấp Prompt" 
                 desc="Gợi ý 20 prompt nhiếp ảnh kiến trúc chuyên nghiệp từ hình ảnh thực tế." 
                 icon="magnifying-glass-plus" 
-            />
-            <UtilityCard 
+            />}
+            {canOpen('style_transfer') && <UtilityCard 
                 id="style_transfer" 
                 title="Chuyển Style Ảnh" 
                 desc="Biến ảnh render thành các phong cách diễn họa: Maker, Sketch, Màu nước..." 
                 icon="brush" 
-            />
-            <UtilityCard 
+            />}
+            {canOpen('diagram') && <UtilityCard 
                 id="diagram" 
                 title={t('util_diagram_title')} 
                 desc={t('util_diagram_desc')} 
                 icon="rectangle-group" 
-            />
-             <UtilityCard 
+            />}
+            {canOpen('expand_image') && <UtilityCard 
                 id="expand_image" 
                 title={t('util_expand_title')} 
                 desc={t('util_expand_desc')} 
                 icon="arrows-pointing-out" 
-            />
-            <UtilityCard 
+            />}
+            {canOpen('presentation') && <UtilityCard 
                 id="presentation" 
                 title={t('util_presentation_title')} 
                 desc={t('util_presentation_desc')} 
                 icon="bookmark" 
-            />
-            <UtilityCard 
+            />}
+            {canOpen('mood_board') && <UtilityCard 
                 id="mood_board" 
                 title="Mood Board Generator" 
                 desc={t('guide_utils_mood')} 
                 icon="photo" 
-            />
-             <UtilityCard 
+            />}
+            {canOpen('finish_build') && <UtilityCard 
                 id="finish_build" 
                 title="Finish My Build" 
                 desc={t('guide_utils_finish')} 
                 icon="home" 
-            />
-             <UtilityCard 
+            />}
+            {canOpen('create_video') && <UtilityCard 
                 id="create_video" 
                 title="AI Video Generator" 
                 desc="Tạo video ngắn từ hình ảnh hoặc mô tả." 
                 icon="film" 
-            />
+            />}
         </div>
     );
 };
@@ -1,9 +1,14 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { Icon } from './icons';
-import { generateVirtualTourImage, TourMoveType, applyEffectToTourImage, TourEffectType } from '../services/geminiService';
+import { generateVirtualTourImage, TourMoveType, applyEffectToTourImage, TourEffectType, isAbortError } from '../services/geminiService';
+import { runJob } from '../services/jobQueue';
+import { getRenderHistoryItem, HistoryListState } from '../services/historyStore';
+import { createImageMetadata, downloadImage } from '../services/imageMetadata';
 import type { SourceImage } from '../types';
-import { Section, ImageUpload } from './Shared';
+import { Section, ImageUpload, CancelButton } from './Shared';
+import { HistoryPanel } from './HistoryPanel';
+import { useLanguage } from './LanguageContext';
 import { useToast } from './Toast';
 
 // Reusable components for this tab to keep it self-contained
@@ -19,7 +24,7 @@ const ControlButton: React.FC<{ icon: string; label: string; onClick: () => void
     </button>
 );
 
-const FullscreenModal: React.FC<{ imageUrl: string; onClose: () => void; }> = ({ imageUrl, onClose }) => {
+const FullscreenModal: React.FC<{ imageUrl: string; label: string; onClose: () => void; }> = ({ imageUrl, label, onClose }) => {
   return (
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
       <div className="bg-[var(--bg-surface-4)]/80 backdrop-blur-lg border border-[var(--border-1)] rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col relative" onClick={(e) => e.stopPropagation()}>
@@ -33,6 +38,14 @@ const FullscreenModal: React.FC<{ imageUrl: string; onClose: () => void; }> = ({
         <div className="p-2 flex-grow overflow-auto flex items-center justify-center">
             <img src={imageUrl} alt="Fullscreen view" className="max-w-full max-h-full object-contain rounded-md" />
         </div>
+        <button
+          onClick={() => downloadImage(imageUrl, `CPGVN_Tour_${Date.now()}`, createImageMetadata(label))}
+          className="absolute bottom-4 right-4 bg-[var(--bg-surface-3)]/80 backdrop-blur-sm border border-[var(--border-2)] hover:bg-[var(--bg-interactive)] text-[var(--text-primary)] hover:text-[var(--text-interactive)] font-bold text-xs px-3 py-2 rounded-md transition-colors flex items-center gap-1.5"
+          title="Tải ảnh"
+        >
+          <Icon name="download" className="w-4 h-4" />
+          <span>Tải Xuống</span>
+        </button>
       </div>
     </div>
   );
@@ -74,10 +87,11 @@ interface VirtualTourTabProps {
   setActiveTab: (tab: AppTab) => void;
   setImageForEditing: (image: SourceImage | null) => void;
   onCreateVideoRequest: (imageUrl: string) => void;
-  onImageGenerated: () => void;
+  onImageGenerated: (image: string, label: string) => void;
+  history?: HistoryListState;
 }
 
-export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, setImageForEditing, onCreateVideoRequest, onImageGenerated }) => {
+export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, setImageForEditing, onCreateVideoRequest, onImageGenerated, history }) => {
     const [currentImage, setCurrentImage] = useState<SourceImage | null>(null);
     const [undoStack, setUndoStack] = useState<SourceImage[]>([]);
     const [redoStack, setRedoStack] = useState<SourceImage[]>([]);
@@ -86,7 +100,24 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
     const [magnitude, setMagnitude] = useState<15 | 30 | 45>(30);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [activeEffect, setActiveEffect] = useState<TourEffectType | null>(null);
-    const { addToast } = useToast();
+    const abortRef = useRef<AbortController | null>(null);
+    // Move/effect that produced each frame, embedded as the prompt when it is downloaded
+    const frameLabelsRef = useRef(new WeakMap<SourceImage, string>());
+    const { addToast, addErrorToast } = useToast();
+    const { t } = useLanguage();
+
+    // The current view only changes on success, so cancelling just stops the request
+    const handleCancel = () => {
+        abortRef.current?.abort();
+    };
+
+    const notifyAborted = (error: any) => {
+        if (error?.name === 'TimeoutError') {
+            addToast({type: 'warning', title: 'Quá Thời Gian', message: 'Yêu cầu quá thời gian chờ. Vui lòng thử lại.'});
+        } else {
+            addToast({type: 'info', title: 'Đã Hủy', message: 'Đã hủy thao tác, giữ nguyên khung cảnh trước đó.'});
+        }
+    };
 
     const handleImageUpload = (image: SourceImage) => {
         setCurrentImage(image);
@@ -102,6 +133,20 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
         setActiveEffect(null);
     };
 
+    // A frame picked from history starts a fresh walk from that view
+    const handleSelectHistory = async (id: number) => {
+        if (!history) return;
+        const item = await getRenderHistoryItem(history.project, history.list, id);
+        const imageSrc = item?.images[0];
+        if (!imageSrc) return;
+        const image: SourceImage = {
+            base64: imageSrc.split(',')[1],
+            mimeType: imageSrc.match(/data:(image\/[a-z]+);/)?.[1] || 'image/png'
+        };
+        frameLabelsRef.current.set(image, item.prompt);
+        handleImageUpload(image);
+    };
+
     const handleNavigate = useCallback(async (moveType: TourMoveType) => {
         if (!currentImage) {
             addToast({type: 'warning', title: 'Thiếu Ảnh', message: 'Vui lòng tải lên ảnh để bắt đầu chuyến tham quan.'});
@@ -120,9 +165,14 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
             'zoom-out': 'Đang thu nhỏ...'
         };
         setLoadingMessage(messages[moveType]);
+        const controller = new AbortController();
+        abortRef.current = controller;
 
         try {
-            const newImageSrc = await generateVirtualTourImage(currentImage, moveType, magnitude);
+            const newImageSrc = await runJob(
+                { label: `Tour · ${moveType}`, source: 'virtual_tour', signal: controller.signal },
+                signal => generateVirtualTourImage(currentImage, moveType, magnitude, { signal })
+            );
             if (newImageSrc) {
                 const newImage: SourceImage = {
                     base64: newImageSrc.split(',')[1],
@@ -132,18 +182,23 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
                 setCurrentImage(newImage);
                 setRedoStack([]); // New action clears the redo stack
                 setActiveEffect(null);
-                onImageGenerated();
+                frameLabelsRef.current.set(newImage, `Tour · ${moveType}`);
+                onImageGenerated(newImageSrc, `Tour · ${moveType}`);
             } else {
                 throw new Error("AI không thể tạo ảnh cho hướng di chuyển này.");
             }
         } catch (error) {
+            if (isAbortError(error)) {
+                notifyAborted(error);
+                return;
+            }
             console.error("Virtual tour navigation failed:", error);
-            const message = `Đã xảy ra lỗi: ${error instanceof Error ? error.message : "Unknown error"}`;
-            addToast({type: 'error', title: 'Lỗi Điều Hướng', message});
+            addErrorToast(error, `Đã xảy ra lỗi: ${error instanceof Error ? error.message : "Unknown error"}`);
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setIsLoading(false);
         }
-    }, [currentImage, magnitude, addToast, onImageGenerated]);
+    }, [currentImage, magnitude, addToast, addErrorToast, onImageGenerated]);
     
     const handleApplyEffect = async (effect: TourEffectType) => {
         if (!currentImage) {
@@ -152,12 +207,18 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
         }
         if (isLoading) return;
 
+        const previousEffect = activeEffect;
         setActiveEffect(effect);
         setIsLoading(true);
         setLoadingMessage(`Đang áp dụng hiệu ứng: ${effect}...`);
+        const controller = new AbortController();
+        abortRef.current = controller;
 
         try {
-            const newImageSrc = await applyEffectToTourImage(currentImage, effect);
+            const newImageSrc = await runJob(
+                { label: `Tour · ${effect}`, source: 'virtual_tour', signal: controller.signal },
+                signal => applyEffectToTourImage(currentImage, effect, { signal })
+            );
             if (newImageSrc) {
                 const newImage: SourceImage = {
                     base64: newImageSrc.split(',')[1],
@@ -166,16 +227,22 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
                 setUndoStack(prev => [...prev, currentImage]);
                 setCurrentImage(newImage);
                 setRedoStack([]);
-                onImageGenerated();
+                frameLabelsRef.current.set(newImage, `Tour · ${effect}`);
+                onImageGenerated(newImageSrc, `Tour · ${effect}`);
             } else {
                 throw new Error("AI không thể tạo ảnh cho hiệu ứng này.");
             }
         } catch (error) {
+            if (isAbortError(error)) {
+                setActiveEffect(previousEffect);
+                notifyAborted(error);
+                return;
+            }
             console.error("Applying effect failed:", error);
-            const message = `Đã xảy ra lỗi: ${error instanceof Error ? error.message : "Unknown error"}`;
-            addToast({type: 'error', title: 'Lỗi Hiệu Ứng', message});
+            addErrorToast(error, `Đã xảy ra lỗi: ${error instanceof Error ? error.message : "Unknown error"}`);
             setActiveEffect(null); // Deselect on failure
         } finally {
+            if (abortRef.current === controller) abortRef.current = null;
             setIsLoading(false);
         }
     };
@@ -312,6 +379,7 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
                             <div className="flex flex-col items-center justify-center text-center">
                                 <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-slate-100"></div>
                                 <p className="mt-3 font-semibold text-sm text-[var(--text-primary)]">{loadingMessage}</p>
+                                <CancelButton onClick={handleCancel} className="mt-4" />
                             </div>
                         ) : currentImage ? (
                             <>
@@ -356,10 +424,21 @@ export const VirtualTourTab: React.FC<VirtualTourTabProps> = ({ setActiveTab, se
                         )}
                     </div>
                 </Section>
+                {history && (
+                    <HistoryPanel
+                        title={t('hist_tour')}
+                        history={history.items}
+                        hasMore={history.hasMore}
+                        onLoadMore={history.loadMore}
+                        onClear={() => { if (window.confirm(t('hist_clear') + '?')) history.clear(); }}
+                        onSelect={(preview) => handleSelectHistory(preview.id)}
+                        emptyText={t('hist_empty')}
+                    />
+                )}
             </div>
         </div>
         {isModalOpen && currentImage && (
-            <FullscreenModal imageUrl={`data:${currentImage.mimeType};base64,${currentImage.base64}`} onClose={() => setIsModalOpen(false)} />
+            <FullscreenModal imageUrl={`data:${currentImage.mimeType};base64,${currentImage.base64}`} label={frameLabelsRef.current.get(currentImage) || ''} onClose={() => setIsModalOpen(false)} />
         )}
       </>
     );
@@ -0,0 +1,54 @@
+import { generateKeyPairSync } from "node:crypto";
+import { addRevocation, loadPrivateKey, loadPublicKey, signActivationToken, verifyActivationToken } from "./activationTokens.ts";
+
+// --- Activation admin CLI ---
+// Issues and revokes the signed activation tokens users paste into the login screen.
+//
+//   npm run activation -- keygen
+//   npm run activation -- issue user@example.com [days=180]
+//   npm run activation -- verify <token>
+//   npm run activation -- revoke <user@example.com | token id>
+
+const DEFAULT_VALID_DAYS = 180;
+
+const [command, arg, extra] = process.argv.slice(2);
+
+const fail = (message: string): never => {
+    console.error(message);
+    process.exit(1);
+};
+
+switch (command) {
+    case 'keygen': {
+        const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        console.log("Build env (Vercel) and proxy env:");
+        console.log(`ACTIVATION_PUBLIC_KEY=${publicKey.export({ format: 'der', type: 'spki' }).toString('base64')}`);
+        console.log("\nKeep secret, only on the admin machine:");
+        console.log(`ACTIVATION_PRIVATE_KEY=${privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64')}`);
+        break;
+    }
+    case 'issue': {
+        const privateKey = loadPrivateKey() || fail("ACTIVATION_PRIVATE_KEY is not set.");
+        if (!arg || !arg.includes('@')) fail("Usage: issue <email> [days]");
+        const days = Number(extra || DEFAULT_VALID_DAYS);
+        if (!(days > 0)) fail(`Invalid number of days: ${extra}`);
+        const { token, claims } = signActivationToken(privateKey, arg, days);
+        console.log(`Token for ${claims.sub} (id ${claims.jti}), valid until ${new Date(claims.exp * 1000).toISOString().slice(0, 10)}:\n`);
+        console.log(token);
+        break;
+    }
+    case 'verify': {
+        if (!arg) fail("Usage: verify <token>");
+        console.log(verifyActivationToken(loadPublicKey(), arg));
+        break;
+    }
+    case 'revoke': {
+        if (!arg) fail("Usage: revoke <email | token id>");
+        const revokedAt = Math.floor(Date.now() / 1000);
+        addRevocation(arg.includes('@') ? { sub: arg.trim().toLowerCase(), revokedAt } : { jti: arg.trim(), revokedAt });
+        console.log(`Revoked ${arg}. The proxy rejects it from its next request.`);
+        break;
+    }
+    default:
+        fail("Commands: keygen | issue <email> [days] | verify <token> | revoke <email | token id>");
+}
@@ -0,0 +1,87 @@
+import { createPrivateKey, createPublicKey, randomUUID, sign, verify } from "node:crypto";
+import type { KeyObject } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+
+// --- Activation Tokens (server side) ---
+// ES256 JWTs binding a user's e-mail to an expiry. Admins sign them with the private key
+// (server/activation.ts); the browser (services/activation.ts) and the proxy verify them with the
+// public key, and the proxy additionally checks the revocation list.
+//
+//   ACTIVATION_PUBLIC_KEY     base64 SPKI (DER) P-256 public key
+//   ACTIVATION_PRIVATE_KEY    base64 PKCS8 (DER) private key; only where tokens are issued
+//   ACTIVATION_REVOKED_FILE   JSON revocation list, default activation-revoked.json
+
+export interface ActivationClaims {
+    sub: string;    // lower-cased e-mail
+    iat: number;    // seconds
+    exp: number;    // seconds
+    jti: string;
+}
+
+export type VerifyResult = { valid: true; claims: ActivationClaims } | { valid: false; reason: 'unconfigured' | 'malformed' | 'signature' | 'expired' | 'revoked' };
+
+// One entry per revoked token (jti) or per user (sub: every token issued up to revokedAt)
+export interface RevocationEntry {
+    jti?: string;
+    sub?: string;
+    revokedAt: number;  // seconds
+}
+
+const HEADER = { alg: 'ES256', typ: 'JWT' };
+const REVOKED_FILE = process.env.ACTIVATION_REVOKED_FILE || 'activation-revoked.json';
+
+const encodeJson = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+export const loadPublicKey = (base64 = process.env.ACTIVATION_PUBLIC_KEY || ''): KeyObject | null => {
+    if (!base64) return null;
+    return createPublicKey({ key: Buffer.from(base64, 'base64'), format: 'der', type: 'spki' });
+};
+
+export const loadPrivateKey = (base64 = process.env.ACTIVATION_PRIVATE_KEY || ''): KeyObject | null => {
+    if (!base64) return null;
+    return createPrivateKey({ key: Buffer.from(base64, 'base64'), format: 'der', type: 'pkcs8' });
+};
+
+export const signActivationToken = (privateKey: KeyObject, email: string, validDays: number): { token: string; claims: ActivationClaims } => {
+    const iat = Math.floor(Date.now() / 1000);
+    const claims: ActivationClaims = { sub: email.trim().toLowerCase(), iat, exp: iat + Math.round(validDays * 86400), jti: randomUUID() };
+    const signingInput = `${encodeJson(HEADER)}.${encodeJson(claims)}`;
+    // JWS ES256 signatures are raw r||s, not DER
+    const signature = sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return { token: `${signingInput}.${signature.toString('base64url')}`, claims };
+};
+
+export const readRevocations = (): RevocationEntry[] => {
+    try {
+        return JSON.parse(readFileSync(REVOKED_FILE, 'utf8'));
+    } catch {
+        return [];
+    }
+};
+
+export const addRevocation = (entry: RevocationEntry) => {
+    writeFileSync(REVOKED_FILE, JSON.stringify([...readRevocations(), entry], null, 2));
+};
+
+const isRevoked = (claims: ActivationClaims, revocations: RevocationEntry[]) =>
+    revocations.some(r => r.jti === claims.jti || (r.sub === claims.sub && claims.iat <= r.revokedAt));
+
+export const verifyActivationToken = (publicKey: KeyObject | null, token: string): VerifyResult => {
+    if (!publicKey) return { valid: false, reason: 'unconfigured' };
+    const [header, payload, signature] = token.trim().split('.');
+    if (!header || !payload || !signature) return { valid: false, reason: 'malformed' };
+
+    let claims: ActivationClaims;
+    try {
+        if (JSON.parse(Buffer.from(header, 'base64url').toString('utf8')).alg !== HEADER.alg) return { valid: false, reason: 'malformed' };
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    const signatureOk = verify('sha256', Buffer.from(`${header}.${payload}`), { key: publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'));
+    if (!signatureOk) return { valid: false, reason: 'signature' };
+    if (!claims.sub || !claims.exp || claims.exp * 1000 < Date.now()) return { valid: false, reason: 'expired' };
+    if (isRevoked(claims, readRevocations())) return { valid: false, reason: 'revoked' };
+    return { valid: true, claims };
+};
@@ -0,0 +1,354 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { readFileSync, writeFileSync } from "node:fs";
+import { addRevocation, loadPrivateKey, loadPublicKey, signActivationToken, verifyActivationToken } from "./activationTokens.ts";
+import type { UserRecord } from "./userRegistry.ts";
+import type { UserRole } from "../types.ts";
+import { DEFAULT_ROLE, ROLE_PERMISSIONS, isModelAllowedForRole, isUserRole } from "../services/rolePermissions.ts";
+import { audit, getUserRecord, hashSecret, listUserRecords, loadRegistry, readAudit, recordGeneratedImages, registerUser, updateUserRecord } from "./userRegistry.ts";
+
+// --- Gemini API Key Proxy ---
+// Holds the Gemini key server-side so it never reaches the browser. The app switches to it when a
+// proxy URL is configured (see services/apiProxy.ts). Run with: npm run proxy
+//
+//   GEMINI_API_KEY            required
+//   PROXY_PORT                default 8787
+//   PROXY_ALLOWED_ORIGINS     comma-separated CORS origins, default "*"
+//   PROXY_ALLOWED_DOMAINS     e-mail domains allowed to use the proxy
+//   PROXY_DAILY_TEXT_QUOTA    analysis calls per user per day, default 500
+//   PROXY_USAGE_FILE          optional JSON file so quotas survive restarts
+//   ACTIVATION_PUBLIC_KEY     verifies users' activation tokens (see server/activationTokens.ts)
+//   ACTIVATION_PRIVATE_KEY    lets admins approve users from the admin console
+//   PROXY_ADMIN_EMAILS        comma-separated admins; they sign in with an activation token
+//   Daily image quotas and allowed models come from the user's role (services/rolePermissions.ts)
+//   PROXY_USERS_FILE, PROXY_AUDIT_FILE   see server/userRegistry.ts
+
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS || '*').split(',').map(o => o.trim()).filter(Boolean);
+const ALLOWED_DOMAINS = (process.env.PROXY_ALLOWED_DOMAINS || 'cpgcorp.com.sg,cpgvietnam.com.vn').split(',').map(d => d.trim().toLowerCase()).filter(Boolean);
+const DAILY_TEXT_QUOTA = Number(process.env.PROXY_DAILY_TEXT_QUOTA || 500);
+const USAGE_FILE = process.env.PROXY_USAGE_FILE || '';
+const ACTIVATION_KEY = loadPublicKey();
+const SIGNING_KEY = loadPrivateKey();
+const ADMIN_EMAILS = (process.env.PROXY_ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+const APPROVAL_VALID_DAYS = 180;
+
+const UPSTREAM = 'https://generativelanguage.googleapis.com/v1beta/models';
+const MAX_BODY_BYTES = 25 * 1024 * 1024;   // a few base64 source images
+const MODEL_PATTERN = /^(gemini|imagen)-[a-z0-9.-]+$/;
+const IMAGE_METHODS = ['predict', 'generateContent'];
+
+// --- Quotas ---
+type QuotaKind = 'images' | 'text';
+
+interface UsageRecord {
+    date: string;      // local YYYY-MM-DD; counters reset when it changes
+    images: number;
+    text: number;
+}
+
+const usage = new Map<string, UsageRecord>();
+
+const today = () => new Date().toLocaleDateString('sv');
+
+const secondsUntilMidnight = () => {
+    const midnight = new Date();
+    midnight.setHours(24, 0, 0, 0);
+    return Math.ceil((midnight.getTime() - Date.now()) / 1000);
+};
+
+const loadUsage = () => {
+    if (!USAGE_FILE) return;
+    try {
+        const stored: Record<string, UsageRecord> = JSON.parse(readFileSync(USAGE_FILE, 'utf8'));
+        Object.entries(stored).forEach(([user, record]) => usage.set(user, record));
+    } catch {
+        // First run, or an unreadable file: start from zero
+    }
+};
+
+const saveUsage = () => {
+    if (!USAGE_FILE) return;
+    try {
+        writeFileSync(USAGE_FILE, JSON.stringify(Object.fromEntries(usage)));
+    } catch (e) {
+        console.error("Could not write usage file:", e);
+    }
+};
+
+const getUsage = (user: string): UsageRecord => {
+    const record = usage.get(user);
+    if (record && record.date === today()) return record;
+    const fresh = { date: today(), images: 0, text: 0 };
+    usage.set(user, fresh);
+    return fresh;
+};
+
+// Roles that only count when the caller proved who they are with an activation token
+const TOKEN_ONLY_ROLES: UserRole[] = ['admin', 'lead'];
+
+// Configured admins are always 'admin'; everyone else has the role set in the admin console
+const roleOf = (user: string, verified = true): UserRole => {
+    const role = ADMIN_EMAILS.includes(user) ? 'admin' : (getUserRecord(user)?.role || DEFAULT_ROLE);
+    return verified || !TOKEN_ONLY_ROLES.includes(role) ? role : DEFAULT_ROLE;
+};
+
+const limitFor = (kind: QuotaKind, user: string, verified = true) => kind === 'images' ? ROLE_PERMISSIONS[roleOf(user, verified)].dailyImageQuota : DAILY_TEXT_QUOTA;
+
+// --- HTTP helpers ---
+const applyCors = (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin || '';
+    const allowed = ALLOWED_ORIGINS.includes('*') ? '*' : (ALLOWED_ORIGINS.includes(origin) ? origin : '');
+    if (allowed) res.setHeader('Access-Control-Allow-Origin', allowed);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-CPGVN-User');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+};
+
+// Errors use the Google error shape so the browser classifies them like upstream ones (services/errors.ts)
+const sendError = (res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+const sendJson = (res: ServerResponse, body: unknown) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<any> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(Object.assign(new Error("Request body too large"), { status: 413 }));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+            } catch {
+                reject(Object.assign(new Error("Invalid JSON body"), { status: 400 }));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+// A signed activation token identifies the user (verified). Without one, company e-mail domains are
+// still accepted from the self-reported header for read-only routes; that is not authentication, so
+// such callers never get a token-only role and cannot reach the Gemini routes.
+const getUser = (req: IncomingMessage): { user: string; verified: boolean } | { error: string } => {
+    const bearer = String(req.headers.authorization || '').match(/^Bearer\s+(.+)$/i)?.[1];
+    if (bearer) {
+        const result = verifyActivationToken(ACTIVATION_KEY, bearer);
+        return 'claims' in result ? { user: result.claims.sub, verified: true } : { error: `Activation token rejected (${result.reason}). Please re-activate your account.` };
+    }
+    const user = String(req.headers['x-cpgvn-user'] || '').trim().toLowerCase();
+    const domain = user.split('@')[1];
+    if (!domain || !ALLOWED_DOMAINS.includes(domain)) return { error: "Unknown user. Sign in with a company e-mail or an activation token to use the proxy." };
+    const status = getUserRecord(user)?.status;
+    return status === 'rejected' || status === 'deactivated' ? { error: "This account has been deactivated by an administrator." } : { user, verified: false };
+};
+
+const normalizeEmail = (value: unknown) => String(value || '').trim().toLowerCase();
+
+// --- Admin console routes ---
+// Never send the request secret or the user's token to the console
+const toAdminView = ({ secretHash, token, ...record }: UserRecord) => ({ ...record, role: roleOf(record.email), imagesToday: getUsage(record.email).images });
+
+const handleAdmin = (res: ServerResponse, admin: string, method: string, path: string, payload: any) => {
+    if (method === 'GET' && path === '/api/admin/users') {
+        return sendJson(res, listUserRecords().map(toAdminView));
+    }
+    if (method === 'GET' && path === '/api/admin/audit') return sendJson(res, readAudit(500));
+    if (method !== 'POST') return sendError(res, 404, `No route for ${method} ${path}`);
+
+    const email = normalizeEmail(payload.email);
+    const record = getUserRecord(email);
+    if (!record) return sendError(res, 404, `Unknown user: ${email}`);
+    const decision = { decidedAt: Date.now(), decidedBy: admin };
+
+    if (path === '/api/admin/approve') {
+        if (!SIGNING_KEY) return sendError(res, 503, "ACTIVATION_PRIVATE_KEY is not configured on the proxy.");
+        const days = Number(payload.days) > 0 ? Number(payload.days) : APPROVAL_VALID_DAYS;
+        const { token, claims } = signActivationToken(SIGNING_KEY, email, days);
+        audit(admin, 'approve', email, `${days} days, token ${claims.jti}`);
+        return sendJson(res, toAdminView(updateUserRecord(email, { ...decision, status: 'active', token, tokenExpiresAt: claims.exp * 1000 })));
+    }
+    if (path === '/api/admin/reject') {
+        // Rejecting an approved account also invalidates the token it was already handed
+        addRevocation({ sub: email, revokedAt: Math.floor(Date.now() / 1000) });
+        audit(admin, 'reject', email, payload.reason ? String(payload.reason) : undefined);
+        return sendJson(res, toAdminView(updateUserRecord(email, { ...decision, status: 'rejected', token: undefined, tokenExpiresAt: undefined })));
+    }
+    if (path === '/api/admin/role') {
+        if (!isUserRole(payload.role)) return sendError(res, 400, `Unknown role: ${payload.role}`);
+        audit(admin, 'role', email, `${roleOf(email)} → ${payload.role}`);
+        return sendJson(res, toAdminView(updateUserRecord(email, { role: payload.role })));
+    }
+    if (path === '/api/admin/deactivate') {
+        addRevocation({ sub: email, revokedAt: Math.floor(Date.now() / 1000) });
+        audit(admin, 'deactivate', email, payload.reason ? String(payload.reason) : undefined);
+        return sendJson(res, toAdminView(updateUserRecord(email, { ...decision, status: 'deactivated', token: undefined, tokenExpiresAt: undefined })));
+    }
+    return sendError(res, 404, `No route for ${method} ${path}`);
+};
+
+// Forwards one call to the Gemini API and relays status, body and Retry-After untouched. Only called
+// for token-verified users, so the user's full role applies.
+const forward = async (res: ServerResponse, user: string, kind: QuotaKind, cost: number, model: string, method: string, body: unknown) => {
+    if (!MODEL_PATTERN.test(model)) return sendError(res, 400, `Model not allowed: ${model}`);
+
+    const record = getUsage(user);
+    const role = roleOf(user);
+    if (!isModelAllowedForRole(role, model)) return sendError(res, 403, `Model ${model} is not allowed for the ${role} role.`);
+    const limit = limitFor(kind, user);
+    if (limit === 0) return sendError(res, 403, `Image generation is not allowed for the ${role} role.`);
+    if (record[kind] + cost > limit) {
+        return sendError(res, 429, `Daily ${kind} quota reached (${limit}). It resets at midnight.`, { 'Retry-After': String(secondsUntilMidnight()) });
+    }
+
+    // Stop the upstream call when the browser cancels
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+
+    // Reserve the cost up front so parallel requests can't overshoot; only successful calls keep it
+    record[kind] += cost;
+    let upstream: Response;
+    let text: string;
+    try {
+        upstream = await fetch(`${UPSTREAM}/${model}:${method}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': API_KEY },
+            body: JSON.stringify(body),
+            signal: controller.signal
+        });
+        text = await upstream.text();
+    } catch (e) {
+        record[kind] -= cost;
+        throw e;
+    }
+    if (!upstream.ok) record[kind] -= cost;
+    saveUsage();
+    const headers: Record<string, string> = { 'Content-Type': upstream.headers.get('content-type') || 'application/json' };
+    const retryAfter = upstream.headers.get('retry-after');
+    if (retryAfter) headers['Retry-After'] = retryAfter;
+    res.writeHead(upstream.status, headers);
+    res.end(text);
+    console.log(`${new Date().toISOString()} ${user} ${kind} ${model}:${method} -> ${upstream.status}`);
+};
+
+// --- Routes ---
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    applyCors(req, res);
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        return res.end();
+    }
+
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (req.method === 'GET' && path === '/api/health') return sendJson(res, { ok: true, keyConfigured: !!API_KEY });
+
+    // Lets the browser notice revoked tokens, which it cannot see on its own
+    if (req.method === 'POST' && path === '/api/activation/verify') {
+        const result = verifyActivationToken(ACTIVATION_KEY, String((await readJsonBody(req)).token || ''));
+        return sendJson(res, result.valid ? { valid: true, sub: result.claims.sub, exp: result.claims.exp } : result);
+    }
+
+    // Access requests from the login screen; `secret` lets the same browser collect its token later.
+    // Nothing proves the requester owns the e-mail, so every request waits for an admin, company domains too.
+    if (req.method === 'POST' && path === '/api/users/register') {
+        const payload = await readJsonBody(req);
+        const email = normalizeEmail(payload.email);
+        if (!email.includes('@') || !payload.name || !payload.secret) return sendError(res, 400, "name, email and secret are required");
+        const record = registerUser({ email, name: String(payload.name), position: String(payload.position || '') }, String(payload.secret));
+        if (!record) return sendError(res, 409, "This e-mail already has an access request from another browser. Please contact an administrator.");
+        return sendJson(res, { status: record.status });
+    }
+    if (req.method === 'POST' && path === '/api/users/status') {
+        const payload = await readJsonBody(req);
+        const record = getUserRecord(normalizeEmail(payload.email));
+        if (!record || !payload.secret || record.secretHash !== hashSecret(String(payload.secret))) return sendError(res, 404, "No access request found for this browser.");
+        return sendJson(res, { status: record.status, ...(record.status === 'active' && record.token ? { token: record.token } : {}) });
+    }
+
+    const auth = getUser(req);
+    if ('error' in auth) return sendError(res, 401, auth.error);
+    const { user, verified } = auth;
+    const isAdmin = roleOf(user, verified) === 'admin';
+
+    if (req.method === 'GET' && path === '/api/users/me') {
+        return sendJson(res, { email: user, status: getUserRecord(user)?.status || 'unknown', role: roleOf(user, verified), isAdmin });
+    }
+
+    if (path.startsWith('/api/admin/')) {
+        if (!isAdmin) return sendError(res, 403, "Administrator access required.");
+        return handleAdmin(res, user, req.method || '', path, req.method === 'POST' ? await readJsonBody(req) : {});
+    }
+
+    if (req.method === 'GET' && path === '/api/quota') {
+        const record = getUsage(user);
+        return sendJson(res, {
+            date: record.date,
+            images: { used: record.images, limit: limitFor('images', user, verified) },
+            text: { used: record.text, limit: DAILY_TEXT_QUOTA }
+        });
+    }
+
+    if (req.method !== 'POST') return sendError(res, 404, `No route for ${req.method} ${path}`);
+    const payload = await readJsonBody(req);
+
+    // Spending the Gemini key or adding to a usage count takes a signed token; the header alone would
+    // let anyone claim a colleague's quota or inflate their figures in the admin console
+    if (!verified) {
+        return sendError(res, 401, "An activation token is required to generate. Please request access or re-activate your account.");
+    }
+
+    // The app's own generation counter (all providers, not only the ones behind this proxy)
+    if (path === '/api/usage/report') {
+        recordGeneratedImages(user, Math.max(0, Math.round(Number(payload.images) || 0)));
+        return sendJson(res, { ok: true });
+    }
+
+    // Text / vision analysis: { model, contents, generationConfig? }
+    if (path === '/api/analyze') {
+        const { model, ...body } = payload;
+        return forward(res, user, 'text', 1, String(model || ''), 'generateContent', body);
+    }
+
+    // Image generation: { model, method: 'predict' | 'generateContent', body }
+    if (path === '/api/generate') {
+        const method = String(payload.method || '');
+        if (!IMAGE_METHODS.includes(method)) return sendError(res, 400, `Method not allowed: ${method}`);
+        const cost = method === 'predict' ? Math.max(1, Number(payload.body?.parameters?.sampleCount) || 1) : 1;
+        return forward(res, user, 'images', cost, String(payload.model || ''), method, payload.body);
+    }
+
+    return sendError(res, 404, `No route for ${req.method} ${path}`);
+};
+
+if (!API_KEY) {
+    console.error("GEMINI_API_KEY is not set; the proxy cannot serve requests.");
+    process.exit(1);
+}
+
+loadUsage();
+loadRegistry();
+
+createServer((req, res) => {
+    handle(req, res).catch((e: any) => {
+        if (e?.name === 'AbortError') return;
+        console.error("Proxy error:", e);
+        if (!res.headersSent) sendError(res, e?.status || 502, e?.message || "Proxy error");
+    });
+}).listen(PORT, () => {
+    console.log(`Gemini proxy listening on :${PORT} (text ${DAILY_TEXT_QUOTA}/day per user, image quotas by role)`);
+});
@@ -0,0 +1,132 @@
+import { createHash } from "node:crypto";
+import { appendFileSync, readFileSync, writeFileSync } from "node:fs";
+import type { UserRole } from "../types.ts";
+
+// --- User Registry & Audit Log ---
+// Server-side record of everyone who asked for access, what the admins decided and how much each
+// user generated. Backs the admin console (components/AdminConsole.tsx) through the proxy routes.
+//
+//   PROXY_USERS_FILE    default proxy-users.json
+//   PROXY_AUDIT_FILE    append-only JSON lines, default proxy-audit.jsonl
+
+export type RegistryStatus = 'pending' | 'active' | 'rejected' | 'deactivated';
+
+export interface UserRecord {
+    email: string;
+    name: string;
+    position: string;
+    status: RegistryStatus;
+    role?: UserRole;            // unset = DEFAULT_ROLE (services/rolePermissions.ts)
+    requestedAt: number;
+    decidedAt?: number;
+    decidedBy?: string;
+    secretHash?: string;        // proves a status poll comes from the browser that registered
+    token?: string;             // latest activation token, handed to that browser once approved
+    tokenExpiresAt?: number;
+    imagesGenerated: number;    // as reported by the app's generation counter
+    lastSeenAt?: number;
+}
+
+export type AuditAction = 'request' | 'approve' | 'reject' | 'deactivate' | 'role';
+
+export interface AuditEntry {
+    at: number;
+    actor: string;      // admin e-mail, or the user themselves for 'request'
+    action: AuditAction;
+    target: string;
+    detail?: string;
+}
+
+const USERS_FILE = process.env.PROXY_USERS_FILE || 'proxy-users.json';
+const AUDIT_FILE = process.env.PROXY_AUDIT_FILE || 'proxy-audit.jsonl';
+
+const users = new Map<string, UserRecord>();
+
+export const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+export const loadRegistry = () => {
+    try {
+        const stored: UserRecord[] = JSON.parse(readFileSync(USERS_FILE, 'utf8'));
+        stored.forEach(record => users.set(record.email, record));
+    } catch {
+        // First run: empty registry
+    }
+};
+
+const saveRegistry = () => {
+    try {
+        writeFileSync(USERS_FILE, JSON.stringify([...users.values()], null, 2));
+    } catch (e) {
+        console.error("Could not write users file:", e);
+    }
+};
+
+export const audit = (actor: string, action: AuditAction, target: string, detail?: string) => {
+    const entry: AuditEntry = { at: Date.now(), actor, action, target, ...(detail ? { detail } : {}) };
+    try {
+        appendFileSync(AUDIT_FILE, JSON.stringify(entry) + '\n');
+    } catch (e) {
+        console.error("Could not write audit log:", e);
+    }
+};
+
+/** Newest first. */
+export const readAudit = (limit: number): AuditEntry[] => {
+    try {
+        return readFileSync(AUDIT_FILE, 'utf8').trim().split('\n').filter(Boolean).slice(-limit).reverse().map(line => JSON.parse(line));
+    } catch {
+        return [];
+    }
+};
+
+export const getUserRecord = (email: string): UserRecord | undefined => users.get(email);
+
+export const listUserRecords = (): UserRecord[] => [...users.values()].sort((a, b) => b.requestedAt - a.requestedAt);
+
+/**
+ * New requests, and renewals after expiry/rejection/deactivation, go (back) to pending. Returns null
+ * when the e-mail already has a request from another browser: only the browser that holds the
+ * original secret may renew it, so nobody else can collect the token an admin later issues.
+ */
+export const registerUser = (details: Pick<UserRecord, 'email' | 'name' | 'position'>, secret: string): UserRecord | null => {
+    const existing = users.get(details.email);
+    const now = Date.now();
+    if (existing?.secretHash && existing.secretHash !== hashSecret(secret)) return null;
+    // A live account is left as it is
+    if (existing?.status === 'active' && (existing.tokenExpiresAt || 0) > now) {
+        existing.lastSeenAt = now;
+        saveRegistry();
+        return existing;
+    }
+
+    const record: UserRecord = {
+        ...details,
+        status: 'pending',
+        requestedAt: now,
+        secretHash: hashSecret(secret),
+        imagesGenerated: existing?.imagesGenerated || 0,
+        ...(existing?.role ? { role: existing.role } : {}),
+        lastSeenAt: now
+    };
+    users.set(details.email, record);
+    saveRegistry();
+    audit(details.email, 'request', details.email, existing ? `renewal, was ${existing.status}` : undefined);
+    return record;
+};
+
+export const updateUserRecord = (email: string, update: Partial<UserRecord>): UserRecord | undefined => {
+    const existing = users.get(email);
+    if (!existing) return undefined;
+    const record = { ...existing, ...update };
+    users.set(email, record);
+    saveRegistry();
+    return record;
+};
+
+export const recordGeneratedImages = (email: string, count: number) => {
+    const record = users.get(email);
+    if (!record) return;
+    record.imagesGenerated += count;
+    record.lastSeenAt = Date.now();
+    saveRegistry();
+};
@@ -0,0 +1,129 @@
+import { UserInfo } from "../types";
+import { getProxyUrl } from "./apiProxy";
+
+// --- Account Activation ---
+// Users outside the company domains, and everyone once a proxy is configured, activate with an
+// admin-issued token: an ES256 JWT binding their e-mail to an expiry (issued with
+// `npm run activation -- issue <email>` or from the admin console, see server/activation.ts).
+// The signature and expiry are checked here with the public key baked in at build time
+// (ACTIVATION_PUBLIC_KEY); revocation is only known to the proxy, which is asked when configured.
+
+const USER_KEY = 'cpgvn_user';
+
+export const COMPANY_DOMAINS = ['cpgcorp.com.sg', 'cpgvietnam.com.vn'];
+
+export type ActivationFailure = 'unconfigured' | 'malformed' | 'signature' | 'expired' | 'email' | 'revoked';
+
+export type ActivationResult = { valid: true; email: string; expiresAt: number } | { valid: false; reason: ActivationFailure };
+
+export const isCompanyEmail = (email: string): boolean => COMPANY_DOMAINS.includes(email.trim().toLowerCase().split('@')[1] || '');
+
+export const getStoredUser = (): UserInfo | null => {
+    try {
+        return JSON.parse(localStorage.getItem(USER_KEY) || 'null');
+    } catch {
+        return null;
+    }
+};
+
+export const saveStoredUser = (user: UserInfo | null) => {
+    if (user) {
+        localStorage.setItem(USER_KEY, JSON.stringify(user));
+    } else {
+        localStorage.removeItem(USER_KEY);
+    }
+};
+
+const base64UrlToBytes = (value: string): Uint8Array<ArrayBuffer> => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+};
+
+let publicKeyPromise: Promise<CryptoKey | null> | null = null;
+
+const getPublicKey = (): Promise<CryptoKey | null> => {
+    if (!publicKeyPromise) {
+        const spki = process.env.ACTIVATION_PUBLIC_KEY || '';
+        publicKeyPromise = spki
+            ? crypto.subtle.importKey('spki', base64UrlToBytes(spki), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']).catch(e => {
+                console.error("Invalid ACTIVATION_PUBLIC_KEY:", e);
+                return null;
+            })
+            : Promise.resolve(null);
+    }
+    return publicKeyPromise;
+};
+
+/** Checks signature, expiry and that the token was issued for `email`. Does not know about revocation. */
+export const verifyActivationToken = async (token: string, email: string): Promise<ActivationResult> => {
+    const key = await getPublicKey();
+    if (!key) return { valid: false, reason: 'unconfigured' };
+    const [header, payload, signature] = token.trim().split('.');
+    if (!header || !payload || !signature) return { valid: false, reason: 'malformed' };
+
+    let claims: { sub?: string; exp?: number };
+    try {
+        if (JSON.parse(new TextDecoder().decode(base64UrlToBytes(header))).alg !== 'ES256') return { valid: false, reason: 'malformed' };
+        claims = JSON.parse(new TextDecoder().decode(base64UrlToBytes(payload)));
+    } catch {
+        return { valid: false, reason: 'malformed' };
+    }
+
+    const signatureOk = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        base64UrlToBytes(signature),
+        new TextEncoder().encode(`${header}.${payload}`)
+    ).catch(() => false);
+    if (!signatureOk) return { valid: false, reason: 'signature' };
+    if (!claims.exp || claims.exp * 1000 < Date.now()) return { valid: false, reason: 'expired' };
+    if (!claims.sub || claims.sub !== email.trim().toLowerCase()) return { valid: false, reason: 'email' };
+    return { valid: true, email: claims.sub, expiresAt: claims.exp * 1000 };
+};
+
+// Asks the proxy whether the token was revoked. Unreachable proxy = not revoked, so users can work offline.
+const isRevokedByProxy = async (token: string): Promise<boolean> => {
+    const proxyUrl = getProxyUrl();
+    if (!proxyUrl) return false;
+    try {
+        const response = await fetch(`${proxyUrl}/api/activation/verify`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ token })
+        });
+        if (!response.ok) return false;
+        const data = await response.json();
+        return data.valid === false && data.reason === 'revoked';
+    } catch {
+        return false;
+    }
+};
+
+/** Activates the stored user with a pasted token. Returns the failure reason, or the activated user. */
+export const activateWithToken = async (user: UserInfo, token: string): Promise<ActivationResult & { user?: UserInfo }> => {
+    const result = await verifyActivationToken(token, user.email);
+    if (!result.valid) return result;
+    if (await isRevokedByProxy(token)) return { valid: false, reason: 'revoked' };
+    const activeUser: UserInfo = { ...user, email: result.email, status: 'active', activationToken: token.trim() };
+    saveStoredUser(activeUser);
+    return { ...result, user: activeUser };
+};
+
+/**
+ * Re-checks the stored user on start-up. Expired or revoked tokens, and accounts without a token
+ * (old hash codes, or company e-mails once a proxy is configured), drop to 'expired' for re-activation.
+ */
+export const revalidateStoredUser = async (): Promise<UserInfo | null> => {
+    const user = getStoredUser();
+    if (!user || user.status !== 'active') return user;
+    if (isCompanyEmail(user.email) && !user.activationToken && !getProxyUrl()) return user;
+
+    const result = user.activationToken ? await verifyActivationToken(user.activationToken, user.email) : null;
+    // A missing public key in this build is a deployment problem, not the user's: keep them signed in
+    const stillValid = result && (result.valid || ('reason' in result && result.reason === 'unconfigured'));
+    if (stillValid && !(await isRevokedByProxy(user.activationToken!))) return user;
+
+    const expiredUser: UserInfo = { ...user, status: 'expired' };
+    saveStoredUser(expiredUser);
+    return expiredUser;
+};
@@ -0,0 +1,67 @@
+import { errorFromResponse } from "./errors";
+
+// --- API Key Proxy (client side) ---
+// When a proxy URL is configured, Gemini/Imagen calls go to server/proxy.ts, which holds the key and
+// enforces per-user quotas; the browser never sees the key. The URL comes from settings or is baked
+// in at build time with API_PROXY_URL (vite.config.ts).
+
+const PROXY_URL_KEY = 'cpgvn_proxy_url';
+
+export const getProxyUrl = (): string => (localStorage.getItem(PROXY_URL_KEY) || process.env.API_PROXY_URL || '').replace(/\/+$/, '');
+
+export const updateProxyUrl = (url: string) => {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    if (trimmed) {
+        localStorage.setItem(PROXY_URL_KEY, trimmed);
+    } else {
+        localStorage.removeItem(PROXY_URL_KEY);
+    }
+};
+
+// The proxy meters usage per signed-in user; an activation token, when present, proves who that is
+const getUserHeaders = (): Record<string, string> => {
+    try {
+        const user = JSON.parse(localStorage.getItem('cpgvn_user') || 'null');
+        return {
+            "X-CPGVN-User": user?.email || '',
+            ...(user?.activationToken ? { "Authorization": `Bearer ${user.activationToken}` } : {})
+        };
+    } catch {
+        return {};
+    }
+};
+
+/** POSTs to a proxy route; failures become the same typed errors as direct calls. */
+export const proxyPost = async (baseUrl: string, path: string, body: unknown, signal?: AbortSignal): Promise<any> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getUserHeaders() },
+        signal,
+        body: JSON.stringify(body)
+    });
+    if (!response.ok) throw await errorFromResponse(response, 'Gemini proxy');
+    return response.json();
+};
+
+export const proxyGet = async (baseUrl: string, path: string, signal?: AbortSignal): Promise<any> => {
+    const response = await fetch(`${baseUrl}${path}`, { headers: getUserHeaders(), signal });
+    if (!response.ok) throw await errorFromResponse(response, 'Gemini proxy');
+    return response.json();
+};
+
+/** Drop-in for the parts of the GoogleGenAI client the app uses (models.generateContent). */
+export const createProxyClient = (baseUrl: string) => ({
+    models: {
+        generateContent: async (request: any) => {
+            const { abortSignal, ...generationConfig } = request?.config || {};
+            const data = await proxyPost(baseUrl, '/api/analyze', {
+                model: request.model,
+                contents: request.contents,
+                ...(Object.keys(generationConfig).length ? { generationConfig } : {})
+            }, abortSignal);
+            const text = (data.candidates?.[0]?.content?.parts || []).map((p: any) => p.text || '').join('');
+            // Expose both the legacy `response.text()` and the current `text` string shapes
+            return { ...data, text, response: { text: () => text } };
+        }
+    }
+});
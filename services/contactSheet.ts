@@ -0,0 +1,101 @@
+// --- Contact Sheet ---
+// Lays a matrix of renders out on one image with labelled rows and columns, for client option reviews.
+
+export interface ContactSheetInput {
+    title: string;
+    subtitle?: string;
+    rowLabels: string[];           // [''] for a single row
+    columnLabels: string[];
+    cells: (string | null)[][];    // [row][column] image URLs; null leaves the cell blank
+}
+
+const CELL_WIDTH = 512;
+const GAP = 16;
+const PADDING = 40;
+const LABEL_WIDTH = 220;
+const HEADER_HEIGHT = 48;
+const TITLE_HEIGHT = 90;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+});
+
+// Wraps text into at most `maxLines` lines that fit `width`
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, width: number, maxLines: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > width && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines.slice(0, maxLines);
+};
+
+/** Renders the sheet to a PNG data URL. Cells keep the aspect ratio of the first image. */
+export const renderContactSheet = async (input: ContactSheetInput): Promise<string> => {
+    const images = await Promise.all(input.cells.map(row => Promise.all(row.map(src => src ? loadImage(src).catch(() => null) : null))));
+    const first = images.flat().find(Boolean);
+    const cellHeight = first ? Math.round(CELL_WIDTH * first.height / first.width) : CELL_WIDTH;
+    const hasRowLabels = input.rowLabels.some(Boolean);
+    const labelWidth = hasRowLabels ? LABEL_WIDTH : 0;
+    const columns = input.columnLabels.length;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = PADDING * 2 + labelWidth + columns * CELL_WIDTH + (columns - 1) * GAP;
+    canvas.height = PADDING * 2 + TITLE_HEIGHT + HEADER_HEIGHT + input.rowLabels.length * (cellHeight + GAP);
+    const ctx = canvas.getContext('2d')!;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = '#111827';
+    ctx.font = 'bold 32px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.fillText(input.title, PADDING, PADDING);
+    if (input.subtitle) {
+        ctx.fillStyle = '#6b7280';
+        ctx.font = '18px sans-serif';
+        ctx.fillText(input.subtitle, PADDING, PADDING + 44);
+    }
+
+    const gridTop = PADDING + TITLE_HEIGHT;
+    const gridLeft = PADDING + labelWidth;
+
+    ctx.fillStyle = '#111827';
+    ctx.font = 'bold 20px sans-serif';
+    ctx.textAlign = 'center';
+    input.columnLabels.forEach((label, c) => {
+        const lines = wrapText(ctx, label, CELL_WIDTH - 16, 2);
+        lines.forEach((line, i) => ctx.fillText(line, gridLeft + c * (CELL_WIDTH + GAP) + CELL_WIDTH / 2, gridTop + i * 22));
+    });
+
+    ctx.textAlign = 'left';
+    input.rowLabels.forEach((label, r) => {
+        const top = gridTop + HEADER_HEIGHT + r * (cellHeight + GAP);
+        if (label) {
+            const lines = wrapText(ctx, label, LABEL_WIDTH - 24, 4);
+            lines.forEach((line, i) => ctx.fillText(line, PADDING, top + cellHeight / 2 - lines.length * 11 + i * 22));
+        }
+        images[r].forEach((img, c) => {
+            const left = gridLeft + c * (CELL_WIDTH + GAP);
+            if (img) {
+                ctx.drawImage(img, left, top, CELL_WIDTH, cellHeight);
+            } else {
+                ctx.fillStyle = '#e5e7eb';
+                ctx.fillRect(left, top, CELL_WIDTH, cellHeight);
+                ctx.fillStyle = '#111827';
+            }
+        });
+    });
+
+    return canvas.toDataURL('image/png');
+};
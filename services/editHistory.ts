@@ -0,0 +1,83 @@
+import { EditHistoryNode, EditHistoryTree, EditorDocument } from "../types";
+
+// --- Edit History Tree ---
+// Every command in the Edit tab stores the whole document it produced. Documents are immutable and
+// share unchanged layers and images, so a step costs little more than what the command changed and
+// the history needs no limit. Nothing is ever dropped: undoing and then editing forks a new branch.
+
+// Commands with the same merge key within this window extend the current step instead of adding one
+const MERGE_WINDOW_MS = 1000;
+
+type CommandInfo = Pick<EditHistoryNode, 'action' | 'detail' | 'result' | 'original' | 'mergeKey'>;
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createHistory = (document: EditorDocument, action: string = 'cmd_open'): EditHistoryTree => {
+    const root: EditHistoryNode = { id: newId(), parentId: null, children: [], action, document, timestamp: Date.now() };
+    return { nodes: { [root.id]: root }, rootId: root.id, currentId: root.id, redoIds: {} };
+};
+
+/** Records a document as the result of a command, after the current step. */
+export const commitHistory = (tree: EditHistoryTree, document: EditorDocument, command: CommandInfo): EditHistoryTree => {
+    const current = tree.nodes[tree.currentId];
+    const now = Date.now();
+    if (command.mergeKey && current.mergeKey === command.mergeKey && current.children.length === 0 && now - current.timestamp < MERGE_WINDOW_MS) {
+        return { ...tree, nodes: { ...tree.nodes, [current.id]: { ...current, document, timestamp: now } } };
+    }
+
+    const node: EditHistoryNode = { id: newId(), parentId: current.id, children: [], ...command, document, timestamp: now };
+    return {
+        ...tree,
+        nodes: { ...tree.nodes, [current.id]: { ...current, children: [...current.children, node.id] }, [node.id]: node },
+        currentId: node.id,
+        redoIds: { ...tree.redoIds, [current.id]: node.id }
+    };
+};
+
+export const undoHistory = (tree: EditHistoryTree): EditHistoryTree => {
+    const parentId = tree.nodes[tree.currentId].parentId;
+    return parentId ? { ...tree, currentId: parentId, redoIds: { ...tree.redoIds, [parentId]: tree.currentId } } : tree;
+};
+
+/** Steps forward along the branch last visited from here (the newest branch if none was). */
+export const redoHistory = (tree: EditHistoryTree): EditHistoryTree => {
+    const { children } = tree.nodes[tree.currentId];
+    const childId = tree.redoIds[tree.currentId] ?? children[children.length - 1];
+    return childId ? { ...tree, currentId: childId } : tree;
+};
+
+/** Makes any step current; redo from its ancestors then leads back to it. */
+export const jumpToHistory = (tree: EditHistoryTree, id: string): EditHistoryTree => {
+    if (!tree.nodes[id]) return tree;
+    const redoIds = { ...tree.redoIds };
+    for (let node = tree.nodes[id]; node.parentId; node = tree.nodes[node.parentId]) {
+        redoIds[node.parentId] = node.id;
+    }
+    return { ...tree, currentId: id, redoIds };
+};
+
+/** Ids from the root to the current step. */
+export const currentPath = (tree: EditHistoryTree): Set<string> => {
+    const path = new Set<string>();
+    for (let id: string | null = tree.currentId; id; id = tree.nodes[id].parentId) path.add(id);
+    return path;
+};
+
+/**
+ * The tree as rows for display, depth first. A step's first child continues its branch at the same
+ * depth; each later child opens a branch one level deeper.
+ */
+export const historyRows = (tree: EditHistoryTree): { node: EditHistoryNode; depth: number }[] => {
+    const rows: { node: EditHistoryNode; depth: number }[] = [];
+    const stack: { id: string; depth: number }[] = [{ id: tree.rootId, depth: 0 }];
+    while (stack.length > 0) {
+        const { id, depth } = stack.pop()!;
+        const node = tree.nodes[id];
+        rows.push({ node, depth });
+        // Pushed in reverse so the first child is visited next
+        for (let i = node.children.length - 1; i >= 0; i--) {
+            stack.push({ id: node.children[i], depth: i === 0 ? depth : depth + 1 });
+        }
+    }
+    return rows;
+};
@@ -0,0 +1,168 @@
+import { BoundingBox, EditorAsset, EditorDocument, EditorLayer, EditorLayerKind, EditorText, LayerBlendMode } from "../types";
+
+// --- Layered Edit Document ---
+// The Edit tab works on a stack of layers over the base photo: generated patches, brush masks,
+// placed assets and text notes. Generation reads the visible pixel layers and masks; export
+// flattens everything except masks. The whole document is saved with each edit history entry.
+
+export const BLEND_MODES: LayerBlendMode[] = ['normal', 'multiply', 'screen', 'overlay', 'darken', 'lighten'];
+
+// Layers that hold photo pixels; generation edits what these show
+const PIXEL_KINDS: EditorLayerKind[] = ['base', 'patch'];
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createLayer = (kind: EditorLayerKind, name: string, content: Pick<EditorLayer, 'image' | 'assets' | 'texts'> = {}): EditorLayer => ({
+    id: newId(),
+    kind,
+    name,
+    visible: true,
+    opacity: 1,
+    blendMode: 'normal',
+    locked: kind === 'base',
+    ...(kind === 'asset' ? { assets: [] } : {}),
+    ...(kind === 'text' ? { texts: [] } : {}),
+    ...content
+});
+
+/** A fresh document: the photo plus an empty mask layer to paint on. */
+export const createDocument = (baseImage: string, width: number, height: number, names: { base: string; mask: string }): EditorDocument => {
+    const mask = createLayer('mask', names.mask);
+    return { width, height, layers: [createLayer('base', names.base, { image: baseImage }), mask], activeLayerId: mask.id };
+};
+
+/** Moves a layer one step up (1) or down (-1); nothing moves below the base photo. */
+export const moveLayer = (layers: EditorLayer[], id: string, direction: 1 | -1): EditorLayer[] => {
+    const index = layers.findIndex(l => l.id === id);
+    const target = index + direction;
+    if (index < 1 || target < 1 || target >= layers.length) return layers;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
+
+/** Inserts a layer just above the topmost layer of one of the given kinds (or at the top). */
+export const insertAbove = (layers: EditorLayer[], layer: EditorLayer, kinds: EditorLayerKind[]): EditorLayer[] => {
+    let index = layers.length;
+    for (let i = layers.length - 1; i >= 0; i--) {
+        if (kinds.includes(layers[i].kind)) { index = i + 1; break; }
+    }
+    return [...layers.slice(0, index), layer, ...layers.slice(index)];
+};
+
+/** Visible assets in stacking order, back to front. */
+export const visibleAssets = (layers: EditorLayer[]): EditorAsset[] =>
+    layers.filter(l => l.kind === 'asset' && l.visible).flatMap(l => [...(l.assets || [])].sort((a, b) => a.zIndex - b.zIndex));
+
+// --- Rendering ---
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load a layer image."));
+    img.src = src;
+});
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+/** Stretches an image to the document size, e.g. a generated result returned at another resolution. */
+export const fitToDocument = async (src: string, width: number, height: number): Promise<string> => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(await loadImage(src), 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+// Text notes: bold with a dark outline so they read on any background (TextLayer draws them the same way)
+export const drawText = (ctx: CanvasRenderingContext2D, item: EditorText) => {
+    ctx.font = `bold ${item.fontSize}px sans-serif`;
+    ctx.textBaseline = 'top';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = item.fontSize * 0.12;
+    ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+    ctx.strokeText(item.text, item.x, item.y);
+    ctx.fillStyle = item.color;
+    ctx.fillText(item.text, item.x, item.y);
+};
+
+const drawLayerContent = async (ctx: CanvasRenderingContext2D, layer: EditorLayer, width: number, height: number) => {
+    if (layer.image) ctx.drawImage(await loadImage(layer.image), 0, 0, width, height);
+    for (const asset of [...(layer.assets || [])].sort((a, b) => a.zIndex - b.zIndex)) {
+        const img = await loadImage(asset.src);
+        ctx.save();
+        ctx.translate(asset.x + asset.width / 2, asset.y + asset.height / 2);
+        ctx.rotate((asset.rotation * Math.PI) / 180);
+        ctx.drawImage(img, -asset.width / 2, -asset.height / 2, asset.width, asset.height);
+        ctx.restore();
+    }
+    (layer.texts || []).forEach(item => drawText(ctx, item));
+};
+
+/**
+ * Composites the visible layers bottom to top with their opacity and blend mode. Masks are editing
+ * aids and never flattened; pass pixelsOnly for the photo as the generator should see it.
+ */
+export const flattenDocument = async (doc: EditorDocument, options: { pixelsOnly?: boolean } = {}): Promise<string> => {
+    const { canvas, ctx } = createCanvas(doc.width, doc.height);
+    for (const layer of doc.layers) {
+        if (!layer.visible || layer.kind === 'mask') continue;
+        if (options.pixelsOnly && !PIXEL_KINDS.includes(layer.kind)) continue;
+        // Each layer is drawn on its own so opacity and blending apply to the layer as a whole
+        const { canvas: layerCanvas, ctx: layerCtx } = createCanvas(doc.width, doc.height);
+        await drawLayerContent(layerCtx, layer, doc.width, doc.height);
+        ctx.globalAlpha = layer.opacity;
+        ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+        ctx.drawImage(layerCanvas, 0, 0);
+    }
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Black and white mask for the generator: any stroke pixel on a visible mask layer becomes full white,
+ * the rest black. Brush opacity only changes how the overlay looks. hasMask is false when nothing is
+ * painted, which makes the edit a whole-image pass.
+ */
+export const buildMask = async (doc: EditorDocument): Promise<{ mask: string; hasMask: boolean }> => {
+    const { canvas, ctx } = createCanvas(doc.width, doc.height);
+    for (const layer of doc.layers) {
+        if (layer.kind === 'mask' && layer.visible && layer.image) {
+            ctx.drawImage(await loadImage(layer.image), 0, 0, doc.width, doc.height);
+        }
+    }
+
+    let hasMask = false;
+    const image = ctx.getImageData(0, 0, doc.width, doc.height);
+    const pixels = image.data;
+    for (let i = 0; i < pixels.length; i += 4) {
+        const value = pixels[i + 3] > 0 ? 255 : 0;
+        if (value) hasMask = true;
+        pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+        pixels[i + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+    return { mask: canvas.toDataURL('image/png'), hasMask };
+};
+
+/** Bounding box of the non-black pixels of a B/W mask (as from buildMask), or null when it is all black. */
+export const maskBounds = async (mask: string, width: number, height: number): Promise<BoundingBox | null> => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(await loadImage(mask), 0, 0, width, height);
+    const pixels = ctx.getImageData(0, 0, width, height).data;
+    let [minX, minY, maxX, maxY] = [width, height, -1, -1];
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            // Any coverage counts, as for the strokes the mask was built from (see maskOps.ts)
+            if (pixels[(y * width + x) * 4] === 0) continue;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
@@ -0,0 +1,177 @@
+// --- Provider Error Taxonomy ---
+// Every provider (Gemini text, Imagen, self-hosted, Pollinations...) reports failures as one of these
+// typed errors, so the service layer can decide whether to retry / fall back and the UI can tell the
+// user what happened and what to do (see addErrorToast in Toast.tsx).
+
+export type ProviderErrorKind = 'QuotaExceeded' | 'InvalidKey' | 'SafetyBlocked' | 'ProviderUnavailable' | 'BadInput' | 'PermissionDenied';
+
+interface ProviderErrorInit {
+    provider?: string;       // provider label, for logs
+    status?: number;         // HTTP status when there was one
+    retryAfterMs?: number;   // server-suggested wait (Retry-After header or Google RetryInfo)
+    retryable?: boolean;
+}
+
+export class ProviderError extends Error {
+    readonly kind: ProviderErrorKind;
+    readonly provider?: string;
+    readonly status?: number;
+    readonly retryAfterMs?: number;
+    readonly retryable: boolean;
+
+    constructor(kind: ProviderErrorKind, message: string, init: ProviderErrorInit = {}) {
+        super(message);
+        this.name = `${kind}Error`;
+        this.kind = kind;
+        this.provider = init.provider;
+        this.status = init.status;
+        this.retryAfterMs = init.retryAfterMs;
+        this.retryable = init.retryable ?? false;
+    }
+}
+
+/** 429 / RESOURCE_EXHAUSTED: rate limit or daily quota. Retried after the suggested delay. */
+export class QuotaExceededError extends ProviderError {
+    constructor(message: string, init: ProviderErrorInit = {}) {
+        super('QuotaExceeded', message, { retryable: true, ...init });
+    }
+}
+
+/** Missing, malformed or revoked API key (401/403). Never retried. */
+export class InvalidKeyError extends ProviderError {
+    constructor(message: string, init: ProviderErrorInit = {}) {
+        super('InvalidKey', message, init);
+    }
+}
+
+/** The prompt or image was rejected by the provider's safety filter. Never retried or routed elsewhere. */
+export class SafetyBlockedError extends ProviderError {
+    constructor(message: string, init: ProviderErrorInit = {}) {
+        super('SafetyBlocked', message, init);
+    }
+}
+
+/** Network failure, 5xx, or a model that is not available for this key. */
+export class ProviderUnavailableError extends ProviderError {
+    constructor(message: string, init: ProviderErrorInit = {}) {
+        super('ProviderUnavailable', message, init);
+    }
+}
+
+/** The request itself is wrong (unsupported image, oversized payload...). */
+export class BadInputError extends ProviderError {
+    constructor(message: string, init: ProviderErrorInit = {}) {
+        super('BadInput', message, init);
+    }
+}
+
+/** The user's role does not allow this model or action, or its daily image allowance is spent. */
+export class PermissionDeniedError extends ProviderError {
+    constructor(message: string, init: ProviderErrorInit = {}) {
+        super('PermissionDenied', message, init);
+    }
+}
+
+export const isProviderError = (e: unknown): e is ProviderError => e instanceof ProviderError;
+
+const SAFETY_PATTERN = /safety|blocked|prohibited|responsible ai|\brai\b/i;
+// Role refusals from the proxy (server/proxy.ts) are 403s too, but not key problems
+const ROLE_PATTERN = /not allowed for the \w+ role/i;
+const INVALID_KEY_PATTERN = /api key not valid|api_key_invalid|invalid api key|permission_denied/i;
+
+// Retry-After is either delta-seconds or an HTTP date.
+const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Google APIs put the delay in error.details[] as google.rpc.RetryInfo ("retryDelay": "31s").
+const parseRetryInfo = (body: any): number | undefined => {
+    const details: any[] = body?.error?.details || [];
+    const delay = details.find(d => typeof d?.retryDelay === 'string')?.retryDelay;
+    const seconds = delay ? parseFloat(delay) : NaN;
+    return isNaN(seconds) ? undefined : seconds * 1000;
+};
+
+/** Maps an HTTP status + message to the matching typed error. */
+export const classifyStatus = (status: number, message: string, init: ProviderErrorInit = {}): ProviderError => {
+    const withStatus = { status, ...init };
+    if (status === 429) return new QuotaExceededError(message, withStatus);
+    if (status === 403 && ROLE_PATTERN.test(message)) return new PermissionDeniedError(message, withStatus);
+    if (status === 401 || status === 403 || INVALID_KEY_PATTERN.test(message)) return new InvalidKeyError(message, withStatus);
+    if (SAFETY_PATTERN.test(message)) return new SafetyBlockedError(message, withStatus);
+    if (status === 400 || status === 413 || status === 415 || status === 422) return new BadInputError(message, withStatus);
+    if (status === 404) return new ProviderUnavailableError(message, withStatus);
+    return new ProviderUnavailableError(message, { retryable: status === 408 || status >= 500, ...withStatus });
+};
+
+/** Builds a typed error from a failed fetch Response (reads the JSON body when there is one). */
+export const errorFromResponse = async (response: Response, provider: string): Promise<ProviderError> => {
+    const body = await response.clone().json().catch(() => null);
+    const message = body?.error?.message || body?.detail || response.statusText || `HTTP ${response.status}`;
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After')) ?? parseRetryInfo(body);
+    return classifyStatus(response.status, `${provider} (${response.status}): ${message}`, { provider, retryAfterMs });
+};
+
+/**
+ * Normalises anything thrown by fetch or the @google/genai SDK into a ProviderError.
+ * Abort/timeout errors are returned untouched so cancellation keeps working.
+ */
+export const toProviderError = (e: any, provider: string): ProviderError | Error => {
+    if (isProviderError(e) || e?.name === 'AbortError' || e?.name === 'TimeoutError') return e;
+    const message = e?.message || String(e);
+    // SDK ApiError carries the HTTP status; its message is the JSON error body
+    if (typeof e?.status === 'number') {
+        let body: any = null;
+        try { body = JSON.parse(message.slice(message.indexOf('{'))); } catch { /* plain text */ }
+        return classifyStatus(e.status, `${provider}: ${body?.error?.message || message}`, { provider, retryAfterMs: parseRetryInfo(body) });
+    }
+    // fetch() rejects with a TypeError when the host is unreachable or CORS fails
+    if (e instanceof TypeError) return new ProviderUnavailableError(`${provider}: ${message}`, { provider, retryable: true });
+    if (SAFETY_PATTERN.test(message)) return new SafetyBlockedError(`${provider}: ${message}`, { provider });
+    return new ProviderUnavailableError(`${provider}: ${message}`, { provider });
+};
+
+// --- Retry with jittered exponential backoff ---
+export interface RetryOptions {
+    signal?: AbortSignal;
+    attempts?: number;       // total tries, including the first
+    baseDelayMs?: number;
+    maxDelayMs?: number;     // server delays above this are not waited out; the error is surfaced instead
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/** Runs `task`, retrying retryable ProviderErrors. Waits Retry-After when given, otherwise full-jitter backoff. */
+export const withRetry = async <T>(task: () => Promise<T>, provider: string, options: RetryOptions = {}): Promise<T> => {
+    const { signal, attempts = 3, baseDelayMs = 1000, maxDelayMs = 20000 } = options;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task();
+        } catch (raw) {
+            const error = toProviderError(raw, provider);
+            if (!isProviderError(error) || !error.retryable || attempt >= attempts || signal?.aborted) throw error;
+            if (error.retryAfterMs !== undefined && error.retryAfterMs > maxDelayMs) throw error;
+            const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            const delay = Math.max(error.retryAfterMs ?? 0, backoff);
+            console.warn(`${provider}: ${error.kind}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${attempts})`);
+            await sleep(delay, signal);
+        }
+    }
+};
@@ -1,28 +1,32 @@
-
 import { GoogleGenAI, Modality } from "@google/genai";
-import { SourceImage, BoundingBox, AnnotationBox } from "../types";
+import { SourceImage, BoundingBox, AnnotationBox, ElementPlacement, GenerationManifest, PromptSpec, RegionEditMode } from "../types";
+import { ImageCapability, ImageGenerationRequest, ImageProvider, getImageProviders, resolveProviders } from "./imageProviders";
+import { isLocalStandInEnabled, createLocalStandInClient } from "./localStandIn";
+import { createProxyClient, getProxyUrl } from "./apiProxy";
+import { assertCanGenerateImages, isModelAllowed, recordImageUsage } from "./permissions";
+import { startUsage } from "./usageLedger";
+import { VariationStrength, assemblePrompt, foldNegatives, promptSpecFromText, varyPromptSpec } from "./promptBuilder";
+import { InvalidKeyError, PermissionDeniedError, ProviderError, ProviderUnavailableError, isProviderError, withRetry } from "./errors";
+import { MODEL_IDS } from "./modelIds";
 
 // Initialize GoogleGenAI with a mechanism to update the API key.
 const getStoredApiKey = () => {
     return localStorage.getItem('cpgvn_gemini_api_key') || (typeof process !== 'undefined' ? process.env?.API_KEY : '') || '';
 };
 
-// Define Model IDs - Mapping User Request to Best Available Real Models
-// User Request: "gemini-3-flash-preview" (Text/Logic) -> Real: "gemini-2.0-flash" (Current SOTA Speed/Logic)
-// User Request: "gemini-2.5-flash-image" (Image/Vision) -> Real: "imagen-3.0-generate-001" (Current SOTA Image Gen)
-
-export const MODEL_IDS = {
-    TEXT_LOGIC: 'gemini-2.0-flash-exp', // Corrected: Needs '-exp' suffix for current access
-    IMAGE_GEN: 'imagen-3.0-generate-001', // Keeps Imagen 3
-};
-
 // Variable to hold the AI instance, initialized only if key exists
 let ai: any = null;
 let preferredModelId = localStorage.getItem('cpgvn_preferred_model') || MODEL_IDS.TEXT_LOGIC;
 
 const initAI = () => {
     const key = getStoredApiKey();
-    if (key) {
+    const proxyUrl = getProxyUrl();
+    if (isLocalStandInEnabled()) {
+        ai = createLocalStandInClient();
+    } else if (proxyUrl) {
+        // The proxy holds the key; the browser only needs the URL
+        ai = createProxyClient(proxyUrl);
+    } else if (key) {
         try {
             ai = new GoogleGenAI({ apiKey: key });
         } catch (e) {
@@ -47,6 +51,7 @@ export const updateGeminiApiKey = (newKey: string) => {
 };
 
 export const updatePreferredModel = (modelId: string) => {
+    if (!isModelAllowed(modelId)) throw new PermissionDeniedError(`${modelId} is not allowed for your role`);
     preferredModelId = modelId;
     localStorage.setItem('cpgvn_preferred_model', modelId);
 };
@@ -55,144 +60,178 @@ export type TourMoveType = 'pan-up' | 'pan-down' | 'pan-left' | 'pan-right' | 'o
 export type TourEffectType = 'night' | 'day' | 'magic' | 'snow' | 'starry';
 export type SketchStyle = 'pencil' | 'watercolor' | 'oil';
 
-// --- REST API Helper for Imagen 3 ---
+// --- Cancellation & Timeouts ---
+// Every generator accepts an optional AbortSignal (e.g. from a Cancel button) plus a per-call timeout.
+export interface RequestOptions {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    seed?: number;              // image calls pick a random seed when omitted
+    negatives?: string[];       // image calls: a negative prompt where the provider takes one, else folded into the prompt
+    trace?: GenerationTrace;    // filled in with what actually served the request
+}
 
+// --- Provenance ---
+// Image calls report the provider, model, seed and prompt that produced the result (and generateImages
+// the image analysis) into options.trace; generateImagesWithManifest turns that into a GenerationManifest.
+export interface GenerationTrace {
+    provider?: string;
+    model?: string;
+    seed?: number;
+    aspectRatio?: string;
+    finalPrompt?: string;
+    negativePrompt?: string;
+    visualContext?: string;
+    styleContext?: string;
+}
 
-// --- REST API Helper for Image Generation (Pollinations.ai Fallback) ---
-// Google Imagen 3 API is restricted/beta and often returns 404/400 for personal keys.
-// To ensure the app "just works", we use Pollinations.ai (Flux model) which is free, fast, and high-quality.
-// --- REST API Helper for Imagen 3 (and Pollinations Fallback) ---
-const generateImageRest = async (prompt: string, aspectRatio: string = "1:1", imageCount: number = 1, inputImages: SourceImage[] = []): Promise<string[]> => {
-    const key = getStoredApiKey();
+export const MAX_SEED = 2147483647;
 
-    // 1. Try Google Imagen 3 API First (supports I2I if key has access)
-    if (key) {
-        try {
-            // Determine endpoint based on whether we have input images (Edit vs Generate)
-            // Note: Currently the public 'predict' endpoint for imagen-3.0-generate-001 is primarily T2I.
-            // However, we construct the payload to attempt passing the image if provided, 
-            // matching the expected structure for editing/variation if available.
-
-            // Use the preferred image model or default to Imagen 3
-            const modelName = MODEL_IDS.IMAGE_GEN;
-            const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:predict?key=${key}`;
-
-            const instance: any = { prompt: prompt };
-
-            // If there's a source image, include it. 
-            // Note: Proper Img2Img often requires specific model versions or endpoints (like Vertex AI),
-            // but we attempt to pass it in the standard 'image' field for the `generate` or `edit` intent.
-            if (inputImages && inputImages.length > 0) {
-                instance.image = { bytesBase64Encoded: inputImages[0].base64 };
-                // If there's a second image (mask), include it? (API dependent, keeping simple for now)
-            }
+const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED);
 
-            const body = {
-                instances: [instance],
-                parameters: {
-                    sampleCount: imageCount,
-                    aspectRatio: aspectRatio === 'Auto' ? '1:1' : aspectRatio
-                }
-            };
+export const IMAGE_TIMEOUT_MS = 120000;
+export const TEXT_TIMEOUT_MS = 45000;
 
-            let response = await fetch(url, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(body)
-            });
-
-            // Handle errors
-            if (!response.ok) {
-                const errData = await response.json().catch(() => ({}));
-                const errMsg = errData.error?.message || response.statusText;
-
-                // If 400 error, it's likely the key doesn't support I2I/Variations. Retry with T2I only.
-                if (response.status === 400 && inputImages.length > 0) {
-                    console.warn("Google API Key likely doesn't support I2I. Retrying with T2I...");
-                    response = await fetch(url, {
-                        method: "POST",
-                        headers: { "Content-Type": "application/json" },
-                        body: JSON.stringify({
-                            instances: [{ prompt: prompt }],
-                            parameters: body.parameters
-                        })
-                    });
-                } else if (response.status === 403 || response.status === 404 || response.status === 429) {
-                    // Critical identity/quota errors - don't fallback to Pollinations silently
-                    throw new Error(`Google API Error (${response.status}): ${errMsg}`);
-                }
-            }
+export const isAbortError = (e: any): boolean => e?.name === 'AbortError' || e?.name === 'TimeoutError';
 
-            if (response.ok) {
-                const data = await response.json();
-                if (data.predictions && data.predictions.length > 0) {
-                    return data.predictions.map((p: any) => `data:image/png;base64,${p.bytesBase64Encoded}`);
-                }
-            }
-        } catch (e: any) {
-            console.error("Google Imagen API Error:", e);
-            // If it's a critical error we threw, rethrow it to stop fallback
-            if (e.message?.includes("Google API Error")) throw e;
+// Combines the caller's signal with a timeout; call done() once the request settles to clear the timer.
+const withTimeout = (options: RequestOptions, defaultMs: number): { signal: AbortSignal; done: () => void } => {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) onAbort();
+    options.signal?.addEventListener('abort', onAbort);
+    const timer = setTimeout(() => controller.abort(new DOMException("Request timed out", "TimeoutError")), options.timeoutMs ?? defaultMs);
+    return {
+        signal: controller.signal,
+        done: () => {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
         }
+    };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw signal.reason ?? new DOMException("Request cancelled", "AbortError");
+};
+
+// Single entry point for Gemini text/vision calls so they all honour cancellation.
+const generateText = async (parts: any[], options: RequestOptions = {}): Promise<any> => {
+    if (!ai) throw new InvalidKeyError("Gemini API Key is not set.");
+    const { signal, done } = withTimeout(options, TEXT_TIMEOUT_MS);
+    const finishUsage = startUsage(options.signal);
+    const meter = { kind: 'text' as const, ...(isLocalStandInEnabled() ? { provider: 'local-stand-in', model: 'canvas-stand-in' } : { provider: 'gemini', model: MODEL_IDS.TEXT_LOGIC }) };
+    try {
+        const response: any = await withRetry(() => ai.models.generateContent({
+            model: MODEL_IDS.TEXT_LOGIC,
+            contents: [{ role: 'user', parts }],
+            config: { abortSignal: signal }
+        }), 'Gemini', { signal });
+        finishUsage({ ...meter, success: true, inputTokens: response.usageMetadata?.promptTokenCount, outputTokens: response.usageMetadata?.candidatesTokenCount });
+        throwIfAborted(signal);
+        return response;
+    } catch (e) {
+        finishUsage({ ...meter, success: false, error: e?.message || String(e) });
+        throwIfAborted(signal);
+        throw e;
+    } finally {
+        done();
     }
+};
 
-    // 2. Fallback to Pollinations.ai (Free, restricted)
-    // To avoid "anonymous tier limit", we rotate models and add cache-busting
-    console.warn("Using Pollinations fallback...");
+// --- Image Generation via Provider Registry ---
+// Providers (Imagen, Gemini image output, self-hosted, Pollinations...) live in imageProviders.ts.
+// We try every enabled provider declaring the needed capability in the order chosen in settings.
+// Tasks that need more than t2i degrade along a fallback chain as a last resort so the app "just works".
+const generateImageRest = async (
+    prompt: string,
+    aspectRatio: string = "1:1",
+    imageCount: number = 1,
+    inputImages: SourceImage[] = [],
+    capability: ImageCapability = inputImages.length > 0 ? 'i2i' : 't2i',
+    maskImage: SourceImage | null = null,
+    options: RequestOptions = {}
+): Promise<string[]> => {
+    assertCanGenerateImages(imageCount);
+    const { signal, done } = withTimeout(options, IMAGE_TIMEOUT_MS);
+    const ctx = { apiKey: getStoredApiKey(), proxyUrl: getProxyUrl(), signal };
+    const seed = options.seed ?? randomSeed();
+    const negatives = options.negatives || [];
+
+    // Capability fallback chain: a mask/outpaint/upscale task degrades to image-to-image, then text-to-image
+    const chain: ImageCapability[] = capability === 't2i' ? ['t2i'] : capability === 'i2i' ? ['i2i', 't2i'] : [capability, 'i2i', 't2i'];
+    const candidates: { provider: ImageProvider; capability: ImageCapability }[] = [];
+    // Providers whose model the user's role may not use are skipped, as if they were disabled
+    chain.forEach(cap => resolveProviders(cap, ctx).filter(provider => isModelAllowed(provider.model)).forEach(provider => {
+        if (!candidates.some(c => c.provider.id === provider.id)) candidates.push({ provider, capability: cap });
+    }));
+
+    const errors: ProviderError[] = [];
     try {
-        let width = 1024;
-        let height = 1024;
-        if (aspectRatio === "16:9") { width = 1280; height = 720; }
-        else if (aspectRatio === "4:3") { width = 1024; height = 768; }
-        else if (aspectRatio === "3:4") { width = 768; height = 1024; }
-        else if (aspectRatio === "9:16") { width = 720; height = 1280; }
-
-        const promises = Array.from({ length: imageCount }).map(async () => {
-            const seed = Math.floor(Math.random() * 10000000);
-            // Rotating models to avoid some rate limits: flux -> turbo
-            const model = Math.random() > 0.5 ? 'flux' : 'turbo';
-            const finalUrl = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=${width}&height=${height}&seed=${seed}&nologo=true&model=${model}`;
-
-            const response = await fetch(finalUrl);
-            if (!response.ok) throw new Error("Fallback engine failed");
-
-            const blob = await response.blob();
-
-            // Check if we got a tiny image (often happens when rate limited/error)
-            if (blob.size < 10000) {
-                throw new Error("Pollinations service limited (Size check failed)");
-            }
+        for (const { provider, capability: effective } of candidates) {
+            throwIfAborted(signal);
+            if (effective !== capability) console.warn(`No provider available for ${capability}, falling back to ${provider.label} (${effective})...`);
+
+            const requestedRatio = aspectRatio === 'Auto' ? '1:1' : aspectRatio;
+            const nativeNegatives = provider.capabilities.negativePrompt && negatives.length > 0;
+            const request: ImageGenerationRequest = {
+                capability: effective,
+                prompt: nativeNegatives ? prompt : foldNegatives(prompt, negatives),
+                ...(nativeNegatives ? { negativePrompt: negatives.join(', ') } : {}),
+                aspectRatio: provider.capabilities.aspectRatios.includes(requestedRatio) ? requestedRatio : '1:1',
+                sampleCount: 1,
+                inputImages: effective === 't2i' ? [] : inputImages,
+                maskImage: effective === capability ? maskImage : null,
+                seed
+            };
 
-            return new Promise<string>((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onloadend = () => resolve(reader.result as string);
-                reader.onerror = reject;
-                reader.readAsDataURL(blob);
-            });
-        });
+            // Each provider attempt is one ledger entry, so failed fallbacks show up too
+            const finishUsage = startUsage(options.signal);
+            const meter = { kind: 'image' as const, provider: provider.id, model: provider.model };
+            const results: string[] = [];
+            try {
+                // Split the request into batches the provider can handle
+                while (results.length < imageCount) {
+                    const sampleCount = Math.min(imageCount - results.length, provider.capabilities.maxSampleCount);
+                    // Later batches offset the seed so they don't repeat the first one
+                    const batchSeed = (seed + results.length) % MAX_SEED;
+                    const images = await withRetry(() => provider.generate({ ...request, sampleCount, seed: batchSeed }, ctx), provider.label, { signal });
+                    throwIfAborted(signal);
+                    if (images.length === 0) break;
+                    results.push(...images);
+                }
+                finishUsage({ ...meter, success: results.length > 0, images: Math.min(results.length, imageCount), ...(results.length > 0 ? {} : { error: 'No images returned' }) });
+                if (results.length > 0) {
+                    recordImageUsage(Math.min(results.length, imageCount));
+                    if (options.trace) Object.assign(options.trace, { provider: provider.id, model: provider.model, seed, aspectRatio: request.aspectRatio, finalPrompt: request.prompt, negativePrompt: request.negativePrompt || '' });
+                    return results.slice(0, imageCount);
+                }
+            } catch (e: any) {
+                finishUsage({ ...meter, success: false, images: results.length, error: e?.message || String(e) });
+                // Cancelled or timed out: surface the signal's reason instead of trying the next provider
+                throwIfAborted(signal);
+                console.error(`${provider.label} Error:`, e);
+                // A bad key, blocked content or bad input won't get better on another provider: stop here.
+                // Quota and availability errors (already retried) fall through to the next provider.
+                if (!isProviderError(e) || e.kind === 'InvalidKey' || e.kind === 'SafetyBlocked' || e.kind === 'BadInput' || e.kind === 'PermissionDenied') throw e;
+                errors.push(e);
+            }
+        }
 
-        return await Promise.all(promises);
-    } catch (e) {
-        console.error("All Image Generation Failed:", e);
-        throw new Error("Tất cả các dịch vụ tạo ảnh hiện đang bận hoặc hết hạn mức. Vui lòng kiểm tra lại Google API Key hoặc thử lại sau.");
+        console.error("All Image Generation Failed:", errors);
+        // Prefer reporting quota exhaustion, since that is the one the user can act on
+        throw errors.find(e => e.kind === 'QuotaExceeded') || errors[errors.length - 1]
+            || new ProviderUnavailableError("Tất cả các dịch vụ tạo ảnh hiện đang bận hoặc hết hạn mức. Vui lòng kiểm tra lại Google API Key hoặc thử lại sau.");
+    } finally {
+        done();
     }
 };
 
-// --- Helpers ---
-export const getActivationCode = (email: string): string => {
-    if (!email) return "000000";
-    let hash = 0;
-    const lowerEmail = email.toLowerCase().trim();
-    for (let i = 0; i < lowerEmail.length; i++) {
-        const char = lowerEmail.charCodeAt(i);
-        hash = ((hash << 5) - hash) + char;
-        hash = hash & hash; // Convert to 32bit integer
-    }
-    // Convert to a positive 6-digit code
-    const code = Math.abs(hash % 900000 + 100000).toString();
-    return code;
+/** Id of the provider that would serve a task right now; the job queue uses it as the concurrency lane. */
+export const getPrimaryImageProviderId = (capability: ImageCapability = 'i2i'): string => {
+    const ctx = { apiKey: getStoredApiKey(), proxyUrl: getProxyUrl() };
+    return (resolveProviders(capability, ctx)[0] || resolveProviders('t2i', ctx)[0])?.id || 'default';
 };
 
+// --- Helpers ---
 export const sourceImageToDataUrl = (image: SourceImage): string => {
     return `data:${image.mimeType};base64,${image.base64}`;
 }
@@ -246,23 +285,24 @@ const getClosestAspectRatio = async (image: SourceImage): Promise<string> => {
  * Visual Analysis Helper: Uses Gemini 2.0 Flash to extract structural and aesthetic details 
  * from the source image to ensure high-fidelity Image-to-Image results.
  */
-export const visualAnalyze = async (image: SourceImage, task: string = "Describe exactly what is in this image for an architectural AI render prompt. Focus on geometry, materials, and position."): Promise<string> => {
+export const visualAnalyze = async (image: SourceImage, task: string = "Describe exactly what is in this image for an architectural AI render prompt. Focus on geometry, materials, and position.", options: RequestOptions = {}): Promise<string> => {
     if (!ai) return "";
     try {
-        const response = await ai.models.generateContent({
-            model: MODEL_IDS.TEXT_LOGIC,
-            contents: [{ role: 'user', parts: [{ inlineData: { data: image.base64, mimeType: image.mimeType } }, { text: task }] }]
-        });
+        const response = await generateText([{ inlineData: { data: image.base64, mimeType: image.mimeType } }, { text: task }], options);
         const text = response.response?.text?.() || response.text?.() || response.text || "";
         return text.trim();
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.error("Visual analysis failed:", e);
         return "";
     }
 };
 
 // --- Strict Masking Composite (NEW) ---
-export const strictComposite = async (originalB64: string, generatedB64: string, maskB64: string): Promise<string> => {
+// The B/W mask from InpaintingModal is fully opaque, so its luminance is converted to alpha first
+// (white = take generated pixel, black = keep original). featherRadius softens the seam in pixels.
+// Failures are rethrown: the raw generated image could change pixels outside the mask.
+export const strictComposite = async (originalB64: string, generatedB64: string, maskB64: string, featherRadius: number = 0): Promise<string> => {
     try {
         const [orig, gen, mask] = await Promise.all([loadImage(originalB64), loadImage(generatedB64), loadImage(maskB64)]);
 
@@ -272,23 +312,52 @@ export const strictComposite = async (originalB64: string, generatedB64: string,
         const ctx = canvas.getContext('2d')!;
 
         ctx.drawImage(orig, 0, 0);
-
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = canvas.width;
-        tempCanvas.height = canvas.height;
-        const tempCtx = tempCanvas.getContext('2d')!;
-
-        tempCtx.drawImage(gen, 0, 0, canvas.width, canvas.height);
-        tempCtx.globalCompositeOperation = 'destination-in';
-        tempCtx.drawImage(mask, 0, 0, canvas.width, canvas.height);
-
-        ctx.drawImage(tempCanvas, 0, 0);
+        ctx.drawImage(maskedCanvas(gen, mask, canvas.width, canvas.height, featherRadius), 0, 0);
 
         return canvas.toDataURL('image/png');
     } catch (e) {
         console.error("Strict composite failed:", e);
-        return generatedB64;
+        throw e;
+    }
+};
+
+// The generated pixels where the B/W mask is white, transparent elsewhere. The feather only fades
+// inward: the blurred alpha is clamped to the sharp mask, so nothing outside it changes.
+const maskedCanvas = (gen: HTMLImageElement, mask: HTMLImageElement, width: number, height: number, featherRadius: number): HTMLCanvasElement => {
+    const alphaCanvas = document.createElement('canvas');
+    alphaCanvas.width = width;
+    alphaCanvas.height = height;
+    const alphaCtx = alphaCanvas.getContext('2d', { willReadFrequently: true })!;
+    alphaCtx.drawImage(mask, 0, 0, width, height);
+    const maskData = alphaCtx.getImageData(0, 0, width, height);
+    let blurred = maskData.data;
+    if (featherRadius > 0) {
+        alphaCtx.clearRect(0, 0, width, height);
+        alphaCtx.filter = `blur(${featherRadius}px)`;
+        alphaCtx.drawImage(mask, 0, 0, width, height);
+        alphaCtx.filter = 'none';
+        blurred = alphaCtx.getImageData(0, 0, width, height).data;
+    }
+    for (let i = 0; i < maskData.data.length; i += 4) {
+        maskData.data[i + 3] = Math.min(maskData.data[i], blurred[i]);
     }
+    alphaCtx.putImageData(maskData, 0, 0);
+
+    const tempCanvas = document.createElement('canvas');
+    tempCanvas.width = width;
+    tempCanvas.height = height;
+    const tempCtx = tempCanvas.getContext('2d')!;
+
+    tempCtx.drawImage(gen, 0, 0, width, height);
+    tempCtx.globalCompositeOperation = 'destination-in';
+    tempCtx.drawImage(alphaCanvas, 0, 0);
+    return tempCanvas;
+};
+
+/** Cuts the masked part out of a result (as a transparent PNG), e.g. to show one region's change on its own layer. */
+export const extractMaskedPatch = async (imageB64: string, maskB64: string, featherRadius: number = 0): Promise<string> => {
+    const [img, mask] = await Promise.all([loadImage(imageB64), loadImage(maskB64)]);
+    return maskedCanvas(img, mask, img.width, img.height, featherRadius).toDataURL('image/png');
 };
 
 // --- Advanced Editing Features (New) ---
@@ -300,7 +369,8 @@ export const generateImageWithElements = async (
     elements: SourceImage[],
     styleGuide: string,
     creativity: number,
-    isInpainting: boolean
+    isInpainting: boolean,
+    options: RequestOptions & { placements?: ElementPlacement[] } = {}
 ): Promise<string | null> => {
 
     const parts: any[] = [{ inlineData: { mimeType: mainImage.mimeType, data: mainImage.base64 } }];
@@ -323,11 +393,24 @@ export const generateImageWithElements = async (
         fullPrompt += `\nTASK: Image Composition/Generation.`;
     }
 
+    // Placed editor assets: the elements in order, back to front, each with its box on the main image
+    const placements = options.placements || [];
+    if (placements.length > 0) {
+        const pct = (value: number) => Math.round(value * 100);
+        fullPrompt += `\nPLACEMENT: Image 1 is the scene. Each following image is a cut-out element to blend into it, listed back to front; boxes are percentages of the scene's width and height from its top-left corner.`;
+        placements.forEach((p, i) => {
+            const rotation = Math.round(p.rotation) % 360 ? `, rotated ${Math.round(p.rotation)}° clockwise` : '';
+            fullPrompt += `\n- Element ${i + 1} (image ${i + 2}): left ${pct(p.x)}%, top ${pct(p.y)}%, width ${pct(p.width)}%, height ${pct(p.height)}%${rotation}`;
+        });
+        fullPrompt += `\nMatch each element to the scene's perspective, scale, lighting and shadows, keeping its shape and colours recognisable.`;
+    }
+
     fullPrompt += `\nCreativity Level: ${creativity}/10 (1=Strict, 10=Wild)`;
 
-    // Use REST API for Imagen 3
+    // Route to a mask-aware provider when inpainting, otherwise image-to-image
     try {
-        const images = await generateImageRest(fullPrompt, "1:1", 1, [mainImage, ...(maskImage ? [maskImage] : []), ...elements]);
+        const useMask = isInpainting && !!maskImage;
+        const images = await generateImageRest(fullPrompt, "1:1", 1, [mainImage, ...elements], useMask ? 'inpaint' : 'i2i', useMask ? maskImage : null, options);
         if (images.length > 0) return images[0];
         return null;
     } catch (e) {
@@ -336,7 +419,32 @@ export const generateImageWithElements = async (
     }
 };
 
-export const optimizeEnhancePrompt = async (prompt: string, image: SourceImage | null, language: string): Promise<string> => {
+// --- Mask-aware Inpainting Pipeline ---
+// Source + B/W mask go to the first provider that honours masks, then strictComposite always runs
+// so pixels outside the mask are guaranteed to match the source exactly.
+type InpaintOptions = RequestOptions & { elements?: SourceImage[]; placements?: ElementPlacement[]; styleGuide?: string; creativity?: number; featherRadius?: number };
+
+export const inpaintImage = async (
+    sourceImage: SourceImage,
+    maskImage: SourceImage,
+    prompt: string,
+    options: InpaintOptions = {}
+): Promise<string | null> => {
+    const generated = await generateImageWithElements(
+        prompt,
+        sourceImage,
+        maskImage,
+        options.elements || [],
+        options.styleGuide || "",
+        options.creativity ?? 5,
+        true,
+        options
+    );
+    if (!generated) return null;
+    return strictComposite(sourceImageToDataUrl(sourceImage), generated, sourceImageToDataUrl(maskImage), options.featherRadius ?? 0);
+};
+
+export const optimizeEnhancePrompt = async (prompt: string, image: SourceImage | null, language: string, options: RequestOptions = {}): Promise<string> => {
     try {
         const parts: any[] = [];
         if (image) {
@@ -344,19 +452,16 @@ export const optimizeEnhancePrompt = async (prompt: string, image: SourceImage |
         }
         parts.push({ text: `Act as a professional prompt engineer. Optimize this architectural/design prompt for image editing/inpainting AI: "${prompt}". \nReturn ONLY the optimized prompt string. Language: ${language}. Keep it concise but descriptive.` });
 
-        if (!ai) throw new Error("Gemini API Key is not set.");
-        const response = await ai.models.generateContent({
-            model: MODEL_IDS.TEXT_LOGIC,
-            contents: [{ role: 'user', parts }]
-        });
+        const response = await generateText(parts, options);
         return response.text?.trim() || prompt;
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.error("Optimize prompt error", e);
         return prompt;
     }
 };
 
-export const removeImageBackground = async (sourceImage: SourceImage): Promise<string | null> => {
+export const removeImageBackground = async (sourceImage: SourceImage, options: RequestOptions = {}): Promise<string | null> => {
     // Note: Imagen 3 API via REST primarily supports text-to-image. 
     // Image-to-image or editing via REST might require specific endpoints or isn't fully public yet.
     // For now, we will try to use the REST API with a prompt describing the removal, 
@@ -370,18 +475,19 @@ export const removeImageBackground = async (sourceImage: SourceImage): Promise<s
 
     try {
         const prompt = "Isolate subject, transparent background.";
-        const images = await generateImageRest(prompt, "1:1", 1);
+        const images = await generateImageRest(prompt, "1:1", 1, [], 't2i', null, options);
         return images[0] || null;
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.error("Remove BG error", e);
         return null;
     }
 };
 
-export const generateCompositeImage = async (objectImage: SourceImage, bgImage: SourceImage, positionDescription: string): Promise<string | null> => {
+export const generateCompositeImage = async (objectImage: SourceImage, bgImage: SourceImage, positionDescription: string, options: RequestOptions = {}): Promise<string | null> => {
     const prompt = `Composite image. ${positionDescription}. Photorealistic.`;
     try {
-        const images = await generateImageRest(prompt, "16:9", 1); // Defaulting to wide for composite
+        const images = await generateImageRest(prompt, "16:9", 1, [], 't2i', null, options); // Defaulting to wide for composite
         return images[0] || null;
     } catch (e) {
         console.error("Composite error", e);
@@ -434,19 +540,113 @@ export const compositeImage = async (
     return canvas.toDataURL('image/png');
 };
 
+// --- Per-region Editing ---
+// Numbered regions (AnnotationBox), each with its own instruction. 'combined' sends one request with
+// the union of the regions as mask and every instruction listed by number; 'sequential' runs one
+// masked inpainting pass per region, each on the previous pass' result. Either way every region's
+// change is also cut out on its own, so the editor can show which region produced what.
+
+export interface RegionEditResult {
+    image: string;                                   // the final composite
+    mask: string;                                    // B/W union of the regions
+    patches: { id: number; prompt: string; image: string }[]; // each region's change alone, transparent elsewhere
+}
+
+// The region as a B/W mask the size of the image
+const regionMask = async (region: AnnotationBox, width: number, height: number): Promise<string> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+    if (region.mask) {
+        ctx.drawImage(await loadImage(region.mask), 0, 0, width, height);
+    } else {
+        ctx.fillStyle = 'white';
+        ctx.fillRect(region.x, region.y, region.width, region.height);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+// Union of B/W masks: the lighter pixel wins
+const unionMasks = async (masks: string[], width: number, height: number): Promise<string> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'black';
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalCompositeOperation = 'lighten';
+    for (const mask of masks) ctx.drawImage(await loadImage(mask), 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
+
+const describeRegion = (region: AnnotationBox, width: number, height: number) => {
+    const pct = (value: number, total: number) => Math.round((value / total) * 100);
+    return `left ${pct(region.x, width)}%, top ${pct(region.y, height)}%, width ${pct(region.width, width)}%, height ${pct(region.height, height)}%`;
+};
+
+export const editRegions = async (
+    sourceImage: SourceImage,
+    prompt: string,
+    regions: AnnotationBox[],
+    options: InpaintOptions & { mode?: RegionEditMode } = {}
+): Promise<RegionEditResult | null> => {
+    const source = await loadImage(sourceImageToDataUrl(sourceImage));
+    const { width, height } = source;
+    const masks = await Promise.all(regions.map(region => regionMask(region, width, height)));
+    const mask = await unionMasks(masks, width, height);
+    const featherRadius = options.featherRadius ?? 0;
+    const context = prompt.trim() ? `${prompt.trim()}\n` : '';
+
+    if (options.mode === 'sequential') {
+        let current = sourceImage;
+        let image: string | null = null;
+        const patches: RegionEditResult['patches'] = [];
+        for (let i = 0; i < regions.length; i++) {
+            const region = regions[i];
+            const passPrompt = `${context}REGION ${region.id} (${describeRegion(region, width, height)}, the white area of the mask): ${region.prompt}`;
+            const result = await inpaintImage(current, dataUrlToSourceImage(masks[i])!, passPrompt, options);
+            // A pass without a result leaves its region unchanged; the next pass carries on from the last image
+            if (!result) continue;
+            patches.push({ id: region.id, prompt: region.prompt, image: await extractMaskedPatch(result, masks[i], featherRadius) });
+            image = result;
+            current = dataUrlToSourceImage(result)!;
+        }
+        return image ? { image, mask, patches } : null;
+    }
+
+    const regionLines = regions.map(region => `- Region ${region.id} (${describeRegion(region, width, height)}): ${region.prompt}`).join('\n');
+    const fullPrompt = `${context}REGIONS: Apply each numbered instruction only inside its own region; boxes are percentages of the image's width and height from its top-left corner, and the mask is white over all of them.\n${regionLines}`;
+    const image = await inpaintImage(sourceImage, dataUrlToSourceImage(mask)!, fullPrompt, options);
+    if (!image) return null;
+    const patches = await Promise.all(regions.map(async (region, i) => ({ id: region.id, prompt: region.prompt, image: await extractMaskedPatch(image, masks[i], featherRadius) })));
+    return { image, mask, patches };
+};
+
 export const editImage = async (
     sourceImage: SourceImage,
     maskImage: SourceImage,
     prompt: string,
     referenceImage: SourceImage | null = null,
-    annotations: AnnotationBox[] = []
+    annotations: AnnotationBox[] = [],
+    options: RequestOptions & { mode?: RegionEditMode } = {}
 ): Promise<string | null> => {
-    return generateImageWithElements(prompt, sourceImage, maskImage, referenceImage ? [referenceImage] : [], "", 5, true);
+    const elements = referenceImage ? [referenceImage] : [];
+    // Regions with their own instructions replace the painted mask
+    const regions = annotations.filter(region => region.prompt.trim());
+    if (regions.length > 0) {
+        const result = await editRegions(sourceImage, prompt, regions, { ...options, elements });
+        return result?.image ?? null;
+    }
+    return inpaintImage(sourceImage, maskImage, prompt, { ...options, elements });
 };
 
 export const convertToStyle = async (
     sourceImage: SourceImage,
-    style: 'sketch' | 'pencil' | 'watercolor'
+    style: 'sketch' | 'pencil' | 'watercolor',
+    options: RequestOptions = {}
 ): Promise<string | null> => {
     const prompts = {
         sketch: "Architectural line sketch, watercolor style, white background.",
@@ -455,11 +655,13 @@ export const convertToStyle = async (
     };
 
     try {
-        const visualContext = await visualAnalyze(sourceImage);
+        const visualContext = await visualAnalyze(sourceImage, undefined, options);
         const finalPrompt = `${prompts[style]}. Maintain this structure: ${visualContext}`;
-        const images = await generateImageRest(finalPrompt, "1:1", 1);
+        const images = await generateImageRest(finalPrompt, "1:1", 1, [sourceImage], 'i2i', null, options);
         return images[0] || null;
     } catch (e) {
+        // Cancellation and typed provider errors reach the UI so it can explain what to do
+        if (isAbortError(e) || isProviderError(e)) throw e;
         console.error("Conversion failed:", e);
     }
     return null;
@@ -468,7 +670,8 @@ export const convertToStyle = async (
 export const convertImageToArchitecturalStyle = async (
     sourceImage: SourceImage,
     styleKey: string,
-    moodImage?: SourceImage | null
+    moodImage?: SourceImage | null,
+    options: RequestOptions = {}
 ): Promise<string | null> => {
     const aspectRatio = await getClosestAspectRatio(sourceImage);
 
@@ -579,9 +782,9 @@ Analytical, professional, engineering-oriented.`
     parts.push({ text: finalPrompt });
 
     try {
-        const visualContext = await visualAnalyze(sourceImage);
+        const visualContext = await visualAnalyze(sourceImage, undefined, options);
         const finalPromptWithContext = `${finalPrompt}. Base structure to follow: ${visualContext}`;
-        const images = await generateImageRest(finalPromptWithContext, await getClosestAspectRatio(sourceImage), 1);
+        const images = await generateImageRest(finalPromptWithContext, aspectRatio, 1, [sourceImage], 'i2i', null, options);
         return images[0] || null;
     } catch (e) {
         console.error("Style conversion error:", e);
@@ -589,7 +792,7 @@ Analytical, professional, engineering-oriented.`
     }
 };
 
-export const generateArchitecturalPrompts = async (sourceImage: SourceImage): Promise<string> => {
+export const generateArchitecturalPrompts = async (sourceImage: SourceImage, options: RequestOptions = {}): Promise<string> => {
     const systemPrompt = `Với vai trò là một nhiếp ảnh gia kiến trúc chuyên nghiệp, nhiệm vụ của bạn là phân tích hình ảnh công trình được cung cấp và tạo ra một danh sách gồm chính xác 20 prompt nhiếp ảnh đa dạng và chuyên nghiệp. Viết bằng tiếng Việt.`;
 
     const parts = [
@@ -598,11 +801,7 @@ export const generateArchitecturalPrompts = async (sourceImage: SourceImage): Pr
     ];
 
     try {
-        if (!ai) throw new Error("Gemini API Key is not set.");
-        const response = await ai.models.generateContent({
-            model: MODEL_IDS.TEXT_LOGIC,
-            contents: [{ role: 'user', parts }],
-        });
+        const response = await generateText(parts, options);
         return response.text.trim();
     } catch (error) {
         console.error("Lỗi tạo prompt:", error);
@@ -610,25 +809,37 @@ export const generateArchitecturalPrompts = async (sourceImage: SourceImage): Pr
     }
 };
 
-export const upscaleImage = async (image: SourceImage, target: '2k' | '4k'): Promise<string | null> => {
+export const upscaleImage = async (image: SourceImage, target: '2k' | '4k', options: RequestOptions = {}): Promise<string | null> => {
     try {
         // Upscaling is also an image generation task in this context
-        const images = await generateImageRest(`Upscale architecture image to ${target} quality. High detail.`, "1:1", 1, [image]);
+        const images = await generateImageRest(`Upscale architecture image to ${target} quality. High detail.`, "1:1", 1, [image], 'upscale', null, options);
         return images[0] || null;
-    } catch (e) { return null; }
+    } catch (e) {
+        if (isAbortError(e) || isProviderError(e)) throw e;
+        return null;
+    }
 };
 
-export const convertToSketchyStyle = async (image: SourceImage, type: 'interior' | 'exterior', style: SketchStyle = 'pencil'): Promise<string | null> => {
+export const convertToSketchyStyle = async (image: SourceImage, type: 'interior' | 'exterior', style: SketchStyle = 'pencil', options: RequestOptions = {}): Promise<string | null> => {
     const prompt = `Convert this ${type} image into an architectural ${style} drawing.`;
     try {
-        const images = await generateImageRest(prompt, "1:1", 1, [image]);
+        const images = await generateImageRest(prompt, "1:1", 1, [image], 'i2i', null, options);
         return images[0] || null;
-    } catch (e) { return null; }
+    } catch (e) {
+        if (isAbortError(e) || isProviderError(e)) throw e;
+        return null;
+    }
 };
 
-export const generateImages = async (s: SourceImage, p: string, t: 'exterior' | 'interior' | 'floorplan', n: number, ar: string, r: SourceImage | null, isAngle: boolean = false, cl: number = 3): Promise<string[]> => {
-    let fullPrompt = `Task: Architectural render. Prompt: ${p}`;
-    if (r) fullPrompt += " Use reference style.";
+/**
+ * Source image + prompt → renders. Pass visualContext / styleContext from a previous manifest to skip the
+ * analysis step and reproduce that render exactly; otherwise both are derived from the images.
+ */
+export const generateImages = async (
+    s: SourceImage, p: string, t: 'exterior' | 'interior' | 'floorplan', n: number, ar: string, r: SourceImage | null, isAngle: boolean = false, cl: number = 3,
+    options: RequestOptions & { visualContext?: string; styleContext?: string; promptSpec?: PromptSpec } = {}
+): Promise<string[]> => {
+    const spec = options.promptSpec ?? promptSpecFromText(p);
 
     let vr = ar;
     if (ar === 'Auto' || !["1:1", "3:4", "4:3", "9:16", "16:9"].includes(ar)) {
@@ -637,17 +848,15 @@ export const generateImages = async (s: SourceImage, p: string, t: 'exterior' |
 
     try {
         // Step 1: Analyze the source image to extract structural details
-        const visualContext = await visualAnalyze(s, `Analyze this architectural ${t} and describe its geometry, massing, and materials in detail for a render.`);
+        const visualContext = options.visualContext ?? await visualAnalyze(s, `Analyze this architectural ${t} and describe its geometry, massing, and materials in detail for a render.`, options);
 
-        // Step 2: Combine with user intent and reference style
-        let finalPrompt = `Architectural high-quality render. Subject: ${visualContext}. User Request: ${p}.`;
-        if (r) {
-            const styleContext = await visualAnalyze(r, "Analyze the artistic style, lighting, and mood of this reference image.");
-            finalPrompt += ` Style reference: ${styleContext}.`;
-        }
+        // Step 2: Assemble the structured request with the analysis and reference style
+        const styleContext = r ? options.styleContext ?? await visualAnalyze(r, "Analyze the artistic style, lighting, and mood of this reference image.", options) : '';
+        const finalPrompt = assemblePrompt(spec, { visualContext, styleContext });
 
-        // Use REST API for Imagen 3
-        const images = await generateImageRest(finalPrompt, vr, n);
+        // Route to the first image-to-image provider (degrades to text-to-image)
+        const images = await generateImageRest(finalPrompt, vr, n, [s], 'i2i', null, { ...options, negatives: spec.negatives });
+        if (options.trace) Object.assign(options.trace, { visualContext, styleContext });
         return images;
     } catch (e) {
         console.error("Generate images error:", e);
@@ -655,27 +864,90 @@ export const generateImages = async (s: SourceImage, p: string, t: 'exterior' |
     }
 };
 
-export const analyzeFloorplanPrompt = async (image: SourceImage, type: string, style: string): Promise<string | null> => {
+// What the caller chooses; the rest of the manifest is filled in from the trace
+export type RenderManifestInput = Omit<GenerationManifest, 'finalPrompt' | 'negativePrompt' | 'visualContext' | 'styleContext' | 'resolvedAspectRatio' | 'provider' | 'model' | 'analysisModel' | 'seed'>
+    & Partial<Pick<GenerationManifest, 'visualContext' | 'styleContext' | 'seed'>>;
+
+/** generateImages plus a manifest of exactly how the images were made (see GenerationManifest). */
+export const generateImagesWithManifest = async (input: RenderManifestInput, options: RequestOptions = {}): Promise<{ images: string[]; manifest: GenerationManifest }> => {
+    const trace: GenerationTrace = {};
+    const images = await generateImages(
+        input.sourceImage,
+        input.prompt,
+        input.renderType === 'masterplan' ? 'floorplan' : input.renderType,
+        input.numberOfImages,
+        input.aspectRatio,
+        input.referenceImage,
+        input.isAnglePrompt,
+        input.creativityLevel,
+        { ...options, seed: input.seed, visualContext: input.visualContext, styleContext: input.styleContext, promptSpec: input.promptSpec, trace }
+    );
+    const manifest: GenerationManifest = {
+        renderType: input.renderType,
+        prompt: input.prompt,
+        promptSpec: input.promptSpec || promptSpecFromText(input.prompt),
+        finalPrompt: trace.finalPrompt || '',
+        negativePrompt: trace.negativePrompt || '',
+        visualContext: trace.visualContext || '',
+        styleContext: trace.styleContext || '',
+        sourceImage: input.sourceImage,
+        referenceImage: input.referenceImage,
+        isAnglePrompt: input.isAnglePrompt,
+        creativityLevel: input.creativityLevel,
+        numberOfImages: input.numberOfImages,
+        aspectRatio: input.aspectRatio,
+        resolvedAspectRatio: trace.aspectRatio || input.aspectRatio,
+        provider: trace.provider || '',
+        model: trace.model || '',
+        analysisModel: MODEL_IDS.TEXT_LOGIC,
+        seed: trace.seed ?? 0
+    };
+    return { images, manifest };
+};
+
+/** Settings to re-run a manifest: same seed and analysis for an identical render, or a fresh seed for a variation. */
+export const manifestToRerunInput = (manifest: GenerationManifest, newSeed: boolean): RenderManifestInput => {
+    const { finalPrompt, negativePrompt, resolvedAspectRatio, provider, model, analysisModel, seed, ...input } = manifest;
+    return newSeed ? input : { ...input, seed };
+};
+
+/**
+ * Seed of one image in a result. Image k of a request used seed + k (batches and providers offset the
+ * seed per sample), so re-running with it reproduces that image. null when the provider ignores seeds.
+ */
+export const imageSeedAt = (manifest: GenerationManifest, index: number): number | null => {
+    const provider = getImageProviders().find(p => p.id === manifest.provider);
+    return provider?.capabilities.seed ? (manifest.seed + index) % MAX_SEED : null;
+};
+
+/** Re-run of one image with its seed and the cached analysis, a varied prompt and (strong) more creativity. */
+export const variationInput = (manifest: GenerationManifest, index: number, strength: VariationStrength): RenderManifestInput => {
+    const input = manifestToRerunInput(manifest, false);
+    const seed = (manifest.seed + index) % MAX_SEED;
+    return {
+        ...input,
+        seed,
+        promptSpec: varyPromptSpec(input.promptSpec || promptSpecFromText(input.prompt), strength, seed),
+        creativityLevel: strength === 'strong' ? Math.min(5, input.creativityLevel + 1) : input.creativityLevel
+    };
+};
+
+export const analyzeFloorplanPrompt = async (image: SourceImage, type: string, style: string, options: RequestOptions = {}): Promise<string | null> => {
     try {
-        if (!ai) throw new Error("Gemini API Key is not set.");
-        const res = await ai.models.generateContent({
-            model: MODEL_IDS.TEXT_LOGIC,
-            contents: [{ role: 'user', parts: [{ inlineData: { data: image.base64, mimeType: image.mimeType } }, { text: `Analyze drawing ${type}, style ${style}. Output prompt.` }] }]
-        });
+        const res = await generateText([{ inlineData: { data: image.base64, mimeType: image.mimeType } }, { text: `Analyze drawing ${type}, style ${style}. Output prompt.` }], options);
         return res.response?.text() || res.text?.() || res.text || null;
-    } catch (e) { return null; }
+    } catch (e) {
+        if (isAbortError(e) || isProviderError(e)) throw e;
+        return null;
+    }
 };
 
-export const analyzeLayout3DPrompt = async (s: SourceImage, r: SourceImage | null, b: string, a: string, i: string, l: string): Promise<string> => {
+export const analyzeLayout3DPrompt = async (s: SourceImage, r: SourceImage | null, b: string, a: string, i: string, l: string, options: RequestOptions = {}): Promise<string> => {
     const parts: any[] = [{ inlineData: { data: s.base64, mimeType: s.mimeType } }];
     if (r) parts.push({ inlineData: { data: r.base64, mimeType: r.mimeType } });
     parts.push({ text: `Layout 2D to 3D. Category: ${b}, Angle: ${a}, Style: ${i}, Lighting: ${l}. Output prompt.` });
     try {
-        if (!ai) throw new Error("Gemini API Key is not set.");
-        const response = await ai.models.generateContent({
-            model: MODEL_IDS.TEXT_LOGIC,
-            contents: [{ role: 'user', parts }],
-        });
+        const response = await generateText(parts, options);
         return response.text?.trim() || "";
     } catch (e) {
         console.error("Analyze Layout 3D Prompt error", e);
@@ -683,45 +955,43 @@ export const analyzeLayout3DPrompt = async (s: SourceImage, r: SourceImage | nul
     }
 };
 
-export const generateDiagramImage = async (s: SourceImage, t: string, n: string, ni: number, ar: string, r: SourceImage | null): Promise<string[]> => {
-    return generateImages(s, `Technical Diagram: ${t}. Notes: ${n}`, 'exterior', ni, ar, r);
+export const generateDiagramImage = async (s: SourceImage, t: string, n: string, ni: number, ar: string, r: SourceImage | null, options: RequestOptions = {}): Promise<string[]> => {
+    return generateImages(s, `Technical Diagram: ${t}. Notes: ${n}`, 'exterior', ni, ar, r, false, 3, options);
 };
 
-export const generateVirtualTourImage = async (i: SourceImage, m: TourMoveType, mag: number): Promise<string | null> => {
+export const generateVirtualTourImage = async (i: SourceImage, m: TourMoveType, mag: number, options: RequestOptions = {}): Promise<string | null> => {
     const aspectRatio = await getClosestAspectRatio(i);
     try {
-        const visualContext = await visualAnalyze(i);
+        const visualContext = await visualAnalyze(i, undefined, options);
         const prompt = `Virtual Tour Perspective: Moving ${m} ${mag} degrees from this scene: ${visualContext}. Maintain exact architecture.`;
-        const images = await generateImageRest(prompt, aspectRatio, 1);
+        const images = await generateImageRest(prompt, aspectRatio, 1, [i], 'i2i', null, options);
         return images[0] || null;
-    } catch (e) { return null; }
+    } catch (e) {
+        if (isAbortError(e) || isProviderError(e)) throw e;
+        return null;
+    }
 };
 
-export const applyEffectToTourImage = async (i: SourceImage, e: TourEffectType): Promise<string | null> => {
+export const applyEffectToTourImage = async (i: SourceImage, e: TourEffectType, options: RequestOptions = {}): Promise<string | null> => {
     const aspectRatio = await getClosestAspectRatio(i);
     try {
-        const visualContext = await visualAnalyze(i);
+        const visualContext = await visualAnalyze(i, undefined, options);
         const prompt = `Apply effect ${e} to this architectural scene: ${visualContext}. Keep structure identical.`;
-        const images = await generateImageRest(prompt, aspectRatio, 1);
+        const images = await generateImageRest(prompt, aspectRatio, 1, [i], 'i2i', null, options);
         return images[0] || null;
-    } catch (e) { return null; }
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        return null;
+    }
 };
 
-export const generateDiagramPromptFromReference = async (s: SourceImage, r: SourceImage): Promise<string> => {
-    if (!ai) throw new Error("Gemini API Key is not set.");
-    const res = await ai.models.generateContent({
-        model: MODEL_IDS.TEXT_LOGIC,
-        contents: [{ role: 'user', parts: [{ inlineData: { data: s.base64, mimeType: s.mimeType } }, { inlineData: { data: r.base64, mimeType: r.mimeType } }, { text: "Generate diagram style prompt." }] }]
-    });
+export const generateDiagramPromptFromReference = async (s: SourceImage, r: SourceImage, options: RequestOptions = {}): Promise<string> => {
+    const res = await generateText([{ inlineData: { data: s.base64, mimeType: s.mimeType } }, { inlineData: { data: r.base64, mimeType: r.mimeType } }, { text: "Generate diagram style prompt." }], options);
     return res.text || "";
 };
 
-export const generateOutpaintingPrompt = async (s: SourceImage): Promise<string> => {
-    if (!ai) throw new Error("Gemini API Key is not set.");
-    const res = await ai.models.generateContent({
-        model: MODEL_IDS.TEXT_LOGIC,
-        contents: [{ role: 'user', parts: [{ inlineData: { data: s.base64, mimeType: s.mimeType } }, { text: "Describe outpainting surroundings." }] }]
-    });
+export const generateOutpaintingPrompt = async (s: SourceImage, options: RequestOptions = {}): Promise<string> => {
+    const res = await generateText([{ inlineData: { data: s.base64, mimeType: s.mimeType } }, { text: "Describe outpainting surroundings." }], options);
     return res.response?.text() || res.text?.() || res.text || "";
 };
 
@@ -745,11 +1015,11 @@ export const padImageToAspectRatioWithColor = async (image: SourceImage, targetA
     return dataUrlToSourceImage(canvas.toDataURL('image/png'))!;
 };
 
-export const outpaintImage = async (sourceImage: SourceImage, targetAspectRatio: number, prompt: string): Promise<string | null> => {
+export const outpaintImage = async (sourceImage: SourceImage, targetAspectRatio: number, prompt: string, options: RequestOptions = {}): Promise<string | null> => {
     // Basic outpainting via text-to-image usually isn't enough, but it's the best we can do with Image Gen API only
     try {
         // We'll generate a new image with the prompt, implying we can't truly 'extend' without editing endpoint
-        const images = await generateImageRest(`Outpaint/Extend: ${prompt}`, "16:9", 1, [sourceImage]);
+        const images = await generateImageRest(`Outpaint/Extend: ${prompt}`, "16:9", 1, [sourceImage], 'outpaint', null, options);
         return images[0] || null;
     } catch (e) { throw e; }
 };
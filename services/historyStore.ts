@@ -0,0 +1,455 @@
+import { useCallback, useEffect, useState } from "react";
+import { RenderHistoryItem, EditHistoryItem, HistoryPreview, SourceImage, GenerationManifest, AnnotationBox, EditorAsset, EditorDocument, EditorLayer } from "../types";
+
+// --- History Store (IndexedDB) ---
+// Histories used to live in localStorage as base64 JSON, which capped them at a handful of entries.
+// Each entry is now one IndexedDB record: full-size images as Blobs plus small JPEG thumbnails, so
+// panels can page through hundreds of entries and only decode full images when one is selected.
+// Every record belongs to a project (see projectStore.ts); the same DB also keeps each project's
+// source images so switching projects restores the uploads.
+
+export type HistoryListId =
+    | 'exteriorRenderHistory'
+    | 'interiorRenderHistory'
+    | 'masterplanHistory'
+    | 'floorplanHistory'
+    | 'editHistory'
+    | 'utilitiesHistory'
+    | 'presentationBoardHistory'
+    | 'diagramHistory'
+    | 'tourHistory';
+
+// Lists that used to live in localStorage; the ids double as the old keys the migration reads
+const HISTORY_LISTS: HistoryListId[] = [
+    'exteriorRenderHistory', 'interiorRenderHistory', 'masterplanHistory', 'floorplanHistory',
+    'editHistory', 'utilitiesHistory', 'presentationBoardHistory', 'diagramHistory'
+];
+
+// Project that owns everything created before projects existed
+export const DEFAULT_PROJECT_ID = 'default';
+
+export const HISTORY_PAGE_SIZE = 20;
+export const HISTORY_LIMIT_PER_LIST = 500;
+
+const DB_NAME = 'cpgvn_history';
+const DB_VERSION = 3;
+const STORE = 'entries';
+const SOURCES_STORE = 'sources';
+export const USAGE_STORE = 'usage';    // usage ledger, see usageLedger.ts
+const MIGRATED_KEY = 'cpgvn_history_migrated';
+const THUMBNAIL_SIZE = 192;
+
+interface HistoryRecord {
+    key: string;                 // `${project}:${list}:${id}`
+    project: string;
+    list: HistoryListId;
+    id: number;
+    timestamp: string;
+    prompt: string;
+    thumbnails: string[];
+    images: Blob[];              // render results, or [source, mask, result] for edit entries
+    manifest?: StoredManifest;
+    document?: StoredDocument;   // edit entries: the layered session, to reopen it as it was
+}
+
+// GenerationManifest with its input images kept as Blobs, like the results
+interface StoredManifest extends Omit<GenerationManifest, 'sourceImage' | 'referenceImage'> {
+    sourceImage: Blob;
+    referenceImage: Blob | null;
+}
+
+// EditorDocument with layer images, asset cut-outs and region masks kept as Blobs
+interface StoredLayer extends Omit<EditorLayer, 'image' | 'assets'> {
+    image?: Blob;
+    assets?: (Omit<EditorAsset, 'src'> & { src: Blob })[];
+}
+
+interface StoredDocument extends Omit<EditorDocument, 'layers' | 'regions'> {
+    layers: StoredLayer[];
+    regions?: (Omit<AnnotationBox, 'mask'> & { mask?: Blob })[];
+}
+
+interface SourceRecord {
+    key: string;                 // `${project}:${slot}`
+    project: string;
+    slot: string;                // render tab the source was uploaded to
+    image: Blob;
+}
+
+const recordKey = (project: string, list: HistoryListId, id: number) => `${project}:${list}:${id}`;
+
+// --- IndexedDB plumbing (shared with usageLedger.ts) ---
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new DOMException("Transaction aborted", "AbortError"));
+    });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openHistoryDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                const tx = request.transaction!;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore(STORE, { keyPath: 'key' });
+                }
+                if (event.oldVersion < 2) {
+                    // v2: records are scoped to a project; v1 entries move to the default project
+                    const store = tx.objectStore(STORE);
+                    if (store.indexNames.contains('byList')) store.deleteIndex('byList');
+                    store.createIndex('byProjectList', ['project', 'list', 'id']);
+                    db.createObjectStore(SOURCES_STORE, { keyPath: 'key' });
+                    store.openCursor().onsuccess = (e) => {
+                        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+                        if (!cursor) return;
+                        const record = cursor.value as HistoryRecord;
+                        if (!record.project) {
+                            cursor.delete();
+                            store.put({ ...record, project: DEFAULT_PROJECT_ID, key: recordKey(DEFAULT_PROJECT_ID, record.list, record.id) });
+                        }
+                        cursor.continue();
+                    };
+                }
+                if (event.oldVersion < 3) {
+                    db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex('byTime', 'at');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).then(async db => {
+            await migrateLocalStorageHistory(db);
+            return db;
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+// --- Image helpers ---
+const urlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+const sourceImageToBlob = (image: SourceImage): Promise<Blob> => urlToBlob(`data:${image.mimeType};base64,${image.base64}`);
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+const blobToSourceImage = async (blob: Blob): Promise<SourceImage> => {
+    const dataUrl = await blobToDataUrl(blob);
+    return { base64: dataUrl.split(',')[1], mimeType: blob.type || 'image/png' };
+};
+
+const createThumbnail = async (blob: Blob): Promise<string> => {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.75);
+};
+
+const toStoredDocument = async ({ layers, regions, ...doc }: EditorDocument): Promise<StoredDocument> => ({
+    ...doc,
+    layers: await Promise.all(layers.map(async ({ image, assets, ...layer }): Promise<StoredLayer> => ({
+        ...layer,
+        ...(image ? { image: await urlToBlob(image) } : {}),
+        ...(assets ? { assets: await Promise.all(assets.map(async asset => ({ ...asset, src: await urlToBlob(asset.src) }))) } : {})
+    }))),
+    ...(regions ? { regions: await Promise.all(regions.map(async ({ mask, ...region }) => ({ ...region, ...(mask ? { mask: await urlToBlob(mask) } : {}) }))) } : {})
+});
+
+const fromStoredDocument = async ({ layers, regions, ...doc }: StoredDocument): Promise<EditorDocument> => ({
+    ...doc,
+    layers: await Promise.all(layers.map(async ({ image, assets, ...layer }): Promise<EditorLayer> => ({
+        ...layer,
+        ...(image ? { image: await blobToDataUrl(image) } : {}),
+        ...(assets ? { assets: await Promise.all(assets.map(async asset => ({ ...asset, src: await blobToDataUrl(asset.src) }))) } : {})
+    }))),
+    ...(regions ? { regions: await Promise.all(regions.map(async ({ mask, ...region }) => ({ ...region, ...(mask ? { mask: await blobToDataUrl(mask) } : {}) }))) } : {})
+});
+
+const isEditItem = (item: RenderHistoryItem | EditHistoryItem): item is EditHistoryItem => 'resultImage' in item;
+
+const toRecord = async (project: string, list: HistoryListId, item: RenderHistoryItem | EditHistoryItem): Promise<HistoryRecord> => {
+    const base = { key: recordKey(project, list, item.id), project, list, id: item.id, timestamp: item.timestamp, prompt: item.prompt };
+    if (isEditItem(item)) {
+        const images = await Promise.all([sourceImageToBlob(item.sourceImage), sourceImageToBlob(item.maskImage), urlToBlob(item.resultImage)]);
+        const record: HistoryRecord = { ...base, images, thumbnails: await Promise.all([createThumbnail(images[0]), createThumbnail(images[2])]) };
+        if (item.document) record.document = await toStoredDocument(item.document);
+        return record;
+    }
+    const images = await Promise.all(item.images.map(urlToBlob));
+    const record: HistoryRecord = { ...base, images, thumbnails: await Promise.all(images.map(createThumbnail)) };
+    if (item.manifest) {
+        const { sourceImage, referenceImage } = item.manifest;
+        record.manifest = {
+            ...item.manifest,
+            sourceImage: await sourceImageToBlob(sourceImage),
+            referenceImage: referenceImage ? await sourceImageToBlob(referenceImage) : null
+        };
+    }
+    return record;
+};
+
+const fromStoredManifest = async (manifest: StoredManifest): Promise<GenerationManifest> => ({
+    ...manifest,
+    sourceImage: await blobToSourceImage(manifest.sourceImage),
+    referenceImage: manifest.referenceImage ? await blobToSourceImage(manifest.referenceImage) : null
+});
+
+const toPreview = (record: HistoryRecord): HistoryPreview => ({
+    id: record.id,
+    timestamp: record.timestamp,
+    prompt: record.prompt,
+    imageCount: record.list === 'editHistory' ? 1 : record.images.length,
+    thumbnails: record.thumbnails,
+    hasManifest: !!record.manifest
+});
+
+/** Preview for entries that only live in component state (no store round-trip needed). */
+export const toHistoryPreview = (item: RenderHistoryItem): HistoryPreview => ({
+    id: item.id,
+    timestamp: item.timestamp,
+    prompt: item.prompt,
+    imageCount: item.images.length,
+    thumbnails: item.images,
+    hasManifest: !!item.manifest
+});
+
+// --- Migration from localStorage (runs once, into the default project) ---
+const migrateLocalStorageHistory = async (db: IDBDatabase) => {
+    if (localStorage.getItem(MIGRATED_KEY)) return;
+    const records: HistoryRecord[] = [];
+    for (const list of HISTORY_LISTS) {
+        try {
+            const stored = localStorage.getItem(list);
+            if (!stored) continue;
+            const items: (RenderHistoryItem | EditHistoryItem)[] = JSON.parse(stored).filter(Boolean);
+            for (const item of items) {
+                try {
+                    records.push(await toRecord(DEFAULT_PROJECT_ID, list, item));
+                } catch (e) {
+                    console.warn(`Skipping unreadable ${list} entry during migration:`, e);
+                }
+            }
+        } catch (e) {
+            console.warn(`Could not parse ${list} from localStorage:`, e);
+        }
+    }
+
+    const tx = db.transaction(STORE, 'readwrite');
+    records.forEach(record => tx.objectStore(STORE).put(record));
+    await transactionDone(tx);
+    HISTORY_LISTS.forEach(list => localStorage.removeItem(list));
+    localStorage.setItem(MIGRATED_KEY, '1');
+};
+
+// --- Public API ---
+const listRange = (project: string, list: HistoryListId, beforeId: number = Infinity) => IDBKeyRange.bound([project, list, -Infinity], [project, list, beforeId], false, true);
+
+// Primary keys start with `${project}:`, so a whole project is one contiguous key range
+const projectKeyRange = (project: string) => IDBKeyRange.bound(`${project}:`, `${project}:\uffff`);
+
+/** Newest-first page of previews; pass the last id of the previous page as `beforeId` to continue. */
+export const getHistoryPage = async (project: string, list: HistoryListId, beforeId?: number, limit: number = HISTORY_PAGE_SIZE): Promise<{ items: HistoryPreview[]; hasMore: boolean }> => {
+    const db = await openHistoryDb();
+    const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('byProjectList');
+    const items: HistoryPreview[] = [];
+    return new Promise((resolve, reject) => {
+        const request = index.openCursor(listRange(project, list, beforeId), 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return resolve({ items, hasMore: false });
+            if (items.length === limit) return resolve({ items, hasMore: true });
+            items.push(toPreview(cursor.value as HistoryRecord));
+            cursor.continue();
+        };
+    });
+};
+
+/** Stores an entry and trims the list to HISTORY_LIMIT_PER_LIST. Rejects on quota errors instead of hiding them. */
+export const addHistoryEntry = async (project: string, list: HistoryListId, item: RenderHistoryItem | EditHistoryItem): Promise<HistoryPreview> => {
+    const record = await toRecord(project, list, item);
+    const db = await openHistoryDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    store.put(record);
+    const count = await requestToPromise(store.index('byProjectList').count(listRange(project, list)));
+    if (count > HISTORY_LIMIT_PER_LIST) {
+        let excess = count - HISTORY_LIMIT_PER_LIST;
+        const cursorRequest = store.index('byProjectList').openCursor(listRange(project, list));
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || excess <= 0) return;
+            cursor.delete();
+            excess--;
+            cursor.continue();
+        };
+    }
+    await transactionDone(tx);
+    return toPreview(record);
+};
+
+const getRecord = async (project: string, list: HistoryListId, id: number): Promise<HistoryRecord | undefined> => {
+    const db = await openHistoryDb();
+    return requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).get(recordKey(project, list, id)));
+};
+
+export const getRenderHistoryItem = async (project: string, list: HistoryListId, id: number): Promise<RenderHistoryItem | null> => {
+    const record = await getRecord(project, list, id);
+    if (!record) return null;
+    return {
+        id: record.id,
+        timestamp: record.timestamp,
+        prompt: record.prompt,
+        images: await Promise.all(record.images.map(blobToDataUrl)),
+        manifest: record.manifest ? await fromStoredManifest(record.manifest) : undefined
+    };
+};
+
+export const getEditHistoryItem = async (project: string, id: number): Promise<EditHistoryItem | null> => {
+    const record = await getRecord(project, 'editHistory', id);
+    if (!record) return null;
+    const [sourceImage, maskImage] = await Promise.all([blobToSourceImage(record.images[0]), blobToSourceImage(record.images[1])]);
+    return {
+        id: record.id,
+        timestamp: record.timestamp,
+        prompt: record.prompt,
+        sourceImage,
+        maskImage,
+        resultImage: await blobToDataUrl(record.images[2]),
+        document: record.document ? await fromStoredDocument(record.document) : undefined
+    };
+};
+
+export const clearHistory = async (project: string, list: HistoryListId): Promise<void> => {
+    const db = await openHistoryDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(IDBKeyRange.bound(`${project}:${list}:`, `${project}:${list}:\uffff`));
+    return transactionDone(tx);
+};
+
+/** Most recent thumbnail across a project's render lists, used as the default project cover. */
+export const getLatestThumbnail = async (project: string): Promise<string | null> => {
+    const db = await openHistoryDb();
+    const records: HistoryRecord[] = await requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).getAll(projectKeyRange(project)));
+    const latest = records.filter(r => r.list !== 'editHistory').sort((a, b) => b.id - a.id)[0];
+    return latest?.thumbnails[0] || null;
+};
+
+// --- Project sources ---
+export const saveProjectSource = async (project: string, slot: string, image: SourceImage | null): Promise<void> => {
+    const db = await openHistoryDb();
+    const blob = image ? await sourceImageToBlob(image) : null;
+    const tx = db.transaction(SOURCES_STORE, 'readwrite');
+    const key = `${project}:${slot}`;
+    if (blob) {
+        tx.objectStore(SOURCES_STORE).put({ key, project, slot, image: blob } as SourceRecord);
+    } else {
+        tx.objectStore(SOURCES_STORE).delete(key);
+    }
+    return transactionDone(tx);
+};
+
+export const getProjectSources = async (project: string): Promise<Record<string, SourceImage>> => {
+    const db = await openHistoryDb();
+    const records: SourceRecord[] = await requestToPromise(db.transaction(SOURCES_STORE, 'readonly').objectStore(SOURCES_STORE).getAll(projectKeyRange(project)));
+    const sources: Record<string, SourceImage> = {};
+    for (const record of records) sources[record.slot] = await blobToSourceImage(record.image);
+    return sources;
+};
+
+// --- Whole-project operations (used by projectStore) ---
+export const deleteProjectData = async (project: string): Promise<void> => {
+    const db = await openHistoryDb();
+    const tx = db.transaction([STORE, SOURCES_STORE], 'readwrite');
+    tx.objectStore(STORE).delete(projectKeyRange(project));
+    tx.objectStore(SOURCES_STORE).delete(projectKeyRange(project));
+    return transactionDone(tx);
+};
+
+export const copyProjectData = async (fromProject: string, toProject: string): Promise<void> => {
+    const db = await openHistoryDb();
+    const tx = db.transaction([STORE, SOURCES_STORE], 'readwrite');
+    const entries = tx.objectStore(STORE);
+    const sources = tx.objectStore(SOURCES_STORE);
+    const [records, sourceRecords] = await Promise.all([
+        requestToPromise<HistoryRecord[]>(entries.getAll(projectKeyRange(fromProject))),
+        requestToPromise<SourceRecord[]>(sources.getAll(projectKeyRange(fromProject)))
+    ]);
+    records.forEach(r => entries.put({ ...r, project: toProject, key: recordKey(toProject, r.list, r.id) }));
+    sourceRecords.forEach(r => sources.put({ ...r, project: toProject, key: `${toProject}:${r.slot}` }));
+    return transactionDone(tx);
+};
+
+export interface HistoryListState {
+    project: string;
+    list: HistoryListId;
+    items: HistoryPreview[];
+    hasMore: boolean;
+    loadMore: () => void;
+    add: (item: RenderHistoryItem | EditHistoryItem) => Promise<HistoryPreview>;
+    clear: () => Promise<void>;
+}
+
+/** React hook: paged previews of one history list of a project, newest first. */
+export const useHistoryList = (list: HistoryListId, project: string = DEFAULT_PROJECT_ID): HistoryListState => {
+    const [items, setItems] = useState<HistoryPreview[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        setItems([]);
+        setHasMore(false);
+        getHistoryPage(project, list).then(page => {
+            if (cancelled) return;
+            setItems(page.items);
+            setHasMore(page.hasMore);
+        }).catch(e => console.error(`Failed to load ${list}:`, e));
+        return () => { cancelled = true; };
+    }, [project, list]);
+
+    const loadMore = useCallback(() => {
+        const last = items[items.length - 1];
+        if (!last) return;
+        getHistoryPage(project, list, last.id).then(page => {
+            setItems(prev => [...prev, ...page.items.filter(p => !prev.some(i => i.id === p.id))]);
+            setHasMore(page.hasMore);
+        }).catch(e => console.error(`Failed to load ${list}:`, e));
+    }, [project, list, items]);
+
+    const add = useCallback(async (item: RenderHistoryItem | EditHistoryItem) => {
+        const preview = await addHistoryEntry(project, list, item);
+        setItems(prev => [preview, ...prev.filter(p => p.id !== preview.id)]);
+        return preview;
+    }, [project, list]);
+
+    const clear = useCallback(async () => {
+        await clearHistory(project, list);
+        setItems([]);
+        setHasMore(false);
+    }, [project, list]);
+
+    return { project, list, items, hasMore, loadMore, add, clear };
+};
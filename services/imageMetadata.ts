@@ -0,0 +1,260 @@
+import { GenerationManifest } from "../types";
+import { getActiveProject } from "./projectStore";
+
+// --- Image Metadata ---
+// Downloads carry the prompt, model, seed, project and author inside the file: PNG tEXt/iTXt chunks
+// or a JPEG XMP packet. The full render settings ride along as JSON so "Load settings from image"
+// can restore a tab from any file the app exported.
+
+export type RenderSettings = Omit<GenerationManifest, 'sourceImage' | 'referenceImage'>;
+
+export interface ImageMetadata {
+    prompt: string;
+    model?: string;
+    seed?: number;
+    project?: string;
+    author?: string;
+    createdAt?: string;          // ISO date
+    settings?: RenderSettings;   // present on renders; source images are not embedded
+}
+
+const SOFTWARE = 'CPGVN AI Render';
+const SETTINGS_KEYWORD = 'cpgvn:settings';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_NAMESPACE = 'http://ns.cpgvietnam.com.vn/ai/1.0/';
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const getAuthor = (): string => {
+    try {
+        const user = JSON.parse(localStorage.getItem('cpgvn_user') || 'null');
+        return user ? [user.name, user.email && `<${user.email}>`].filter(Boolean).join(' ') : '';
+    } catch {
+        return '';
+    }
+};
+
+/** Metadata for a download: the prompt plus whatever the manifest knows, stamped with project and author. */
+export const createImageMetadata = (prompt: string, manifest?: GenerationManifest | null): ImageMetadata => {
+    const metadata: ImageMetadata = {
+        prompt: manifest?.prompt || prompt,
+        project: getActiveProject().name,
+        author: getAuthor(),
+        createdAt: new Date().toISOString()
+    };
+    if (manifest) {
+        const { sourceImage, referenceImage, ...settings } = manifest;
+        Object.assign(metadata, { model: manifest.model, seed: manifest.seed, settings });
+    }
+    return metadata;
+};
+
+// --- PNG chunks ---
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+    let offset = 0;
+    parts.forEach(p => { out.set(p, offset); offset += p.length; });
+    return out;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const typeAndData = concatBytes([encoder.encode(type), data]);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(typeAndData, 4);
+    view.setUint32(8 + data.length, crc32(typeAndData));
+    return chunk;
+};
+
+// tEXt is Latin-1 only, so anything user-written (Vietnamese prompts) goes into iTXt as UTF-8
+const textChunk = (keyword: string, text: string): Uint8Array => pngChunk('tEXt', encoder.encode(`${keyword}\0${text}`));
+
+const iTextChunk = (keyword: string, text: string): Uint8Array => {
+    // keyword \0 compression flag, method, empty language tag \0, empty translated keyword \0, text
+    return pngChunk('iTXt', concatBytes([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+};
+
+interface PngTextEntry { keyword: string; text: string; }
+
+const readPngText = (bytes: Uint8Array): PngTextEntry[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const entries: PngTextEntry[] = [];
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = decoder.decode(bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'tEXt' || type === 'iTXt') {
+            const nul = data.indexOf(0);
+            const keyword = decoder.decode(data.subarray(0, nul));
+            if (type === 'tEXt') {
+                entries.push({ keyword, text: new TextDecoder('latin1').decode(data.subarray(nul + 1)) });
+            } else if (data[nul + 1] === 0) {
+                // Skip the language tag and translated keyword; compressed iTXt is not supported
+                const langEnd = data.indexOf(0, nul + 3);
+                const translatedEnd = data.indexOf(0, langEnd + 1);
+                entries.push({ keyword, text: decoder.decode(data.subarray(translatedEnd + 1)) });
+            }
+        }
+        if (type === 'IEND') break;
+        offset += 12 + length;
+    }
+    return entries;
+};
+
+const embedPng = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+    const chunks = [
+        iTextChunk('Description', metadata.prompt),
+        textChunk('Software', SOFTWARE),
+        iTextChunk(SETTINGS_KEYWORD, JSON.stringify(metadata))
+    ];
+    if (metadata.author) chunks.push(iTextChunk('Author', metadata.author));
+    // Text chunks may sit anywhere before IEND, which is always the last 12 bytes
+    const iend = bytes.length - 12;
+    return concatBytes([bytes.subarray(0, iend), ...chunks, bytes.subarray(iend)]);
+};
+
+// --- JPEG XMP ---
+const escapeXml = (value: string): string => value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const unescapeXml = (value: string): string => value.replace(/&(lt|gt|amp|quot|apos);/g, (_, e) => ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[e]);
+
+const buildXmp = (metadata: ImageMetadata): string => [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:cpgvn="${XMP_NAMESPACE}">`,
+    `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+    metadata.author ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>` : '',
+    `<xmp:CreatorTool>${SOFTWARE}</xmp:CreatorTool>`,
+    `<cpgvn:settings>${escapeXml(JSON.stringify(metadata))}</cpgvn:settings>`,
+    '</rdf:Description></rdf:RDF></x:xmpmeta>',
+    '<?xpacket end="w"?>'
+].join('');
+
+// Walks the JPEG header segments (everything before start-of-scan)
+const jpegSegments = (bytes: Uint8Array): { marker: number; start: number; end: number }[] => {
+    const segments: { marker: number; start: number; end: number }[] = [];
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === 0xda) break;
+        const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+        segments.push({ marker, start: offset, end });
+        offset = end;
+    }
+    return segments;
+};
+
+const isXmpSegment = (bytes: Uint8Array, segment: { marker: number; start: number }): boolean => {
+    return segment.marker === 0xe1 && decoder.decode(bytes.subarray(segment.start + 4, segment.start + 4 + XMP_HEADER.length)) === XMP_HEADER;
+};
+
+const embedJpeg = (bytes: Uint8Array, metadata: ImageMetadata): Uint8Array => {
+    const payload = encoder.encode(XMP_HEADER + buildXmp(metadata));
+    if (payload.length + 2 > 0xffff) throw new Error("XMP packet is too large for a single APP1 segment");
+    const segment = concatBytes([new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload]);
+    // Goes after SOI and a JFIF APP0 when present; an existing XMP packet is replaced
+    const segments = jpegSegments(bytes);
+    const existing = segments.find(s => isXmpSegment(bytes, s));
+    if (existing) return concatBytes([bytes.subarray(0, existing.start), segment, bytes.subarray(existing.end)]);
+    const insertAt = segments[0]?.marker === 0xe0 ? segments[0].end : 2;
+    return concatBytes([bytes.subarray(0, insertAt), segment, bytes.subarray(insertAt)]);
+};
+
+const readJpegXmp = (bytes: Uint8Array): string | null => {
+    const segment = jpegSegments(bytes).find(s => isXmpSegment(bytes, s));
+    return segment ? decoder.decode(bytes.subarray(segment.start + 4 + XMP_HEADER.length, segment.end)) : null;
+};
+
+// --- Public API ---
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+// WebP and friends are re-encoded to PNG so there is somewhere to put the metadata
+const toPngBytes = async (blob: Blob): Promise<Uint8Array> => {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error("Could not re-encode image as PNG");
+    return new Uint8Array(await png.arrayBuffer());
+};
+
+/** Returns the image as a PNG or JPEG Blob with the metadata embedded. */
+export const embedImageMetadata = async (imageUrl: string, metadata: ImageMetadata): Promise<Blob> => {
+    const blob = await (await fetch(imageUrl)).blob();
+    let bytes = new Uint8Array(await blob.arrayBuffer());
+    if (isJpeg(bytes)) return new Blob([embedJpeg(bytes, metadata)], { type: 'image/jpeg' });
+    if (!isPng(bytes)) bytes = await toPngBytes(blob);
+    return new Blob([embedPng(bytes, metadata)], { type: 'image/png' });
+};
+
+/**
+ * Reads metadata written by embedImageMetadata. Files from other tools fall back to their description
+ * (or the A1111 "parameters" chunk) as the prompt. Returns null when the file carries nothing usable.
+ */
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata | null> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    try {
+        if (isPng(bytes)) {
+            const entries = readPngText(bytes);
+            const settings = entries.find(e => e.keyword === SETTINGS_KEYWORD);
+            if (settings) return JSON.parse(settings.text);
+            const description = entries.find(e => e.keyword === 'Description' || e.keyword === 'parameters');
+            return description ? { prompt: description.text.split('\n')[0] } : null;
+        }
+        if (isJpeg(bytes)) {
+            const xmp = readJpegXmp(bytes);
+            if (!xmp) return null;
+            const settings = xmp.match(/<cpgvn:settings>([\s\S]*?)<\/cpgvn:settings>/);
+            if (settings) return JSON.parse(unescapeXml(settings[1]));
+            const description = xmp.match(/<dc:description>[\s\S]*?<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+            return description ? { prompt: unescapeXml(description[1]) } : null;
+        }
+    } catch (e) {
+        console.warn("Could not read image metadata:", e);
+    }
+    return null;
+};
+
+/** Saves an image, embedding metadata when given. Falls back to the bare image if embedding fails. */
+export const downloadImage = async (imageUrl: string, baseName: string, metadata?: ImageMetadata): Promise<void> => {
+    let blob: Blob;
+    try {
+        blob = metadata ? await embedImageMetadata(imageUrl, metadata) : await (await fetch(imageUrl)).blob();
+    } catch (e) {
+        console.warn("Could not embed image metadata, downloading without it:", e);
+        blob = await (await fetch(imageUrl)).blob();
+    }
+    const extension = blob.type === 'image/jpeg' ? 'jpg' : (blob.type.split('/')[1] || 'png');
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
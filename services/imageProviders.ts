@@ -0,0 +1,305 @@
+import { SourceImage } from "../types";
+import { isLocalStandInEnabled, synthesizeStandInImages } from "./localStandIn";
+import { BadInputError, errorFromResponse, ProviderUnavailableError, SafetyBlockedError } from "./errors";
+import { proxyPost } from "./apiProxy";
+import { MODEL_IDS } from "./modelIds";
+
+// --- Image Provider Abstraction ---
+// Every image backend (Imagen, Gemini image output, self-hosted Stable Diffusion, Pollinations...)
+// is described by an ImageProvider. generateImageRest walks the registry in the order chosen in
+// settings and uses the first enabled provider that declares the capability a tab needs.
+
+export type ImageCapability = 't2i' | 'i2i' | 'inpaint' | 'outpaint' | 'upscale';
+
+export interface ProviderCapabilities {
+    t2i: boolean;
+    i2i: boolean;
+    inpaint: boolean;   // honours a black/white mask (white = editable)
+    outpaint: boolean;
+    upscale: boolean;
+    negativePrompt: boolean;    // takes a separate negative prompt; otherwise negatives are folded into the prompt
+    seed: boolean;              // the same request and seed give the same image
+    maxSampleCount: number;
+    aspectRatios: string[];
+}
+
+export interface ImageGenerationRequest {
+    capability: ImageCapability;
+    prompt: string;
+    aspectRatio: string;
+    sampleCount: number;
+    inputImages: SourceImage[];
+    maskImage?: SourceImage | null;
+    seed?: number;          // honoured by providers that support it; recorded in the generation manifest either way
+    negativePrompt?: string; // only set for providers declaring capabilities.negativePrompt
+}
+
+export interface ImageProviderContext {
+    apiKey: string;
+    proxyUrl?: string;      // when set, Google models are called through the key proxy instead of with apiKey
+    signal?: AbortSignal;   // providers must pass this to fetch so Cancel/timeouts stop the request
+}
+
+export interface ImageProvider {
+    id: string;
+    label: string;
+    model: string;          // model name recorded in generation manifests
+    capabilities: ProviderCapabilities;
+    isAvailable: (ctx: ImageProviderContext) => boolean;
+    generate: (request: ImageGenerationRequest, ctx: ImageProviderContext) => Promise<string[]>;
+}
+
+export interface ImageProviderSettings {
+    order: string[];
+    disabled: string[];
+    concurrency?: Record<string, number>;   // max simultaneous jobs per provider (see jobQueue.ts)
+}
+
+const PROVIDER_SETTINGS_KEY = 'cpgvn_image_providers';
+const SELF_HOSTED_URL_KEY = 'cpgvn_selfhosted_url';
+
+export const STANDARD_ASPECT_RATIOS = ["1:1", "3:4", "4:3", "9:16", "16:9"];
+
+// --- Helpers ---
+export const aspectRatioToSize = (aspectRatio: string): { width: number; height: number } => {
+    if (aspectRatio === "16:9") return { width: 1280, height: 720 };
+    if (aspectRatio === "4:3") return { width: 1024, height: 768 };
+    if (aspectRatio === "3:4") return { width: 768, height: 1024 };
+    if (aspectRatio === "9:16") return { width: 720, height: 1280 };
+    return { width: 1024, height: 1024 };
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+export const getSelfHostedUrl = (): string => localStorage.getItem(SELF_HOSTED_URL_KEY) || '';
+
+export const updateSelfHostedUrl = (url: string) => {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    if (trimmed) {
+        localStorage.setItem(SELF_HOSTED_URL_KEY, trimmed);
+    } else {
+        localStorage.removeItem(SELF_HOSTED_URL_KEY);
+    }
+};
+
+// Calls a Google model directly with the key, or through the proxy so the key stays server-side.
+// Non-2xx responses become typed errors either way.
+const callGoogleModel = async (ctx: ImageProviderContext, label: string, model: string, method: 'predict' | 'generateContent', body: unknown): Promise<any> => {
+    if (ctx.proxyUrl) return proxyPost(ctx.proxyUrl, '/api/generate', { model, method, body }, ctx.signal);
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}?key=${ctx.apiKey}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal: ctx.signal,
+        body: JSON.stringify(body)
+    });
+    if (!response.ok) throw await errorFromResponse(response, label);
+    return response.json();
+};
+
+const hasGoogleAccess = (ctx: ImageProviderContext) => !!ctx.apiKey || !!ctx.proxyUrl;
+
+// --- Google Imagen 3 (:predict) ---
+const imagenProvider: ImageProvider = {
+    id: 'imagen',
+    label: 'Google Imagen 3',
+    model: MODEL_IDS.IMAGE_GEN,
+    capabilities: { t2i: true, i2i: true, inpaint: false, outpaint: false, upscale: false, negativePrompt: false, seed: false, maxSampleCount: 4, aspectRatios: STANDARD_ASPECT_RATIOS },
+    isAvailable: hasGoogleAccess,
+    generate: async (request, ctx) => {
+        // The Gemini API endpoint for Imagen does not accept a seed, so request.seed is not sent
+        const instance: any = { prompt: request.prompt };
+
+        // Proper Img2Img often requires Vertex AI, but we attempt the standard 'image' field first.
+        if (request.inputImages.length > 0) {
+            instance.image = { bytesBase64Encoded: request.inputImages[0].base64 };
+        }
+
+        const parameters = { sampleCount: request.sampleCount, aspectRatio: request.aspectRatio };
+        let data: any;
+        try {
+            data = await callGoogleModel(ctx, imagenProvider.label, imagenProvider.model, 'predict', { instances: [instance], parameters });
+        } catch (error) {
+            // If 400 error, it's likely the key doesn't support I2I/Variations. Retry with T2I only.
+            if (!(error instanceof BadInputError) || request.inputImages.length === 0) throw error;
+            console.warn("Google API Key likely doesn't support I2I. Retrying with T2I...");
+            data = await callGoogleModel(ctx, imagenProvider.label, imagenProvider.model, 'predict', { instances: [{ prompt: request.prompt }], parameters });
+        }
+
+        // Imagen drops filtered samples instead of failing; an empty list with a filter reason means all were blocked
+        if (!data.predictions || data.predictions.length === 0) throw new ProviderUnavailableError("Imagen returned no images", { provider: imagenProvider.label });
+        if (data.predictions.every((p: any) => !p.bytesBase64Encoded && p.raiFilteredReason)) {
+            throw new SafetyBlockedError(data.predictions[0].raiFilteredReason, { provider: imagenProvider.label });
+        }
+        return data.predictions.map((p: any) => `data:${p.mimeType || 'image/png'};base64,${p.bytesBase64Encoded}`);
+    }
+};
+
+// --- Gemini native image output (generateContent with IMAGE modality) ---
+const geminiImageProvider: ImageProvider = {
+    id: 'gemini-image',
+    label: 'Gemini Image Output',
+    model: 'gemini-2.0-flash-preview-image-generation',
+    capabilities: { t2i: true, i2i: true, inpaint: false, outpaint: true, upscale: false, negativePrompt: false, seed: true, maxSampleCount: 1, aspectRatios: STANDARD_ASPECT_RATIOS },
+    isAvailable: hasGoogleAccess,
+    generate: async (request, ctx) => {
+        const parts: any[] = request.inputImages.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.base64 } }));
+        if (request.maskImage) {
+            parts.push({ inlineData: { mimeType: request.maskImage.mimeType, data: request.maskImage.base64 } });
+        }
+        parts.push({ text: `${request.prompt}\nAspect ratio: ${request.aspectRatio}.` });
+
+        const data = await callGoogleModel(ctx, geminiImageProvider.label, geminiImageProvider.model, 'generateContent', {
+            contents: [{ role: 'user', parts }],
+            generationConfig: { responseModalities: ['TEXT', 'IMAGE'], ...(request.seed !== undefined ? { seed: request.seed } : {}) }
+        });
+
+        const blockReason = data.promptFeedback?.blockReason || (data.candidates?.[0]?.finishReason === 'SAFETY' ? 'SAFETY' : null);
+        if (blockReason) throw new SafetyBlockedError(`Gemini blocked the request (${blockReason})`, { provider: geminiImageProvider.label });
+        const images = (data.candidates?.[0]?.content?.parts || [])
+            .filter((p: any) => p.inlineData?.data)
+            .map((p: any) => `data:${p.inlineData.mimeType || 'image/png'};base64,${p.inlineData.data}`);
+        if (images.length === 0) throw new ProviderUnavailableError("Gemini returned no image", { provider: geminiImageProvider.label });
+        return images;
+    }
+};
+
+// --- Self-hosted Stable Diffusion (Automatic1111-compatible /sdapi/v1 API, also served by ComfyUI bridges) ---
+const selfHostedProvider: ImageProvider = {
+    id: 'self-hosted',
+    label: 'Self-hosted (A1111 / ComfyUI)',
+    model: 'stable-diffusion',
+    capabilities: { t2i: true, i2i: true, inpaint: true, outpaint: true, upscale: true, negativePrompt: true, seed: true, maxSampleCount: 8, aspectRatios: STANDARD_ASPECT_RATIOS },
+    isAvailable: () => !!getSelfHostedUrl(),
+    generate: async (request, ctx) => {
+        const baseUrl = getSelfHostedUrl();
+        const post = async (path: string, body: any) => {
+            const response = await fetch(`${baseUrl}${path}`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                signal: ctx.signal,
+                body: JSON.stringify(body)
+            });
+            if (!response.ok) throw await errorFromResponse(response, selfHostedProvider.label);
+            return response.json();
+        };
+
+        if (request.capability === 'upscale' && request.inputImages.length > 0) {
+            const data = await post('/sdapi/v1/extra-single-image', {
+                image: request.inputImages[0].base64,
+                upscaling_resize: 2,
+                upscaler_1: "R-ESRGAN 4x+"
+            });
+            return [`data:image/png;base64,${data.image}`];
+        }
+
+        const { width, height } = aspectRatioToSize(request.aspectRatio);
+        const common = { prompt: request.prompt, negative_prompt: request.negativePrompt || '', width, height, batch_size: request.sampleCount, seed: request.seed ?? -1 };
+
+        const data = request.inputImages.length > 0
+            ? await post('/sdapi/v1/img2img', {
+                ...common,
+                init_images: [request.inputImages[0].base64],
+                ...(request.maskImage ? { mask: request.maskImage.base64, inpainting_fill: 1, inpaint_full_res: false } : {}),
+                denoising_strength: request.maskImage ? 0.75 : 0.55
+            })
+            : await post('/sdapi/v1/txt2img', common);
+
+        if (!data.images || data.images.length === 0) throw new ProviderUnavailableError("Self-hosted endpoint returned no images", { provider: selfHostedProvider.label });
+        return data.images.map((b64: string) => `data:image/png;base64,${b64}`);
+    }
+};
+
+// --- Pollinations.ai (free, text-to-image only) ---
+// To avoid "anonymous tier limit", we rotate models and add cache-busting.
+const pollinationsProvider: ImageProvider = {
+    id: 'pollinations',
+    label: 'Pollinations (Flux)',
+    model: 'flux',
+    capabilities: { t2i: true, i2i: false, inpaint: false, outpaint: false, upscale: false, negativePrompt: false, seed: true, maxSampleCount: 4, aspectRatios: STANDARD_ASPECT_RATIOS },
+    isAvailable: () => true,
+    generate: async (request, ctx) => {
+        const { width, height } = aspectRatioToSize(request.aspectRatio);
+        const promises = Array.from({ length: request.sampleCount }).map(async (_, i) => {
+            const seed = request.seed !== undefined ? request.seed + i : Math.floor(Math.random() * 10000000);
+            // Rotating models to avoid some rate limits: flux -> turbo. A fixed seed pins the model too.
+            const model = request.seed !== undefined || Math.random() > 0.5 ? 'flux' : 'turbo';
+            const finalUrl = `https://image.pollinations.ai/prompt/${encodeURIComponent(request.prompt)}?width=${width}&height=${height}&seed=${seed}&nologo=true&model=${model}`;
+
+            const response = await fetch(finalUrl, { signal: ctx.signal });
+            if (!response.ok) throw await errorFromResponse(response, pollinationsProvider.label);
+
+            // Rate-limit and error pages come back as text/JSON rather than an image
+            const blob = await response.blob();
+            if (!blob.type.startsWith('image/')) {
+                throw new ProviderUnavailableError(`Pollinations returned ${blob.type || 'an empty response'} instead of an image`, { provider: pollinationsProvider.label, retryable: true });
+            }
+            return blobToDataUrl(blob);
+        });
+        return Promise.all(promises);
+    }
+};
+
+// --- Local stand-in (offline, deterministic canvas output) ---
+const localStandInProvider: ImageProvider = {
+    id: 'local-stand-in',
+    label: 'Local Stand-in (Offline)',
+    model: 'canvas-stand-in',
+    capabilities: { t2i: true, i2i: true, inpaint: true, outpaint: true, upscale: true, negativePrompt: false, seed: true, maxSampleCount: 8, aspectRatios: STANDARD_ASPECT_RATIOS },
+    isAvailable: () => isLocalStandInEnabled(),
+    generate: async (request) => synthesizeStandInImages(request)
+};
+
+// --- Registry ---
+const registry: ImageProvider[] = [imagenProvider, geminiImageProvider, selfHostedProvider, pollinationsProvider];
+
+export const registerImageProvider = (provider: ImageProvider) => {
+    const index = registry.findIndex(p => p.id === provider.id);
+    if (index >= 0) {
+        registry[index] = provider;
+    } else {
+        registry.push(provider);
+    }
+};
+
+export const getProviderSettings = (): ImageProviderSettings => {
+    try {
+        const saved = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved);
+            return { order: parsed.order || [], disabled: parsed.disabled || [], concurrency: parsed.concurrency || {} };
+        }
+    } catch (e) {
+        console.error("Failed to read image provider settings", e);
+    }
+    return { order: [], disabled: [], concurrency: {} };
+};
+
+export const saveProviderSettings = (settings: ImageProviderSettings) => {
+    localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/** All registered providers, sorted by the saved order (unknown ids keep their registration order at the end). */
+export const getImageProviders = (): ImageProvider[] => {
+    const { order } = getProviderSettings();
+    const rank = (id: string) => {
+        const i = order.indexOf(id);
+        return i === -1 ? order.length + registry.findIndex(p => p.id === id) : i;
+    };
+    return [...registry].sort((a, b) => rank(a.id) - rank(b.id));
+};
+
+export const isProviderEnabled = (id: string): boolean => !getProviderSettings().disabled.includes(id);
+
+/** Enabled, available providers that declare the capability, in priority order. */
+export const resolveProviders = (capability: ImageCapability, ctx: ImageProviderContext): ImageProvider[] => {
+    // Offline mode never touches the network, whatever the saved order says
+    if (isLocalStandInEnabled()) return [localStandInProvider];
+    return getImageProviders().filter(p => isProviderEnabled(p.id) && p.isAvailable(ctx) && p.capabilities[capability]);
+};
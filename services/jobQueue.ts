@@ -0,0 +1,167 @@
+import { useSyncExternalStore } from "react";
+import { ImageCapability, getProviderSettings } from "./imageProviders";
+import { getPrimaryImageProviderId } from "./geminiService";
+import { attributeSignal } from "./usageLedger";
+
+// --- Central Job Queue ---
+// Every generation call is wrapped in a job. Jobs are grouped into lanes (the image provider that
+// will serve them) and each lane runs at most `concurrency` jobs at once, so an Exterior batch
+// never blocks the Interior tab unless both compete for the same provider slot.
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+    id: string;
+    label: string;
+    source: string;          // tab or utility that created the job (e.g. 'exterior', 'expand_image')
+    lane: string;            // provider id the job is queued against
+    status: JobStatus;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    error?: string;
+    results?: string[];      // data URLs produced by the job, shown in the jobs drawer
+}
+
+export interface JobOptions {
+    label: string;
+    source: string;
+    capability?: ImageCapability;
+    signal?: AbortSignal;    // aborting this cancels the job whether queued or running
+}
+
+export const DEFAULT_LANE_CONCURRENCY = 2;
+const MAX_FINISHED_JOBS = 30;
+
+interface QueueEntry {
+    job: Job;
+    controller: AbortController;
+    start: () => void;
+}
+
+let jobs: Job[] = [];
+const entries = new Map<string, QueueEntry>();
+const listeners = new Set<() => void>();
+
+const emit = () => {
+    listeners.forEach(l => l());
+};
+
+const updateJob = (id: string, update: Partial<Job>) => {
+    jobs = jobs.map(j => j.id === id ? { ...j, ...update } : j);
+    const entry = entries.get(id);
+    if (entry) entry.job = { ...entry.job, ...update };
+    emit();
+};
+
+export const getLaneConcurrency = (lane: string): number => {
+    const value = getProviderSettings().concurrency?.[lane];
+    return value && value > 0 ? value : DEFAULT_LANE_CONCURRENCY;
+};
+
+// Start as many queued jobs as each lane allows, oldest first.
+const pump = () => {
+    const running: Record<string, number> = {};
+    jobs.forEach(j => { if (j.status === 'running') running[j.lane] = (running[j.lane] || 0) + 1; });
+    [...jobs].reverse().forEach(j => {
+        if (j.status !== 'queued') return;
+        if ((running[j.lane] || 0) >= getLaneConcurrency(j.lane)) return;
+        running[j.lane] = (running[j.lane] || 0) + 1;
+        entries.get(j.id)?.start();
+    });
+};
+
+const collectImages = (result: unknown): string[] => {
+    const values = Array.isArray(result) ? result : [result];
+    return values.filter((v): v is string => typeof v === 'string' && v.startsWith('data:image'));
+};
+
+const pruneFinished = () => {
+    const finished = jobs.filter(j => j.status !== 'queued' && j.status !== 'running');
+    if (finished.length > MAX_FINISHED_JOBS) {
+        const drop = new Set(finished.slice(MAX_FINISHED_JOBS).map(j => j.id));
+        jobs = jobs.filter(j => !drop.has(j.id));
+    }
+};
+
+/**
+ * Queues `task` and resolves/rejects with its outcome. The task receives the job's AbortSignal
+ * and must forward it to the service call (e.g. `generateImages(..., { signal })`).
+ */
+export const runJob = <T>(options: JobOptions, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+    const controller = new AbortController();
+    // Model calls made with the job's signal are billed to its source and the current project
+    attributeSignal(controller.signal, options.source);
+    const job: Job = {
+        id,
+        label: options.label,
+        source: options.source,
+        lane: getPrimaryImageProviderId(options.capability || 'i2i'),
+        status: 'queued',
+        createdAt: Date.now()
+    };
+
+    return new Promise<T>((resolve, reject) => {
+        const onExternalAbort = () => controller.abort(options.signal?.reason);
+        options.signal?.addEventListener('abort', onExternalAbort);
+
+        const finish = (update: Partial<Job>) => {
+            options.signal?.removeEventListener('abort', onExternalAbort);
+            entries.delete(id);
+            updateJob(id, { ...update, finishedAt: Date.now() });
+            pruneFinished();
+            pump();
+        };
+
+        // A queued job that gets cancelled never starts
+        controller.signal.addEventListener('abort', () => {
+            if (entries.get(id)?.job.status === 'queued') {
+                finish({ status: 'cancelled' });
+                reject(controller.signal.reason ?? new DOMException("Request cancelled", "AbortError"));
+            }
+        });
+
+        entries.set(id, {
+            job,
+            controller,
+            start: () => {
+                updateJob(id, { status: 'running', startedAt: Date.now() });
+                task(controller.signal).then(result => {
+                    finish({ status: 'succeeded', results: collectImages(result) });
+                    resolve(result);
+                }, error => {
+                    const cancelled = controller.signal.aborted && error?.name !== 'TimeoutError';
+                    finish({ status: cancelled ? 'cancelled' : 'failed', error: cancelled ? undefined : (error?.message || String(error)) });
+                    reject(error);
+                });
+            }
+        });
+
+        jobs = [job, ...jobs];
+        emit();
+        if (options.signal?.aborted) onExternalAbort();
+        pump();
+    });
+};
+
+export const cancelJob = (id: string) => {
+    entries.get(id)?.controller.abort();
+};
+
+export const clearFinishedJobs = () => {
+    jobs = jobs.filter(j => j.status === 'queued' || j.status === 'running');
+    emit();
+};
+
+export const subscribeJobs = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getJobs = (): Job[] => jobs;
+
+export const isJobActive = (job: Job): boolean => job.status === 'queued' || job.status === 'running';
+
+/** React hook: live list of jobs, newest first. */
+export const useJobs = (): Job[] => useSyncExternalStore(subscribeJobs, getJobs);
@@ -0,0 +1,175 @@
+import type { ImageGenerationRequest } from "./imageProviders";
+
+// --- Local Stand-in (Offline Mock) ---
+// Deterministic replacement for Gemini + every image provider. Images are synthesized on a canvas
+// (source image tinted and annotated with the prompt and seed) and analysis calls return canned text,
+// so the whole UI can run for demos, staff training and end-to-end tests without a key or network.
+
+const LOCAL_STAND_IN_KEY = 'cpgvn_local_stand_in';
+
+export const isLocalStandInEnabled = (): boolean => localStorage.getItem(LOCAL_STAND_IN_KEY) === '1';
+
+export const setLocalStandInEnabled = (enabled: boolean) => {
+    if (enabled) {
+        localStorage.setItem(LOCAL_STAND_IN_KEY, '1');
+    } else {
+        localStorage.removeItem(LOCAL_STAND_IN_KEY);
+    }
+};
+
+// 32-bit string hash, so identical prompts always give identical images.
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) - hash) + value.charCodeAt(i);
+        hash = hash & hash;
+    }
+    return Math.abs(hash);
+};
+
+const sizeForAspectRatio = (aspectRatio: string, longSide: number = 1024): { width: number; height: number } => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return { width: longSide, height: longSide };
+    return w >= h
+        ? { width: longSide, height: Math.round(longSide * h / w) }
+        : { width: Math.round(longSide * w / h), height: longSide };
+};
+
+const loadDataUrl = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Failed to load image"));
+        img.src = src;
+    });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+    const words = text.replace(/\s+/g, ' ').trim().split(' ');
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+            if (lines.length === maxLines) break;
+        } else {
+            line = candidate;
+        }
+    }
+    if (lines.length < maxLines && line) lines.push(line);
+    if (lines.length === maxLines && words.join(' ').length > lines.join(' ').length) {
+        lines[maxLines - 1] = lines[maxLines - 1].replace(/.{0,3}$/, '...');
+    }
+    return lines;
+};
+
+const synthesizeImage = async (request: ImageGenerationRequest, seed: number): Promise<string> => {
+    const source = request.inputImages[0];
+    const sourceImg = source ? await loadDataUrl(`data:${source.mimeType};base64,${source.base64}`) : null;
+
+    // Edits keep the source resolution so strictComposite lines up; everything else follows the aspect ratio.
+    const { width, height } = sourceImg && request.capability !== 'outpaint'
+        ? { width: sourceImg.naturalWidth, height: sourceImg.naturalHeight }
+        : sizeForAspectRatio(request.aspectRatio);
+    const scale = request.capability === 'upscale' ? 2 : 1;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d')!;
+    const hue = seed % 360;
+
+    if (sourceImg) {
+        // Contain the source, padding the rest with a neutral tone (acts as the "outpainted" area)
+        ctx.fillStyle = `hsl(${hue}, 20%, 25%)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        const fit = Math.min(canvas.width / sourceImg.naturalWidth, canvas.height / sourceImg.naturalHeight);
+        const dw = sourceImg.naturalWidth * fit;
+        const dh = sourceImg.naturalHeight * fit;
+        ctx.drawImage(sourceImg, (canvas.width - dw) / 2, (canvas.height - dh) / 2, dw, dh);
+    } else {
+        const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+        gradient.addColorStop(0, `hsl(${hue}, 45%, 35%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 15%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    // Tint: the whole frame, or only the white area of the mask when inpainting
+    const tint = document.createElement('canvas');
+    tint.width = canvas.width;
+    tint.height = canvas.height;
+    const tintCtx = tint.getContext('2d')!;
+    tintCtx.fillStyle = `hsla(${hue}, 80%, 50%, ${request.maskImage ? 0.55 : 0.25})`;
+    tintCtx.fillRect(0, 0, tint.width, tint.height);
+    if (request.maskImage) {
+        const maskImg = await loadDataUrl(`data:${request.maskImage.mimeType};base64,${request.maskImage.base64}`);
+        const maskCanvas = document.createElement('canvas');
+        maskCanvas.width = tint.width;
+        maskCanvas.height = tint.height;
+        const maskCtx = maskCanvas.getContext('2d')!;
+        maskCtx.drawImage(maskImg, 0, 0, tint.width, tint.height);
+        // Convert luminance to alpha so black areas stay untouched
+        const data = maskCtx.getImageData(0, 0, tint.width, tint.height);
+        for (let i = 0; i < data.data.length; i += 4) {
+            data.data[i + 3] = data.data[i];
+        }
+        maskCtx.putImageData(data, 0, 0);
+        tintCtx.globalCompositeOperation = 'destination-in';
+        tintCtx.drawImage(maskCanvas, 0, 0);
+    }
+    ctx.drawImage(tint, 0, 0);
+
+    // Annotation band with the prompt and seed
+    const fontSize = Math.max(14, Math.round(canvas.width / 48));
+    ctx.font = `${fontSize}px sans-serif`;
+    const lines = wrapText(ctx, request.prompt, canvas.width - fontSize * 2, 4);
+    const bandHeight = (lines.length + 2) * fontSize * 1.4;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, canvas.height - bandHeight, canvas.width, bandHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.fillText(`LOCAL STAND-IN · ${request.capability.toUpperCase()} · seed ${seed}`, fontSize, canvas.height - bandHeight + fontSize * 1.4);
+    ctx.font = `${fontSize}px sans-serif`;
+    lines.forEach((line, i) => ctx.fillText(line, fontSize, canvas.height - bandHeight + fontSize * 1.4 * (i + 2)));
+
+    return canvas.toDataURL('image/png');
+};
+
+export const synthesizeStandInImages = async (request: ImageGenerationRequest): Promise<string[]> => {
+    const baseSeed = request.seed ?? hashString(`${request.capability}|${request.aspectRatio}|${request.prompt}`);
+    return Promise.all(Array.from({ length: request.sampleCount }).map((_, i) => synthesizeImage(request, (baseSeed + i) % 10000000)));
+};
+
+// --- Canned analysis text ---
+const CANNED_ANALYSIS = "Modern low-rise building with a clean rectilinear massing, white render walls, timber louvres, large floor-to-ceiling glazing and a flat roof with deep overhangs. Surrounded by tropical landscaping, soft daylight from the left.";
+
+const cannedTextFor = (task: string): string => {
+    const lower = task.toLowerCase();
+    if (lower.includes('20 prompt')) {
+        return Array.from({ length: 20 }, (_, i) => `${i + 1}. Ảnh kiến trúc mẫu số ${i + 1}: góc chụp ${['chính diện', '3/4 trái', '3/4 phải', 'từ trên cao'][i % 4]}, ánh sáng ${['ban ngày', 'hoàng hôn', 'ban đêm'][i % 3]}.`).join('\n');
+    }
+    if (lower.includes('outpaint')) return "Open sky with light clouds, continuation of the paved forecourt and mature trees on both sides.";
+    if (lower.includes('diagram')) return "Clean axonometric diagram, white massing, red circulation arrows, blue landscape zones, thin black annotation lines.";
+    if (lower.includes('optimize')) {
+        const quoted = task.match(/"([^"]*)"/);
+        return `${quoted ? quoted[1] : 'Architectural edit'}, photorealistic, consistent lighting, matching materials and perspective.`;
+    }
+    if (lower.includes('output prompt') || lower.includes('layout')) return `Photorealistic 3D visualization of the provided drawing. ${CANNED_ANALYSIS}`;
+    return CANNED_ANALYSIS;
+};
+
+/** Minimal object with the same `models.generateContent` surface the service uses from GoogleGenAI. */
+export const createLocalStandInClient = () => ({
+    models: {
+        generateContent: async (request: any) => {
+            const parts: any[] = request?.contents?.[0]?.parts || [];
+            const task = parts.filter(p => typeof p.text === 'string').map(p => p.text).join('\n');
+            const text = cannedTextFor(task);
+            // Expose both the legacy `response.text()` and the current `text` string shapes
+            return { text, response: { text: () => text } };
+        }
+    }
+});
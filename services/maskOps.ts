@@ -0,0 +1,144 @@
+import { SelectionOp } from "../types";
+
+// --- Mask Selection Operations ---
+// Pixel operations behind the Edit tab's selection tools. A selection is a canvas-sized alpha array
+// (0-255); it is merged into the RGBA strokes of a mask layer, where any alpha counts as masked.
+// Everything here is plain array work on ImageData-shaped buffers, with no canvas or DOM access.
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Magic wand: the contiguous region around (x, y) whose colour stays within tolerance (0-255, per
+ * channel) of the clicked pixel. Returns a selection that is 255 inside and 0 outside.
+ */
+export const floodSelect = (rgba: Uint8ClampedArray, width: number, height: number, x: number, y: number, tolerance: number): Uint8ClampedArray => {
+    const selection = new Uint8ClampedArray(width * height);
+    const sx = Math.floor(x);
+    const sy = Math.floor(y);
+    if (sx < 0 || sy < 0 || sx >= width || sy >= height) return selection;
+
+    const seed = (sy * width + sx) * 4;
+    const [r, g, b] = [rgba[seed], rgba[seed + 1], rgba[seed + 2]];
+    const matches = (i: number) =>
+        Math.abs(rgba[i * 4] - r) <= tolerance && Math.abs(rgba[i * 4 + 1] - g) <= tolerance && Math.abs(rgba[i * 4 + 2] - b) <= tolerance;
+
+    const stack = [sy * width + sx];
+    selection[stack[0]] = 255;
+    while (stack.length > 0) {
+        const i = stack.pop()!;
+        const px = i % width;
+        const neighbours = [px > 0 ? i - 1 : -1, px < width - 1 ? i + 1 : -1, i - width, i + width];
+        for (const n of neighbours) {
+            if (n < 0 || n >= selection.length || selection[n] || !matches(n)) continue;
+            selection[n] = 255;
+            stack.push(n);
+        }
+    }
+    return selection;
+};
+
+// Running max (grow) or min (shrink) over [i - r, i + r] along one line, with a monotonic deque
+const morphLine = (src: Uint8ClampedArray, dst: Uint8ClampedArray, n: number, r: number, grow: boolean) => {
+    const deque = new Int32Array(n);
+    let head = 0;
+    let tail = 0;
+    let next = 0;
+    for (let i = 0; i < n; i++) {
+        const last = Math.min(n - 1, i + r);
+        while (next <= last) {
+            while (tail > head && (grow ? src[next] >= src[deque[tail - 1]] : src[next] <= src[deque[tail - 1]])) tail--;
+            deque[tail++] = next++;
+        }
+        while (deque[head] < i - r) head++;
+        dst[i] = src[deque[head]];
+    }
+};
+
+// Running mean over [i - r, i + r] along one line; edges average over the pixels that exist
+const blurLine = (src: Uint8ClampedArray, dst: Uint8ClampedArray, n: number, r: number) => {
+    let sum = 0;
+    for (let i = 0; i < Math.min(n, r); i++) sum += src[i];
+    for (let i = 0; i < n; i++) {
+        if (i + r < n) sum += src[i + r];
+        if (i - r - 1 >= 0) sum -= src[i - r - 1];
+        dst[i] = sum / (Math.min(n - 1, i + r) - Math.max(0, i - r) + 1);
+    }
+};
+
+// Applies a line operation to every row, then every column
+const separable = (alpha: Uint8ClampedArray, width: number, height: number, op: (src: Uint8ClampedArray, dst: Uint8ClampedArray, n: number) => void): Uint8ClampedArray => {
+    const rows = new Uint8ClampedArray(alpha.length);
+    const src = new Uint8ClampedArray(Math.max(width, height));
+    const dst = new Uint8ClampedArray(Math.max(width, height));
+    for (let y = 0; y < height; y++) {
+        op(alpha.subarray(y * width, (y + 1) * width), rows.subarray(y * width, (y + 1) * width), width);
+    }
+    const out = new Uint8ClampedArray(alpha.length);
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) src[y] = rows[y * width + x];
+        op(src, dst, height);
+        for (let y = 0; y < height; y++) out[y * width + x] = dst[y];
+    }
+    return out;
+};
+
+/** Grows (radius > 0) or shrinks (radius < 0) a selection by that many pixels. */
+export const growAlpha = (alpha: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    const r = Math.round(Math.abs(radius));
+    if (r === 0) return alpha.slice();
+    return separable(alpha, width, height, (src, dst, n) => morphLine(src, dst, n, r, radius > 0));
+};
+
+/** Softens selection edges; three box blurs approximate a Gaussian of the given radius. */
+export const featherAlpha = (alpha: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    const r = Math.max(1, Math.round(radius / 3));
+    let out = alpha;
+    for (let pass = 0; pass < 3; pass++) out = separable(out, width, height, (src, dst, n) => blurLine(src, dst, n, r));
+    return out;
+};
+
+export const extractAlpha = (rgba: Uint8ClampedArray): Uint8ClampedArray => {
+    const alpha = new Uint8ClampedArray(rgba.length / 4);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = rgba[i * 4 + 3];
+    return alpha;
+};
+
+/**
+ * Writes a new alpha channel into mask strokes in place. Pixels that gain coverage from nothing take
+ * the given colour, so grown areas stay visible on the canvas.
+ */
+export const replaceAlpha = (rgba: Uint8ClampedArray, alpha: Uint8ClampedArray, color: [number, number, number]) => {
+    for (let i = 0; i < alpha.length; i++) {
+        if (rgba[i * 4 + 3] === 0 && alpha[i] > 0) {
+            rgba[i * 4] = color[0];
+            rgba[i * 4 + 1] = color[1];
+            rgba[i * 4 + 2] = color[2];
+        }
+        rgba[i * 4 + 3] = alpha[i];
+    }
+};
+
+/**
+ * Merges a selection into mask strokes in place. add paints the selection in the brush colour at the
+ * brush opacity, subtract clears it, intersect keeps the strokes only where they are selected.
+ */
+export const applySelection = (rgba: Uint8ClampedArray, selection: Uint8ClampedArray, op: SelectionOp, color: [number, number, number], opacity: number) => {
+    for (let i = 0; i < selection.length; i++) {
+        const s = selection[i] / 255;
+        const a = i * 4 + 3;
+        if (op === 'add') {
+            if (s === 0) continue;
+            rgba[a - 3] = color[0];
+            rgba[a - 2] = color[1];
+            rgba[a - 1] = color[2];
+            rgba[a] = Math.max(rgba[a], Math.round(255 * opacity * s));
+        } else if (op === 'subtract') {
+            rgba[a] = Math.round(rgba[a] * (1 - s));
+        } else {
+            rgba[a] = Math.round(rgba[a] * s);
+        }
+    }
+};
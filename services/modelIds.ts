@@ -0,0 +1,10 @@
+// --- Model IDs ---
+// Shared by the service layer (geminiService.ts) and the image providers (imageProviders.ts), which
+// cannot import each other without a cycle.
+// User Request: "gemini-3-flash-preview" (Text/Logic) -> Real: "gemini-2.0-flash" (Current SOTA Speed/Logic)
+// User Request: "gemini-2.5-flash-image" (Image/Vision) -> Real: "imagen-3.0-generate-001" (Current SOTA Image Gen)
+
+export const MODEL_IDS = {
+    TEXT_LOGIC: 'gemini-2.0-flash-exp', // Corrected: Needs '-exp' suffix for current access
+    IMAGE_GEN: 'imagen-3.0-generate-001', // Keeps Imagen 3
+};
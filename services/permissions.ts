@@ -0,0 +1,88 @@
+import { useSyncExternalStore } from "react";
+import { UserRole } from "../types";
+import { getStoredUser, saveStoredUser } from "./activation";
+import { PermissionDeniedError } from "./errors";
+import { AppTabId, DEFAULT_ROLE, ROLE_PERMISSIONS, RolePermissions, UtilityId, isModelAllowedForRole, isUserRole } from "./rolePermissions";
+
+// --- Permissions (client side) ---
+// The signed-in user's role decides which tabs, utilities and models they see and how many images
+// they may generate per day. The proxy is the authority (it reports the role and enforces quota and
+// models); these checks keep the UI and the service layer consistent with it, and apply on their own
+// when no proxy is configured.
+
+const DAILY_USAGE_KEY = 'cpgvn_daily_image_usage';
+
+interface PermissionsSnapshot {
+    role: UserRole;
+    permissions: RolePermissions;
+    imagesToday: number;
+}
+
+const listeners = new Set<() => void>();
+let snapshot: PermissionsSnapshot | null = null;
+
+const notify = () => listeners.forEach(listener => listener());
+
+const today = () => new Date().toLocaleDateString('sv');
+
+export const getCurrentRole = (): UserRole => {
+    const role = getStoredUser()?.role;
+    return isUserRole(role) ? role : DEFAULT_ROLE;
+};
+
+/** Stores the role the proxy reported for the signed-in user. */
+export const setCurrentRole = (role: UserRole) => {
+    const user = getStoredUser();
+    if (!user || user.role === role) return;
+    saveStoredUser({ ...user, role });
+    notify();
+};
+
+export const getPermissions = (): RolePermissions => ROLE_PERMISSIONS[getCurrentRole()];
+
+export const canUseTab = (tab: AppTabId): boolean => getPermissions().tabs.includes(tab);
+
+export const canUseUtility = (utility: string): boolean => getPermissions().utilities.includes(utility as UtilityId);
+
+export const isModelAllowed = (model: string): boolean => isModelAllowedForRole(getCurrentRole(), model);
+
+export const getImagesUsedToday = (): number => {
+    try {
+        const usage = JSON.parse(localStorage.getItem(DAILY_USAGE_KEY) || 'null');
+        return usage?.date === today() ? usage.images : 0;
+    } catch {
+        return 0;
+    }
+};
+
+/** Throws before any provider is called when the role may not generate `count` more images today. */
+export const assertCanGenerateImages = (count: number) => {
+    const role = getCurrentRole();
+    const { dailyImageQuota } = ROLE_PERMISSIONS[role];
+    if (dailyImageQuota === 0) throw new PermissionDeniedError(`Image generation is not allowed for the ${role} role`);
+    if (getImagesUsedToday() + count > dailyImageQuota) {
+        throw new PermissionDeniedError(`Daily image allowance for the ${role} role is used up (${dailyImageQuota})`);
+    }
+};
+
+export const recordImageUsage = (count: number) => {
+    localStorage.setItem(DAILY_USAGE_KEY, JSON.stringify({ date: today(), images: getImagesUsedToday() + count }));
+    notify();
+};
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Re-read every time (sign-in/out also changes the stored user), but keep the object stable while nothing changed
+const getSnapshot = (): PermissionsSnapshot => {
+    const role = getCurrentRole();
+    const imagesToday = getImagesUsedToday();
+    if (!snapshot || snapshot.role !== role || snapshot.imagesToday !== imagesToday) {
+        snapshot = { role, permissions: ROLE_PERMISSIONS[role], imagesToday };
+    }
+    return snapshot;
+};
+
+export const usePermissions = (): PermissionsSnapshot => useSyncExternalStore(subscribe, getSnapshot);
@@ -0,0 +1,163 @@
+import { useSyncExternalStore } from "react";
+import { PresetConfig, PresetTab, PromptPreset, SourceImage } from "../types";
+import { getStoredUser } from "./activation";
+
+// --- Prompt Presets ---
+// Named render-tab configurations (prompt, dropdowns, creativity, aspect ratio, reference image).
+// They live in localStorage on this machine; a team shares its house style by exporting them to a
+// JSON file and importing it on each workstation.
+
+const PRESETS_KEY = 'cpgvn_prompt_presets';
+const EXPORT_FORMAT = 'cpgvn-prompt-presets';
+const EXPORT_VERSION = 1;
+const REFERENCE_MAX_SIZE = 1024;
+
+const PRESET_TABS: PresetTab[] = ['exterior', 'interior', 'masterplan'];
+
+const isSourceImage = (value: any): value is SourceImage =>
+    !!value && typeof value.base64 === 'string' && typeof value.mimeType === 'string';
+
+// Accepts anything that looks like a preset (from storage or an imported file) and drops the rest
+const normalizePreset = (value: any): PromptPreset | null => {
+    if (!value || typeof value.name !== 'string' || !value.name.trim() || !PRESET_TABS.includes(value.tab)) return null;
+    const fields: Record<string, string> = {};
+    if (value.fields && typeof value.fields === 'object') {
+        Object.keys(value.fields).forEach(key => {
+            if (typeof value.fields[key] === 'string') fields[key] = value.fields[key];
+        });
+    }
+    return {
+        id: typeof value.id === 'string' && value.id ? value.id : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+        name: value.name.trim(),
+        tab: value.tab,
+        tags: Array.isArray(value.tags) ? value.tags.filter((tag: any) => typeof tag === 'string' && tag.trim()).map((tag: string) => tag.trim()) : [],
+        fields,
+        creativityLevel: Number.isInteger(value.creativityLevel) ? Math.min(5, Math.max(1, value.creativityLevel)) : 3,
+        aspectRatio: typeof value.aspectRatio === 'string' ? value.aspectRatio : 'Auto',
+        referenceImage: isSourceImage(value.referenceImage) ? { base64: value.referenceImage.base64, mimeType: value.referenceImage.mimeType } : null,
+        author: typeof value.author === 'string' ? value.author : '',
+        createdAt: Number(value.createdAt) || Date.now(),
+        updatedAt: Number(value.updatedAt) || Date.now()
+    };
+};
+
+const loadPresets = (): PromptPreset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+        if (Array.isArray(stored)) return stored.map(normalizePreset).filter(Boolean) as PromptPreset[];
+    } catch (e) {
+        console.warn("Could not parse saved presets:", e);
+    }
+    return [];
+};
+
+let presets: PromptPreset[] = loadPresets();
+
+const listeners = new Set<() => void>();
+
+const emit = () => {
+    listeners.forEach(l => l());
+};
+
+// Writes before swapping the in-memory list, so a full localStorage leaves the library unchanged
+const persist = (next: PromptPreset[]) => {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(next));
+    presets = next;
+    emit();
+};
+
+const byName = (a: PromptPreset, b: PromptPreset) => a.name.localeCompare(b.name, undefined, { numeric: true });
+
+// Reference photos are only a style cue, so a 1024px JPEG is enough and keeps the library small
+const downscaleReference = async (image: SourceImage): Promise<SourceImage> => {
+    const blob = await (await fetch(`data:${image.mimeType};base64,${image.base64}`)).blob();
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, REFERENCE_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return { base64: canvas.toDataURL('image/jpeg', 0.85).split(',')[1], mimeType: 'image/jpeg' };
+};
+
+export const getPresets = (): PromptPreset[] => presets;
+
+/** Saves the configuration under a name; an existing preset with the same name on the same tab is replaced. */
+export const savePreset = async (tab: PresetTab, name: string, tags: string[], config: PresetConfig): Promise<PromptPreset> => {
+    const existing = presets.find(p => p.tab === tab && p.name.toLowerCase() === name.trim().toLowerCase());
+    const preset = normalizePreset({
+        ...config,
+        referenceImage: config.referenceImage ? await downscaleReference(config.referenceImage) : null,
+        id: existing?.id,
+        name,
+        tab,
+        tags,
+        author: getStoredUser()?.email || '',
+        createdAt: existing?.createdAt,
+        updatedAt: Date.now()
+    });
+    if (!preset) throw new Error(`Invalid preset name "${name}"`);
+    persist([...presets.filter(p => p.id !== preset.id), preset].sort(byName));
+    return preset;
+};
+
+export const deletePreset = (id: string) => {
+    persist(presets.filter(p => p.id !== id));
+};
+
+export const findPresetByName = (tab: PresetTab, name: string): PromptPreset | undefined =>
+    presets.find(p => p.tab === tab && p.name.toLowerCase() === name.trim().toLowerCase());
+
+export const presetToConfig = (preset: PromptPreset): PresetConfig => ({
+    fields: preset.fields,
+    creativityLevel: preset.creativityLevel,
+    aspectRatio: preset.aspectRatio,
+    referenceImage: preset.referenceImage
+});
+
+/** Downloads the given presets as a JSON file teammates can import. */
+export const exportPresets = (list: PromptPreset[], filename: string) => {
+    const file = { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), presets: list };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Merges an exported file into the library and returns how many presets were added or updated.
+ * Presets are matched by id, then by tab and name; the more recently updated copy wins.
+ */
+export const importPresets = (json: string): number => {
+    let file: any;
+    try {
+        file = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    const incoming = Array.isArray(file) ? file : file?.format === EXPORT_FORMAT ? file.presets : null;
+    if (!Array.isArray(incoming)) throw new Error("The file is not a CPGVN preset export.");
+
+    let next = [...presets];
+    let changed = 0;
+    incoming.map(normalizePreset).filter(Boolean).forEach((preset: PromptPreset) => {
+        const existing = next.find(p => p.id === preset.id) || next.find(p => p.tab === preset.tab && p.name.toLowerCase() === preset.name.toLowerCase());
+        if (existing && existing.updatedAt >= preset.updatedAt) return;
+        next = [...next.filter(p => p !== existing), existing ? { ...preset, id: existing.id } : preset];
+        changed++;
+    });
+    if (changed > 0) persist(next.sort(byName));
+    return changed;
+};
+
+// --- React ---
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/** React hook: every saved preset, sorted by name. */
+export const usePresets = (): PromptPreset[] => useSyncExternalStore(subscribe, getPresets);
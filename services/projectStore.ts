@@ -0,0 +1,118 @@
+import { useSyncExternalStore } from "react";
+import { Project } from "../types";
+import { DEFAULT_PROJECT_ID, copyProjectData, deleteProjectData } from "./historyStore";
+
+// --- Projects ---
+// Project metadata is small, so it stays in localStorage; the images it owns (sources and every
+// history list) live in the IndexedDB history store, keyed by project id.
+
+const PROJECTS_KEY = 'cpgvn_projects';
+const ACTIVE_PROJECT_KEY = 'cpgvn_active_project';
+
+const createDefaultProject = (): Project => ({
+    id: DEFAULT_PROJECT_ID,
+    name: 'Dự án chung',
+    client: '',
+    jobNumber: '',
+    coverImage: null,
+    archived: false,
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+});
+
+const loadProjects = (): Project[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PROJECTS_KEY) || '[]');
+        if (Array.isArray(stored) && stored.length > 0) return stored;
+    } catch (e) {
+        console.warn("Could not parse saved projects:", e);
+    }
+    return [createDefaultProject()];
+};
+
+let projects: Project[] = loadProjects();
+let activeProjectId: string = localStorage.getItem(ACTIVE_PROJECT_KEY) || DEFAULT_PROJECT_ID;
+if (!projects.some(p => p.id === activeProjectId)) activeProjectId = projects[0].id;
+
+const listeners = new Set<() => void>();
+
+const emit = () => {
+    listeners.forEach(l => l());
+};
+
+const persist = () => {
+    localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+    localStorage.setItem(ACTIVE_PROJECT_KEY, activeProjectId);
+    emit();
+};
+
+export const getProjects = (): Project[] => projects;
+
+export const getActiveProjectId = (): string => activeProjectId;
+
+export const getActiveProject = (): Project => projects.find(p => p.id === activeProjectId) || projects[0];
+
+export const setActiveProject = (id: string) => {
+    if (id === activeProjectId || !projects.some(p => p.id === id)) return;
+    activeProjectId = id;
+    persist();
+};
+
+export const createProject = (details: Pick<Project, 'name' | 'client' | 'jobNumber'>): Project => {
+    const project: Project = {
+        ...details,
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+        coverImage: null,
+        archived: false,
+        createdAt: Date.now(),
+        updatedAt: Date.now()
+    };
+    projects = [project, ...projects];
+    persist();
+    return project;
+};
+
+export const updateProject = (id: string, update: Partial<Omit<Project, 'id' | 'createdAt'>>) => {
+    projects = projects.map(p => p.id === id ? { ...p, ...update, updatedAt: Date.now() } : p);
+    persist();
+};
+
+/** Archived projects are hidden from the switcher by default; the active one moves to the next open project. */
+export const setProjectArchived = (id: string, archived: boolean) => {
+    updateProject(id, { archived });
+    if (archived && id === activeProjectId) {
+        const next = projects.find(p => !p.archived);
+        if (next) setActiveProject(next.id);
+    }
+};
+
+/** Copies the metadata and everything the project owns (history entries and sources). */
+export const duplicateProject = async (id: string, copySuffix: string): Promise<Project> => {
+    const source = projects.find(p => p.id === id);
+    if (!source) throw new Error(`Project ${id} not found`);
+    const copy = createProject({ name: `${source.name} ${copySuffix}`, client: source.client, jobNumber: source.jobNumber });
+    await copyProjectData(id, copy.id);
+    updateProject(copy.id, { coverImage: source.coverImage });
+    return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await deleteProjectData(id);
+    projects = projects.filter(p => p.id !== id);
+    // There is always at least one project to work in
+    if (projects.length === 0) projects = [createDefaultProject()];
+    if (id === activeProjectId) activeProjectId = (projects.find(p => !p.archived) || projects[0]).id;
+    persist();
+};
+
+export const subscribeProjects = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/** React hook: all projects (newest first) plus the active project. */
+export const useProjects = (): { projects: Project[]; activeProject: Project } => {
+    const list = useSyncExternalStore(subscribeProjects, getProjects);
+    const activeId = useSyncExternalStore(subscribeProjects, getActiveProjectId);
+    return { projects: list, activeProject: list.find(p => p.id === activeId) || list[0] };
+};
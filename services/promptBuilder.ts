@@ -0,0 +1,73 @@
+import { PromptSpec } from "../types";
+
+// --- Structured Prompts ---
+// Render tabs describe a render as a PromptSpec instead of concatenating strings. generateImages
+// assembles it (with the source and reference analysis) into the provider prompt; negatives go to
+// providers with a negative-prompt input and are folded into the text for the others.
+
+export const PROMPT_SPEC_FIELDS = ['subject', 'context', 'lighting', 'camera', 'materials', 'style'] as const;
+
+export type PromptSpecField = typeof PROMPT_SPEC_FIELDS[number];
+
+const FIELD_LABELS: Record<PromptSpecField, string> = {
+    subject: 'Subject',
+    context: 'Context',
+    lighting: 'Lighting',
+    camera: 'Camera',
+    materials: 'Materials',
+    style: 'Style'
+};
+
+export const emptyPromptSpec = (): PromptSpec => ({ subject: '', context: '', lighting: '', camera: '', materials: '', style: '', negatives: [] });
+
+/** Free-text prompts (angle requests, re-runs of renders made before specs existed) become the subject. */
+export const promptSpecFromText = (text: string, negatives: string[] = []): PromptSpec => ({ ...emptyPromptSpec(), subject: text, negatives });
+
+/** Splits a negatives field on commas, semicolons or new lines, dropping blanks and repeats. */
+export const parseNegatives = (text: string): string[] =>
+    [...new Set((text || '').split(/[,;\n]/).map(item => item.trim()).filter(Boolean))];
+
+// Joined with '. ', so trailing punctuation would double up
+const clean = (value: string | undefined): string => (value || '').trim().replace(/[.\s]+$/, '');
+
+/**
+ * Positive prompt text for a spec. visualContext (the source image analysis) and styleContext (the
+ * reference analysis) are only known at generation time; the inspector previews without them.
+ */
+export const assemblePrompt = (spec: PromptSpec, analysis: { visualContext?: string; styleContext?: string } = {}): string => {
+    const parts = ['Architectural high-quality render'];
+    if (clean(analysis.visualContext)) parts.push(`Structure to keep: ${clean(analysis.visualContext)}`);
+    PROMPT_SPEC_FIELDS.forEach(field => {
+        if (clean(spec[field])) parts.push(`${FIELD_LABELS[field]}: ${clean(spec[field])}`);
+    });
+    if (clean(analysis.styleContext)) parts.push(`Style reference: ${clean(analysis.styleContext)}`);
+    return `${parts.join('. ')}.`;
+};
+
+/** For providers without a negative-prompt input the negatives become an instruction in the prompt. */
+export const foldNegatives = (prompt: string, negatives: string[]): string =>
+    negatives.length > 0 ? `${prompt} Do not include: ${negatives.join(', ')}.` : prompt;
+
+// --- Variations ---
+// "More like #3": the image's seed is kept and the style gains a hint, picked by the seed so the same
+// variation can be reproduced from its manifest.
+export type VariationStrength = 'subtle' | 'strong';
+
+const VARIATION_HINTS: Record<VariationStrength, string[]> = {
+    subtle: [
+        'slight variation in planting and small details',
+        'subtle shift in light and shadow',
+        'minor variation in material tones and finishes'
+    ],
+    strong: [
+        'noticeably different landscaping and surroundings',
+        'alternative facade materials and colour palette',
+        'different atmosphere and sky'
+    ]
+};
+
+export const varyPromptSpec = (spec: PromptSpec, strength: VariationStrength, seed: number): PromptSpec => {
+    const hints = VARIATION_HINTS[strength];
+    const hint = `${strength === 'subtle' ? 'Variation' : 'Strong variation'}: ${hints[seed % hints.length]}`;
+    return { ...spec, style: [clean(spec.style), hint].filter(Boolean).join('; ') };
+};
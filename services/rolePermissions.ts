@@ -0,0 +1,65 @@
+import type { UserRole } from "../types";
+
+// --- Role Permissions ---
+// What each role may open and spend. Pure data: the app enforces it in the UI and service layer
+// (services/permissions.ts) and the proxy enforces the model and quota parts (server/proxy.ts).
+// The app reads the role from the user stored in the browser, so only the proxy's check is binding.
+
+export type AppTabId = 'exterior' | 'interior' | 'masterplan' | 'floorplan' | 'virtual_tour' | 'edit' | 'utilities';
+
+export type UtilityId = 'prompt_upgrade' | 'style_transfer' | 'diagram' | 'expand_image' | 'presentation' | 'mood_board' | 'finish_build' | 'create_video';
+
+export interface RolePermissions {
+    tabs: AppTabId[];
+    utilities: UtilityId[];
+    models: string[];           // selectable models (MODEL_CHOICES) this role may use
+    dailyImageQuota: number;    // 0 = may browse but not generate
+}
+
+export const USER_ROLES: UserRole[] = ['viewer', 'designer', 'lead', 'admin'];
+
+// Accounts without an explicit role (company domains, tokens issued before roles existed)
+export const DEFAULT_ROLE: UserRole = 'designer';
+
+// The models offered in the header picker
+export const MODEL_CHOICES = [
+    { id: 'gemini-2.0-flash-exp', label: 'Gemini 2.0 Flash' },
+    { id: 'imagen-3.0-generate-001', label: 'Imagen 3 (AI Studio)' },
+];
+
+const ALL_TABS: AppTabId[] = ['exterior', 'interior', 'masterplan', 'floorplan', 'virtual_tour', 'edit', 'utilities'];
+const ALL_UTILITIES: UtilityId[] = ['prompt_upgrade', 'style_transfer', 'diagram', 'expand_image', 'presentation', 'mood_board', 'finish_build', 'create_video'];
+const ALL_MODELS = MODEL_CHOICES.map(m => m.id);
+
+export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
+    viewer: {
+        tabs: ['exterior', 'interior', 'masterplan', 'floorplan', 'virtual_tour', 'utilities'],
+        utilities: ['prompt_upgrade'],   // the utilities tab lists only this one
+        models: ['gemini-2.0-flash-exp'],
+        dailyImageQuota: 0,
+    },
+    designer: {
+        tabs: ALL_TABS,
+        utilities: ALL_UTILITIES.filter(u => u !== 'create_video'),
+        models: ['gemini-2.0-flash-exp'],
+        dailyImageQuota: 100,
+    },
+    lead: {
+        tabs: ALL_TABS,
+        utilities: ALL_UTILITIES,
+        models: ALL_MODELS,
+        dailyImageQuota: 300,
+    },
+    admin: {
+        tabs: ALL_TABS,
+        utilities: ALL_UTILITIES,
+        models: ALL_MODELS,
+        dailyImageQuota: 1000,
+    },
+};
+
+export const isUserRole = (value: unknown): value is UserRole => USER_ROLES.includes(value as UserRole);
+
+/** Only models in the picker are gated; internal helper models (analysis, image output) are always allowed. */
+export const isModelAllowedForRole = (role: UserRole, model: string): boolean =>
+    !ALL_MODELS.includes(model) || ROLE_PERMISSIONS[role].models.includes(model);
@@ -0,0 +1,203 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { UsageEntry } from "../types";
+import { USAGE_STORE, openHistoryDb, requestToPromise, transactionDone } from "./historyStore";
+import { getActiveProject } from "./projectStore";
+import { getStoredUser } from "./activation";
+import { reportGeneratedImages } from "./userDirectory";
+
+// --- Usage Ledger ---
+// Every model call the service layer makes is recorded here: who, for which project and tab, which
+// provider and model, how many images or tokens, the estimated cost, latency and outcome. Entries live
+// in the history IndexedDB and are never trimmed, so the dashboard and the CSV export can bill clients
+// per project. Calls are attributed to the job that started them (jobQueue.ts tags the job's signal);
+// calls made outside a job count towards the tab that is open.
+
+// Estimated list prices in USD. Self-hosted, Pollinations and the offline stand-in cost nothing.
+const PRICES: Record<string, { perImage?: number; inputPerMillion?: number; outputPerMillion?: number }> = {
+    'imagen-3.0-generate-001': { perImage: 0.03 },
+    'gemini-2.0-flash-preview-image-generation': { perImage: 0.039 },
+    'gemini-2.0-flash-exp': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+};
+
+export const estimateCost = (model: string, images: number, inputTokens: number, outputTokens: number): number => {
+    const price = PRICES[model];
+    if (!price) return 0;
+    return images * (price.perImage || 0)
+        + inputTokens / 1e6 * (price.inputPerMillion || 0)
+        + outputTokens / 1e6 * (price.outputPerMillion || 0);
+};
+
+type UsageContext = Pick<UsageEntry, 'projectId' | 'projectName' | 'client' | 'jobNumber' | 'tab'>;
+
+export type UsageOutcome = Pick<UsageEntry, 'kind' | 'provider' | 'model' | 'success'> & Partial<Pick<UsageEntry, 'images' | 'inputTokens' | 'outputTokens' | 'error'>>;
+
+// The project is captured when a call starts, so switching projects mid-render bills the right one
+const captureContext = (tab: string): UsageContext => {
+    const project = getActiveProject();
+    return { projectId: project.id, projectName: project.name, client: project.client, jobNumber: project.jobNumber, tab };
+};
+
+const signalContexts = new WeakMap<AbortSignal, UsageContext>();
+let currentTab = 'unknown';
+
+/** Called by the job queue: calls made with this signal belong to `source` and the project active now. */
+export const attributeSignal = (signal: AbortSignal, source: string) => {
+    signalContexts.set(signal, captureContext(source));
+};
+
+/** Tab that direct (non-job) calls are attributed to. */
+export const setUsageTab = (tab: string) => {
+    currentTab = tab;
+};
+
+let entries: UsageEntry[] | null = null;
+let loading: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+// Kept alongside the entries so the header count needs no pass over the whole ledger per render
+let imageTotal = 0;
+const imagesIn = (list: UsageEntry[]) => list.reduce((sum, entry) => sum + (entry.success ? entry.images : 0), 0);
+
+const emit = () => listeners.forEach(l => l());
+
+const saveEntry = async (entry: UsageEntry) => {
+    const db = await openHistoryDb();
+    const tx = db.transaction(USAGE_STORE, 'readwrite');
+    tx.objectStore(USAGE_STORE).put(entry);
+    await transactionDone(tx);
+};
+
+// The ledger replaces the old single localStorage counter. Its images become one opening-balance
+// entry, dated 0 so it counts towards totals but not towards any recent period or project; the fixed
+// id keeps a retried migration from adding it twice. The counter is only removed once that is saved.
+const LEGACY_COUNT_KEY = 'cpgvn_image_generation_count';
+
+const migrateLegacyCounter = async () => {
+    const count = Number(localStorage.getItem(LEGACY_COUNT_KEY)) || 0;
+    if (count > 0) {
+        await saveEntry({
+            id: 'legacy-counter',
+            at: 0,
+            user: getStoredUser()?.email || '',
+            projectId: 'legacy',
+            projectName: '',
+            client: '',
+            jobNumber: '',
+            tab: 'legacy_counter',
+            kind: 'image',
+            provider: 'legacy',
+            model: '',
+            images: count,
+            inputTokens: 0,
+            outputTokens: 0,
+            cost: 0,
+            latencyMs: 0,
+            success: true
+        });
+    }
+    localStorage.removeItem(LEGACY_COUNT_KEY);
+};
+
+const loadEntries = () => {
+    if (!loading) {
+        loading = migrateLegacyCounter()
+            .catch(e => console.error("Failed to migrate the old image counter:", e))
+            .then(openHistoryDb)
+            .then(db => requestToPromise<UsageEntry[]>(db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE).index('byTime').getAll()))
+            .then(stored => {
+                // Keep anything recorded while the ledger was loading, unless its save already made it into `stored`
+                const storedIds = new Set(stored.map(entry => entry.id));
+                entries = [...stored, ...(entries || []).filter(entry => !storedIds.has(entry.id))];
+                imageTotal = imagesIn(entries);
+                emit();
+            })
+            .catch(e => {
+                console.error("Failed to load usage ledger:", e);
+                loading = null;
+            });
+    }
+    return loading;
+};
+
+/** Starts metering one call; invoke the returned function once it settles (later calls are ignored). */
+export const startUsage = (signal?: AbortSignal): ((outcome: UsageOutcome) => void) => {
+    const context = (signal && signalContexts.get(signal)) || captureContext(currentTab);
+    const startedAt = Date.now();
+    let settled = false;
+    return (outcome) => {
+        if (settled) return;
+        settled = true;
+        const images = outcome.images || 0;
+        const inputTokens = outcome.inputTokens || 0;
+        const outputTokens = outcome.outputTokens || 0;
+        const entry: UsageEntry = {
+            id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+            at: startedAt,
+            user: getStoredUser()?.email || '',
+            ...context,
+            ...outcome,
+            images,
+            inputTokens,
+            outputTokens,
+            // Images a failed call already produced were still billed
+            cost: estimateCost(outcome.model, images, inputTokens, outputTokens),
+            latencyMs: Date.now() - startedAt
+        };
+        entries = [...(entries || []), entry];
+        imageTotal += imagesIn([entry]);
+        emit();
+        saveEntry(entry).catch(e => console.error("Failed to save usage entry:", e));
+        if (entry.success && images > 0) reportGeneratedImages(images);
+    };
+};
+
+// --- CSV export ---
+const CSV_COLUMNS: (keyof UsageEntry)[] = [
+    'at', 'user', 'projectName', 'client', 'jobNumber', 'tab', 'kind', 'provider', 'model',
+    'images', 'inputTokens', 'outputTokens', 'cost', 'latencyMs', 'success', 'error'
+];
+
+const csvCell = (value: unknown): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageToCsv = (list: UsageEntry[]): string => {
+    const rows = list.map(entry => CSV_COLUMNS.map(column => {
+        if (column === 'at') return new Date(entry.at).toISOString();
+        if (column === 'cost') return entry.cost.toFixed(4);
+        return csvCell(entry[column]);
+    }).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const downloadUsageCsv = (list: UsageEntry[], filename: string) => {
+    // BOM so Excel opens Vietnamese project names as UTF-8
+    const url = URL.createObjectURL(new Blob(['\uFEFF', usageToCsv(list)], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- React ---
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const EMPTY: UsageEntry[] = [];
+const getSnapshot = () => entries || EMPTY;
+
+/** React hook: every ledger entry, oldest first. Loads the ledger on first use. */
+export const useUsageLedger = (): UsageEntry[] => {
+    useEffect(() => { loadEntries(); }, []);
+    return useSyncExternalStore(subscribe, getSnapshot);
+};
+
+/** React hook: images generated successfully, over the whole ledger. */
+export const useGeneratedImageCount = (): number => {
+    useEffect(() => { loadEntries(); }, []);
+    return useSyncExternalStore(subscribe, () => imageTotal);
+};
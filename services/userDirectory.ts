@@ -0,0 +1,50 @@
+import { AuditEntry, DirectoryUser, UserInfo, UserRole } from "../types";
+import { getProxyUrl, proxyGet, proxyPost } from "./apiProxy";
+
+// --- User Directory ---
+// Access requests, approvals and per-user counts live on the proxy (server/userRegistry.ts) so the
+// admin console sees every browser's users. Without a proxy the login screen falls back to e-mail.
+
+export type AccessStatus = DirectoryUser['status'];
+
+export const isDirectoryAvailable = (): boolean => !!getProxyUrl();
+
+const randomSecret = (): string => Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+/** Files (or renews) an access request. Returns the user with its request secret, and the server status. */
+export const requestAccess = async (user: UserInfo): Promise<{ user: UserInfo; status: AccessStatus }> => {
+    const withSecret: UserInfo = { ...user, requestSecret: user.requestSecret || randomSecret() };
+    const data = await proxyPost(getProxyUrl(), '/api/users/register', {
+        name: withSecret.name,
+        email: withSecret.email,
+        position: withSecret.position,
+        secret: withSecret.requestSecret
+    });
+    return { user: withSecret, status: data.status };
+};
+
+/** Where this browser's request stands; carries the activation token once an admin approved it. */
+export const checkAccessStatus = async (user: UserInfo): Promise<{ status: AccessStatus; token?: string }> => {
+    return proxyPost(getProxyUrl(), '/api/users/status', { email: user.email, secret: user.requestSecret || '' });
+};
+
+/** Adds to the signed-in user's generation count. Best effort: counting must never block a render. */
+export const reportGeneratedImages = (count: number) => {
+    if (!isDirectoryAvailable() || count <= 0) return;
+    proxyPost(getProxyUrl(), '/api/usage/report', { images: count }).catch(e => console.warn("Usage report failed:", e));
+};
+
+export const fetchCurrentAccount = async (): Promise<{ email: string; status: string; role: UserRole; isAdmin: boolean }> => proxyGet(getProxyUrl(), '/api/users/me');
+
+// --- Admin ---
+export const listDirectoryUsers = async (): Promise<DirectoryUser[]> => proxyGet(getProxyUrl(), '/api/admin/users');
+
+export const listAuditLog = async (): Promise<AuditEntry[]> => proxyGet(getProxyUrl(), '/api/admin/audit');
+
+export const approveUser = async (email: string, days?: number): Promise<DirectoryUser> => proxyPost(getProxyUrl(), '/api/admin/approve', { email, days });
+
+export const rejectUser = async (email: string, reason?: string): Promise<DirectoryUser> => proxyPost(getProxyUrl(), '/api/admin/reject', { email, reason });
+
+export const setUserRole = async (email: string, role: UserRole): Promise<DirectoryUser> => proxyPost(getProxyUrl(), '/api/admin/role', { email, role });
+
+export const deactivateUser = async (email: string, reason?: string): Promise<DirectoryUser> => proxyPost(getProxyUrl(), '/api/admin/deactivate', { email, reason });
@@ -4,6 +4,40 @@ export interface RenderHistoryItem {
   timestamp: string;
   images: string[];
   prompt: string;
+  manifest?: GenerationManifest; // missing on entries saved before manifests existed
+}
+
+// Structured render request (services/promptBuilder.ts); every render tab composes its form into one.
+export interface PromptSpec {
+  subject: string;
+  context: string;
+  lighting: string;
+  camera: string;
+  materials: string;
+  style: string;
+  negatives: string[];  // what must not appear
+}
+
+// Everything that went into a render, so it can be reproduced from history.
+export interface GenerationManifest {
+  renderType: 'exterior' | 'interior' | 'masterplan' | 'floorplan';
+  prompt: string;              // what the user asked for
+  promptSpec?: PromptSpec;     // structured form of the request; absent on renders made before it existed
+  finalPrompt: string;         // prompt actually sent to the image provider
+  negativePrompt?: string;     // sent separately to providers that accept one ('' when folded into finalPrompt)
+  visualContext: string;       // visualAnalyze description of the source image
+  styleContext: string;        // visualAnalyze description of the reference ('' without one)
+  sourceImage: SourceImage;
+  referenceImage: SourceImage | null;
+  isAnglePrompt: boolean;
+  creativityLevel: number;
+  numberOfImages: number;
+  aspectRatio: string;         // as chosen in the UI ('Auto' allowed)
+  resolvedAspectRatio: string; // ratio sent to the provider
+  provider: string;            // image provider id that served the request
+  model: string;
+  analysisModel: string;       // model that wrote visualContext / styleContext
+  seed: number;
 }
 
 export interface EditHistoryItem {
@@ -13,6 +47,109 @@ export interface EditHistoryItem {
   maskImage: SourceImage;
   prompt: string;
   resultImage: string;
+  document?: EditorDocument; // layered edit session after this result; absent on entries saved before layers existed
+}
+
+export type UserRole = 'viewer' | 'designer' | 'lead' | 'admin';
+
+// Signed-in user, stored in localStorage ('cpgvn_user'). Company e-mail domains are active
+// without a token; everyone else needs a signed activation token (services/activation.ts).
+export interface UserInfo {
+  name: string;
+  email: string;
+  position: string;
+  status: 'pending' | 'active' | 'expired';
+  activationToken?: string;
+  requestSecret?: string; // lets this browser collect its token from the proxy once approved
+  role?: UserRole;        // as last reported by the proxy; see services/rolePermissions.ts
+}
+
+// A user as the admin console sees it (server/userRegistry.ts, without secrets)
+export interface DirectoryUser {
+  email: string;
+  name: string;
+  position: string;
+  status: 'pending' | 'active' | 'rejected' | 'deactivated';
+  role?: UserRole;
+  requestedAt: number;
+  decidedAt?: number;
+  decidedBy?: string;
+  tokenExpiresAt?: number;
+  imagesGenerated: number;
+  imagesToday: number;
+  lastSeenAt?: number;
+}
+
+export interface AuditEntry {
+  at: number;
+  actor: string;
+  action: 'request' | 'approve' | 'reject' | 'deactivate' | 'role';
+  target: string;
+  detail?: string;
+}
+
+// A client job. Owns its source images and every history list (renders, edits, tour, utilities).
+export interface Project {
+  id: string;
+  name: string;
+  client: string;
+  jobNumber: string;
+  coverImage: string | null; // small data URL; defaults to the latest render thumbnail
+  archived: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A saved render-tab configuration (services/presetStore.ts), shared between teammates as JSON.
+export type PresetTab = 'exterior' | 'interior' | 'masterplan';
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  tab: PresetTab;
+  tags: string[];                  // studio standards, e.g. "House style", "Resort"
+  fields: Record<string, string>;  // the tab's custom prompt and dropdown selections, by field name
+  creativityLevel: number;
+  aspectRatio: string;
+  referenceImage: SourceImage | null; // downscaled when saved so presets fit in localStorage
+  author: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PresetConfig = Pick<PromptPreset, 'fields' | 'creativityLevel' | 'aspectRatio' | 'referenceImage'>;
+
+// One metered model call in the usage ledger (services/usageLedger.ts).
+export interface UsageEntry {
+  id: string;
+  at: number;
+  user: string;              // e-mail of the signed-in user
+  projectId: string;
+  projectName: string;
+  client: string;
+  jobNumber: string;
+  tab: string;               // tab or utility the call came from
+  kind: 'image' | 'text';
+  provider: string;
+  model: string;
+  images: number;
+  inputTokens: number;       // Gemini text calls only
+  outputTokens: number;
+  cost: number;              // estimated USD
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+}
+
+// Row shown in a history panel. Thumbnails are small JPEG data URLs; the full-size
+// RenderHistoryItem / EditHistoryItem is read from the history store on select.
+export interface HistoryPreview {
+  id: number;
+  timestamp: string;
+  prompt: string;
+  imageCount: number;
+  thumbnails: string[];
+  hasManifest?: boolean;       // the entry can be re-run
 }
 
 export interface Layout3DHistoryItem {
@@ -37,10 +174,17 @@ export interface BoundingBox {
   height: number;
 }
 
+// A numbered edit region with its own instruction, in image pixels. mask (a B/W data URL the size of
+// the image) narrows the region to its white pixels; without one the box itself is the region.
 export interface AnnotationBox extends BoundingBox {
   id: number;
+  prompt: string;
+  mask?: string;
 }
 
+// How several regions are edited: one request for all of them, or one masked pass per region
+export type RegionEditMode = 'combined' | 'sequential';
+
 export interface EditorAsset {
   id: string;
   type: 'image';
@@ -53,6 +197,47 @@ export interface EditorAsset {
   zIndex: number;
 }
 
+// Where an editor asset sits on the image, as fractions (0-1) of its width and height
+export interface ElementPlacement extends BoundingBox {
+  rotation: number; // degrees clockwise
+}
+
+// A text note placed on the image; position and size in canvas pixels (y is the top of the text)
+export interface EditorText {
+  id: string;
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  color: string;
+}
+
+// --- Layered edit document (services/editorDocument.ts) ---
+export type EditorLayerKind = 'base' | 'patch' | 'mask' | 'asset' | 'text';
+
+export type LayerBlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten';
+
+export interface EditorLayer {
+  id: string;
+  kind: EditorLayerKind;
+  name: string;
+  visible: boolean;
+  opacity: number;         // 0 to 1
+  blendMode: LayerBlendMode;
+  locked: boolean;
+  image?: string;          // canvas-sized data URL: the photo (base), a generated result (patch) or brush strokes (mask)
+  assets?: EditorAsset[];  // asset layers
+  texts?: EditorText[];    // text layers
+}
+
+export interface EditorDocument {
+  width: number;           // canvas size in pixels
+  height: number;
+  layers: EditorLayer[];   // bottom to top; layers[0] is always the base photo
+  activeLayerId: string;
+  regions?: AnnotationBox[]; // per-region instructions; absent on documents saved before regions existed
+}
+
 export interface EditorState {
   mode: 'brush' | 'eraser' | 'move' | 'asset';
   brushSize: number;
@@ -73,20 +258,40 @@ export interface RenderTabState {
   selectedImageIndex: number;
   useSketchyStyle: boolean;
   creativityLevel: number; // 1 to 5
+  negativePrompt: string;  // comma separated, as typed; see parseNegatives
+  manifest: GenerationManifest | null; // how generatedImages were made, embedded in downloads
 }
 
 // New Types for Advanced Editor
-export type ToolMode = 'brush' | 'eraser';
+export type ToolMode = 'brush' | 'eraser' | 'rect' | 'ellipse' | 'polygon' | 'lasso' | 'wand' | 'region' | 'asset' | 'text';
+// How a selection tool combines with the mask it draws into (services/maskOps.ts)
+export type SelectionOp = 'add' | 'subtract' | 'intersect';
 // Language type is already defined in components/LanguageContext, but referenced here in legacy code
 // We will use string for now or import it where needed.
 
-export interface HistoryItem {
+// One step of the Edit tab's history tree: the document after a command (a stroke, a selection, a
+// generation, an asset move...). Undo goes to the parent, redo to the child last visited, and a
+// command after an undo starts a new branch next to the old one (services/editHistory.ts).
+export interface EditHistoryNode {
     id: string;
-    result: string;
-    original: string;
+    parentId: string | null;
+    children: string[];      // oldest branch first
+    action: string;          // i18n key of the command, e.g. 'cmd_brush'
+    detail?: string;         // e.g. the prompt of a generation or the selection tool
+    document: EditorDocument;
+    result?: string;         // generations: the generated image
+    original?: string;       // generations: the photo as sent, for the before/after view
+    mergeKey?: string;       // consecutive commands with the same key (a drag, a slider) fold into one step
     timestamp: number;
 }
 
+export interface EditHistoryTree {
+    nodes: Record<string, EditHistoryNode>;
+    rootId: string;
+    currentId: string;
+    redoIds: Record<string, string>; // node id -> the child redo goes to
+}
+
 export interface GenerationState {
     originalImage: string | null;
     originalMimeType: string;
@@ -96,7 +301,6 @@ export interface GenerationState {
     aspectRatio: string;
     creativity: number;
     isProcessing: boolean;
-    history: HistoryItem[];
     canvasWidth: number;
     canvasHeight: number;
 }
@@ -10,6 +10,8 @@ const __dirname = path.dirname(__filename);
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
+  // With a proxy the key stays on the server (server/proxy.ts) and is not inlined into the bundle
+  const inlinedKey = env.API_PROXY_URL ? "" : (env.GEMINI_API_KEY || "");
   return {
     base: './',
     server: {
@@ -18,8 +20,10 @@ export default defineConfig(({ mode }) => {
     },
     plugins: [react()],
     define: {
-      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || ""),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || "")
+      'process.env.API_KEY': JSON.stringify(inlinedKey),
+      'process.env.GEMINI_API_KEY': JSON.stringify(inlinedKey),
+      'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL || ""),
+      'process.env.ACTIVATION_PUBLIC_KEY': JSON.stringify(env.ACTIVATION_PUBLIC_KEY || "")
     },
     resolve: {
       alias: {